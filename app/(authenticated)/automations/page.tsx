@@ -1,8 +1,30 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
+import {
+    fetchAutomations,
+    createAutomation,
+    setAutomationActive,
+    deleteAutomation,
+    fetchAutomationSchedulerRuns,
+    runAutomationSchedulerNow,
+    fetchTicketTypes,
+    fetchTicketPriorities,
+    fetchTicketStatuses,
+    fetchAgents,
+    fetchBusinessCalendars,
+    fetchCustomFields,
+    fetchTicketTags,
+    Automation,
+    AutomationSchedulerRun,
+    AutomationDryRunInput,
+    AutomationRuleSet,
+    NewAutomationData,
+    AutomationTriggerType,
+    BusinessCalendar,
+} from '@/lib/dataService';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -26,82 +48,128 @@ import {
     DialogTrigger,
 } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Plus, Clock, Zap, Settings2, ArrowRight } from 'lucide-react';
+import { Loader2, Plus, Clock, Zap, Settings2, Trash2, X, Play, History, FlaskConical } from 'lucide-react';
 import { toast } from 'sonner';
+import AutomationHistoryDialog from '@/components/automations/AutomationHistoryDialog';
+import AutomationDryRunDialog from '@/components/automations/AutomationDryRunDialog';
+import RuleBuilder, { RuleFieldOption } from '@/components/automations/RuleBuilder';
+import {
+    RULE_FIELDS, RuleFieldDefinition, customFieldRuleKey, describeRuleSet, emptyRuleSet, ruleFieldsWithCustomFields, toRuleSet, validateRuleSet
+} from '@/lib/automationRules';
 
-// Types for automations
-interface Automation {
-    id: string;
-    name: string;
-    description: string;
-    isActive: boolean;
-    trigger: {
-        type: string;
-        conditions: AutomationCondition[];
-    };
-    actions: AutomationAction[];
-    createdAt: string;
-    lastRun?: string;
-}
+const TRIGGER_LABELS: Record<AutomationTriggerType, string> = {
+    ticket_created: 'Ticket Created',
+    ticket_updated: 'Ticket Updated',
+    status_changed: 'Status Changed',
+    time_based: 'Time-based',
+};
 
-interface AutomationCondition {
-    field: string;
-    operator: string;
-    value: string;
-}
+const SCHEDULER_STATUS_VARIANTS: Record<AutomationSchedulerRun['status'], 'success' | 'warning' | 'destructive' | 'pending'> = {
+    running: 'pending',
+    completed: 'success',
+    completed_with_errors: 'warning',
+    failed: 'destructive',
+};
 
-interface AutomationAction {
-    type: string;
-    settings: Record<string, any>;
-}
-
-// Sample data - In production, this would come from your backend
-const sampleAutomations: Automation[] = [
-    {
-        id: '1',
-        name: 'Auto-assign IT Tickets',
-        description: 'Automatically assign IT-related tickets to available IT department agents',
-        isActive: true,
-        trigger: {
-            type: 'ticket_created',
-            conditions: [
-                { field: 'type', operator: 'equals', value: 'IT Support' }
-            ]
-        },
-        actions: [
-            { type: 'assign_to_department', settings: { department: 'IT' } }
-        ],
-        createdAt: '2024-01-01T00:00:00Z',
-        lastRun: '2024-02-20T15:30:00Z'
-    },
-    {
-        id: '2',
-        name: 'Urgent Ticket Escalation',
-        description: 'Escalate high-priority tickets if not responded to within 1 hour',
-        isActive: true,
-        trigger: {
-            type: 'time_based',
-            conditions: [
-                { field: 'priority', operator: 'equals', value: 'high' },
-                { field: 'response_time', operator: 'greater_than', value: '1h' }
-            ]
-        },
-        actions: [
-            { type: 'escalate_priority', settings: { level: 'urgent' } },
-            { type: 'notify_manager', settings: { channel: 'email' } }
-        ],
-        createdAt: '2024-01-15T00:00:00Z',
-        lastRun: '2024-02-20T14:45:00Z'
-    }
+// Each action type stores its single input under this settings key
+const ACTION_TYPES: { value: string; label: string; settingKey: string; placeholder: string }[] = [
+    { value: 'assign_to_department', label: 'Assign to Department', settingKey: 'department', placeholder: 'Specialization name, e.g. IT' },
+    { value: 'assign_to_agent', label: 'Assign to Agent', settingKey: 'agent_id', placeholder: 'Agent user ID' },
+    { value: 'set_priority', label: 'Set Priority', settingKey: 'level', placeholder: 'Priority name, e.g. Urgent' },
+    { value: 'set_status', label: 'Set Status', settingKey: 'status', placeholder: 'Status name, e.g. In Progress' },
+    { value: 'add_internal_note', label: 'Add Internal Note', settingKey: 'text', placeholder: 'Note text' },
+    { value: 'add_tags', label: 'Add Tags', settingKey: 'tags', placeholder: 'Comma-separated tags, e.g. billing, vip' },
+    { value: 'remove_tags', label: 'Remove Tags', settingKey: 'tags', placeholder: 'Comma-separated tags' },
+    { value: 'notify_admins', label: 'Notify Admins', settingKey: 'message', placeholder: 'Optional message' },
 ];
 
+const CALENDAR_TIME = '__CALENDAR__'; // Durations count every minute
+
+const emptyAutomationForm = () => ({
+    name: '',
+    description: '',
+    trigger_type: 'ticket_created' as AutomationTriggerType,
+    rule: emptyRuleSet() as AutomationRuleSet,
+    actions: [] as { type: string; value: string }[],
+    business_calendar_id: CALENDAR_TIME,
+});
+
+// Converts the dialog's form state into the rule fields stored on the automation
+function toRulePayload(form: ReturnType<typeof emptyAutomationForm>): Pick<NewAutomationData, 'conditions' | 'actions' | 'business_calendar_id'> {
+    return {
+        conditions: form.rule,
+        business_calendar_id: form.business_calendar_id === CALENDAR_TIME ? null : parseInt(form.business_calendar_id, 10),
+        actions: form.actions.map(action => {
+            const settingKey = ACTION_TYPES.find(t => t.value === action.type)?.settingKey || 'value';
+            return { type: action.type, settings: action.value ? { [settingKey]: action.value } : {} };
+        }),
+    };
+}
+
 export default function AutomationsPage() {
     const { user, isAdmin, isAgent, loading: authLoading } = useAuth();
     const router = useRouter();
-    const [automations, setAutomations] = useState<Automation[]>(sampleAutomations);
+    const [automations, setAutomations] = useState<Automation[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [selectedTab, setSelectedTab] = useState('all');
 
+    // New automation dialog
+    const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+    const [newAutomation, setNewAutomation] = useState(emptyAutomationForm);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [ruleFieldOptions, setRuleFieldOptions] = useState<Record<string, RuleFieldOption[]>>({});
+    const [businessCalendars, setBusinessCalendars] = useState<BusinessCalendar[]>([]);
+    const [ruleFields, setRuleFields] = useState<Record<string, RuleFieldDefinition>>(RULE_FIELDS);
+
+    const [schedulerRuns, setSchedulerRuns] = useState<AutomationSchedulerRun[]>([]);
+    const [isRunningScheduler, setIsRunningScheduler] = useState(false);
+
+    const [historyAutomation, setHistoryAutomation] = useState<Automation | null>(null);
+    const [dryRunAutomation, setDryRunAutomation] = useState<(AutomationDryRunInput & { name?: string }) | null>(null);
+
+    const loadAutomations = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const [fetchedAutomations, types, priorities, statuses, agents, calendars, customFields, tags] = await Promise.all([
+                fetchAutomations(),
+                fetchTicketTypes(),
+                fetchTicketPriorities(),
+                fetchTicketStatuses(),
+                fetchAgents(),
+                fetchBusinessCalendars(),
+                fetchCustomFields(),
+                fetchTicketTags(),
+            ]);
+            setAutomations(fetchedAutomations);
+            setBusinessCalendars(calendars);
+            setRuleFields(ruleFieldsWithCustomFields(customFields));
+            // Types, priorities and statuses are matched by name; assignees by user id
+            setRuleFieldOptions({
+                type: types.map(t => ({ value: t.name, label: t.name })),
+                priority: priorities.map(p => ({ value: p.name, label: p.name })),
+                status: statuses.map(s => ({ value: s.name, label: s.name })),
+                assignee: agents.map(a => ({ value: a.id, label: a.full_name || a.id })),
+                tags: tags.map(tag => ({ value: tag, label: tag })),
+                ...Object.fromEntries(customFields
+                    .filter(f => f.field_type === 'dropdown' || f.field_type === 'checkbox')
+                    .map(f => [
+                        customFieldRuleKey(f.id),
+                        f.field_type === 'checkbox'
+                            ? [{ value: 'true', label: 'Checked' }, { value: 'false', label: 'Unchecked' }]
+                            : (f.options || []).map(option => ({ value: option, label: option })),
+                    ])),
+            });
+            if (isAdmin) {
+                setSchedulerRuns(await fetchAutomationSchedulerRuns());
+            }
+        } catch (err: any) {
+            console.error("Failed to load automations:", err);
+            toast.error(err.message || "Failed to load automations.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [isAdmin]);
+
     useEffect(() => {
         if (!authLoading) {
             if (!user) {
@@ -110,25 +178,102 @@ export default function AutomationsPage() {
                 router.push('/dashboard');
                 toast.error("Only administrators and agents can access the automations page.");
             } else {
-                // In production, fetch automations from your backend
-                setIsLoading(false);
+                loadAutomations();
             }
         }
-    }, [user, isAdmin, isAgent, authLoading, router]);
+    }, [user, isAdmin, isAgent, authLoading, router, loadAutomations]);
 
-    const handleToggleAutomation = (automationId: string) => {
+    const handleToggleAutomation = async (automationId: number) => {
         if (!isAdmin) {
             toast.error("Only administrators can modify automations.");
             return;
         }
-        setAutomations(prevAutomations =>
-            prevAutomations.map(automation =>
-                automation.id === automationId
-                    ? { ...automation, isActive: !automation.isActive }
-                    : automation
-            )
-        );
-        toast.success("Automation status updated");
+        const automation = automations.find(a => a.id === automationId);
+        if (!automation) return;
+        try {
+            const updated = await setAutomationActive(automationId, !automation.is_active);
+            if (updated) {
+                setAutomations(prev => prev.map(a => (a.id === automationId ? updated : a)));
+            }
+            toast.success("Automation status updated");
+        } catch (err: any) {
+            console.error(`Failed to toggle automation #${automationId}:`, err);
+            toast.error(err.message || "Failed to update automation status.");
+        }
+    };
+
+    const handleRunScheduler = async () => {
+        setIsRunningScheduler(true);
+        try {
+            const run = await runAutomationSchedulerNow();
+            setSchedulerRuns(prev => [run, ...prev]);
+            toast.success(`Scheduler finished: ${run.executions} ticket(s) acted on`);
+            setAutomations(await fetchAutomations());
+        } catch (err: any) {
+            console.error("Failed to run scheduler:", err);
+            toast.error(err.message || "Failed to run the scheduler.");
+        } finally {
+            setIsRunningScheduler(false);
+        }
+    };
+
+    const handleDeleteAutomation = async (automationId: number) => {
+        if (!isAdmin) {
+            toast.error("Only administrators can modify automations.");
+            return;
+        }
+        try {
+            await deleteAutomation(automationId);
+            setAutomations(prev => prev.filter(a => a.id !== automationId));
+            toast.success("Automation deleted");
+        } catch (err: any) {
+            console.error(`Failed to delete automation #${automationId}:`, err);
+            toast.error(err.message || "Failed to delete automation.");
+        }
+    };
+
+    const handleCreateAutomation = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newAutomation.name.trim()) {
+            toast.error("Automation name cannot be empty.");
+            return;
+        }
+        if (newAutomation.actions.length === 0) {
+            toast.error("Add at least one action.");
+            return;
+        }
+        const ruleErrors = validateRuleSet(newAutomation.rule, ruleFields);
+        if (ruleErrors.length > 0) {
+            toast.error(ruleErrors[0]);
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const created = await createAutomation({
+                name: newAutomation.name.trim(),
+                description: newAutomation.description.trim() || null,
+                trigger_type: newAutomation.trigger_type,
+                ...toRulePayload(newAutomation),
+            });
+            if (created) {
+                setAutomations(prev => [...prev, created]);
+            }
+            setIsCreateDialogOpen(false);
+            setNewAutomation(emptyAutomationForm());
+            toast.success("Automation created");
+        } catch (err: any) {
+            console.error("Failed to create automation:", err);
+            toast.error(err.message || "Failed to create automation.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const updateAction = (index: number, updates: Partial<{ type: string; value: string }>) => {
+        setNewAutomation(prev => ({
+            ...prev,
+            actions: prev.actions.map((a, i) => (i === index ? { ...a, ...updates } : a)),
+        }));
     };
 
     if (authLoading || isLoading) {
@@ -144,6 +289,30 @@ export default function AutomationsPage() {
         return null; // Will redirect in useEffect
     }
 
+    // Lets rule summaries show agent names instead of user ids
+    const valueLabels = Object.fromEntries((ruleFieldOptions.assignee || []).map(o => [o.value, o.label]));
+
+    const renderAutomationGrid = (list: Automation[]) => (
+        list.length === 0 ? (
+            <p className="text-muted-foreground text-center py-10">No automations found.</p>
+        ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {list.map((automation) => (
+                    <AutomationCard
+                        key={automation.id}
+                        automation={automation}
+                        onToggle={handleToggleAutomation}
+                        onDelete={handleDeleteAutomation}
+                        onShowHistory={setHistoryAutomation}
+                        onDryRun={setDryRunAutomation}
+                        valueLabels={valueLabels}
+                        ruleFields={ruleFields}
+                    />
+                ))}
+            </div>
+        )
+    );
+
     return (
         <div className="container mx-auto p-4 md:p-6 lg:p-8">
             <div className="flex items-center justify-between mb-8">
@@ -157,7 +326,7 @@ export default function AutomationsPage() {
                     </p>
                 </div>
                 {isAdmin && (
-                    <Dialog>
+                    <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
                         <DialogTrigger asChild>
                             <Button>
                                 <Plus className="h-4 w-4 mr-2" />
@@ -171,33 +340,124 @@ export default function AutomationsPage() {
                                     Set up a new automated workflow for your tickets
                                 </DialogDescription>
                             </DialogHeader>
-                            <div className="grid gap-4 py-4">
-                                <div className="grid gap-2">
-                                    <Label htmlFor="name">Name</Label>
-                                    <Input id="name" placeholder="Enter automation name" />
-                                </div>
-                                <div className="grid gap-2">
-                                    <Label htmlFor="description">Description</Label>
-                                    <Input id="description" placeholder="Describe what this automation does" />
-                                </div>
-                                <div className="grid gap-2">
-                                    <Label>Trigger Type</Label>
-                                    <Select>
-                                        <SelectTrigger>
-                                            <SelectValue placeholder="Select trigger type" />
-                                        </SelectTrigger>
-                                        <SelectContent>
-                                            <SelectItem value="ticket_created">Ticket Created</SelectItem>
-                                            <SelectItem value="ticket_updated">Ticket Updated</SelectItem>
-                                            <SelectItem value="time_based">Time-based</SelectItem>
-                                            <SelectItem value="status_changed">Status Changed</SelectItem>
-                                        </SelectContent>
-                                    </Select>
+                            <form onSubmit={handleCreateAutomation}>
+                                <div className="grid gap-4 py-4 max-h-[60vh] overflow-y-auto pr-2">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="name">Name</Label>
+                                        <Input
+                                            id="name"
+                                            placeholder="Enter automation name"
+                                            value={newAutomation.name}
+                                            onChange={(e) => setNewAutomation(prev => ({ ...prev, name: e.target.value }))}
+                                            required
+                                        />
+                                    </div>
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="description">Description</Label>
+                                        <Input
+                                            id="description"
+                                            placeholder="Describe what this automation does"
+                                            value={newAutomation.description}
+                                            onChange={(e) => setNewAutomation(prev => ({ ...prev, description: e.target.value }))}
+                                        />
+                                    </div>
+                                    <div className="grid gap-2">
+                                        <Label>Trigger Type</Label>
+                                        <Select
+                                            value={newAutomation.trigger_type}
+                                            onValueChange={(value) => setNewAutomation(prev => ({ ...prev, trigger_type: value as AutomationTriggerType }))}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select trigger type" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {Object.entries(TRIGGER_LABELS).map(([value, label]) => (
+                                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label>Measure Durations In</Label>
+                                        <Select
+                                            value={newAutomation.business_calendar_id}
+                                            onValueChange={(value) => setNewAutomation(prev => ({ ...prev, business_calendar_id: value }))}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={CALENDAR_TIME}>Calendar time (24/7)</SelectItem>
+                                                {businessCalendars.map(calendar => (
+                                                    <SelectItem key={calendar.id} value={String(calendar.id)}>Business hours: {calendar.name}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label>Conditions</Label>
+                                        <RuleBuilder
+                                            value={newAutomation.rule}
+                                            onChange={(rule) => setNewAutomation(prev => ({ ...prev, rule }))}
+                                            fieldOptions={ruleFieldOptions}
+                                            fields={ruleFields}
+                                        />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <div className="flex items-center justify-between">
+                                            <Label>Actions</Label>
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => setNewAutomation(prev => ({ ...prev, actions: [...prev.actions, { type: ACTION_TYPES[0].value, value: '' }] }))}
+                                            >
+                                                <Plus className="h-3 w-3 mr-1" /> Add Action
+                                            </Button>
+                                        </div>
+                                        {newAutomation.actions.map((action, index) => (
+                                            <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+                                                <Select value={action.type} onValueChange={(value) => updateAction(index, { type: value })}>
+                                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                                    <SelectContent>
+                                                        {ACTION_TYPES.map(t => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                                                    </SelectContent>
+                                                </Select>
+                                                <Input
+                                                    value={action.value}
+                                                    onChange={(e) => updateAction(index, { value: e.target.value })}
+                                                    placeholder={ACTION_TYPES.find(t => t.value === action.type)?.placeholder}
+                                                />
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={() => setNewAutomation(prev => ({ ...prev, actions: prev.actions.filter((_, i) => i !== index) }))}
+                                                >
+                                                    <X className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        ))}
+                                    </div>
                                 </div>
-                            </div>
-                            <DialogFooter>
-                                <Button type="submit">Create Automation</Button>
-                            </DialogFooter>
+                                <DialogFooter>
+                                    <Button
+                                        type="button"
+                                        variant="outline"
+                                        onClick={() => setDryRunAutomation({ ...toRulePayload(newAutomation), name: newAutomation.name })}
+                                    >
+                                        <FlaskConical className="h-4 w-4 mr-2" />
+                                        Dry Run
+                                    </Button>
+                                    <Button type="submit" disabled={isSubmitting}>
+                                        {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                        Create Automation
+                                    </Button>
+                                </DialogFooter>
+                            </form>
                         </DialogContent>
                     </Dialog>
                 )}
@@ -208,58 +468,78 @@ export default function AutomationsPage() {
                     <TabsTrigger value="all">All Automations</TabsTrigger>
                     <TabsTrigger value="active">Active</TabsTrigger>
                     <TabsTrigger value="inactive">Inactive</TabsTrigger>
+                    {isAdmin && <TabsTrigger value="scheduler">Scheduler Runs</TabsTrigger>}
                 </TabsList>
 
                 <TabsContent value="all" className="space-y-4">
-                    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                        {automations.map((automation) => (
-                            <AutomationCard
-                                key={automation.id}
-                                automation={automation}
-                                onToggle={handleToggleAutomation}
-                            />
-                        ))}
-                    </div>
+                    {renderAutomationGrid(automations)}
                 </TabsContent>
 
                 <TabsContent value="active" className="space-y-4">
-                    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                        {automations
-                            .filter(a => a.isActive)
-                            .map((automation) => (
-                                <AutomationCard
-                                    key={automation.id}
-                                    automation={automation}
-                                    onToggle={handleToggleAutomation}
-                                />
-                            ))}
-                    </div>
+                    {renderAutomationGrid(automations.filter(a => a.is_active))}
                 </TabsContent>
 
                 <TabsContent value="inactive" className="space-y-4">
-                    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                        {automations
-                            .filter(a => !a.isActive)
-                            .map((automation) => (
-                                <AutomationCard
-                                    key={automation.id}
-                                    automation={automation}
-                                    onToggle={handleToggleAutomation}
-                                />
-                            ))}
-                    </div>
+                    {renderAutomationGrid(automations.filter(a => !a.is_active))}
                 </TabsContent>
+
+                {isAdmin && (
+                    <TabsContent value="scheduler" className="space-y-4">
+                        <Card>
+                            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                                <div className="space-y-1">
+                                    <CardTitle className="text-lg">Time-based Scheduler</CardTitle>
+                                    <CardDescription>
+                                        Runs every 15 minutes against open tickets. Each automation fires at most once per ticket.
+                                    </CardDescription>
+                                </div>
+                                <Button size="sm" onClick={handleRunScheduler} disabled={isRunningScheduler}>
+                                    {isRunningScheduler ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                                    Run Now
+                                </Button>
+                            </CardHeader>
+                            <CardContent>
+                                {schedulerRuns.length === 0 ? (
+                                    <p className="text-muted-foreground text-center py-6">The scheduler has not run yet.</p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {schedulerRuns.map(run => (
+                                            <div key={run.id} className="flex flex-wrap items-center justify-between gap-2 border rounded-md p-3 text-sm">
+                                                <div className="flex items-center gap-2">
+                                                    <Badge variant={SCHEDULER_STATUS_VARIANTS[run.status]}>{run.status.replace(/_/g, ' ')}</Badge>
+                                                    <span>{new Date(run.started_at).toLocaleString()}</span>
+                                                </div>
+                                                <div className="text-muted-foreground">
+                                                    {run.automations_evaluated} automation(s) · {run.tickets_scanned} ticket(s) scanned · {run.executions} acted on · {run.actions_succeeded} action(s) ok · {run.actions_failed} failed
+                                                </div>
+                                                {run.error_message && <p className="w-full text-destructive">{run.error_message}</p>}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </TabsContent>
+                )}
             </Tabs>
+
+            <AutomationHistoryDialog automation={historyAutomation} onOpenChange={(open) => !open && setHistoryAutomation(null)} />
+            <AutomationDryRunDialog automation={dryRunAutomation} onOpenChange={(open) => !open && setDryRunAutomation(null)} />
         </div>
     );
 }
 
 interface AutomationCardProps {
     automation: Automation;
-    onToggle: (id: string) => void;
+    onToggle: (id: number) => void;
+    onDelete: (id: number) => void;
+    onShowHistory: (automation: Automation) => void;
+    onDryRun: (automation: Automation) => void;
+    valueLabels: Record<string, string>;
+    ruleFields: Record<string, RuleFieldDefinition>;
 }
 
-function AutomationCard({ automation, onToggle }: AutomationCardProps) {
+function AutomationCard({ automation, onToggle, onDelete, onShowHistory, onDryRun, valueLabels, ruleFields }: AutomationCardProps) {
     const { isAdmin } = useAuth();
     
     return (
@@ -272,12 +552,12 @@ function AutomationCard({ automation, onToggle }: AutomationCardProps) {
                     </div>
                     {isAdmin ? (
                         <Switch
-                            checked={automation.isActive}
+                            checked={automation.is_active}
                             onCheckedChange={() => onToggle(automation.id)}
                         />
                     ) : (
-                        <Badge variant={automation.isActive ? "success" : "secondary"}>
-                            {automation.isActive ? "Active" : "Inactive"}
+                        <Badge variant={automation.is_active ? "success" : "secondary"}>
+                            {automation.is_active ? "Active" : "Inactive"}
                         </Badge>
                     )}
                 </div>
@@ -286,27 +566,42 @@ function AutomationCard({ automation, onToggle }: AutomationCardProps) {
                 <div className="space-y-4">
                     <div className="flex items-center space-x-2 text-sm">
                         <Zap className="h-4 w-4" />
-                        <span>Trigger: {automation.trigger.type.replace('_', ' ')}</span>
+                        <span>Trigger: {TRIGGER_LABELS[automation.trigger_type] || automation.trigger_type}</span>
                     </div>
+                    {automation.business_calendar && (
+                        <div className="flex items-center space-x-2 text-sm">
+                            <Clock className="h-4 w-4" />
+                            <span>Business hours: {automation.business_calendar.name}</span>
+                        </div>
+                    )}
                     <div className="flex items-center space-x-2 text-sm">
                         <Settings2 className="h-4 w-4" />
                         <span>{automation.actions.length} action(s)</span>
                     </div>
-                    {automation.lastRun && (
-                        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                            <Clock className="h-4 w-4" />
-                            <span>Last run: {new Date(automation.lastRun).toLocaleDateString()}</span>
-                        </div>
-                    )}
-                    <div className="flex flex-wrap gap-2 mt-4">
-                        {automation.trigger.conditions.map((condition, index) => (
-                            <Badge key={index} variant="secondary" className="text-xs">
-                                {condition.field} {condition.operator} {condition.value}
-                            </Badge>
-                        ))}
+                    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                        <Clock className="h-4 w-4" />
+                        <span>Last run: {automation.last_run_at ? new Date(automation.last_run_at).toLocaleString() : 'Never'}</span>
+                    </div>
+                    <p className="text-xs rounded-md bg-muted px-2 py-1.5 mt-4">
+                        {describeRuleSet(toRuleSet(automation.conditions), valueLabels, ruleFields)}
+                    </p>
+                    <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => onShowHistory(automation)}>
+                            <History className="h-4 w-4 mr-1" /> History
+                        </Button>
+                        {isAdmin && (
+                            <>
+                                <Button variant="ghost" size="sm" onClick={() => onDryRun(automation)}>
+                                    <FlaskConical className="h-4 w-4 mr-1" /> Dry Run
+                                </Button>
+                                <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => onDelete(automation.id)}>
+                                    <Trash2 className="h-4 w-4 mr-1" /> Delete
+                                </Button>
+                            </>
+                        )}
                     </div>
                 </div>
             </CardContent>
         </Card>
     );
-} 
\ No newline at end of file
+}
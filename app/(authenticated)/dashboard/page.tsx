@@ -5,24 +5,36 @@ import ChatbotWindow from '@/components/chatbot/ChatbotWindow'; // Adjust path
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import {
-    fetchTicketsForUser, Ticket, createTicket, NewTicketData,
+    fetchTicketsForUser, countTicketsByStatus, searchTicketsFullText, TicketQuery, TicketSearchResult, Ticket, createTicket, NewTicketData,
     fetchTicketPriorities, PriorityOption,
     fetchTicketStatuses, StatusOption,
     updateTicketStatus,
     deleteTicket,
-    fetchCommentsForTicket, Comment,
+    mergeTickets,
+    fetchTicketById,
+    fetchCommentsForTicket, fetchNewCommentsByOthers, Comment,
+    fetchTicketEvents, TicketEvent,
+    fetchTicketAttachments, TicketAttachment,
     addCommentToTicket, NewCommentData,
     fetchAgents, AgentOption,
     assignTicket,
     updateTicketPriority,
+    updateTicketTags,
+    fetchTicketTags,
     getAvatarPublicUrl,
     fetchUserNotifications, Notification as NotificationType,
     fetchTicketTypes, TicketType, // Added
     fetchCompatibleAgentsForTicketType, // Added
-    fetchCustomers, UserProfile
+    fetchAgentAvailability, AgentAvailability,
+    fetchTeams, Team, assignTicketToTeam, pickUpTicket,
+    fetchEscalationPolicies, EscalationPolicy,
+    fetchCustomers, UserProfile,
+    fetchCustomFields, TicketCustomField, CustomFieldValues
 } from '@/lib/dataService';
+import { formatCustomFieldValue } from '@/lib/customFields';
 
 import { useIsMobile, useIsTablet } from '@/hooks/use-mobile';
+import { useTicketPresence } from '@/hooks/use-ticket-presence';
 
 
 import {
@@ -58,6 +70,19 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import LogoutButton from '@/components/auth/LogoutButton'; 
+import { SlaDetails } from '@/components/sla/SlaIndicator';
+import { TicketEventItem } from '@/components/tickets/TicketEventItem';
+import AttachmentList from '@/components/tickets/AttachmentList';
+import AttachmentPicker from '@/components/tickets/AttachmentPicker';
+import CustomFieldInputs from '@/components/tickets/CustomFieldInputs';
+import TagInput from '@/components/tickets/TagInput';
+import SplitCommentDialog from '@/components/tickets/SplitCommentDialog';
+import TicketLinksCard from '@/components/tickets/TicketLinksCard';
+import CannedResponsePicker from '@/components/tickets/CannedResponsePicker';
+import TimeTrackingCard from '@/components/tickets/TimeTrackingCard';
+import EscalateTicketButton from '@/components/tickets/EscalateTicketButton';
+import TicketViewers from '@/components/tickets/TicketViewers';
+import HighlightedText from '@/components/tickets/HighlightedText';
 
 
 const DEFAULT_OPEN_STATUS_ID = 1;
@@ -106,6 +131,10 @@ export default function RevampedDashboardPage() {
   const [selectedTicketDetail, setSelectedTicketDetail] = useState<Ticket | null>(null);
   const [showBanner, setShowBanner] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
+  const [searchResults, setSearchResults] = useState<TicketSearchResult[] | null>(null); // null while not searching
+  const [isSearching, setIsSearching] = useState(false);
   const [newTicketOpen, setNewTicketOpen] = useState(false);
   const [ticketDetailsOpen, setTicketDetailsOpen] = useState(false);
   const [selectedStatusFilter, setSelectedStatusFilter] = useState("all");
@@ -125,15 +154,35 @@ export default function RevampedDashboardPage() {
   const [commentError, setCommentError] = useState<string | null>(null);
   const [newCommentText, setNewCommentText] = useState("");
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  const [ticketEvents, setTicketEvents] = useState<TicketEvent[]>([]);
+  const [ticketAttachments, setTicketAttachments] = useState<TicketAttachment[]>([]);
+  const [ticketCustomFields, setTicketCustomFields] = useState<TicketCustomField[]>([]);
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
 
   // Agent assignment states
   const [agents, setAgents] = useState<AgentOption[]>([]);
   const [compatibleAgents, setCompatibleAgents] = useState<AgentOption[]>([]); // Added
   const [isLoadingCompatibleAgents, setIsLoadingCompatibleAgents] = useState(false); // Added
+  const [agentAvailability, setAgentAvailability] = useState<Record<string, AgentAvailability>>({});
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [isUpdatingTeam, setIsUpdatingTeam] = useState(false);
+  const [escalationPolicies, setEscalationPolicies] = useState<EscalationPolicy[]>([]);
   const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
   const [isAssigningTicket, setIsAssigningTicket] = useState(false);
   const [isUpdatingPriority, setIsUpdatingPriority] = useState(false);
+  const [isUpdatingTags, setIsUpdatingTags] = useState(false);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState<string>('');
+  const [splitComment, setSplitComment] = useState<Comment | null>(null);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
   const [isInternalNote, setIsInternalNote] = useState(false); // State for internal note toggle
+  const [collidingComments, setCollidingComments] = useState<Comment[]>([]); // Replies by others the agent has not seen yet
+
+  // Agents and admins see who else has the open ticket in front of them
+  const { others: ticketViewers, notifyTyping, stopTyping } = useTicketPresence(
+    ticketDetailsOpen && (isAgent || isAdmin) && selectedTicketDetail ? selectedTicketDetail.id : null,
+    user ? { user_id: user.id, full_name: profile?.full_name ?? null, avatar_url: profile?.avatar_url ?? null } : null,
+  );
   // unreadNotificationsCount is now managed by AuthContext
 
   const initialLoadDone = useRef(false);
@@ -143,6 +192,48 @@ export default function RevampedDashboardPage() {
   
 
 
+  // The status filter runs in the database, so it covers every ticket rather than the current page
+  const ticketQuery = useMemo<TicketQuery>(() => {
+    const statusId = statuses.find(s => s.name === selectedStatusFilter)?.id;
+    return { statusIds: statusId ? [statusId] : undefined };
+  }, [selectedStatusFilter, statuses]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // A new status starts again from the first page
+  useEffect(() => { setCurrentPage(1); }, [ticketQuery]);
+
+  useEffect(() => {
+    if (!(isAgent || isAdmin)) return;
+    fetchTeams()
+      .then(setTeams)
+      .catch(err => console.error("Failed to fetch teams:", err));
+    fetchEscalationPolicies()
+      .then(setEscalationPolicies)
+      .catch(err => console.error("Failed to fetch escalation policies:", err));
+  }, [isAgent, isAdmin]);
+
+  // Searching switches the list to ranked full-text results (subject, description and comments) across all tickets
+  useEffect(() => {
+    if (!debouncedSearch) {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
+    setIsSearching(true);
+    searchTicketsFullText(debouncedSearch)
+      .then(results => { if (!cancelled) setSearchResults(results); })
+      .catch(err => {
+        console.error("Failed to search tickets:", err);
+        if (!cancelled) showToast({ title: "Search Failed", description: err.message || "Could not search tickets.", variant: "destructive" });
+      })
+      .finally(() => { if (!cancelled) setIsSearching(false); });
+    return () => { cancelled = true; };
+  }, [debouncedSearch, showToast]);
+
 const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
 
     if (!session) return;
@@ -157,7 +248,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
     try {
       const offset = (currentPage - 1) * itemsPerPage;
       const [ticketData, fetchedPriorities, fetchedStatuses, fetchedAgents, fetchedTicketTypes] = await Promise.all([
-        fetchTicketsForUser(itemsPerPage, offset), // Fetch with pagination
+        fetchTicketsForUser(itemsPerPage, offset, ticketQuery), // Fetch with pagination
         fetchTicketPriorities(),
         fetchTicketStatuses(),
         fetchAgents(),
@@ -174,6 +265,10 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
       // Always update total count as it's a simple value
       setTotalTickets(ticketData.count);
 
+      // Sidebar counts cover every ticket, not just this page
+      const countsById = await countTicketsByStatus(fetchedStatuses.map(s => s.id));
+      setStatusCounts(Object.fromEntries(fetchedStatuses.map(s => [s.name, countsById[s.id] || 0])));
+
       // Update priorities only if the array length changed or any priority IDs are different
       const shouldUpdatePriorities = priorities.length !== fetchedPriorities.length ||
         priorities.some((priority, index) => priority.id !== fetchedPriorities[index]?.id);
@@ -216,7 +311,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
         setIsBackgroundLoading(false);
       }
     }
-  }, [session, showToast, currentPage, itemsPerPage, tickets, priorities, statuses, agents, ticketTypes]); // Added currentPage and itemsPerPage
+  }, [session, showToast, currentPage, itemsPerPage, ticketQuery, tickets, priorities, statuses, agents, ticketTypes]); // Added currentPage and itemsPerPage
 
   useEffect(() => {
     if (authLoading) {
@@ -245,30 +340,24 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
 
   
 
-  const statusCounts = useMemo(() => {
-      const counts: { [key: string]: number } = {};
-      statuses.forEach(status => { counts[status.name] = 0; });
-      tickets.forEach(ticket => {
-          const statusName = statuses.find(s => s.id === ticket.status_id)?.name;
-          if (statusName) { counts[statusName] = (counts[statusName] || 0) + 1; }
-      });
-      return counts;
-  }, [tickets, statuses]);
+  // While searching, the list and the sidebar counts come from the search results
+  const searchHitsById = useMemo(() => new Map((searchResults || []).map(result => [result.ticket_id, result])), [searchResults]);
+  const visibleTickets = searchResults
+    ? searchResults.map(result => result.ticket).filter(ticket => selectedStatusFilter === "all" || ticket.ticket_statuses?.name === selectedStatusFilter)
+    : tickets;
+  const visibleStatusCounts = useMemo(() => {
+    if (!searchResults) return statusCounts;
+    const counts: Record<string, number> = {};
+    searchResults.forEach(({ ticket }) => {
+      const statusName = ticket.ticket_statuses?.name;
+      if (statusName) counts[statusName] = (counts[statusName] || 0) + 1;
+    });
+    return counts;
+  }, [searchResults, statusCounts]);
+  const allTicketsCount = Object.values(visibleStatusCounts).reduce((sum, count) => sum + count, 0);
 
   const folderCounts = { Archive: 0, Spam: 0, Trash: 0 };
 
-  const filteredTickets = useMemo(() => {
-    return tickets.filter((ticket) => {
-      const ticketSubject = ticket.subject?.toLowerCase() || "";
-      const ticketDescription = ticket.description?.toLowerCase() || "";
-      const requesterName = ticket.profiles?.full_name?.toLowerCase() || "";
-      const query = searchQuery.toLowerCase();
-      const matchesSearch = searchQuery === "" || ticketSubject.includes(query) || ticketDescription.includes(query) || requesterName.includes(query);
-      const statusName = statuses.find(s => s.id === ticket.status_id)?.name;
-      const matchesStatus = selectedStatusFilter === "all" || statusName === selectedStatusFilter;
-      return matchesSearch && matchesStatus;
-    });
-  }, [tickets, searchQuery, selectedStatusFilter, statuses]);
 
 
   
@@ -295,7 +384,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
     }
   };
 
-  const handleCreateTicketSubmit = async (formData: { subject: string; description: string; priorityId: string; ticketTypeId: string; requesterId?: string }) => {
+  const handleCreateTicketSubmit = async (formData: { subject: string; description: string; priorityId: string; ticketTypeId: string; requesterId?: string; attachments: File[]; customFields: CustomFieldValues }) => {
     if (!user) {
       showToast({ title: "Error", description: "You must be logged in.", variant: "destructive" });
       return;
@@ -309,7 +398,9 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
       priority_id: parseInt(formData.priorityId, 10),
       requester_id: formData.requesterId || user.id,
       status_id: openStatusId,
-      ticket_type_id: parseInt(formData.ticketTypeId, 10)
+      ticket_type_id: parseInt(formData.ticketTypeId, 10),
+      attachments: formData.attachments,
+      custom_fields: formData.customFields
     };
 
     try {
@@ -317,7 +408,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
       if (created) {
         // Fetch the complete ticket data to get the assigned agent information
         const offset = (currentPage - 1) * itemsPerPage;
-        const { tickets: updatedTickets } = await fetchTicketsForUser(itemsPerPage, offset);
+        const { tickets: updatedTickets } = await fetchTicketsForUser(itemsPerPage, offset, ticketQuery);
         
         // Find the newly created ticket in the updated list
         const updatedTicket = updatedTickets.find(t => t.id === created.id) || created;
@@ -336,6 +427,13 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
           title: "Success", 
           description: `Ticket "${created.subject}" created${updatedTicket.assignee_profile ? ` and assigned to ${updatedTicket.assignee_profile.full_name}` : ''}.` 
         });
+        if (created.failed_attachments.length > 0) {
+          showToast({
+            title: "Some Attachments Failed",
+            description: `Ticket #${created.id} was created, but ${created.failed_attachments.join(', ')} could not be uploaded. Add them as a reply instead.`,
+            variant: "destructive",
+          });
+        }
       }
     } catch (error: any) {
       console.error("Failed to create ticket:", error);
@@ -343,13 +441,44 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
     }
   };
 
+  const loadTicketEvents = useCallback((ticketId: number) => {
+    fetchTicketEvents(ticketId)
+      .then(setTicketEvents)
+      .catch(err => console.error("Failed to fetch ticket history:", err));
+  }, []);
+
+  // Comments and history events in one chronological list. Customers get their events without automation
+  // and escalation activity (app/api/tickets/events).
+  const ticketTimeline = useMemo(() => {
+    const items = [
+      ...comments
+        .filter(comment => !comment.is_internal_note || isAgent) // Filter internal notes for non-agents
+        .map(comment => ({ kind: 'comment' as const, key: `comment-${comment.id}`, at: comment.created_at, comment })),
+      ...ticketEvents
+        .filter(event => event.event_type !== 'comment_added') // The comment itself is already in the list
+        .map(event => ({ kind: 'event' as const, key: `event-${event.id}`, at: event.created_at, event })),
+    ];
+    return items.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  }, [comments, ticketEvents, isAgent]);
+
+  // Comments come oldest first; the latest public staff reply stops the escalation clock
+  const lastStaffReplyAt = useMemo(() => {
+    const replies = comments.filter(comment => !comment.is_internal_note && (comment.profiles?.role === 'agent' || comment.profiles?.role === 'admin'));
+    return replies.length > 0 ? replies[replies.length - 1].created_at : null;
+  }, [comments]);
+
   const handleTicketSelect = async (ticket: Ticket) => {
     setSelectedTicketDetail(ticket);
     setTicketDetailsOpen(true);
     setComments([]); 
+    setTicketEvents([]);
+    setTicketAttachments([]);
+    setTicketCustomFields([]);
+    setCommentFiles([]);
     setNewCommentText(""); 
     setSelectedAgentId(ticket.assignee_id || null);
     setCompatibleAgents([]); // Clear previous compatible agents
+    setAgentAvailability({});
 
     if (ticket) {
       // Fetch comments
@@ -363,42 +492,97 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
           showToast({ title: "Error", description: "Failed to load comments.", variant: "destructive" });
         })
         .finally(() => setIsLoadingComments(false));
+      loadTicketEvents(ticket.id);
+      fetchTicketAttachments(ticket.id) // The server leaves out internal-note files for customers
+        .then(setTicketAttachments)
+        .catch(err => console.error("Failed to fetch attachments:", err));
+      if (isAgent || isAdmin) {
+        fetchTicketTags()
+          .then(setTagSuggestions)
+          .catch(err => console.error("Failed to fetch tags:", err));
+      }
+      if (ticket.ticket_type_id) {
+        fetchCustomFields(ticket.ticket_type_id)
+          .then(setTicketCustomFields)
+          .catch(err => console.error("Failed to fetch custom fields:", err));
+      }
 
       // Fetch compatible agents if ticket_type_id exists
       if (ticket.ticket_type_id) {
         setIsLoadingCompatibleAgents(true);
         fetchCompatibleAgentsForTicketType(ticket.ticket_type_id)
-          .then(setCompatibleAgents)
+          .then(compatible => {
+            setCompatibleAgents(compatible);
+            loadAgentAvailability(compatible.length > 0 ? compatible : agents);
+          })
           .catch(err => {
             console.error("Failed to fetch compatible agents:", err);
             showToast({ title: "Error", description: "Failed to load compatible agents for this ticket type.", variant: "destructive" });
           })
           .finally(() => setIsLoadingCompatibleAgents(false));
+      } else {
+        loadAgentAvailability(agents);
       }
     }
   };
 
-  const handleCommentSubmit = async () => {
+  // Agents who are away, out of office or at their ticket limit are not offered in the assignee list
+  const loadAgentAvailability = (agentOptions: AgentOption[]) => {
+    if (!(isAgent || isAdmin) || agentOptions.length === 0) return;
+    fetchAgentAvailability(agentOptions.map(a => a.id))
+      .then(list => setAgentAvailability(Object.fromEntries(list.map(a => [a.agent_id, a]))))
+      .catch(err => console.error("Failed to fetch agent availability:", err));
+  };
+
+  // Agents are warned first when someone else replied after the comments shown were loaded
+  const handleCommentSubmit = async (skipCollisionCheck = false) => {
     if (!selectedTicketDetail || !user || !newCommentText.trim()) {
       showToast({ title: "Error", description: "Cannot submit empty comment or no ticket selected.", variant: "destructive" });
       return;
     }
 
     setIsSubmittingComment(true);
+    if ((isAgent || isAdmin) && !skipCollisionCheck && !isLoadingComments && !commentError) {
+      try {
+        const lastSeenCommentId = comments.reduce((max, c) => Math.max(max, c.id), 0);
+        const newer = await fetchNewCommentsByOthers(selectedTicketDetail.id, lastSeenCommentId, user.id);
+        if (newer.length > 0) {
+          setCollidingComments(newer);
+          setIsSubmittingComment(false);
+          return;
+        }
+      } catch (error) {
+        console.error("Failed to check for new comments:", error); // Not worth blocking the reply over
+      }
+    }
+    stopTyping();
     const commentData: NewCommentData = {
       ticket_id: selectedTicketDetail.id,
       user_id: user.id,
       comment_text: newCommentText.trim(),
       is_internal_note: isAgent ? isInternalNote : false, // Only agents can set internal notes
+      attachments: commentFiles,
     };
 
     try {
       const newComment = await addCommentToTicket(commentData);
       if (newComment) {
-        setComments(prevComments => [...prevComments, newComment]);
+        const { failed_attachments: failedFiles, ...addedComment } = newComment;
+        setComments(prevComments => [...prevComments, addedComment]);
+        setTicketAttachments(prev => [...prev, ...(newComment.attachments || [])]);
         setNewCommentText("");
+        // Files that failed stay selected so they can be sent with another reply
+        setCommentFiles(prev => prev.filter(file => failedFiles.includes(file.name)));
         setIsInternalNote(false); // Reset internal note toggle
-        showToast({ description: "Comment added successfully." });
+        if (failedFiles.length > 0) {
+          showToast({
+            title: "Some files were not uploaded",
+            description: `Your comment was added, but ${failedFiles.join(', ')} could not be uploaded. Send them with another reply.`,
+            variant: "destructive",
+          });
+        } else {
+          showToast({ description: "Comment added successfully." });
+        }
       }
     } catch (error: any) {
       console.error("Failed to add comment:", error);
@@ -408,6 +592,12 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
     }
   };
 
+  // Shows the replies that came in, so the agent can adjust theirs before sending it
+  const handleReviewCollidingComments = () => {
+    setComments(prev => [...prev, ...collidingComments.filter(c => !prev.some(p => p.id === c.id))]);
+    setCollidingComments([]);
+  };
+
   const handleAssignTicket = async (ticketId: number, agentId: string | null) => {
     if (!(isAgent || isAdmin)) {
       showToast({ title: "Permission Denied", description: "Only agents and admins can assign tickets.", variant: "destructive" });
@@ -421,6 +611,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
         if (selectedTicketDetail?.id === ticketId) {
           setSelectedTicketDetail(updatedTicket);
           setSelectedAgentId(updatedTicket.assignee_id || null);
+          loadTicketEvents(ticketId);
         }
         showToast({ description: `Ticket #${ticketId} ${agentId ? 'assigned to ' + agents.find(a=>a.id === agentId)?.full_name : 'unassigned'}.` });
       }
@@ -432,6 +623,49 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
     }
   };
 
+  // Tickets in a team queue can be taken by any agent who sees them; the list and detail pick up the new assignee
+  const applyAssignmentChange = (updatedTicket: Ticket) => {
+    setTickets(prevTickets => prevTickets.map(t => (t.id === updatedTicket.id ? updatedTicket : t)));
+    if (selectedTicketDetail?.id === updatedTicket.id) {
+      setSelectedTicketDetail(updatedTicket);
+      setSelectedAgentId(updatedTicket.assignee_id || null);
+      loadTicketEvents(updatedTicket.id);
+    }
+  };
+
+  const handleTeamChange = async (ticketId: number, teamId: number | null) => {
+    setIsUpdatingTeam(true);
+    try {
+      const updatedTicket = await assignTicketToTeam(ticketId, teamId);
+      if (updatedTicket) {
+        applyAssignmentChange(updatedTicket);
+        showToast({ description: teamId ? `Ticket #${ticketId} moved to the ${updatedTicket.team?.name || 'team'} queue.` : `Ticket #${ticketId} removed from its team.` });
+      }
+    } catch (error: any) {
+      console.error(`Failed to change the team of ticket #${ticketId}:`, error);
+      showToast({ title: "Update Failed", description: error.message || "Could not change the team.", variant: "destructive" });
+    } finally {
+      setIsUpdatingTeam(false);
+    }
+  };
+
+  const handlePickUpTicket = async (ticketId: number) => {
+    setIsAssigningTicket(true);
+    try {
+      const updatedTicket = await pickUpTicket(ticketId);
+      if (updatedTicket) {
+        applyAssignmentChange(updatedTicket);
+        showToast({ description: `You picked up ticket #${ticketId}.` });
+      }
+    } catch (error: any) {
+      console.error(`Failed to pick up ticket #${ticketId}:`, error);
+      showToast({ title: "Pick Up Failed", description: error.message || "Could not pick up the ticket.", variant: "destructive" });
+      handleTicketLinksChanged(null); // Show who has it now
+    } finally {
+      setIsAssigningTicket(false);
+    }
+  };
+
   const handlePriorityChange = async (ticketId: number, priorityId: number) => {
     if (!(isAgent || isAdmin)) {
       showToast({ title: "Permission Denied", description: "Only agents and admins can change ticket priority.", variant: "destructive" });
@@ -450,6 +684,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
         setTickets(prevTickets => prevTickets.map(t => (t.id === ticketId ? updatedTicket : t)));
         if (selectedTicketDetail?.id === ticketId) {
           setSelectedTicketDetail(updatedTicket);
+          loadTicketEvents(ticketId);
         }
         showToast({ description: `Ticket #${ticketId} priority updated to ${priorityObject.name}.` });
       }
@@ -461,6 +696,31 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
     }
   };
 
+  const handleTagsChange = async (ticketId: number, tags: string[]) => {
+    if (!(isAgent || isAdmin)) {
+      showToast({ title: "Permission Denied", description: "Only agents and admins can tag tickets.", variant: "destructive" });
+      return;
+    }
+
+    setIsUpdatingTags(true);
+    try {
+      const updatedTicket = await updateTicketTags(ticketId, tags);
+      if (updatedTicket) {
+        setTickets(prevTickets => prevTickets.map(t => (t.id === ticketId ? updatedTicket : t)));
+        if (selectedTicketDetail?.id === ticketId) {
+          setSelectedTicketDetail(updatedTicket);
+          loadTicketEvents(ticketId);
+        }
+        setTagSuggestions(prev => Array.from(new Set([...prev, ...(updatedTicket.tags || [])])).sort());
+      }
+    } catch (error: any) {
+      console.error(`Failed to update tags for ticket #${ticketId}:`, error);
+      showToast({ title: "Update Failed", description: error.message || "Could not update tags.", variant: "destructive" });
+    } finally {
+      setIsUpdatingTags(false);
+    }
+  };
+
   const handleStatusChange = async (ticketId: number, newStatusName: string) => {
     if (!(isAgent || isAdmin)) {
       showToast({ title: "Permission Denied", description: "Only agents and admins can change ticket status.", variant: "destructive" });
@@ -476,7 +736,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
       const updatedTicket = await updateTicketStatus(ticketId, statusObject.id);
       if (updatedTicket) {
         setTickets(prevTickets => prevTickets.map(t => (t.id === ticketId ? updatedTicket : t)));
-        if (selectedTicketDetail?.id === ticketId) { setSelectedTicketDetail(updatedTicket); }
+        if (selectedTicketDetail?.id === ticketId) { setSelectedTicketDetail(updatedTicket); loadTicketEvents(ticketId); }
         showToast({ description: `Ticket #${ticketId} status updated to ${newStatusName}` });
       }
     } catch (error: any) {
@@ -487,6 +747,71 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
     }
   };
 
+  // Only the same requester's tickets, since the merged conversation becomes visible to the target's requester
+  const mergeCandidates = useMemo(() => {
+    if (!selectedTicketDetail) return [];
+    return tickets.filter(t => t.id !== selectedTicketDetail.id && !t.merged_into_ticket_id && t.requester_id === selectedTicketDetail.requester_id);
+  }, [tickets, selectedTicketDetail]);
+
+  const handleMergeTicket = async (sourceTicketId: number, targetTicketId: number) => {
+    if (!(isAgent || isAdmin)) {
+      showToast({ title: "Permission Denied", description: "Only agents and admins can merge tickets.", variant: "destructive" });
+      return;
+    }
+    setIsUpdatingTicket(true);
+    try {
+      const { source, target } = await mergeTickets(sourceTicketId, targetTicketId);
+      setTickets(prev => prev.map(t => (t.id === sourceTicketId && source ? source : t.id === targetTicketId && target ? target : t)));
+      setMergeDialogOpen(false);
+      setMergeTargetId('');
+      showToast({ description: `Ticket #${sourceTicketId} merged into #${targetTicketId}.` });
+      if (target) handleTicketSelect(target);
+    } catch (error: any) {
+      console.error(`Failed to merge ticket #${sourceTicketId}:`, error);
+      showToast({ title: "Merge Failed", description: error.message || "Could not merge tickets.", variant: "destructive" });
+    } finally {
+      setIsUpdatingTicket(false);
+    }
+  };
+
+  // Linked tickets may not be on the current page, so load them when needed
+  const handleOpenLinkedTicket = async (ticketId: number) => {
+    try {
+      const linked = tickets.find(t => t.id === ticketId) || await fetchTicketById(ticketId);
+      if (linked) handleTicketSelect(linked);
+    } catch (error: any) {
+      console.error(`Failed to open ticket #${ticketId}:`, error);
+      showToast({ title: "Error", description: error.message || "Could not open the ticket.", variant: "destructive" });
+    }
+  };
+
+  // A link change can move the status of child tickets, so the list is reloaded too
+  const handleTicketLinksChanged = (updated: Ticket | null) => {
+    if (!selectedTicketDetail) return;
+    if (updated) setSelectedTicketDetail(updated);
+    loadTicketEvents(selectedTicketDetail.id);
+    const offset = (currentPage - 1) * itemsPerPage;
+    fetchTicketsForUser(itemsPerPage, offset, ticketQuery)
+      .then(({ tickets: refreshed }) => setTickets(refreshed))
+      .catch(err => console.error("Failed to refresh tickets:", err));
+  };
+
+  // Canned responses are appended so text already typed is kept
+  const handleInsertCannedResponse = (text: string) => {
+    setNewCommentText(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text));
+  };
+
+  // A macro posted its reply and may have changed the status, priority or assignee
+  const handleMacroApplied = (updated: Ticket | null) => {
+    if (!selectedTicketDetail) return;
+    const ticketId = selectedTicketDetail.id;
+    fetchCommentsForTicket(ticketId)
+      .then(setComments)
+      .catch(err => console.error("Failed to refresh comments:", err));
+    if (updated) setSelectedAgentId(updated.assignee_id || null);
+    handleTicketLinksChanged(updated);
+  };
+
   const handleDeleteTicket = async (ticketId: number) => {
     
     if (!(isAgent || isAdmin)) { // Allow admin or agent to delete
@@ -551,8 +876,8 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                 <div>
                   <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Statuses</h3>
                   <div className="space-y-1">
-                    <Button variant={selectedStatusFilter === "all" ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => setSelectedStatusFilter("all")}> All Tickets <Badge variant="outline" className="ml-auto">{tickets.length}</Badge> </Button>
-                    {statuses.map((status) => ( <Button key={status.id} variant={selectedStatusFilter === status.name ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => setSelectedStatusFilter(status.name)}> {status.name} <Badge variant="outline" className="ml-auto">{statusCounts[status.name] || 0}</Badge> </Button> ))}
+                    <Button variant={selectedStatusFilter === "all" ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => setSelectedStatusFilter("all")}> All Tickets <Badge variant="outline" className="ml-auto">{allTicketsCount}</Badge> </Button>
+                    {statuses.map((status) => ( <Button key={status.id} variant={selectedStatusFilter === status.name ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => setSelectedStatusFilter(status.name)}> {status.name} <Badge variant="outline" className="ml-auto">{visibleStatusCounts[status.name] || 0}</Badge> </Button> ))}
                   </div>
                 </div>
                 
@@ -579,8 +904,8 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                            <div className="py-6">
                               <h3 className="text-sm font-medium mb-3">Status</h3>
                               <div className="space-y-2">
-                               <Button variant={selectedStatusFilter === "all" ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => {setSelectedStatusFilter("all"); setShowMobileFilters(false);}}> All Tickets <Badge variant="outline" className="ml-auto">{tickets.length}</Badge> </Button>
-                                {statuses.map((status) => ( <Button key={status.id} variant={selectedStatusFilter === status.name ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => {setSelectedStatusFilter(status.name); setShowMobileFilters(false);}}> {status.name} <Badge variant="outline" className="ml-auto">{statusCounts[status.name] || 0}</Badge> </Button> ))}
+                               <Button variant={selectedStatusFilter === "all" ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => {setSelectedStatusFilter("all"); setShowMobileFilters(false);}}> All Tickets <Badge variant="outline" className="ml-auto">{allTicketsCount}</Badge> </Button>
+                                {statuses.map((status) => ( <Button key={status.id} variant={selectedStatusFilter === status.name ? "secondary" : "ghost"} size="sm" className="w-full justify-start" onClick={() => {setSelectedStatusFilter(status.name); setShowMobileFilters(false);}}> {status.name} <Badge variant="outline" className="ml-auto">{visibleStatusCounts[status.name] || 0}</Badge> </Button> ))}
                               </div>
                            </div>
                       </SheetContent>
@@ -591,12 +916,14 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
               
               {isLoadingData && <p className="text-center py-10">Loading tickets...</p>}
               {dataError && <p className="text-red-500 text-center py-10">Error: {dataError}</p>}
-              {!isLoadingData && !dataError && filteredTickets.length === 0 && (
+              {isSearching && <p className="text-center text-sm text-muted-foreground pb-4">Searching...</p>}
+              {!isLoadingData && !dataError && visibleTickets.length === 0 && (
                 <div className="text-center py-10 text-muted-foreground"> <MessageSquare size={48} className="mx-auto mb-2" /> <p>No tickets found matching your criteria.</p> {selectedStatusFilter !== "all" && <Button variant="link" onClick={() => setSelectedStatusFilter("all")}>View all tickets</Button>} </div>
               )}
-              {!isLoadingData && !dataError && filteredTickets.length > 0 && (
+              {!isLoadingData && !dataError && visibleTickets.length > 0 && (
                 <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'md:grid-cols-1 lg:grid-cols-1 xl:grid-cols-2'}`}>
-                  {filteredTickets.map((ticket) => {
+                  {visibleTickets.map((ticket) => {
+                    const searchHit = searchHitsById.get(ticket.id);
                     const currentStatus = ticket.ticket_statuses;
                     const currentPriority = ticket.ticket_priorities;
                     const currentProfile = ticket.profiles;
@@ -605,7 +932,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                         <CardHeader>
                           <div className="flex justify-between items-start gap-2">
                             <div className="flex-1 min-w-0">
-                              <CardTitle className="text-base font-semibold leading-tight truncate" title={ticket.subject}> {ticket.subject} </CardTitle>
+                              <CardTitle className="text-base font-semibold leading-tight truncate" title={ticket.subject}> {searchHit ? <HighlightedText text={searchHit.subject_highlight} /> : ticket.subject} </CardTitle>
                             </div>
                             <div className="flex items-center gap-x-1 flex-shrink-0">
                               {ticket.ticket_types && <Badge variant="outline" className="text-xs capitalize">{ticket.ticket_types.name}</Badge>}
@@ -630,7 +957,14 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                           </CardDescription>
                         </CardHeader>
                         <CardContent className="pt-0 pb-4">
-                          <p className="text-sm text-muted-foreground line-clamp-2 mb-3"> {ticket.description} </p>
+                          {searchHit && searchHit.matched_in !== 'subject' ? (
+                            <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
+                              {searchHit.matched_in === 'comment' && <span className="font-medium text-foreground">In a comment: </span>}
+                              <HighlightedText text={searchHit.snippet} />
+                            </p>
+                          ) : (
+                            <p className="text-sm text-muted-foreground line-clamp-2 mb-3"> {ticket.description} </p>
+                          )}
                           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between text-xs text-muted-foreground">
                             {currentPriority && <Badge variant="outline" className="capitalize py-0.5 px-1.5 font-normal">{currentPriority.name}</Badge>}
                             <span>Last update: <ClientOnlyDateTime dateString={ticket.created_at} options={{ dateStyle: 'short', timeStyle: 'short' }} /></span>
@@ -643,7 +977,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
               )}
 
               {/* Pagination Controls */}
-              {!isLoadingData && !dataError && totalTickets !== null && totalTickets > itemsPerPage && (
+              {!isLoadingData && !dataError && !searchResults && totalTickets !== null && totalTickets > itemsPerPage && (
                 <div className="flex justify-center items-center space-x-2 sm:space-x-4 mt-6">
                   <Button
                     variant="outline"
@@ -679,12 +1013,23 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                   {selectedTicketDetail.ticket_types?.name && ` • Type: ${selectedTicketDetail.ticket_types.name}`}
                   • Status: {selectedTicketDetail.ticket_statuses?.name || 'N/A'} 
                   • Priority: {selectedTicketDetail.ticket_priorities?.name || 'N/A'} 
+                  {selectedTicketDetail.split_from_ticket_id && ` • Split from #TICK-${String(selectedTicketDetail.split_from_ticket_id).padStart(5, '0')}`}
                 </DialogDescription>
               </DialogHeader>
+              {(isAgent || isAdmin) && <TicketViewers viewers={ticketViewers} />}
+              {selectedTicketDetail.merged_into_ticket_id && (() => {
+                const mergedInto = tickets.find(t => t.id === selectedTicketDetail.merged_into_ticket_id);
+                return (
+                  <div className="flex items-center justify-between rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm dark:bg-amber-950/30">
+                    <span>This ticket was merged into #TICK-{String(selectedTicketDetail.merged_into_ticket_id).padStart(5, '0')}. Its conversation continues there.</span>
+                    {mergedInto && <Button variant="link" size="sm" onClick={() => handleTicketSelect(mergedInto)}>Open ticket</Button>}
+                  </div>
+                );
+              })()}
               <div className="flex-1 overflow-y-auto p-1 -m-1 pr-3">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 py-4">
                     <div className="md:col-span-2 space-y-4">
-                        <Card> <CardHeader><CardTitle className="text-base">Description</CardTitle></CardHeader> <CardContent className="text-sm whitespace-pre-wrap">{selectedTicketDetail.description}</CardContent> </Card>
+                        <Card> <CardHeader><CardTitle className="text-base">Description</CardTitle></CardHeader> <CardContent className="text-sm whitespace-pre-wrap">{selectedTicketDetail.description}<AttachmentList attachments={ticketAttachments.filter(a => !a.comment_id)} /></CardContent> </Card>
                         
                         {/* Comments Section */}
                         <Card>
@@ -692,46 +1037,68 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                             <CardContent>
                                 {isLoadingComments && <p className="text-sm text-muted-foreground">Loading comments...</p>}
                                 {commentError && <p className="text-sm text-red-500">{commentError}</p>}
-                                {!isLoadingComments && !commentError && comments.length === 0 && (
+                                {!isLoadingComments && !commentError && ticketTimeline.length === 0 && (
                                     <p className="text-sm text-muted-foreground">No comments yet.</p>
                                 )}
-                                {!isLoadingComments && !commentError && comments.length > 0 && (
+                                {!isLoadingComments && !commentError && ticketTimeline.length > 0 && (
                                     <div className="space-y-4">
-                                        {comments.filter(comment => !comment.is_internal_note || isAgent).map(comment => ( // Filter internal notes for non-agents
-                                            <div key={comment.id} className={`flex items-start space-x-3 ${comment.is_internal_note ? 'p-2 bg-amber-50 border border-amber-200 rounded-md' : ''}`}>
+                                        {ticketTimeline.map(item => item.kind === 'event' ? (
+                                            <TicketEventItem key={item.key} event={item.event} />
+                                        ) : (
+                                            <div key={item.key} className={`flex items-start space-x-3 ${item.comment.is_internal_note ? 'p-2 bg-amber-50 border border-amber-200 rounded-md' : ''}`}>
                                                 <Avatar className="h-8 w-8">
-                                                <AvatarImage src={comment.profiles?.avatar_url ? getAvatarPublicUrl(comment.profiles.avatar_url) || undefined : undefined} alt={comment.profiles?.full_name || 'User'} />
-                                                    <AvatarFallback>{comment.profiles?.full_name?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+                                                <AvatarImage src={item.comment.profiles?.avatar_url ? getAvatarPublicUrl(item.comment.profiles.avatar_url) || undefined : undefined} alt={item.comment.profiles?.full_name || 'User'} />
+                                                    <AvatarFallback>{item.comment.profiles?.full_name?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
                                                 </Avatar>
                                                 <div className="flex-1">
                                                     <div className="flex items-center justify-between">
                                                         <div className="text-sm font-medium flex items-center"> {/* Changed p to div */}
-                                                            <span>{comment.profiles?.full_name || 'Anonymous User'}</span>
-                                                            {comment.profiles?.role === 'agent' && <Badge variant="outline" className="ml-1 text-xs">Agent</Badge>}
-                                                            {comment.is_internal_note && (isAgent || isAdmin) && <Badge variant="secondary" className="ml-2 text-xs bg-amber-100 text-amber-700">Internal Note</Badge>}
+                                                            <span>{item.comment.profiles?.full_name || 'Anonymous User'}</span>
+                                                            {item.comment.profiles?.role === 'agent' && <Badge variant="outline" className="ml-1 text-xs">Agent</Badge>}
+                                                            {item.comment.is_internal_note && (isAgent || isAdmin) && <Badge variant="secondary" className="ml-2 text-xs bg-amber-100 text-amber-700">Internal Note</Badge>}
+                                                        </div>
+                                                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                            {(isAgent || isAdmin) && !item.comment.is_internal_note && !selectedTicketDetail.merged_into_ticket_id && (
+                                                                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setSplitComment(item.comment)}>
+                                                                    Split to ticket
+                                                                </Button>
+                                                            )}
+                                                            <ClientOnlyDateTime dateString={item.comment.created_at} options={{ dateStyle: 'short', timeStyle: 'short' }} />
                                                         </div>
-                                                        <p className="text-xs text-muted-foreground">
-                                                            <ClientOnlyDateTime dateString={comment.created_at} options={{ dateStyle: 'short', timeStyle: 'short' }} />
-                                                        </p>
                                                     </div>
-                                                    <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">{comment.comment_text}</p>
+                                                    <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">{item.comment.comment_text}</p>
+                                                    <AttachmentList attachments={ticketAttachments.filter(a => a.comment_id === item.comment.id)} />
                                                 </div>
                                             </div>
                                         ))}
                                     </div>
                                 )}
                                 <div className="mt-6">
+                                    {(isAgent || isAdmin) && (
+                                        <div className="mb-2">
+                                            <CannedResponsePicker
+                                                ticket={selectedTicketDetail}
+                                                agentName={profile?.full_name}
+                                                disabled={isSubmittingComment || isProfileLoading}
+                                                onInsert={handleInsertCannedResponse}
+                                                onMacroApplied={handleMacroApplied}
+                                            />
+                                        </div>
+                                    )}
                                     <Textarea
                                         placeholder="Add a comment..."
                                         value={newCommentText}
-                                        onChange={(e) => setNewCommentText(e.target.value)}
+                                        onChange={(e) => { setNewCommentText(e.target.value); if (isAgent || isAdmin) notifyTyping(); }}
                                         rows={3}
                                         className="mb-2"
                                         disabled={isSubmittingComment || isProfileLoading}
                                     />
+                                    <div className="mb-2">
+                                        <AttachmentPicker files={commentFiles} onChange={setCommentFiles} disabled={isSubmittingComment || isProfileLoading} />
+                                    </div>
                                     <div className="flex items-center justify-between">
                                         <Button 
-                                            onClick={handleCommentSubmit} 
+                                            onClick={() => handleCommentSubmit()}
                                             disabled={isSubmittingComment || !newCommentText.trim() || isProfileLoading}
                                         >
                                             {isSubmittingComment ? "Submitting..." : "Add Comment"}
@@ -762,6 +1129,33 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                                 <p><strong>Created:</strong> <ClientOnlyDateTime dateString={selectedTicketDetail.created_at} options={{dateStyle: 'medium', timeStyle: 'short'}}/></p>
                             </CardContent>
                         </Card>
+                        {ticketCustomFields.length > 0 && (
+                            <Card>
+                                <CardHeader><CardTitle className="text-base">{selectedTicketDetail.ticket_types?.name || 'Ticket'} Details</CardTitle></CardHeader>
+                                <CardContent className="text-sm space-y-1">
+                                    {ticketCustomFields.map(field => (
+                                        <p key={field.id}><strong>{field.label}:</strong> {formatCustomFieldValue(field, selectedTicketDetail.custom_fields?.[String(field.id)])}</p>
+                                    ))}
+                                </CardContent>
+                            </Card>
+                        )}
+                        {(isAgent || isAdmin) && (
+                            <Card>
+                                <CardHeader><CardTitle className="text-base">SLA</CardTitle></CardHeader>
+                                <CardContent><SlaDetails clock={selectedTicketDetail.sla_clock} /></CardContent>
+                            </Card>
+                        )}
+                        {(isAgent || isAdmin) && (
+                            <TicketLinksCard
+                                ticket={selectedTicketDetail}
+                                candidates={tickets}
+                                onOpenTicket={handleOpenLinkedTicket}
+                                onChanged={handleTicketLinksChanged}
+                            />
+                        )}
+                        {(isAgent || isAdmin) && user && (
+                            <TimeTrackingCard key={selectedTicketDetail.id} ticketId={selectedTicketDetail.id} userId={user.id} comments={comments} />
+                        )}
                          <Card>
                             <CardHeader><CardTitle className="text-base">Ticket Properties</CardTitle></CardHeader>
                             <CardContent className="text-sm space-y-2">
@@ -801,6 +1195,22 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                                     </Select>
                                 </div>
                                 )}
+                                {(isAgent || isAdmin) && teams.length > 0 && (
+                                <div className="mt-2">
+                                    <Label className="text-xs">Team</Label>
+                                    <Select
+                                        value={selectedTicketDetail.team_id ? String(selectedTicketDetail.team_id) : "none"}
+                                        onValueChange={(teamId) => handleTeamChange(selectedTicketDetail.id, teamId === "none" ? null : parseInt(teamId, 10))}
+                                        disabled={isUpdatingTeam || isAssigningTicket}
+                                    >
+                                        <SelectTrigger><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="none">No team</SelectItem>
+                                            {teams.map(team => <SelectItem key={team.id} value={String(team.id)}>{team.name}</SelectItem>)}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                )}
                                 {(isAgent || isAdmin) && (
                                 <div className="mt-2">
                                     <Label className="text-xs">Assignee</Label>
@@ -814,12 +1224,16 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                                         </SelectTrigger>
                                         <SelectContent>
                                             <SelectItem value="unassigned">Unassigned</SelectItem>
-                                            {(compatibleAgents.length > 0 ? compatibleAgents : agents).map(agent => (
-                                                <SelectItem key={agent.id} value={agent.id}>
+                                            {(compatibleAgents.length > 0 ? compatibleAgents : agents).map(agent => {
+                                                const unavailableReason = agentAvailability[agent.id]?.unavailable_reason;
+                                                return (
+                                                <SelectItem key={agent.id} value={agent.id} disabled={!!unavailableReason && agent.id !== selectedAgentId}>
                                                     {agent.full_name || `Agent ID: ${agent.id.substring(0, 6)}...`}
                                                     {agent.specializations?.name && <span className="text-xs text-muted-foreground ml-1">({agent.specializations.name})</span>}
+                                                    {unavailableReason && <span className="text-xs text-orange-600 ml-1">- {unavailableReason}</span>}
                                                 </SelectItem>
-                                            ))}
+                                                );
+                                            })}
                                         </SelectContent>
                                     </Select>
                                     {selectedTicketDetail.assignee_profile && (
@@ -834,6 +1248,25 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                                             }
                                         </div>
                                     )}
+                                    {!selectedTicketDetail.assignee_id && selectedTicketDetail.team && (
+                                        <div className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                                            <span>Waiting in the {selectedTicketDetail.team.name} queue</span>
+                                            {isAgent && (
+                                                <Button size="sm" variant="outline" onClick={() => handlePickUpTicket(selectedTicketDetail.id)} disabled={isAssigningTicket}>Pick Up</Button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                                )}
+                                {(isAgent || isAdmin) && (
+                                <div className="mt-2">
+                                    <Label className="text-xs">Tags</Label>
+                                    <TagInput
+                                        tags={selectedTicketDetail.tags || []}
+                                        onChange={(tags) => handleTagsChange(selectedTicketDetail.id, tags)}
+                                        suggestions={tagSuggestions}
+                                        disabled={isUpdatingTags || isProfileLoading}
+                                    />
                                 </div>
                                 )}
                             </CardContent>
@@ -842,6 +1275,20 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
                 </div>
               </div>
               <DialogFooter className="mt-auto pt-4 border-t">
+                 {(isAgent || isAdmin) && !selectedTicketDetail.merged_into_ticket_id && (
+                    <Button variant="outline" onClick={() => { setMergeTargetId(''); setMergeDialogOpen(true); }} disabled={isUpdatingTicket || isProfileLoading}>
+                        Merge Into...
+                    </Button>
+                 )}
+                 {(isAgent || isAdmin) && (
+                    <EscalateTicketButton
+                        ticket={selectedTicketDetail}
+                        policies={escalationPolicies}
+                        lastResponseAt={lastStaffReplyAt}
+                        onEscalated={applyAssignmentChange}
+                        disabled={isUpdatingTicket || isAssigningTicket || isProfileLoading}
+                    />
+                 )}
                  <AlertDialog>
                     <AlertDialogTrigger asChild>
                         <Button variant="destructive" disabled={!(isAgent || isAdmin) || isUpdatingTicket || isProfileLoading}>{(isAgent || isAdmin) && "Delete Ticket"}</Button>
@@ -872,6 +1319,71 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
           )}
         </DialogContent>
       </Dialog>
+
+      {selectedTicketDetail && (
+        <SplitCommentDialog
+          comment={splitComment}
+          ticket={selectedTicketDetail}
+          priorities={priorities}
+          ticketTypes={ticketTypes}
+          openStatusId={statuses.find(s => s.name.toLowerCase() === 'open')?.id || DEFAULT_OPEN_STATUS_ID}
+          onClose={() => setSplitComment(null)}
+          onSplit={(created) => {
+            setSplitComment(null);
+            setTickets(prev => [created, ...prev]);
+            loadTicketEvents(selectedTicketDetail.id);
+          }}
+        />
+      )}
+
+      <AlertDialog open={collidingComments.length > 0} onOpenChange={(open) => { if (!open) setCollidingComments([]); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>New {collidingComments.length === 1 ? 'reply' : 'replies'} on this ticket</AlertDialogTitle>
+            <AlertDialogDescription>
+              {Array.from(new Set(collidingComments.map(c => c.profiles?.full_name || 'Someone'))).join(', ')} replied since you opened the ticket. Review the new {collidingComments.length === 1 ? 'reply' : 'replies'} before sending yours, or send it anyway.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleReviewCollidingComments}>Review Replies</AlertDialogCancel>
+            <AlertDialogAction onClick={() => { setCollidingComments([]); handleCommentSubmit(true); }}>Send Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={mergeDialogOpen} onOpenChange={setMergeDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          {selectedTicketDetail && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Merge Ticket #TICK-{String(selectedTicketDetail.id).padStart(5, '0')}</DialogTitle>
+                <DialogDescription>
+                  Its comments and attachments move to another ticket of the same requester, and this ticket is closed with a link to it. The requester is notified.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-2 py-2">
+                <Label htmlFor="merge-target">Merge into</Label>
+                <Select value={mergeTargetId} onValueChange={setMergeTargetId} disabled={isUpdatingTicket}>
+                  <SelectTrigger id="merge-target"><SelectValue placeholder="Select the ticket to keep..." /></SelectTrigger>
+                  <SelectContent>
+                    {mergeCandidates.map(t => (
+                      <SelectItem key={t.id} value={String(t.id)}>
+                        #TICK-{String(t.id).padStart(5, '0')} {t.subject}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setMergeDialogOpen(false)} disabled={isUpdatingTicket}>Cancel</Button>
+                <Button onClick={() => handleMergeTicket(selectedTicketDetail.id, parseInt(mergeTargetId, 10))} disabled={!mergeTargetId || isUpdatingTicket}>
+                  {isUpdatingTicket ? "Merging..." : "Merge Tickets"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </TooltipProvider>
   );
 }
@@ -879,7 +1391,7 @@ const loadInitialData = useCallback(async (showLoadingIndicator = true) => {
 
 
 interface NewTicketFormProps {
-  onSubmit: (data: { subject: string; description: string; priorityId: string; ticketTypeId: string; requesterId?: string }) => Promise<void>;
+  onSubmit: (data: { subject: string; description: string; priorityId: string; ticketTypeId: string; requesterId?: string; attachments: File[]; customFields: CustomFieldValues }) => Promise<void>;
   priorities: PriorityOption[];
   ticketTypes: TicketType[];
   isSubmittingProfileUpdate?: boolean;
@@ -895,6 +1407,9 @@ const NewTicketForm: React.FC<NewTicketFormProps> = ({ onSubmit, priorities, tic
   });
   const [ticketTypeId, setTicketTypeId] = useState<string>(ticketTypes.length > 0 ? String(ticketTypes[0].id) : '');
   const [requesterId, setRequesterId] = useState<string>('');
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [customFields, setCustomFields] = useState<TicketCustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
   const [customers, setCustomers] = useState<UserProfile[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast: showToast } = useToast();
@@ -933,6 +1448,18 @@ const NewTicketForm: React.FC<NewTicketFormProps> = ({ onSubmit, priorities, tic
     }
   }, [priorities, priorityId, ticketTypes, ticketTypeId, isAgent, user]);
 
+  // Each ticket type has its own custom fields; answers for the previous type are dropped
+  useEffect(() => {
+    setCustomFieldValues({});
+    if (!ticketTypeId) {
+      setCustomFields([]);
+      return;
+    }
+    fetchCustomFields(parseInt(ticketTypeId, 10))
+      .then(setCustomFields)
+      .catch(error => console.error('Failed to load custom fields:', error));
+  }, [ticketTypeId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!priorityId) {
@@ -955,7 +1482,9 @@ const NewTicketForm: React.FC<NewTicketFormProps> = ({ onSubmit, priorities, tic
         description, 
         priorityId, 
         ticketTypeId,
-        requesterId: isAgent ? requesterId : user?.id
+        requesterId: isAgent ? requesterId : user?.id,
+        attachments,
+        customFields: customFieldValues
       });
     } catch (error: any) {
       console.error('Failed to submit ticket:', error);
@@ -1056,6 +1585,10 @@ const NewTicketForm: React.FC<NewTicketFormProps> = ({ onSubmit, priorities, tic
         />
       </div>
 
+      <CustomFieldInputs fields={customFields} values={customFieldValues} onChange={setCustomFieldValues} disabled={isSubmitting || isSubmittingProfileUpdate} />
+
+      <AttachmentPicker files={attachments} onChange={setAttachments} disabled={isSubmitting || isSubmittingProfileUpdate} />
+
       <DialogFooter>
         <Button 
           type="submit" 
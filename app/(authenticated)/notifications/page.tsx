@@ -13,7 +13,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area"; 
 import { useToast } from "@/components/ui/use-toast";
-import { BellRing, CheckCheck, MailWarning, MessageSquareText, UserCheck } from "lucide-react";
+import { BellRing, CheckCheck, MailWarning, MessageSquareText, Star, UserCheck } from "lucide-react";
+import Link from 'next/link';
 import ClientOnlyDateTime from '@/components/ClientOnlyDateTime'; 
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -25,6 +26,8 @@ const getNotificationIcon = (type: string | null): React.ReactNode => {
             return <UserCheck className="h-5 w-5 text-green-500" />;
         case 'status_change': 
             return <MailWarning className="h-5 w-5 text-orange-500" />;
+        case 'csat_request':
+            return <Star className="h-5 w-5 text-yellow-500" />;
         default:
             return <BellRing className="h-5 w-5 text-gray-500" />;
     }
@@ -150,6 +153,11 @@ export default function NotificationsPage() {
                                                             Related Ticket: "{notification.tickets.subject}"
                                                         </p>
                                                     )}
+                                                    {notification.link && (
+                                                        <Link href={notification.link} className="text-xs font-medium text-primary hover:underline" onClick={() => { if (!notification.is_read) handleMarkAsRead(notification.id); }}>
+                                                            {notification.type === 'csat_request' ? 'Rate your experience' : 'Open'}
+                                                        </Link>
+                                                    )}
                                                     <p className="text-xs text-muted-foreground mt-1">
                                                         <ClientOnlyDateTime dateString={notification.created_at} options={{ dateStyle: 'medium', timeStyle: 'short' }} />
                                                     </p>
@@ -9,10 +9,18 @@ import {
     fetchTicketCountsOverTime,
     fetchTicketVolumeBy,
     fetchAgentPerformance,
+    fetchTimeSpentBy,
+    fetchCsatTrend,
+    fetchCsatByAgent,
     fetchResolutionTimesBy,
     fetchCustomerTicketCounts,
     fetchOverallAverageResolutionTime,
+    fetchBusinessCalendars,
+    BusinessCalendar,
+    fetchTeams,
+    Team,
 } from '@/lib/dataService';
+import { formatTrackedTime } from '@/lib/timeTracking';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"; // Import Table components
@@ -30,11 +38,20 @@ export default function ReportsPage() {
         overview: true,
         'ticket-volume': false,
         'agent-performance': false,
+        'time-spent': false,
+        csat: false,
         'resolution-time': false,
         'customer-reports': false
     });
     const [error, setError] = useState<string | null>(null);
 
+    // Resolution times are measured in calendar time unless a business calendar is selected
+    const [businessCalendars, setBusinessCalendars] = useState<BusinessCalendar[]>([]);
+    const [calendarId, setCalendarId] = useState<string>('');
+    const selectedCalendar = businessCalendars.find(c => String(c.id) === calendarId) || null;
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [performanceTeamId, setPerformanceTeamId] = useState<string>(''); // Empty for all agents
+
     // State for fetched data
     const [overviewMetrics, setOverviewMetrics] = useState<{
         totalTickets: number | null;
@@ -56,9 +73,32 @@ export default function ReportsPage() {
         byStatus: { dimension: string; count: number }[] | null;
         byPriority: { dimension: string; count: number }[] | null;
         byAssignee: { dimension: string; count: number }[] | null;
+        byTag: { dimension: string; count: number }[] | null;
+    } | null>(null);
+    const [agentPerformanceData, setAgentPerformanceData] = useState<{
+        teamId: string;
+        rows: { agent: string; assigned: number; resolved: number; closed: number; average_resolution_time: string | null }[];
+    } | null>(null);
+    const [timeSpentData, setTimeSpentData] = useState<{
+        byAgent: { dimension: string; minutes: number; hours: number; entries: number }[];
+        byCustomer: { dimension: string; minutes: number; hours: number; entries: number }[];
+        byType: { dimension: string; minutes: number; hours: number; entries: number }[];
     } | null>(null);
-    const [agentPerformanceData, setAgentPerformanceData] = useState<{ agent: string; assigned: number; resolved: number; closed: number; average_resolution_time: string | null }[] | null>(null);
+    // Time spent defaults to the current month, the usual billing period
+    const [timeSpentStartDate, setTimeSpentStartDate] = useState<string>(() => {
+        const now = new Date();
+        return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
+    });
+    const [timeSpentEndDate, setTimeSpentEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
+    const [csatData, setCsatData] = useState<{
+        trend: { time_period: string; responses: number; average_score: number; satisfied_percent: number }[];
+        byAgent: { agent_id: string | null; agent: string; responses: number; average_score: number; satisfied_percent: number }[];
+    } | null>(null);
+    const [csatInterval, setCsatInterval] = useState<'week' | 'month'>('week');
+    const [csatStartDate, setCsatStartDate] = useState<string>(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
+    const [csatEndDate, setCsatEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
     const [resolutionTimeData, setResolutionTimeData] = useState<{
+        calendarId: string;
         byType: { dimension: string; average_resolution_time: string | null; average_resolution_minutes: number | null }[] | null;
         byPriority: { dimension: string; average_resolution_time: string | null; average_resolution_minutes: number | null }[] | null;
         byAgent: { dimension: string; average_resolution_time: string | null; average_resolution_minutes: number | null }[] | null;
@@ -82,7 +122,7 @@ export default function ReportsPage() {
                 fetchTicketCountsByStatus('Open'),
                 fetchTicketCountsByStatus('Closed'),
                 fetchTicketCountsByStatus('Pending'),
-                fetchOverallAverageResolutionTime(),
+                fetchOverallAverageResolutionTime(selectedCalendar),
                 fetchTicketCountsOverTime(
                     timeSeriesInterval,
                     new Date(timeSeriesStartDate).toISOString(),
@@ -104,20 +144,21 @@ export default function ReportsPage() {
         } finally {
             setLoading(prev => ({ ...prev, overview: false }));
         }
-    }, [timeSeriesInterval, timeSeriesStartDate, timeSeriesEndDate]);
+    }, [timeSeriesInterval, timeSeriesStartDate, timeSeriesEndDate, selectedCalendar]);
 
     // Load ticket volume data
     const loadTicketVolumeData = useCallback(async () => {
         if (ticketVolumeData) return; // Already loaded
         setLoading(prev => ({ ...prev, 'ticket-volume': true }));
         try {
-            const [byType, byStatus, byPriority, byAssignee] = await Promise.all([
+            const [byType, byStatus, byPriority, byAssignee, byTag] = await Promise.all([
                 fetchTicketVolumeBy('type'),
                 fetchTicketVolumeBy('status'),
                 fetchTicketVolumeBy('priority'),
-                fetchTicketVolumeBy('assignee')
+                fetchTicketVolumeBy('assignee'),
+                fetchTicketVolumeBy('tag')
             ]);
-            setTicketVolumeData({ byType, byStatus, byPriority, byAssignee });
+            setTicketVolumeData({ byType, byStatus, byPriority, byAssignee, byTag });
         } catch (err: any) {
             console.error("Failed to load ticket volume data:", err);
             setError(err.message || "Could not fetch ticket volume data.");
@@ -128,37 +169,72 @@ export default function ReportsPage() {
 
     // Load agent performance data
     const loadAgentPerformanceData = useCallback(async () => {
-        if (agentPerformanceData) return; // Already loaded
+        if (agentPerformanceData?.teamId === performanceTeamId) return; // Already loaded for this team
         setLoading(prev => ({ ...prev, 'agent-performance': true }));
         try {
-            const data = await fetchAgentPerformance();
-            setAgentPerformanceData(data);
+            const rows = await fetchAgentPerformance(performanceTeamId ? Number(performanceTeamId) : undefined);
+            setAgentPerformanceData({ teamId: performanceTeamId, rows });
         } catch (err: any) {
             console.error("Failed to load agent performance data:", err);
             setError(err.message || "Could not fetch agent performance data.");
         } finally {
             setLoading(prev => ({ ...prev, 'agent-performance': false }));
         }
-    }, [agentPerformanceData]);
+    }, [agentPerformanceData, performanceTeamId]);
+
+    // Load time spent data; the date range is applied with the button, so this always refetches
+    const loadTimeSpentData = useCallback(async () => {
+        setLoading(prev => ({ ...prev, 'time-spent': true }));
+        try {
+            const [byAgent, byCustomer, byType] = await Promise.all([
+                fetchTimeSpentBy('agent', timeSpentStartDate, timeSpentEndDate),
+                fetchTimeSpentBy('customer', timeSpentStartDate, timeSpentEndDate),
+                fetchTimeSpentBy('type', timeSpentStartDate, timeSpentEndDate)
+            ]);
+            setTimeSpentData({ byAgent, byCustomer, byType });
+        } catch (err: any) {
+            console.error("Failed to load time spent data:", err);
+            setError(err.message || "Could not fetch time spent data.");
+        } finally {
+            setLoading(prev => ({ ...prev, 'time-spent': false }));
+        }
+    }, [timeSpentStartDate, timeSpentEndDate]);
+
+    // Load CSAT data; like time spent, the filters are applied with the button
+    const loadCsatData = useCallback(async () => {
+        setLoading(prev => ({ ...prev, csat: true }));
+        try {
+            const [trend, byAgent] = await Promise.all([
+                fetchCsatTrend(csatInterval, csatStartDate, csatEndDate),
+                fetchCsatByAgent(csatStartDate, csatEndDate)
+            ]);
+            setCsatData({ trend, byAgent });
+        } catch (err: any) {
+            console.error("Failed to load CSAT data:", err);
+            setError(err.message || "Could not fetch CSAT data.");
+        } finally {
+            setLoading(prev => ({ ...prev, csat: false }));
+        }
+    }, [csatInterval, csatStartDate, csatEndDate]);
 
     // Load resolution time data
     const loadResolutionTimeData = useCallback(async () => {
-        if (resolutionTimeData) return; // Already loaded
+        if (resolutionTimeData?.calendarId === calendarId) return; // Already loaded for this calendar
         setLoading(prev => ({ ...prev, 'resolution-time': true }));
         try {
             const [byType, byPriority, byAgent] = await Promise.all([
-                fetchResolutionTimesBy('type'),
-                fetchResolutionTimesBy('priority'),
-                fetchResolutionTimesBy('agent')
+                fetchResolutionTimesBy('type', selectedCalendar),
+                fetchResolutionTimesBy('priority', selectedCalendar),
+                fetchResolutionTimesBy('agent', selectedCalendar)
             ]);
-            setResolutionTimeData({ byType, byPriority, byAgent });
+            setResolutionTimeData({ calendarId, byType, byPriority, byAgent });
         } catch (err: any) {
             console.error("Failed to load resolution time data:", err);
             setError(err.message || "Could not fetch resolution time data.");
         } finally {
             setLoading(prev => ({ ...prev, 'resolution-time': false }));
         }
-    }, [resolutionTimeData]);
+    }, [resolutionTimeData, calendarId, selectedCalendar]);
 
     // Load customer data
     const loadCustomerData = useCallback(async () => {
@@ -185,17 +261,17 @@ export default function ReportsPage() {
             case 'ticket-volume':
                 loadTicketVolumeData();
                 break;
-            case 'agent-performance':
-                loadAgentPerformanceData();
+            case 'time-spent':
+                if (!timeSpentData) loadTimeSpentData();
                 break;
-            case 'resolution-time':
-                loadResolutionTimeData();
+            case 'csat':
+                if (!csatData) loadCsatData();
                 break;
             case 'customer-reports':
                 loadCustomerData();
                 break;
         }
-    }, [loadOverviewData, loadTicketVolumeData, loadAgentPerformanceData, loadResolutionTimeData, loadCustomerData]);
+    }, [loadOverviewData, loadTicketVolumeData, timeSpentData, loadTimeSpentData, csatData, loadCsatData, loadCustomerData]);
 
     // Initial load
     useEffect(() => {
@@ -204,6 +280,27 @@ export default function ReportsPage() {
         }
     }, [authLoading, loadOverviewData]);
 
+    useEffect(() => {
+        if (authLoading) return;
+        fetchBusinessCalendars()
+            .then(setBusinessCalendars)
+            .catch(err => console.error("Failed to load business calendars:", err));
+        fetchTeams()
+            .then(setTeams)
+            .catch(err => console.error("Failed to load teams:", err));
+    }, [authLoading]);
+
+    // Loads the resolution report when its tab opens and reloads it when the calendar changes;
+    // the loader skips the fetch when the report is already loaded for the selected calendar
+    useEffect(() => {
+        if (activeTab === 'resolution-time') loadResolutionTimeData();
+    }, [activeTab, loadResolutionTimeData]);
+
+    // Same for agent performance and the selected team
+    useEffect(() => {
+        if (activeTab === 'agent-performance') loadAgentPerformanceData();
+    }, [activeTab, loadAgentPerformanceData]);
+
     if (authLoading) {
         return <div className="flex items-center justify-center min-h-screen">
             <Loader2 className="h-8 w-8 animate-spin" />
@@ -215,14 +312,34 @@ export default function ReportsPage() {
         <div className="container mx-auto p-4 md:p-6 lg:p-8">
             <div className="flex items-center justify-between mb-8">
                 <h1 className="text-3xl font-bold">Reports</h1>
+                {businessCalendars.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <label htmlFor="calendar" className="text-sm font-medium">Measure time in:</label>
+                        <select
+                            id="calendar"
+                            value={calendarId}
+                            onChange={(e) => setCalendarId(e.target.value)}
+                            className="border rounded-md p-1 text-sm"
+                        >
+                            <option value="">Calendar time (24/7)</option>
+                            {businessCalendars.map(calendar => (
+                                <option key={calendar.id} value={String(calendar.id)}>
+                                    Business hours: {calendar.name}{calendar.is_default ? ' (default)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
             </div>
             
             <div className="flex flex-col gap-6">
                 <Tabs defaultValue="overview" onValueChange={handleTabChange}>
-                    <TabsList className="grid w-full grid-cols-2 md:grid-cols-5 gap-4">
+                    <TabsList className="grid w-full grid-cols-2 md:grid-cols-7 gap-4">
                         <TabsTrigger value="overview">Overview</TabsTrigger>
                         <TabsTrigger value="ticket-volume">Ticket Volume</TabsTrigger>
                         <TabsTrigger value="agent-performance">Agent Performance</TabsTrigger>
+                        <TabsTrigger value="time-spent">Time Spent</TabsTrigger>
+                        <TabsTrigger value="csat">CSAT</TabsTrigger>
                         <TabsTrigger value="resolution-time">Resolution Time</TabsTrigger>
                         <TabsTrigger value="customer-reports">Customer Reports</TabsTrigger>
                     </TabsList>
@@ -496,6 +613,25 @@ export default function ReportsPage() {
                                         ) : (
                                             <p className="text-muted-foreground">No data available for ticket volume by assignee.</p>
                                         )}
+
+                                        <h4 className="text-lg font-semibold mt-8 mb-4">Ticket Volume by Tag</h4>
+                                         {ticketVolumeData.byTag && ticketVolumeData.byTag.length > 0 ? (
+                                            <ResponsiveContainer width="100%" height={300}>
+                                                <BarChart
+                                                    data={ticketVolumeData.byTag}
+                                                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                                                >
+                                                    <CartesianGrid strokeDasharray="3 3" />
+                                                    <XAxis dataKey="dimension" />
+                                                    <YAxis />
+                                                    <Tooltip />
+                                                    <Legend />
+                                                    <Bar dataKey="count" fill="#a4de6c" />
+                                                </BarChart>
+                                            </ResponsiveContainer>
+                                        ) : (
+                                            <p className="text-muted-foreground">No data available for ticket volume by tag.</p>
+                                        )}
                                     </CardContent>
                                 </Card>
                             )
@@ -518,11 +654,27 @@ export default function ReportsPage() {
                                 <Card>
                                     <CardHeader><CardTitle>Agent Performance Reports</CardTitle></CardHeader>
                                     <CardContent>
-                                         {agentPerformanceData.length > 0 ? (
+                                        {teams.length > 0 && (
+                                            <div className="flex items-center gap-2 mb-4">
+                                                <label htmlFor="performanceTeam" className="text-sm font-medium">Team:</label>
+                                                <select
+                                                    id="performanceTeam"
+                                                    value={performanceTeamId}
+                                                    onChange={(e) => setPerformanceTeamId(e.target.value)}
+                                                    className="border rounded-md p-1 text-sm"
+                                                >
+                                                    <option value="">All agents</option>
+                                                    {teams.map(team => (
+                                                        <option key={team.id} value={String(team.id)}>{team.name}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        )}
+                                         {agentPerformanceData.rows.length > 0 ? (
                                             <>
                                                 <ResponsiveContainer width="100%" height={300}>
                                                     <BarChart
-                                                        data={agentPerformanceData}
+                                                        data={agentPerformanceData.rows}
                                                         margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
                                                     >
                                                         <CartesianGrid strokeDasharray="3 3" />
@@ -548,7 +700,7 @@ export default function ReportsPage() {
                                                             </TableRow>
                                                         </TableHeader>
                                                         <TableBody>
-                                                            {agentPerformanceData.map((item) => (
+                                                            {agentPerformanceData.rows.map((item) => (
                                                                 <TableRow key={item.agent}>
                                                                     <TableCell>{item.agent}</TableCell>
                                                                     <TableCell className="text-right">{item.assigned}</TableCell>
@@ -570,6 +722,282 @@ export default function ReportsPage() {
                         )}
                     </TabsContent>
 
+                    {/* Time Spent Tab Content */}
+                    <TabsContent value="time-spent">
+                        {loading['time-spent'] && !timeSpentData ? (
+                            <div className="flex items-center justify-center h-96">
+                                <Loader2 className="h-8 w-8 animate-spin" />
+                                <p className="ml-2">Loading time spent data...</p>
+                            </div>
+                        ) : error ? (
+                            <div className="flex items-center justify-center h-96">
+                                <p className="text-red-500">Error: {error}</p>
+                            </div>
+                        ) : (
+                            timeSpentData && (
+                                <Card>
+                                    <CardHeader><CardTitle>Time Spent Reports</CardTitle></CardHeader>
+                                    <CardContent>
+                                        <div className="flex flex-col md:flex-row gap-4 mb-6 items-center">
+                                            <div className="flex items-center gap-2">
+                                                <label htmlFor="timeSpentStartDate" className="text-sm font-medium">Start Date:</label>
+                                                <input
+                                                    type="date"
+                                                    id="timeSpentStartDate"
+                                                    value={timeSpentStartDate}
+                                                    onChange={(e) => setTimeSpentStartDate(e.target.value)}
+                                                    className="border rounded-md p-1 text-sm"
+                                                />
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <label htmlFor="timeSpentEndDate" className="text-sm font-medium">End Date:</label>
+                                                <input
+                                                    type="date"
+                                                    id="timeSpentEndDate"
+                                                    value={timeSpentEndDate}
+                                                    onChange={(e) => setTimeSpentEndDate(e.target.value)}
+                                                    className="border rounded-md p-1 text-sm"
+                                                />
+                                            </div>
+                                            <Button size="sm" onClick={loadTimeSpentData} disabled={loading['time-spent']}>
+                                                {loading['time-spent'] && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Apply Filters
+                                            </Button>
+                                        </div>
+
+                                        <h4 className="text-lg font-semibold mb-4">Time Spent by Agent</h4>
+                                        {timeSpentData.byAgent.length > 0 ? (
+                                            <>
+                                                <ResponsiveContainer width="100%" height={300}>
+                                                    <BarChart
+                                                        data={timeSpentData.byAgent}
+                                                        margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                                                    >
+                                                        <CartesianGrid strokeDasharray="3 3" />
+                                                        <XAxis dataKey="dimension" />
+                                                        <YAxis label={{ value: 'Hours', angle: -90, position: 'insideLeft' }} />
+                                                        <Tooltip formatter={(value: any) => [`${value}h`, 'Time Spent']} />
+                                                        <Legend />
+                                                        <Bar dataKey="hours" fill="#8884d8" name="Hours" />
+                                                    </BarChart>
+                                                </ResponsiveContainer>
+                                                <Table className="mt-4">
+                                                    <TableHeader>
+                                                        <TableRow>
+                                                            <TableHead>Agent</TableHead>
+                                                            <TableHead className="text-right">Entries</TableHead>
+                                                            <TableHead className="text-right">Time Spent</TableHead>
+                                                            <TableHead className="text-right">Hours</TableHead>
+                                                        </TableRow>
+                                                    </TableHeader>
+                                                    <TableBody>
+                                                        {timeSpentData.byAgent.map((item) => (
+                                                            <TableRow key={item.dimension}>
+                                                                <TableCell>{item.dimension}</TableCell>
+                                                                <TableCell className="text-right">{item.entries}</TableCell>
+                                                                <TableCell className="text-right">{formatTrackedTime(item.minutes)}</TableCell>
+                                                                <TableCell className="text-right">{item.hours.toFixed(2)}</TableCell>
+                                                            </TableRow>
+                                                        ))}
+                                                    </TableBody>
+                                                </Table>
+                                            </>
+                                        ) : (
+                                            <p className="text-muted-foreground">No time logged in this period.</p>
+                                        )}
+
+                                        <h4 className="text-lg font-semibold mt-8 mb-4">Time Spent by Customer</h4>
+                                        {timeSpentData.byCustomer.length > 0 ? (
+                                            <>
+                                                <ResponsiveContainer width="100%" height={300}>
+                                                    <BarChart
+                                                        data={timeSpentData.byCustomer}
+                                                        margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                                                    >
+                                                        <CartesianGrid strokeDasharray="3 3" />
+                                                        <XAxis dataKey="dimension" />
+                                                        <YAxis label={{ value: 'Hours', angle: -90, position: 'insideLeft' }} />
+                                                        <Tooltip formatter={(value: any) => [`${value}h`, 'Time Spent']} />
+                                                        <Legend />
+                                                        <Bar dataKey="hours" fill="#82ca9d" name="Hours" />
+                                                    </BarChart>
+                                                </ResponsiveContainer>
+                                                <Table className="mt-4">
+                                                    <TableHeader>
+                                                        <TableRow>
+                                                            <TableHead>Customer</TableHead>
+                                                            <TableHead className="text-right">Entries</TableHead>
+                                                            <TableHead className="text-right">Time Spent</TableHead>
+                                                            <TableHead className="text-right">Hours</TableHead>
+                                                        </TableRow>
+                                                    </TableHeader>
+                                                    <TableBody>
+                                                        {timeSpentData.byCustomer.map((item) => (
+                                                            <TableRow key={item.dimension}>
+                                                                <TableCell>{item.dimension}</TableCell>
+                                                                <TableCell className="text-right">{item.entries}</TableCell>
+                                                                <TableCell className="text-right">{formatTrackedTime(item.minutes)}</TableCell>
+                                                                <TableCell className="text-right">{item.hours.toFixed(2)}</TableCell>
+                                                            </TableRow>
+                                                        ))}
+                                                    </TableBody>
+                                                </Table>
+                                            </>
+                                        ) : (
+                                            <p className="text-muted-foreground">No time logged in this period.</p>
+                                        )}
+
+                                        <h4 className="text-lg font-semibold mt-8 mb-4">Time Spent by Ticket Type</h4>
+                                        {timeSpentData.byType.length > 0 ? (
+                                            <>
+                                                <ResponsiveContainer width="100%" height={300}>
+                                                    <BarChart
+                                                        data={timeSpentData.byType}
+                                                        margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                                                    >
+                                                        <CartesianGrid strokeDasharray="3 3" />
+                                                        <XAxis dataKey="dimension" />
+                                                        <YAxis label={{ value: 'Hours', angle: -90, position: 'insideLeft' }} />
+                                                        <Tooltip formatter={(value: any) => [`${value}h`, 'Time Spent']} />
+                                                        <Legend />
+                                                        <Bar dataKey="hours" fill="#ff8042" name="Hours" />
+                                                    </BarChart>
+                                                </ResponsiveContainer>
+                                                <Table className="mt-4">
+                                                    <TableHeader>
+                                                        <TableRow>
+                                                            <TableHead>Ticket Type</TableHead>
+                                                            <TableHead className="text-right">Entries</TableHead>
+                                                            <TableHead className="text-right">Time Spent</TableHead>
+                                                            <TableHead className="text-right">Hours</TableHead>
+                                                        </TableRow>
+                                                    </TableHeader>
+                                                    <TableBody>
+                                                        {timeSpentData.byType.map((item) => (
+                                                            <TableRow key={item.dimension}>
+                                                                <TableCell>{item.dimension}</TableCell>
+                                                                <TableCell className="text-right">{item.entries}</TableCell>
+                                                                <TableCell className="text-right">{formatTrackedTime(item.minutes)}</TableCell>
+                                                                <TableCell className="text-right">{item.hours.toFixed(2)}</TableCell>
+                                                            </TableRow>
+                                                        ))}
+                                                    </TableBody>
+                                                </Table>
+                                            </>
+                                        ) : (
+                                            <p className="text-muted-foreground">No time logged in this period.</p>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            )
+                        )}
+                    </TabsContent>
+
+                    {/* CSAT Tab Content */}
+                    <TabsContent value="csat">
+                        {loading['csat'] && !csatData ? (
+                            <div className="flex items-center justify-center h-96">
+                                <Loader2 className="h-8 w-8 animate-spin" />
+                                <p className="ml-2">Loading CSAT data...</p>
+                            </div>
+                        ) : error ? (
+                            <div className="flex items-center justify-center h-96">
+                                <p className="text-red-500">Error: {error}</p>
+                            </div>
+                        ) : (
+                            csatData && (
+                                <Card>
+                                    <CardHeader><CardTitle>Customer Satisfaction (CSAT)</CardTitle></CardHeader>
+                                    <CardContent>
+                                        <div className="flex flex-col md:flex-row gap-4 mb-6 items-center">
+                                            <div className="flex items-center gap-2">
+                                                <label htmlFor="csatStartDate" className="text-sm font-medium">Start Date:</label>
+                                                <input
+                                                    type="date"
+                                                    id="csatStartDate"
+                                                    value={csatStartDate}
+                                                    onChange={(e) => setCsatStartDate(e.target.value)}
+                                                    className="border rounded-md p-1 text-sm"
+                                                />
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <label htmlFor="csatEndDate" className="text-sm font-medium">End Date:</label>
+                                                <input
+                                                    type="date"
+                                                    id="csatEndDate"
+                                                    value={csatEndDate}
+                                                    onChange={(e) => setCsatEndDate(e.target.value)}
+                                                    className="border rounded-md p-1 text-sm"
+                                                />
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <label htmlFor="csatInterval" className="text-sm font-medium">Interval:</label>
+                                                <select
+                                                    id="csatInterval"
+                                                    value={csatInterval}
+                                                    onChange={(e) => setCsatInterval(e.target.value as 'week' | 'month')}
+                                                    className="border rounded-md p-1 text-sm"
+                                                >
+                                                    <option value="week">Week</option>
+                                                    <option value="month">Month</option>
+                                                </select>
+                                            </div>
+                                            <Button size="sm" onClick={loadCsatData} disabled={loading['csat']}>
+                                                {loading['csat'] && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Apply Filters
+                                            </Button>
+                                        </div>
+
+                                        <h4 className="text-lg font-semibold mb-4">CSAT Trend</h4>
+                                        {csatData.trend.length > 0 ? (
+                                            <ResponsiveContainer width="100%" height={300}>
+                                                <LineChart
+                                                    data={csatData.trend}
+                                                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                                                >
+                                                    <CartesianGrid strokeDasharray="3 3" />
+                                                    <XAxis dataKey="time_period" />
+                                                    <YAxis yAxisId="score" domain={[1, 5]} label={{ value: 'Avg. Score', angle: -90, position: 'insideLeft' }} />
+                                                    <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} unit="%" />
+                                                    <Tooltip />
+                                                    <Legend />
+                                                    <Line yAxisId="score" type="monotone" dataKey="average_score" stroke="#8884d8" name="Avg. Score" activeDot={{ r: 8 }} />
+                                                    <Line yAxisId="percent" type="monotone" dataKey="satisfied_percent" stroke="#82ca9d" name="Satisfied (%)" />
+                                                </LineChart>
+                                            </ResponsiveContainer>
+                                        ) : (
+                                            <p className="text-muted-foreground">No survey responses in this period.</p>
+                                        )}
+
+                                        <h4 className="text-lg font-semibold mt-8 mb-4">CSAT by Agent</h4>
+                                        {csatData.byAgent.length > 0 ? (
+                                            <Table>
+                                                <TableHeader>
+                                                    <TableRow>
+                                                        <TableHead>Agent</TableHead>
+                                                        <TableHead className="text-right">Responses</TableHead>
+                                                        <TableHead className="text-right">Avg. Score</TableHead>
+                                                        <TableHead className="text-right">Satisfied</TableHead>
+                                                    </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {csatData.byAgent.map((item) => (
+                                                        <TableRow key={item.agent_id || 'unassigned'}>
+                                                            <TableCell>{item.agent}</TableCell>
+                                                            <TableCell className="text-right">{item.responses}</TableCell>
+                                                            <TableCell className="text-right">{item.average_score.toFixed(2)} / 5</TableCell>
+                                                            <TableCell className="text-right">{item.satisfied_percent}%</TableCell>
+                                                        </TableRow>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        ) : (
+                                            <p className="text-muted-foreground">No survey responses in this period.</p>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            )
+                        )}
+                    </TabsContent>
+
                     {/* Resolution Time Tab Content */}
                     <TabsContent value="resolution-time">
                         {loading['resolution-time'] ? (
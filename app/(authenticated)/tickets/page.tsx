@@ -1,8 +1,8 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import {
     fetchTicketsForUser,
     fetchTicketTypes,
@@ -10,13 +10,31 @@ import {
     fetchTicketStatuses,
     fetchCustomers,
     createTicket,
+    fetchCustomFields,
+    fetchTicketTags,
+    fetchAgents,
+    fetchTeams,
+    runBulkTicketAction,
     Ticket,
+    AgentOption,
+    Team,
+    BulkTicketAction,
     TicketType,
     PriorityOption,
     StatusOption,
     NewTicketData,
-    UserProfile
+    UserProfile,
+    TicketCustomField,
+    CustomFieldValues,
+    TicketSortKey,
+    TicketView,
+    TicketViewFilters,
+    fetchTicketViews,
+    createTicketView,
+    updateTicketView,
+    deleteTicketView
 } from '@/lib/dataService';
+import { ticketQueryFromViewFilters } from '@/lib/ticketViews';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -25,13 +43,35 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Textarea } from "@/components/ui/textarea";
+import { SlaBadge } from '@/components/sla/SlaIndicator';
+import AttachmentPicker from '@/components/tickets/AttachmentPicker';
+import CustomFieldInputs from '@/components/tickets/CustomFieldInputs';
+import TagInput from '@/components/tickets/TagInput';
 
-export default function TicketsPage() {
-    const { user, isAgent, loading: authLoading } = useAuth();
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+    { value: 'created_at:desc', label: 'Newest first' },
+    { value: 'created_at:asc', label: 'Oldest first' },
+    { value: 'updated_at:desc', label: 'Recently updated' },
+    { value: 'priority_id:desc', label: 'Priority' },
+    { value: 'status_id:asc', label: 'Status' },
+    { value: 'subject:asc', label: 'Subject (A-Z)' },
+];
+
+function TicketsList() {
+    const { user, isAgent, isAdmin, loading: authLoading } = useAuth();
     const router = useRouter();
+    const searchParams = useSearchParams();
 
     // State for tickets and loading
     const [tickets, setTickets] = useState<Ticket[]>([]);
@@ -42,6 +82,30 @@ export default function TicketsPage() {
     const [statusFilter, setStatusFilter] = useState<string>('all');
     const [priorityFilter, setPriorityFilter] = useState<string>('all');
     const [typeFilter, setTypeFilter] = useState<string>('all');
+    const [tagFilter, setTagFilter] = useState<string>('all');
+    const [assigneeFilter, setAssigneeFilter] = useState<string>('all');
+    const [teamFilter, setTeamFilter] = useState<string>('all');
+    const [requesterFilter, setRequesterFilter] = useState<string>('all');
+    const [createdFrom, setCreatedFrom] = useState('');
+    const [createdTo, setCreatedTo] = useState('');
+    const [searchText, setSearchText] = useState('');
+    const [debouncedSearch, setDebouncedSearch] = useState('');
+    const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
+    const [page, setPage] = useState(1);
+    const [totalCount, setTotalCount] = useState<number | null>(null);
+    const latestRequest = useRef(0); // Older responses are dropped when filters change mid-request
+    const pendingCustomFieldFilters = useRef<Record<string, string> | null>(null);
+
+    // State for saved views; the open view is kept in the URL (?view=<id>) so the sidebar can link to it
+    const [views, setViews] = useState<TicketView[]>([]);
+    const [activeViewId, setActiveViewId] = useState<number | null>(null);
+    const [isSaveViewDialogOpen, setIsSaveViewDialogOpen] = useState(false);
+    const [viewName, setViewName] = useState('');
+    const [viewSharing, setViewSharing] = useState('private'); // 'private', 'everyone' or a team id
+    const [isSavingView, setIsSavingView] = useState(false);
+    // Custom field filters are only offered once a single ticket type is selected
+    const [filterFields, setFilterFields] = useState<TicketCustomField[]>([]);
+    const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>({});
 
     // State for new ticket form
     const [isNewTicketDialogOpen, setIsNewTicketDialogOpen] = useState(false);
@@ -53,12 +117,79 @@ export default function TicketsPage() {
         ticket_type_id: '',
         requester_id: '',
     });
+    const [newTicketFiles, setNewTicketFiles] = useState<File[]>([]);
+    const [newTicketFields, setNewTicketFields] = useState<TicketCustomField[]>([]);
+    const [newTicketFieldValues, setNewTicketFieldValues] = useState<CustomFieldValues>({});
+    const [newTicketTags, setNewTicketTags] = useState<string[]>([]);
+
+    // State for bulk actions (agents only). Every bulk action is confirmed once before it runs.
+    const [selectedTicketIds, setSelectedTicketIds] = useState<number[]>([]);
+    const [bulkTags, setBulkTags] = useState<string[]>([]);
+    const [pendingBulkAction, setPendingBulkAction] = useState<{ action: BulkTicketAction; description: string } | null>(null);
+    const [isRunningBulkAction, setIsRunningBulkAction] = useState(false);
 
     // State for dropdown options
     const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
     const [ticketPriorities, setTicketPriorities] = useState<PriorityOption[]>([]);
     const [ticketStatuses, setTicketStatuses] = useState<StatusOption[]>([]);
     const [customers, setCustomers] = useState<UserProfile[]>([]);
+    const [allTags, setAllTags] = useState<string[]>([]);
+    const [agents, setAgents] = useState<AgentOption[]>([]);
+    const [teams, setTeams] = useState<Team[]>([]);
+
+    // The current filters in the form saved views store them
+    const viewFilters = useMemo<TicketViewFilters>(() => {
+        const [sort, direction] = sortOption.split(':');
+        const activeCustomFields = Object.fromEntries(Object.entries(customFieldFilters).filter(([, value]) => value !== ''));
+        return {
+            statusIds: statusFilter === 'all' ? undefined : [Number(statusFilter)],
+            priorityIds: priorityFilter === 'all' ? undefined : [Number(priorityFilter)],
+            ticketTypeIds: typeFilter === 'all' ? undefined : [Number(typeFilter)],
+            tags: tagFilter === 'all' ? undefined : [tagFilter],
+            assignee: assigneeFilter === 'all' ? undefined : assigneeFilter,
+            team: teamFilter === 'all' ? undefined : teamFilter,
+            requesterId: requesterFilter === 'all' ? undefined : requesterFilter,
+            createdFrom: createdFrom || undefined,
+            createdTo: createdTo || undefined,
+            search: debouncedSearch || undefined,
+            customFields: Object.keys(activeCustomFields).length > 0 ? activeCustomFields : undefined,
+            sort: sort as TicketSortKey,
+            ascending: direction === 'asc',
+        };
+    }, [statusFilter, priorityFilter, typeFilter, tagFilter, assigneeFilter, teamFilter, requesterFilter, createdFrom, createdTo, debouncedSearch, customFieldFilters, sortOption]);
+
+    // Filters, search and sorting are applied by the database, so they cover every ticket, not just this page
+    const ticketQuery = useMemo(
+        () => ticketQueryFromViewFilters(viewFilters, user?.id || '', filterFields),
+        [viewFilters, user?.id, filterFields]
+    );
+
+    const applyViewFilters = useCallback((filters: TicketViewFilters) => {
+        const nextType = filters.ticketTypeIds?.[0] ? String(filters.ticketTypeIds[0]) : 'all';
+        setStatusFilter(filters.statusIds?.[0] ? String(filters.statusIds[0]) : 'all');
+        setPriorityFilter(filters.priorityIds?.[0] ? String(filters.priorityIds[0]) : 'all');
+        setTypeFilter(nextType);
+        setTagFilter(filters.tags?.[0] || 'all');
+        setAssigneeFilter(filters.assignee || 'all');
+        setTeamFilter(filters.team || 'all');
+        setRequesterFilter(filters.requesterId || 'all');
+        setCreatedFrom(filters.createdFrom || '');
+        setCreatedTo(filters.createdTo || '');
+        setSearchText(filters.search || '');
+        setDebouncedSearch(filters.search || '');
+        setSortOption(`${filters.sort || 'created_at'}:${filters.ascending ? 'asc' : 'desc'}`);
+        // Custom field filters depend on the type; when it changes they are applied once its fields have loaded
+        if (nextType === typeFilter) setCustomFieldFilters(filters.customFields || {});
+        else pendingCustomFieldFilters.current = filters.customFields || {};
+    }, [typeFilter]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setDebouncedSearch(searchText.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchText]);
+
+    // New criteria start again from the first page
+    useEffect(() => { setPage(1); }, [ticketQuery]);
 
     // Load tickets
     const loadTickets = useCallback(async () => {
@@ -67,11 +198,14 @@ export default function TicketsPage() {
             return;
         }
         
+        const requestId = ++latestRequest.current;
         setIsLoading(true);
         setError(null);
         try {
-            const { tickets: fetchedTickets } = await fetchTicketsForUser(100, 0);
+            const { tickets: fetchedTickets, count } = await fetchTicketsForUser(PAGE_SIZE, (page - 1) * PAGE_SIZE, ticketQuery);
+            if (requestId !== latestRequest.current) return;
             setTickets(fetchedTickets);
+            setTotalCount(count);
         } catch (err: any) {
             console.error("Failed to load tickets:", err);
             setError(err.message || "Could not fetch tickets.");
@@ -79,22 +213,28 @@ export default function TicketsPage() {
                 router.push('/login');
             }
         } finally {
-            setIsLoading(false);
+            if (requestId === latestRequest.current) setIsLoading(false);
         }
-    }, [user, router]);
+    }, [user, router, page, ticketQuery]);
 
     // Load dropdown options
     const loadDropdownOptions = useCallback(async () => {
         if (!user) return;
         
         try {
-            const [types, priorities, statuses, customersList] = await Promise.all([
+            const [types, priorities, statuses, customersList, tags, agentList, teamList] = await Promise.all([
                 fetchTicketTypes(),
                 fetchTicketPriorities(),
                 fetchTicketStatuses(),
                 isAgent ? fetchCustomers() : Promise.resolve([]),
+                fetchTicketTags(),
+                isAgent ? fetchAgents() : Promise.resolve([]),
+                isAgent ? fetchTeams() : Promise.resolve([]),
             ]);
             setTicketTypes(types);
+            setAllTags(tags);
+            setAgents(agentList);
+            setTeams(teamList);
             setTicketPriorities(priorities);
             setTicketStatuses(statuses);
             if (customersList) {
@@ -126,9 +266,12 @@ export default function TicketsPage() {
                 priority_id: Number(newTicket.priority_id),
                 status_id: Number(newTicket.status_id),
                 ticket_type_id: Number(newTicket.ticket_type_id),
+                attachments: newTicketFiles,
+                custom_fields: newTicketFieldValues,
+                tags: isAgent ? newTicketTags : [],
             };
             
-            await createTicket(ticketPayload);
+            const created = await createTicket(ticketPayload);
             await loadTickets();
             setIsNewTicketDialogOpen(false);
             setNewTicket({
@@ -139,7 +282,13 @@ export default function TicketsPage() {
                 ticket_type_id: '',
                 requester_id: '',
             });
+            setNewTicketFiles([]);
+            setNewTicketFieldValues({});
+            setNewTicketTags([]);
             toast.success("Ticket created successfully!");
+            if (created && created.failed_attachments.length > 0) {
+                toast.error(`Ticket #${created.id} was created, but ${created.failed_attachments.join(', ')} could not be uploaded. Add them as a reply instead.`);
+            }
         } catch (err: any) {
             console.error("Failed to create ticket:", err);
             toast.error(err.message || "Failed to create ticket.");
@@ -151,13 +300,163 @@ export default function TicketsPage() {
         }
     };
 
-    // Filter tickets
-    const filteredTickets = tickets.filter(ticket => {
-        const matchesStatus = statusFilter === 'all' || String(ticket.status_id) === statusFilter;
-        const matchesPriority = priorityFilter === 'all' || String(ticket.priority_id) === priorityFilter;
-        const matchesType = typeFilter === 'all' || String(ticket.ticket_type_id) === typeFilter;
-        return matchesStatus && matchesPriority && matchesType;
-    });
+    const toggleTicketSelection = (ticketId: number, checked: boolean) =>
+        setSelectedTicketIds(prev => (checked ? [...prev, ticketId] : prev.filter(id => id !== ticketId)));
+    const allOnPageSelected = tickets.length > 0 && tickets.every(ticket => selectedTicketIds.includes(ticket.id));
+    const pageCount = totalCount ? Math.ceil(totalCount / PAGE_SIZE) : 1;
+
+    const ticketLabel = (ticketId: number) => `#${ticketId}`;
+
+    const confirmBulkTags = (mode: 'add' | 'remove') => {
+        if (bulkTags.length === 0) {
+            toast.error("Enter at least one tag.");
+            return;
+        }
+        setPendingBulkAction({
+            action: { type: mode === 'add' ? 'add_tags' : 'remove_tags', tags: bulkTags },
+            description: `${mode === 'add' ? 'Add' : 'Remove'} the tags ${bulkTags.map(tag => `"${tag}"`).join(', ')} ${mode === 'add' ? 'to' : 'from'} ${selectedTicketIds.length} ticket(s).`,
+        });
+    };
+
+    // Runs the confirmed action. Tickets that failed stay selected so the action can be retried on them.
+    const handleRunBulkAction = async () => {
+        if (!pendingBulkAction) return;
+        const { action } = pendingBulkAction;
+        setIsRunningBulkAction(true);
+        try {
+            const { succeeded, skipped, failed } = await runBulkTicketAction(selectedTicketIds, action);
+            const summary = `${succeeded.length} ticket(s) updated${skipped.length > 0 ? `, ${skipped.length} unchanged` : ''}`;
+            if (failed.length === 0) {
+                toast.success(`${summary}.`);
+            } else {
+                toast.error(`${summary}, ${failed.length} failed.`, {
+                    description: failed.map(f => `${ticketLabel(f.ticketId)}: ${f.message}`).join('\n'),
+                    duration: 10000,
+                });
+            }
+            setSelectedTicketIds(failed.map(f => f.ticketId));
+            if (action.type === 'add_tags' || action.type === 'remove_tags') {
+                setBulkTags([]);
+                setAllTags(await fetchTicketTags());
+            }
+            await loadTickets();
+        } catch (err: any) {
+            console.error(`Bulk action "${action.type}" failed:`, err);
+            toast.error(err.message || "Failed to update the selected tickets.");
+        } finally {
+            setIsRunningBulkAction(false);
+            setPendingBulkAction(null);
+        }
+    };
+
+    const loadViews = useCallback(async () => {
+        try {
+            setViews(await fetchTicketViews());
+        } catch (err: any) {
+            console.error("Failed to load saved views:", err);
+        }
+    }, []);
+
+    // Opening /tickets?view=<id> applies the view; plain /tickets goes back to the default filters
+    useEffect(() => {
+        const viewId = Number(searchParams.get('view')) || null;
+        if (viewId === activeViewId) return;
+        if (!viewId) {
+            setActiveViewId(null);
+            applyViewFilters({});
+            return;
+        }
+        const view = views.find(v => v.id === viewId);
+        if (!view) return; // Views are still loading
+        setActiveViewId(view.id);
+        applyViewFilters(view.filters);
+    }, [searchParams, views, activeViewId, applyViewFilters]);
+
+    const activeView = views.find(v => v.id === activeViewId) || null;
+    const myTeams = teams.filter(team => team.members.some(member => member.agent_id === user?.id));
+
+    const handleSaveView = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!viewName.trim()) {
+            toast.error("Enter a name for the view.");
+            return;
+        }
+        setIsSavingView(true);
+        try {
+            const created = await createTicketView({
+                name: viewName,
+                is_shared: viewSharing !== 'private',
+                shared_team_id: viewSharing === 'private' || viewSharing === 'everyone' ? null : Number(viewSharing),
+                filters: viewFilters,
+            });
+            await loadViews();
+            setIsSaveViewDialogOpen(false);
+            toast.success(`View "${viewName.trim()}" saved.`);
+            if (created) router.push(`/tickets?view=${created.id}`);
+        } catch (err: any) {
+            console.error("Failed to save view:", err);
+            toast.error(err.message || "Failed to save the view.");
+        } finally {
+            setIsSavingView(false);
+        }
+    };
+
+    const handleUpdateView = async () => {
+        if (!activeView) return;
+        setIsSavingView(true);
+        try {
+            const updated = await updateTicketView(activeView.id, { filters: viewFilters });
+            if (updated) setViews(prev => prev.map(v => (v.id === updated.id ? updated : v)));
+            toast.success(`View "${activeView.name}" updated.`);
+        } catch (err: any) {
+            console.error("Failed to update view:", err);
+            toast.error(err.message || "Failed to update the view.");
+        } finally {
+            setIsSavingView(false);
+        }
+    };
+
+    const handleDeleteView = async () => {
+        if (!activeView) return;
+        setIsSavingView(true);
+        try {
+            await deleteTicketView(activeView.id);
+            setViews(prev => prev.filter(v => v.id !== activeView.id));
+            toast.success(`View "${activeView.name}" deleted.`);
+            router.push('/tickets');
+        } catch (err: any) {
+            console.error("Failed to delete view:", err);
+            toast.error(err.message || "Failed to delete the view.");
+        } finally {
+            setIsSavingView(false);
+        }
+    };
+
+    const setCustomFieldFilter = (fieldId: number, value: string) =>
+        setCustomFieldFilters(prev => ({ ...prev, [String(fieldId)]: value }));
+
+    useEffect(() => {
+        setCustomFieldFilters(pendingCustomFieldFilters.current || {});
+        pendingCustomFieldFilters.current = null;
+        if (typeFilter === 'all') {
+            setFilterFields([]);
+            return;
+        }
+        fetchCustomFields(Number(typeFilter))
+            .then(setFilterFields)
+            .catch(err => console.error("Failed to load custom fields:", err));
+    }, [typeFilter]);
+
+    useEffect(() => {
+        setNewTicketFieldValues({});
+        if (!newTicket.ticket_type_id) {
+            setNewTicketFields([]);
+            return;
+        }
+        fetchCustomFields(Number(newTicket.ticket_type_id))
+            .then(setNewTicketFields)
+            .catch(err => console.error("Failed to load custom fields:", err));
+    }, [newTicket.ticket_type_id]);
 
     // Initial load
     useEffect(() => {
@@ -165,11 +464,16 @@ export default function TicketsPage() {
             if (!user) {
                 router.push('/login');
             } else {
-                loadTickets();
                 loadDropdownOptions();
+                loadViews();
             }
         }
-    }, [authLoading, user, router, loadTickets, loadDropdownOptions]);
+    }, [authLoading, user, router, loadDropdownOptions, loadViews]);
+
+    // Reload whenever the criteria or the page change
+    useEffect(() => {
+        if (!authLoading && user) loadTickets();
+    }, [authLoading, user, loadTickets]);
 
     if (authLoading) {
         return <div className="flex items-center justify-center min-h-screen">
@@ -215,6 +519,8 @@ export default function TicketsPage() {
                                 />
                             </div>
 
+                            <AttachmentPicker files={newTicketFiles} onChange={setNewTicketFiles} disabled={isLoading} />
+
                             {isAgent && (
                                 <div className="space-y-2">
                                     <Label htmlFor="requester">Requester</Label>
@@ -297,6 +603,15 @@ export default function TicketsPage() {
                                 </Select>
                             </div>
 
+                            <CustomFieldInputs fields={newTicketFields} values={newTicketFieldValues} onChange={setNewTicketFieldValues} disabled={isLoading} />
+
+                            {isAgent && (
+                                <div className="space-y-2">
+                                    <Label>Tags</Label>
+                                    <TagInput tags={newTicketTags} onChange={setNewTicketTags} suggestions={allTags} disabled={isLoading} />
+                                </div>
+                            )}
+
                             <Button type="submit" disabled={isLoading}>
                                 {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create Ticket'}
                             </Button>
@@ -307,11 +622,55 @@ export default function TicketsPage() {
 
             <Card>
                 <CardHeader>
-                    <CardTitle>Tickets List</CardTitle>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <CardTitle>{activeView ? activeView.name : 'Tickets List'}</CardTitle>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Select value={activeViewId ? String(activeViewId) : 'none'} onValueChange={(value) => router.push(value === 'none' ? '/tickets' : `/tickets?view=${value}`)}>
+                                <SelectTrigger className="w-[220px]">
+                                    <SelectValue placeholder="Saved views" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">All tickets (no view)</SelectItem>
+                                    {views.map((view) => (
+                                        <SelectItem key={view.id} value={String(view.id)}>
+                                            {view.name}
+                                            {view.owner_id !== user?.id && (
+                                                <span className="text-xs text-muted-foreground ml-1">
+                                                    (shared by {view.owner?.full_name || 'a teammate'}{view.shared_team ? ` with ${view.shared_team.name}` : ''})
+                                                </span>
+                                            )}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {activeView && activeView.owner_id === user?.id && (
+                                <>
+                                    <Button variant="outline" size="sm" onClick={handleUpdateView} disabled={isSavingView}>Save Changes</Button>
+                                    <Button variant="ghost" size="sm" onClick={handleDeleteView} disabled={isSavingView}>Delete View</Button>
+                                </>
+                            )}
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => { setViewName(''); setViewSharing('private'); setIsSaveViewDialogOpen(true); }}
+                                disabled={isSavingView}
+                            >
+                                Save as View
+                            </Button>
+                        </div>
+                    </div>
                 </CardHeader>
                 <CardContent>
                     {/* Filters */}
                     <div className="flex flex-wrap gap-4 mb-6">
+                        <Input
+                            type="search"
+                            value={searchText}
+                            onChange={(e) => setSearchText(e.target.value)}
+                            placeholder="Search subject, description, requester or #"
+                            className="w-[280px]"
+                        />
+
                         <Select value={statusFilter} onValueChange={setStatusFilter}>
                             <SelectTrigger className="w-[180px]">
                                 <SelectValue placeholder="Filter by status" />
@@ -353,8 +712,233 @@ export default function TicketsPage() {
                                 ))}
                             </SelectContent>
                         </Select>
+
+                        <Select value={tagFilter} onValueChange={setTagFilter}>
+                            <SelectTrigger className="w-[180px]">
+                                <SelectValue placeholder="Filter by tag" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">All Tags</SelectItem>
+                                {allTags.map((tag) => (
+                                    <SelectItem key={tag} value={tag}>
+                                        {tag}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+
+                        {isAgent && (
+                            <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                                <SelectTrigger className="w-[180px]">
+                                    <SelectValue placeholder="Filter by assignee" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">All Assignees</SelectItem>
+                                    <SelectItem value="me">Assigned to me</SelectItem>
+                                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                                    {agents.filter(agent => agent.id !== user?.id).map((agent) => (
+                                        <SelectItem key={agent.id} value={agent.id}>
+                                            {agent.full_name || agent.id.substring(0, 6)}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+
+                        {isAgent && teams.length > 0 && (
+                            <Select value={teamFilter} onValueChange={setTeamFilter}>
+                                <SelectTrigger className="w-[180px]">
+                                    <SelectValue placeholder="Filter by team" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">All Teams</SelectItem>
+                                    <SelectItem value="none">No team</SelectItem>
+                                    {teams.map((team) => (
+                                        <SelectItem key={team.id} value={String(team.id)}>
+                                            {team.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+
+                        {isAgent && (
+                            <Select value={requesterFilter} onValueChange={setRequesterFilter}>
+                                <SelectTrigger className="w-[180px]">
+                                    <SelectValue placeholder="Filter by requester" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">All Requesters</SelectItem>
+                                    {customers.map((customer) => (
+                                        <SelectItem key={customer.id} value={customer.id}>
+                                            {customer.full_name || customer.id.substring(0, 6)}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+
+                        <div className="flex items-center gap-2">
+                            <Label htmlFor="created-from" className="text-sm text-muted-foreground whitespace-nowrap">Created</Label>
+                            <Input id="created-from" type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} className="w-[150px]" title="Created from" />
+                            <span className="text-muted-foreground">-</span>
+                            <Input type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} className="w-[150px]" title="Created until" />
+                        </div>
+
+                        <Select value={sortOption} onValueChange={setSortOption}>
+                            <SelectTrigger className="w-[180px]">
+                                <SelectValue placeholder="Sort by" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {SORT_OPTIONS.map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+
+                        {filterFields.map((field) => {
+                            const value = customFieldFilters[String(field.id)] || '';
+                            if (field.field_type === 'dropdown' || field.field_type === 'checkbox') {
+                                const options = field.field_type === 'checkbox'
+                                    ? [{ value: 'true', label: 'Checked' }, { value: 'false', label: 'Unchecked' }]
+                                    : (field.options || []).map(option => ({ value: option, label: option }));
+                                return (
+                                    <Select key={field.id} value={value || 'all'} onValueChange={(v) => setCustomFieldFilter(field.id, v === 'all' ? '' : v)}>
+                                        <SelectTrigger className="w-[180px]">
+                                            <SelectValue placeholder={`Filter by ${field.label}`} />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="all">{field.label}: Any</SelectItem>
+                                            {options.map((option) => (
+                                                <SelectItem key={option.value} value={option.value}>
+                                                    {field.label}: {option.label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                );
+                            }
+                            return (
+                                <Input
+                                    key={field.id}
+                                    type={field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : 'text'}
+                                    value={value}
+                                    onChange={(e) => setCustomFieldFilter(field.id, e.target.value)}
+                                    placeholder={field.label}
+                                    title={field.label}
+                                    className="w-[180px]"
+                                />
+                            );
+                        })}
                     </div>
 
+                    {isAgent && selectedTicketIds.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 mb-4 rounded-md border bg-muted/30 p-2">
+                            <span className="text-sm font-medium">{selectedTicketIds.length} selected</span>
+                            <Select
+                                value=""
+                                onValueChange={(value) => setPendingBulkAction({
+                                    action: { type: 'set_status', statusId: Number(value) },
+                                    description: `Set the status of ${selectedTicketIds.length} ticket(s) to ${ticketStatuses.find(s => String(s.id) === value)?.name}.`,
+                                })}
+                                disabled={isRunningBulkAction}
+                            >
+                                <SelectTrigger className="h-8 w-[140px]"><SelectValue placeholder="Set status" /></SelectTrigger>
+                                <SelectContent>
+                                    {ticketStatuses.map(status => <SelectItem key={status.id} value={String(status.id)}>{status.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                            <Select
+                                value=""
+                                onValueChange={(value) => setPendingBulkAction({
+                                    action: { type: 'set_priority', priorityId: Number(value) },
+                                    description: `Set the priority of ${selectedTicketIds.length} ticket(s) to ${ticketPriorities.find(p => String(p.id) === value)?.name}.`,
+                                })}
+                                disabled={isRunningBulkAction}
+                            >
+                                <SelectTrigger className="h-8 w-[140px]"><SelectValue placeholder="Set priority" /></SelectTrigger>
+                                <SelectContent>
+                                    {ticketPriorities.map(priority => <SelectItem key={priority.id} value={String(priority.id)}>{priority.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                            <Select
+                                value=""
+                                onValueChange={(value) => {
+                                    const agent = agents.find(a => a.id === value);
+                                    setPendingBulkAction({
+                                        action: { type: 'assign', agentId: value === 'unassigned' ? null : value },
+                                        description: value === 'unassigned'
+                                            ? `Unassign ${selectedTicketIds.length} ticket(s).`
+                                            : `Assign ${selectedTicketIds.length} ticket(s) to ${agent?.full_name || 'the selected agent'}.`,
+                                    });
+                                }}
+                                disabled={isRunningBulkAction}
+                            >
+                                <SelectTrigger className="h-8 w-[140px]"><SelectValue placeholder="Assign to" /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                                    {agents.map(agent => <SelectItem key={agent.id} value={agent.id}>{agent.full_name || agent.id.substring(0, 6)}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                            {selectedTicketIds.length > 1 && (
+                                <Select
+                                    value=""
+                                    onValueChange={(value) => setPendingBulkAction({
+                                        action: { type: 'merge', targetTicketId: Number(value) },
+                                        description: `Merge ${selectedTicketIds.length - 1} ticket(s) into ${ticketLabel(Number(value))}. Their comments and attachments move to it and they are closed.`,
+                                    })}
+                                    disabled={isRunningBulkAction}
+                                >
+                                    <SelectTrigger className="h-8 w-[140px]"><SelectValue placeholder="Merge into" /></SelectTrigger>
+                                    <SelectContent>
+                                        {tickets.filter(t => selectedTicketIds.includes(t.id)).map(t => (
+                                            <SelectItem key={t.id} value={String(t.id)}>{ticketLabel(t.id)} {t.subject}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            )}
+                            <div className="min-w-[240px] flex-1">
+                                <TagInput tags={bulkTags} onChange={setBulkTags} suggestions={allTags} disabled={isRunningBulkAction} placeholder="Tags to add or remove..." />
+                            </div>
+                            <Button size="sm" onClick={() => confirmBulkTags('add')} disabled={isRunningBulkAction}>Add Tags</Button>
+                            <Button size="sm" variant="outline" onClick={() => confirmBulkTags('remove')} disabled={isRunningBulkAction}>Remove Tags</Button>
+                            <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => setPendingBulkAction({
+                                    action: { type: 'delete' },
+                                    description: `Permanently delete ${selectedTicketIds.length} ticket(s) and all associated data. This cannot be undone.`,
+                                })}
+                                disabled={isRunningBulkAction}
+                            >
+                                Delete
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setSelectedTicketIds([])} disabled={isRunningBulkAction}>Clear</Button>
+                        </div>
+                    )}
+
+                    <AlertDialog open={!!pendingBulkAction} onOpenChange={(open) => { if (!open && !isRunningBulkAction) setPendingBulkAction(null); }}>
+                        <AlertDialogContent>
+                            <AlertDialogHeader>
+                                <AlertDialogTitle>Apply to {selectedTicketIds.length} ticket(s)?</AlertDialogTitle>
+                                <AlertDialogDescription>{pendingBulkAction?.description}</AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                                <AlertDialogCancel disabled={isRunningBulkAction}>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                    onClick={(e) => { e.preventDefault(); handleRunBulkAction(); }}
+                                    disabled={isRunningBulkAction}
+                                    className={pendingBulkAction?.action.type === 'delete' ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : undefined}
+                                >
+                                    {isRunningBulkAction && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    {isRunningBulkAction ? "Applying..." : "Apply"}
+                                </AlertDialogAction>
+                            </AlertDialogFooter>
+                        </AlertDialogContent>
+                    </AlertDialog>
+
                     {/* Tickets Table */}
                     {isLoading ? (
                         <div className="flex items-center justify-center h-64">
@@ -370,24 +954,55 @@ export default function TicketsPage() {
                             <Table>
                                 <TableHeader>
                                     <TableRow>
+                                        {isAgent && (
+                                            <TableHead className="w-8">
+                                                <Checkbox
+                                                    checked={allOnPageSelected}
+                                                    onCheckedChange={(checked) => setSelectedTicketIds(checked === true ? tickets.map(t => t.id) : [])}
+                                                    aria-label="Select all tickets"
+                                                />
+                                            </TableHead>
+                                        )}
                                         <TableHead>Subject</TableHead>
                                         <TableHead>Status</TableHead>
                                         <TableHead>Priority</TableHead>
                                         <TableHead>Type</TableHead>
                                         <TableHead>Requester</TableHead>
                                         <TableHead>Assignee</TableHead>
+                                        <TableHead>SLA</TableHead>
                                         <TableHead>Created</TableHead>
                                         <TableHead>Updated</TableHead>
                                     </TableRow>
                                 </TableHeader>
                                 <TableBody>
-                                    {filteredTickets.map((ticket) => (
+                                    {tickets.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={isAgent ? 10 : 9} className="text-center text-muted-foreground py-8">No tickets match these filters.</TableCell>
+                                        </TableRow>
+                                    )}
+                                    {tickets.map((ticket) => (
                                         <TableRow
                                             key={ticket.id}
                                             className="cursor-pointer hover:bg-muted/50"
                                             onClick={() => router.push(`/tickets/${ticket.id}`)}
                                         >
-                                            <TableCell>{ticket.subject}</TableCell>
+                                            {isAgent && (
+                                                <TableCell onClick={(e) => e.stopPropagation()}>
+                                                    <Checkbox
+                                                        checked={selectedTicketIds.includes(ticket.id)}
+                                                        onCheckedChange={(checked) => toggleTicketSelection(ticket.id, checked === true)}
+                                                        aria-label={`Select ticket ${ticket.id}`}
+                                                    />
+                                                </TableCell>
+                                            )}
+                                            <TableCell>
+                                                {ticket.subject}
+                                                {ticket.tags && ticket.tags.length > 0 && (
+                                                    <div className="mt-1 flex flex-wrap gap-1">
+                                                        {ticket.tags.map(tag => <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>)}
+                                                    </div>
+                                                )}
+                                            </TableCell>
                                             <TableCell>
                                                 {ticket.ticket_statuses ? (
                                                     <Badge
@@ -414,7 +1029,8 @@ export default function TicketsPage() {
                                                 {ticketTypes.find(t => t.id === ticket.ticket_type_id)?.name || 'Unknown'}
                                             </TableCell>
                                             <TableCell>{ticket.profiles?.full_name || 'Unknown'}</TableCell>
-                                            <TableCell>{ticket.assignee_profile?.full_name || 'Unassigned'}</TableCell>
+                                            <TableCell>{ticket.assignee_profile?.full_name || (ticket.team ? `${ticket.team.name} queue` : 'Unassigned')}</TableCell>
+                                            <TableCell><SlaBadge clock={ticket.sla_clock} /></TableCell>
                                             <TableCell>{new Date(ticket.created_at).toLocaleDateString()}</TableCell>
                                             <TableCell>{ticket.updated_at ? new Date(ticket.updated_at).toLocaleDateString() : '-'}</TableCell>
                                         </TableRow>
@@ -423,8 +1039,77 @@ export default function TicketsPage() {
                             </Table>
                         </div>
                     )}
+
+                    {/* Pagination */}
+                    {!error && totalCount !== null && totalCount > 0 && (
+                        <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+                            <span>
+                                Showing {(page - 1) * PAGE_SIZE + 1}-{Math.min(page * PAGE_SIZE, totalCount)} of {totalCount} tickets
+                            </span>
+                            <div className="flex items-center gap-2">
+                                <Button variant="outline" size="sm" onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1 || isLoading}>Previous</Button>
+                                <span>Page {page} of {pageCount}</span>
+                                <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount || isLoading}>Next</Button>
+                            </div>
+                        </div>
+                    )}
                 </CardContent>
             </Card>
+
+            <Dialog open={isSaveViewDialogOpen} onOpenChange={setIsSaveViewDialogOpen}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Save View</DialogTitle>
+                        <DialogDescription>
+                            Saves the current filters and sort order. Views appear in the sidebar with their ticket counts.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleSaveView} className="grid gap-4 py-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="view-name">Name</Label>
+                            <Input id="view-name" value={viewName} onChange={(e) => setViewName(e.target.value)} placeholder="e.g. My open urgent tickets" required disabled={isSavingView} />
+                        </div>
+                        {(isAgent || isAdmin) && (
+                            <div className="grid gap-2">
+                                <Label htmlFor="view-sharing">Share with</Label>
+                                <Select value={viewSharing} onValueChange={setViewSharing} disabled={isSavingView}>
+                                    <SelectTrigger id="view-sharing">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="private">Only me</SelectItem>
+                                        <SelectItem value="everyone">All agents and admins</SelectItem>
+                                        {myTeams.map((team) => (
+                                            <SelectItem key={team.id} value={String(team.id)}>Team {team.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <p className="text-xs text-muted-foreground">Views shared with a team are listed for its members and for admins. &quot;Assigned to me&quot; means whoever opens it.</p>
+                            </div>
+                        )}
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => setIsSaveViewDialogOpen(false)} disabled={isSavingView}>Cancel</Button>
+                            <Button type="submit" disabled={isSavingView}>
+                                {isSavingView && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save View
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
         </div>
     );
+}
+
+// useSearchParams needs a Suspense boundary
+export default function TicketsPage() {
+    return (
+        <Suspense fallback={
+            <div className="flex items-center justify-center min-h-screen">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <p className="ml-2">Loading...</p>
+            </div>
+        }>
+            <TicketsList />
+        </Suspense>
+    );
 } 
\ No newline at end of file
@@ -7,6 +7,7 @@ import { useRouter } from 'next/navigation';
 import {
     // Existing imports
     fetchTicketTypes, createTicketType, updateTicketType, deleteTicketType, TicketType,
+    fetchTicketPriorities, PriorityOption,
     fetchSpecializations, createSpecialization, updateSpecialization, deleteSpecialization, Specialization,
     addTicketTypeSpecializationRoute, removeTicketTypeSpecializationRoute, fetchRoutesForTicketType,
     fetchAllUsersWithProfiles, updateUserProfile, UserProfile,
@@ -35,6 +36,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"; // <-- Added missing Badge import
 import { PlusCircle, Edit, Trash2, Loader2, BookOpen, TagIcon, Users2, Link2Icon, Settings2, Home } from 'lucide-react'; // <-- Added Home import
 import ClientOnlyDateTime from '@/components/ClientOnlyDateTime';
+import SlaPoliciesSection from '@/components/admin/SlaPoliciesSection';
+import BusinessCalendarsSection from '@/components/admin/BusinessCalendarsSection';
+import CustomFieldsSection from '@/components/admin/CustomFieldsSection';
+import CannedResponsesSection from '@/components/admin/CannedResponsesSection';
+import AutoAssignmentSection from '@/components/admin/AutoAssignmentSection';
+import AgentAvailabilitySection from '@/components/admin/AgentAvailabilitySection';
+import TeamsSection from '@/components/admin/TeamsSection';
+import EscalationPoliciesSection from '@/components/admin/EscalationPoliciesSection';
 
 // Helper to generate a basic slug
 const generateSlug = (title: string): string => {
@@ -63,6 +72,7 @@ export default function AdminManagementPage() {
     const [ticketTypeName, setTicketTypeName] = useState('');
     const [ticketTypeDescription, setTicketTypeDescription] = useState('');
     const [isSubmittingTicketType, setIsSubmittingTicketType] = useState(false);
+    const [ticketPriorities, setTicketPriorities] = useState<PriorityOption[]>([]);
 
     // Specialization states
     const [specializations, setSpecializations] = useState<Specialization[]>([]);
@@ -123,15 +133,18 @@ const NO_CATEGORY_VALUE = "__NO_CATEGORY__"; // Constant for "Uncategorized" opt
                 fetchedSpecializationsData,
                 fetchedUsers,
                 fetchedKBCategories,
-                fetchedKBArticlesData
+                fetchedKBArticlesData,
+                fetchedTicketPriorities
             ] = await Promise.all([
                 fetchTicketTypes(),
                 fetchSpecializations(),
                 fetchAllUsersWithProfiles(),
                 fetchKBCategories(),
-                fetchKBArticles({ publishedOnly: false })
+                fetchKBArticles({ publishedOnly: false }),
+                fetchTicketPriorities()
             ]);
             setTicketTypes(fetchedTicketTypes);
+            setTicketPriorities(fetchedTicketPriorities);
             setSpecializations(fetchedSpecializationsData);
             setUsers(fetchedUsers);
             setKbCategories(fetchedKBCategories);
@@ -724,6 +737,19 @@ const NO_CATEGORY_VALUE = "__NO_CATEGORY__"; // Constant for "Uncategorized" opt
                 </DialogContent>
             </Dialog>
 
+            <SlaPoliciesSection ticketTypes={ticketTypes} priorities={ticketPriorities} />
+
+            <BusinessCalendarsSection />
+
+            <CustomFieldsSection ticketTypes={ticketTypes} />
+
+            <CannedResponsesSection priorities={ticketPriorities} />
+
+            <AutoAssignmentSection ticketTypes={ticketTypes} />
+            <AgentAvailabilitySection />
+            <TeamsSection />
+            <EscalationPoliciesSection ticketTypes={ticketTypes} priorities={ticketPriorities} />
+
             {/* Specializations Section */}
             <Card className="mb-8">
                 <CardHeader>
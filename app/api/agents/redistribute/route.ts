@@ -0,0 +1,35 @@
+// app/api/agents/redistribute/route.ts
+
+import { authorizeRequest, getSupabaseSrv } from '@/lib/supabaseServer';
+import { redistributeAgentTickets } from '@/lib/autoAssignment';
+
+// Moves an agent's open tickets to other available agents, e.g. before they go on leave.
+// Admins can redistribute anyone's tickets; agents only their own.
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase);
+    if (response) return response;
+
+    const { agentId }: { agentId?: string } = await req.json();
+    if (typeof agentId !== 'string' || !agentId) {
+      return Response.json({ error: 'An agentId is required' }, { status: 400 });
+    }
+
+    const isSelf = agentId === caller.userId && caller.role === 'agent';
+    if (caller.role !== 'admin' && !isSelf) {
+      return Response.json({ error: 'Only admins can redistribute another agent\'s tickets' }, { status: 403 });
+    }
+
+    const { data: agent } = await supabase.from('profiles').select('id').eq('id', agentId).maybeSingle();
+    if (!agent) {
+      return Response.json({ error: 'Agent not found' }, { status: 404 });
+    }
+
+    const result = await redistributeAgentTickets(supabase, agentId, caller.userId);
+    return Response.json(result);
+  } catch (error: any) {
+    console.error('Error redistributing tickets:', error);
+    return Response.json({ error: error.message || 'Failed to redistribute the tickets' }, { status: 500 });
+  }
+}
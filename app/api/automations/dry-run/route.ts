@@ -0,0 +1,30 @@
+// app/api/automations/dry-run/route.ts
+
+import { authorizeRequest, getSupabaseSrv } from '@/lib/supabaseServer';
+import { dryRunAutomation, loadRuleFields } from '@/lib/automationEngine';
+import { toRuleSet, validateRuleSet } from '@/lib/automationRules';
+import type { AutomationDryRunInput } from '@/lib/dataService';
+
+// Evaluates a saved or draft automation against recent tickets. Nothing is written.
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { response } = await authorizeRequest(req, supabase, { roles: ['admin'], forbiddenMessage: 'Only administrators can preview automations' });
+    if (response) return response;
+
+    const { automation }: { automation?: AutomationDryRunInput } = await req.json();
+    if (!automation || !automation.conditions || !Array.isArray(automation.actions)) {
+      return Response.json({ error: 'An automation with conditions and actions is required' }, { status: 400 });
+    }
+    const ruleErrors = validateRuleSet(toRuleSet(automation.conditions), await loadRuleFields(supabase));
+    if (ruleErrors.length > 0) {
+      return Response.json({ error: `Invalid automation rule: ${ruleErrors.join('; ')}` }, { status: 400 });
+    }
+
+    const result = await dryRunAutomation(supabase, automation);
+    return Response.json(result);
+  } catch (error: any) {
+    console.error('Error running automation dry run:', error);
+    return Response.json({ error: error.message || 'Failed to run automation dry run' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+// app/api/automations/route.ts
+
+import { authorizeRequest, getSupabaseSrv } from '@/lib/supabaseServer';
+import { loadRuleFields, saveAutomation } from '@/lib/automationEngine';
+import { toRuleSet, validateRuleSet } from '@/lib/automationRules';
+import type { AutomationTriggerType, NewAutomationData } from '@/lib/dataService';
+
+const VALID_TRIGGERS: AutomationTriggerType[] = ['ticket_created', 'ticket_updated', 'status_changed', 'time_based'];
+
+// Creates and updates automations for the Automations page, admins only. Saving goes through here rather than
+// straight to the table so the rule is always checked against the current fields, custom fields included.
+export async function POST(req: Request) {
+  return save(req, 'create');
+}
+
+export async function PATCH(req: Request) {
+  return save(req, 'update');
+}
+
+async function save(req: Request, mode: 'create' | 'update') {
+  try {
+    const supabase = getSupabaseSrv();
+    const { response } = await authorizeRequest(req, supabase, { roles: ['admin'], forbiddenMessage: 'Only administrators can manage automations' });
+    if (response) return response;
+
+    const { id, automation }: { id?: number; automation?: Partial<NewAutomationData> } = await req.json();
+    if (mode === 'update' && typeof id !== 'number') {
+      return Response.json({ error: 'A numeric automation id is required' }, { status: 400 });
+    }
+    if (!automation) {
+      return Response.json({ error: 'Automation data is required' }, { status: 400 });
+    }
+
+    // Only the columns the Automations page edits
+    const fields: Partial<NewAutomationData> = {};
+    if (automation.name !== undefined) fields.name = automation.name;
+    if (automation.description !== undefined) fields.description = automation.description;
+    if (automation.is_active !== undefined) fields.is_active = automation.is_active;
+    if (automation.trigger_type !== undefined) fields.trigger_type = automation.trigger_type;
+    if (automation.conditions !== undefined) fields.conditions = automation.conditions;
+    if (automation.actions !== undefined) fields.actions = automation.actions;
+    if (automation.business_calendar_id !== undefined) fields.business_calendar_id = automation.business_calendar_id;
+
+    if (mode === 'create' && (!fields.name?.trim() || !fields.trigger_type || !fields.conditions || !fields.actions)) {
+      return Response.json({ error: 'A name, trigger, conditions and actions are required' }, { status: 400 });
+    }
+    if (fields.name !== undefined && !fields.name.trim()) {
+      return Response.json({ error: 'The automation name cannot be empty' }, { status: 400 });
+    }
+    if (fields.trigger_type !== undefined && !VALID_TRIGGERS.includes(fields.trigger_type)) {
+      return Response.json({ error: `Unknown trigger "${fields.trigger_type}"` }, { status: 400 });
+    }
+    if (fields.actions !== undefined && !Array.isArray(fields.actions)) {
+      return Response.json({ error: 'Actions must be a list' }, { status: 400 });
+    }
+    if (fields.conditions !== undefined) {
+      fields.conditions = toRuleSet(fields.conditions);
+      const ruleErrors = validateRuleSet(fields.conditions, await loadRuleFields(supabase));
+      if (ruleErrors.length > 0) {
+        return Response.json({ error: `Invalid automation rule: ${ruleErrors.join('; ')}` }, { status: 400 });
+      }
+    }
+
+    const saved = await saveAutomation(supabase, fields, mode === 'update' ? id : undefined);
+    return Response.json({ automation: saved });
+  } catch (error: any) {
+    console.error('Error saving automation:', error);
+    return Response.json({ error: error.message || 'Failed to save the automation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/automations/scheduler/route.ts
+
+import { authorizeRequest, getSupabaseSrv } from '@/lib/supabaseServer';
+import { runTimeBasedAutomations } from '@/lib/automationEngine';
+import { escalateOverdueTickets } from '@/lib/escalations';
+import { processTicketChanges } from '@/lib/ticketChanges';
+
+// Notes added by scheduled runs are attributed to AUTOMATION_ACTOR_ID when set, otherwise to the first admin
+const schedulerActorId = () => process.env.AUTOMATION_ACTOR_ID || null;
+
+// Called periodically by the cron job in vercel.json, which sends "Authorization: Bearer <CRON_SECRET>".
+// First follows up queued ticket changes whose user never asked for it (lib/ticketChanges.ts), then runs the
+// time-based automations and escalates tickets that passed their escalation level's threshold.
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not configured; refusing to run the automation scheduler.');
+    return Response.json({ error: 'Scheduler is not configured' }, { status: 500 });
+  }
+  if (req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = getSupabaseSrv();
+    const changes = await processTicketChanges(supabase);
+    const run = await runTimeBasedAutomations(supabase, { actorId: schedulerActorId() });
+    const escalations = await escalateOverdueTickets(supabase, schedulerActorId());
+    return Response.json({ run, escalations, changesProcessed: changes.length });
+  } catch (error: any) {
+    console.error('Error running automation scheduler:', error);
+    return Response.json({ error: error.message || 'Failed to run automation scheduler' }, { status: 500 });
+  }
+}
+
+// Manual "Run now" from the Automations page, admins only
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase, { roles: ['admin'], forbiddenMessage: 'Only administrators can run the scheduler' });
+    if (response) return response;
+
+    const actorId = schedulerActorId() || caller.userId;
+    const changes = await processTicketChanges(supabase);
+    const run = await runTimeBasedAutomations(supabase, { actorId });
+    const escalations = await escalateOverdueTickets(supabase, actorId);
+    return Response.json({ run, escalations, changesProcessed: changes.length });
+  } catch (error: any) {
+    console.error('Error running automation scheduler:', error);
+    return Response.json({ error: error.message || 'Failed to run automation scheduler' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// app/api/csat/[token]/route.ts
+
+import { getSupabaseSrv } from '@/lib/supabaseServer';
+import { csatResponseProblem, fetchSurveyByToken, saveCsatResponse, toPublicSurvey } from '@/lib/csat';
+
+// The rating page behind the link in the CSAT notification. No login is needed: the token identifies the survey.
+
+export async function GET(_req: Request, { params }: { params: { token: string } }) {
+  try {
+    const supabase = getSupabaseSrv();
+    const survey = await fetchSurveyByToken(supabase, params.token);
+    if (!survey) {
+      return Response.json({ error: 'This survey link is invalid' }, { status: 404 });
+    }
+    return Response.json({ survey: await toPublicSurvey(supabase, survey) });
+  } catch (error: any) {
+    console.error('Error loading CSAT survey:', error);
+    return Response.json({ error: error.message || 'Failed to load the survey' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { token: string } }) {
+  try {
+    const supabase = getSupabaseSrv();
+    const survey = await fetchSurveyByToken(supabase, params.token);
+    if (!survey) {
+      return Response.json({ error: 'This survey link is invalid' }, { status: 404 });
+    }
+
+    // The page is public, so the body is checked before anything reads from it
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return Response.json({ error: 'The request body must be JSON' }, { status: 400 });
+    }
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      return Response.json({ error: 'The request body must be an object with a score' }, { status: 400 });
+    }
+
+    const { score, comment } = payload as { score?: unknown; comment?: unknown };
+    const problem = csatResponseProblem(score, comment);
+    if (problem) {
+      return Response.json({ error: problem }, { status: 400 });
+    }
+
+    const saved = await saveCsatResponse(supabase, survey, score as number, (comment as string | null | undefined) ?? null);
+    return Response.json({ survey: await toPublicSurvey(supabase, saved) });
+  } catch (error: any) {
+    console.error('Error saving CSAT response:', error);
+    return Response.json({ error: error.message || 'Failed to save your rating' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/tickets/attachments/route.ts
+
+import { authorizeRequest, authorizeTicketAccess, getSupabaseSrv } from '@/lib/supabaseServer';
+import { listTicketAttachments } from '@/lib/ticketAttachments';
+
+// Lists a ticket's files with signed URLs. Customers never get internal-note files, whatever they ask for.
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase);
+    if (response) return response;
+
+    const { ticketId }: { ticketId?: number } = await req.json();
+    if (typeof ticketId !== 'number') {
+      return Response.json({ error: 'A numeric ticketId is required' }, { status: 400 });
+    }
+
+    const denied = await authorizeTicketAccess(supabase, caller, ticketId);
+    if (denied) return denied;
+
+    const attachments = await listTicketAttachments(supabase, ticketId, caller.role === 'agent' || caller.role === 'admin');
+    return Response.json({ attachments });
+  } catch (error: any) {
+    console.error('Error fetching ticket attachments:', error);
+    return Response.json({ error: error.message || 'Failed to fetch attachments' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/tickets/changes/route.ts
+
+import { authorizeRequest, getSupabaseSrv } from '@/lib/supabaseServer';
+import { processTicketChanges } from '@/lib/ticketChanges';
+
+// Follows up the ticket changes the caller just made (lib/ticketChanges.ts). Called by lib/dataService after
+// each write. Only the caller's own queued changes are processed, and each of them only once; whatever is left
+// is picked up by the scheduler. Returns the tickets that auto-assignment or automations changed again.
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase);
+    if (response) return response;
+
+    const results = await processTicketChanges(supabase, { actorId: caller.userId });
+    const changedTicketIds = Array.from(new Set(results.filter(r => r.changed).map(r => r.ticket_id)));
+    return Response.json({ processed: results.length, changedTicketIds });
+  } catch (error: any) {
+    console.error('Error following up ticket changes:', error);
+    return Response.json({ error: error.message || 'Failed to follow up ticket changes' }, { status: 500 });
+  }
+}
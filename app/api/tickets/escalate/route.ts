@@ -0,0 +1,47 @@
+// app/api/tickets/escalate/route.ts
+
+import { authorizeRequest, authorizeTicketAccess, getSupabaseSrv } from '@/lib/supabaseServer';
+import { escalateTicket, escalationProblem, fetchEscalationContext, ESCALATION_REASON_MAX_LENGTH } from '@/lib/escalations';
+import { runAutomationsForTicket } from '@/lib/automationEngine';
+
+// Escalates a ticket to the next level of its escalation policy. Agents and admins only, and agents only tickets they can see.
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase, { roles: ['agent', 'admin'], forbiddenMessage: 'Only agents and admins can escalate tickets' });
+    if (response) return response;
+
+    const { ticketId, reason }: { ticketId?: number; reason?: string } = await req.json();
+    if (typeof ticketId !== 'number') {
+      return Response.json({ error: 'A numeric ticketId is required' }, { status: 400 });
+    }
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+    if (!trimmedReason) {
+      return Response.json({ error: 'A reason for the escalation is required' }, { status: 400 });
+    }
+    if (trimmedReason.length > ESCALATION_REASON_MAX_LENGTH) {
+      return Response.json({ error: `The reason must be at most ${ESCALATION_REASON_MAX_LENGTH} characters` }, { status: 400 });
+    }
+
+    const denied = await authorizeTicketAccess(supabase, caller, ticketId);
+    if (denied) return denied;
+
+    const context = await fetchEscalationContext(supabase, ticketId);
+    if (!context) {
+      return Response.json({ error: `Ticket #${ticketId} not found` }, { status: 404 });
+    }
+    const problem = escalationProblem(context);
+    if (problem) {
+      return Response.json({ error: problem }, { status: 400 });
+    }
+
+    const level = await escalateTicket(supabase, context, trimmedReason, caller.userId);
+    // The escalation is written with the service role, so no queued change follows it up
+    await runAutomationsForTicket(supabase, 'ticket_updated', ticketId, { actorId: caller.userId })
+      .catch(err => console.error(`Error running automations after escalating ticket #${ticketId}:`, err?.message || err));
+    return Response.json({ success: true, level: level.position });
+  } catch (error: any) {
+    console.error('Error escalating ticket:', error);
+    return Response.json({ error: error.message || 'Failed to escalate the ticket' }, { status: 500 });
+  }
+}
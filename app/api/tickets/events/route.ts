@@ -0,0 +1,27 @@
+// app/api/tickets/events/route.ts
+
+import { authorizeRequest, authorizeTicketAccess, getSupabaseSrv } from '@/lib/supabaseServer';
+import { listTicketEvents } from '@/lib/ticketEvents';
+
+// Lists a ticket's history. Customers never get automation or escalation activity, whatever they ask for.
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase);
+    if (response) return response;
+
+    const { ticketId }: { ticketId?: number } = await req.json();
+    if (typeof ticketId !== 'number') {
+      return Response.json({ error: 'A numeric ticketId is required' }, { status: 400 });
+    }
+
+    const denied = await authorizeTicketAccess(supabase, caller, ticketId);
+    if (denied) return denied;
+
+    const events = await listTicketEvents(supabase, ticketId, caller.role === 'agent' || caller.role === 'admin');
+    return Response.json({ events });
+  } catch (error: any) {
+    console.error('Error fetching ticket events:', error);
+    return Response.json({ error: error.message || 'Failed to fetch ticket history' }, { status: 500 });
+  }
+}
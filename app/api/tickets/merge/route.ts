@@ -0,0 +1,38 @@
+// app/api/tickets/merge/route.ts
+
+import { authorizeRequest, authorizeTicketAccess, getSupabaseSrv } from '@/lib/supabaseServer';
+import { fetchMergeTicket, mergeProblem, mergeTickets } from '@/lib/ticketMerge';
+
+// Merges a duplicate ticket into another one. Agents and admins only.
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase, { roles: ['agent', 'admin'], forbiddenMessage: 'Only agents and admins can merge tickets' });
+    if (response) return response;
+
+    const { sourceTicketId, targetTicketId }: { sourceTicketId?: number; targetTicketId?: number } = await req.json();
+    if (typeof sourceTicketId !== 'number' || typeof targetTicketId !== 'number') {
+      return Response.json({ error: 'Numeric sourceTicketId and targetTicketId are required' }, { status: 400 });
+    }
+
+    for (const ticketId of [sourceTicketId, targetTicketId]) {
+      const denied = await authorizeTicketAccess(supabase, caller, ticketId);
+      if (denied) return denied;
+    }
+
+    const [source, target] = await Promise.all([fetchMergeTicket(supabase, sourceTicketId), fetchMergeTicket(supabase, targetTicketId)]);
+    if (!source || !target) {
+      return Response.json({ error: `Ticket #${source ? targetTicketId : sourceTicketId} not found` }, { status: 404 });
+    }
+    const problem = mergeProblem(source, target);
+    if (problem) {
+      return Response.json({ error: problem }, { status: 400 });
+    }
+
+    await mergeTickets(supabase, source, target, caller.userId);
+    return Response.json({ success: true });
+  } catch (error: any) {
+    console.error('Error merging tickets:', error);
+    return Response.json({ error: error.message || 'Failed to merge tickets' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/tickets/search/route.ts
+
+import { authorizeRequest, getSupabaseSrv } from '@/lib/supabaseServer';
+import { searchTickets, SEARCH_MAX_RESULTS } from '@/lib/ticketSearch';
+
+// Ranked full-text search over the tickets the caller can see
+export async function POST(req: Request) {
+  try {
+    const supabase = getSupabaseSrv();
+    const { caller, response } = await authorizeRequest(req, supabase);
+    if (response) return response;
+
+    const { query, limit }: { query?: string; limit?: number } = await req.json();
+    if (typeof query !== 'string' || !query.trim()) {
+      return Response.json({ error: 'A search query is required' }, { status: 400 });
+    }
+
+    const hits = await searchTickets(supabase, query.trim(), caller, typeof limit === 'number' ? limit : SEARCH_MAX_RESULTS);
+    return Response.json({ hits });
+  } catch (error: any) {
+    console.error('Error searching tickets:', error);
+    return Response.json({ error: error.message || 'Failed to search tickets' }, { status: 500 });
+  }
+}
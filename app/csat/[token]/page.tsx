@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { fetchCsatSurvey, submitCsatResponse } from '@/lib/dataService';
+import type { PublicCsatSurvey } from '@/lib/csat';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { CheckCircle, Loader2, Star } from 'lucide-react';
+
+const SCORE_LABELS = ['Very unsatisfied', 'Unsatisfied', 'Neutral', 'Satisfied', 'Very satisfied'];
+const COMMENT_MAX_LENGTH = 2000; // Same limit as the API (lib/csat.ts)
+
+// Rating page linked from the CSAT notification. Works without logging in; the token identifies the survey.
+export default function CsatSurveyPage({ params }: { params: { token: string } }) {
+    const { toast: showToast } = useToast();
+    const [survey, setSurvey] = useState<PublicCsatSurvey | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [score, setScore] = useState<number | null>(null);
+    const [hoverScore, setHoverScore] = useState<number | null>(null);
+    const [comment, setComment] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isSubmitted, setIsSubmitted] = useState(false);
+
+    useEffect(() => {
+        fetchCsatSurvey(params.token)
+            .then(loaded => {
+                setSurvey(loaded);
+                setScore(loaded.score);
+                setComment(loaded.comment || '');
+            })
+            .catch(err => setError(err.message || "Could not load the survey."))
+            .finally(() => setIsLoading(false));
+    }, [params.token]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!score) {
+            showToast({ title: "Missing Rating", description: "Choose a rating from 1 to 5 stars.", variant: "destructive" });
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            setSurvey(await submitCsatResponse(params.token, score, comment));
+            setIsSubmitted(true);
+        } catch (err: any) {
+            showToast({ title: "Error", description: err.message || "Could not save your rating.", variant: "destructive" });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const shownScore = hoverScore ?? score;
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-background p-4">
+            <Card className="w-full max-w-md">
+                {isLoading && (
+                    <CardContent className="flex items-center justify-center py-12">
+                        <Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading survey...</p>
+                    </CardContent>
+                )}
+                {!isLoading && error && (
+                    <CardHeader>
+                        <CardTitle className="text-2xl font-bold">Survey Not Found</CardTitle>
+                        <CardDescription>{error}</CardDescription>
+                    </CardHeader>
+                )}
+                {!isLoading && survey && isSubmitted && (
+                    <CardHeader className="items-center text-center">
+                        <CheckCircle className="h-10 w-10 text-green-500 mb-2" />
+                        <CardTitle className="text-2xl font-bold">Thank You!</CardTitle>
+                        <CardDescription>Your feedback on ticket #{survey.ticket_id} was saved. It helps us improve our support.</CardDescription>
+                    </CardHeader>
+                )}
+                {!isLoading && survey && !isSubmitted && (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="text-2xl font-bold">How Did We Do?</CardTitle>
+                            <CardDescription>
+                                Rate the support you received on ticket #{survey.ticket_id} &quot;{survey.subject}&quot;{survey.agent_name ? ` from ${survey.agent_name}` : ''}.
+                            </CardDescription>
+                        </CardHeader>
+                        <form onSubmit={handleSubmit}>
+                            <CardContent className="space-y-4">
+                                {survey.responded_at && (
+                                    <p className="text-sm text-muted-foreground">You already rated this ticket. Submitting again replaces your earlier answer.</p>
+                                )}
+                                <div className="space-y-2">
+                                    <div className="flex justify-center gap-1" onMouseLeave={() => setHoverScore(null)}>
+                                        {[1, 2, 3, 4, 5].map(value => (
+                                            <button
+                                                key={value}
+                                                type="button"
+                                                onClick={() => setScore(value)}
+                                                onMouseEnter={() => setHoverScore(value)}
+                                                aria-label={`${value} - ${SCORE_LABELS[value - 1]}`}
+                                                disabled={isSubmitting}
+                                            >
+                                                <Star className={`h-9 w-9 ${shownScore && value <= shownScore ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`} />
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-center text-sm text-muted-foreground h-5">{shownScore ? SCORE_LABELS[shownScore - 1] : ''}</p>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="csat-comment">Comment (optional)</Label>
+                                    <Textarea
+                                        id="csat-comment"
+                                        value={comment}
+                                        onChange={(e) => setComment(e.target.value)}
+                                        maxLength={COMMENT_MAX_LENGTH}
+                                        rows={4}
+                                        placeholder="Tell us what went well or what we could do better."
+                                        disabled={isSubmitting}
+                                    />
+                                </div>
+                            </CardContent>
+                            <CardFooter>
+                                <Button type="submit" className="w-full" disabled={isSubmitting || !score}>
+                                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Submit Rating
+                                </Button>
+                            </CardFooter>
+                        </form>
+                    </>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -34,6 +34,8 @@ import {
 } from 'lucide-react';
 import LogoutButton from '@/components/auth/LogoutButton';
 import ChatbotWindow from '@/components/chatbot/ChatbotWindow';
+import SavedViewsMenu from '@/components/tickets/SavedViewsMenu';
+import AvailabilityMenu from '@/components/agents/AvailabilityMenu';
 
 interface AuthenticatedLayoutProps {
   children: React.ReactNode;
@@ -89,9 +91,12 @@ export default function AuthenticatedLayout({ children }: AuthenticatedLayoutPro
                 <TooltipContent side="right">{item.label}</TooltipContent>
               </Tooltip>
             ))}
+            <SavedViewsMenu />
           </div>
 
           <div className="mt-auto flex flex-col items-center gap-y-3">
+            <AvailabilityMenu />
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <Link href="/settings">
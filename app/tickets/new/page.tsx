@@ -7,8 +7,11 @@ import {
   createTicket, 
   fetchTicketPriorities, 
   fetchTicketTypes,
+  fetchCustomFields,
   PriorityOption,
-  TicketType 
+  TicketType,
+  TicketCustomField,
+  CustomFieldValues
 } from '@/lib/dataService'; // Adjust path
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,6 +20,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast"; // Assuming you use shadcn/ui toast
+import AttachmentPicker from '@/components/tickets/AttachmentPicker';
+import CustomFieldInputs from '@/components/tickets/CustomFieldInputs';
 
 // Define default status ID for 'Open' tickets.
 // You should get this from your database or a config file in a real app.
@@ -31,6 +36,9 @@ export default function NewTicketPage() {
   const [description, setDescription] = useState('');
   const [priorityId, setPriorityId] = useState<string>('');
   const [ticketTypeId, setTicketTypeId] = useState<string>('');
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [customFields, setCustomFields] = useState<TicketCustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
   const [priorities, setPriorities] = useState<PriorityOption[]>([]);
   const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -86,6 +94,18 @@ export default function NewTicketPage() {
     };
   }, []); // Empty dependency array → run once on mount
 
+  // Load the custom fields of the selected ticket type
+  useEffect(() => {
+    setCustomFieldValues({});
+    if (!ticketTypeId) {
+      setCustomFields([]);
+      return;
+    }
+    fetchCustomFields(parseInt(ticketTypeId, 10))
+      .then(setCustomFields)
+      .catch(err => console.error("Failed to load custom fields:", err));
+  }, [ticketTypeId]);
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!user) {
@@ -113,7 +133,9 @@ export default function NewTicketPage() {
         priority_id: parseInt(priorityId, 10),
         requester_id: user.id,
         status_id: DEFAULT_OPEN_STATUS_ID,
-        ticket_type_id: parseInt(ticketTypeId, 10)
+        ticket_type_id: parseInt(ticketTypeId, 10),
+        attachments,
+        custom_fields: customFieldValues
       };
 
       const created = await createTicket(newTicketData);
@@ -123,6 +145,13 @@ export default function NewTicketPage() {
           title: "Ticket Created!",
           description: `Ticket #${created.id} "${created.subject}" has been successfully submitted.`,
         });
+        if (created.failed_attachments.length > 0) {
+          toast({
+            title: "Some Attachments Failed",
+            description: `Ticket #${created.id} was created, but ${created.failed_attachments.join(', ')} could not be uploaded. Add them as a reply instead of submitting the ticket again.`,
+            variant: "destructive",
+          });
+        }
         router.push('/dashboard'); // Redirect to dashboard or ticket detail page
       } else {
         throw new Error("Ticket creation returned no data.");
@@ -226,6 +255,10 @@ export default function NewTicketPage() {
                 disabled={isLoading}
               />
             </div>
+
+            <CustomFieldInputs fields={customFields} values={customFieldValues} onChange={setCustomFieldValues} disabled={isLoading} />
+
+            <AttachmentPicker files={attachments} onChange={setAttachments} disabled={isLoading} />
           </CardContent>
           <CardFooter className="flex flex-col items-stretch">
             {error && <p className="text-red-500 text-sm mb-3 text-center">{error}</p>}
@@ -0,0 +1,163 @@
+// components/admin/AgentAvailabilitySection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchAgents, fetchAgentAvailability, updateAgentAvailability, AgentAvailability, AgentAvailabilityStatus,
+} from '@/lib/dataService';
+import { AVAILABILITY_LABELS } from '@/lib/agentAvailability';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import ClientOnlyDateTime from '@/components/ClientOnlyDateTime';
+import OutOfOfficeList from '@/components/agents/OutOfOfficeList';
+import RedistributeTicketsButton from '@/components/agents/RedistributeTicketsButton';
+import { Edit, Loader2, UserCheck } from 'lucide-react';
+
+export default function AgentAvailabilitySection() {
+    const { toast: showToast } = useToast();
+
+    const [agents, setAgents] = useState<AgentAvailability[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [editingAgent, setEditingAgent] = useState<AgentAvailability | null>(null);
+    const [status, setStatus] = useState<AgentAvailabilityStatus>('available');
+    const [capacity, setCapacity] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadAgents = useCallback(async () => {
+        setError(null);
+        try {
+            const agentOptions = await fetchAgents();
+            setAgents(await fetchAgentAvailability(agentOptions.map(a => a.id)));
+        } catch (err: any) {
+            console.error("Failed to load agent availability:", err);
+            setError(err.message || "Could not fetch agent availability.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadAgents(); }, [loadAgents]);
+
+    const handleOpenDialog = (agent: AgentAvailability) => {
+        setEditingAgent(agent);
+        setStatus(agent.availability_status);
+        setCapacity(agent.max_open_tickets === null ? '' : String(agent.max_open_tickets));
+    };
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editingAgent) return;
+        const maxOpenTickets = capacity.trim() === '' ? null : Number(capacity);
+        if (maxOpenTickets !== null && (!Number.isInteger(maxOpenTickets) || maxOpenTickets < 0)) {
+            showToast({ title: "Validation Error", description: "The ticket limit must be a whole number of 0 or more, or empty for no limit.", variant: "destructive" });
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await updateAgentAvailability(editingAgent.agent_id, { availability_status: status, max_open_tickets: maxOpenTickets });
+            showToast({ title: "Success", description: `Availability of ${editingAgent.full_name || 'the agent'} updated.` });
+            setEditingAgent(null);
+            loadAgents();
+        } catch (err: any) {
+            console.error("Failed to update agent availability:", err);
+            showToast({ title: "Error", description: err.message || "Failed to update the agent.", variant: "destructive" });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <>
+            <Card className="mb-8">
+                <CardHeader>
+                    <CardTitle className="flex items-center"><UserCheck className="mr-2 h-5 w-5 text-primary"/>Agent Availability</CardTitle>
+                    <CardDescription>
+                        Agents who are away, offline, out of office or at their open-ticket limit are skipped by automatic assignment and shown as unavailable when assigning tickets.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading agents...</p></div>}
+                    {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                    {!isLoading && !error && agents.length === 0 && (
+                        <p className="text-muted-foreground text-center py-4">No agents found.</p>
+                    )}
+                    {!isLoading && !error && agents.length > 0 && (
+                        <Table>
+                            <TableHeader><TableRow><TableHead>Agent</TableHead><TableHead>Status</TableHead><TableHead>Open Tickets</TableHead><TableHead>Out of Office</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {agents.map((agent) => (
+                                    <TableRow key={agent.agent_id}>
+                                        <TableCell className="font-medium">{agent.full_name || 'N/A'}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={agent.unavailable_reason ? 'secondary' : 'outline'}>{agent.unavailable_reason || AVAILABILITY_LABELS[agent.availability_status]}</Badge>
+                                        </TableCell>
+                                        <TableCell>{agent.open_ticket_count}{agent.max_open_tickets !== null ? ` / ${agent.max_open_tickets}` : ''}</TableCell>
+                                        <TableCell>
+                                            {agent.out_of_office
+                                                ? <>Until <ClientOnlyDateTime dateString={agent.out_of_office.ends_at} options={{ dateStyle: 'medium', timeStyle: 'short' }} /></>
+                                                : <span className="text-muted-foreground">-</span>}
+                                        </TableCell>
+                                        <TableCell className="text-right space-x-2">
+                                            <RedistributeTicketsButton agentId={agent.agent_id} agentName={agent.full_name} onDone={loadAgents} />
+                                            <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(agent)}><Edit className="h-4 w-4" /></Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Dialog for editing an agent's availability */}
+            <Dialog open={!!editingAgent} onOpenChange={(open) => { if (!open) setEditingAgent(null); }}>
+                <DialogContent className="sm:max-w-[520px]">
+                    <DialogHeader>
+                        <DialogTitle>Availability of {editingAgent?.full_name || 'Agent'}</DialogTitle>
+                        <DialogDescription>Leave the ticket limit empty for no limit. Resolved and closed tickets do not count.</DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleFormSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="aa-status" className="text-right">Status</Label>
+                                <Select value={status} onValueChange={(value) => setStatus(value as AgentAvailabilityStatus)}>
+                                    <SelectTrigger id="aa-status" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(AVAILABILITY_LABELS) as AgentAvailabilityStatus[]).map(value => (
+                                            <SelectItem key={value} value={value}>{AVAILABILITY_LABELS[value]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="aa-capacity" className="text-right">Max Open Tickets</Label>
+                                <Input id="aa-capacity" type="number" min={0} step={1} value={capacity} onChange={(e) => setCapacity(e.target.value)} className="col-span-3" placeholder="No limit" />
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Changes</Button>
+                        </DialogFooter>
+                    </form>
+                    {editingAgent && (
+                        <div className="border-t pt-4">
+                            <h4 className="mb-2 text-sm font-medium">Out of Office</h4>
+                            <OutOfOfficeList agentId={editingAgent.agent_id} onChanged={loadAgents} />
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
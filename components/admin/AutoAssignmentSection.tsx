@@ -0,0 +1,135 @@
+// components/admin/AutoAssignmentSection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchAssignmentSettings, saveAssignmentSetting, fetchRoutesForTicketType, AssignmentStrategy, TicketAssignmentSetting, TicketType,
+} from '@/lib/dataService';
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Shuffle } from 'lucide-react';
+
+const STRATEGY_OPTIONS: { value: AssignmentStrategy; label: string; description: string }[] = [
+    { value: 'least_open', label: 'Least open tickets', description: 'The agent with the fewest unresolved tickets.' },
+    { value: 'round_robin', label: 'Round robin', description: 'Agents take turns in a fixed order.' },
+    { value: 'least_recent', label: 'Least recently assigned', description: 'The agent who has waited longest for an automatically assigned ticket.' },
+];
+
+interface AutoAssignmentSectionProps {
+    ticketTypes: TicketType[];
+}
+
+export default function AutoAssignmentSection({ ticketTypes }: AutoAssignmentSectionProps) {
+    const { toast: showToast } = useToast();
+
+    const [settings, setSettings] = useState<Record<number, TicketAssignmentSetting>>({});
+    const [routeNames, setRouteNames] = useState<Record<number, string[]>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [savingTypeId, setSavingTypeId] = useState<number | null>(null);
+
+    const loadSettings = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const [settingsData, routes] = await Promise.all([
+                fetchAssignmentSettings(),
+                Promise.all(ticketTypes.map(tt => fetchRoutesForTicketType(tt.id))),
+            ]);
+            setSettings(Object.fromEntries(settingsData.map(s => [s.ticket_type_id, s])));
+            setRouteNames(Object.fromEntries(ticketTypes.map((tt, index) => [tt.id, routes[index].map(r => r.specializations?.name || `#${r.specialization_id}`)])));
+        } catch (err: any) {
+            console.error("Failed to load assignment settings:", err);
+            setError(err.message || "Could not fetch assignment settings.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [ticketTypes]);
+
+    useEffect(() => { loadSettings(); }, [loadSettings]);
+
+    const handleChange = async (ticketType: TicketType, changes: Partial<Pick<TicketAssignmentSetting, 'is_enabled' | 'strategy'>>) => {
+        const current = settings[ticketType.id];
+        setSavingTypeId(ticketType.id);
+        try {
+            const saved = await saveAssignmentSetting(ticketType.id, {
+                is_enabled: changes.is_enabled ?? current?.is_enabled ?? false,
+                strategy: changes.strategy ?? current?.strategy ?? 'least_open',
+            });
+            if (saved) setSettings(prev => ({ ...prev, [ticketType.id]: saved }));
+            if (changes.is_enabled !== undefined) {
+                showToast({ description: `Auto-assignment ${changes.is_enabled ? 'enabled' : 'disabled'} for "${ticketType.name}".` });
+            }
+        } catch (err: any) {
+            console.error("Failed to save assignment setting:", err);
+            showToast({ title: "Error", description: err.message || "Failed to save the assignment setting.", variant: "destructive" });
+        } finally {
+            setSavingTypeId(null);
+        }
+    };
+
+    return (
+        <Card className="mb-8">
+            <CardHeader>
+                <CardTitle className="flex items-center"><Shuffle className="mr-2 h-5 w-5 text-primary"/>Automatic Ticket Assignment</CardTitle>
+                <CardDescription>
+                    New unassigned tickets go to an available agent whose specialization is routed to the ticket type. Tickets stay unassigned when no such agent is available.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading assignment settings...</p></div>}
+                {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                {!isLoading && !error && ticketTypes.length === 0 && (
+                    <p className="text-muted-foreground text-center py-4">No ticket types found.</p>
+                )}
+                {!isLoading && !error && ticketTypes.length > 0 && (
+                    <Table>
+                        <TableHeader><TableRow><TableHead>Ticket Type</TableHead><TableHead>Routed Specializations</TableHead><TableHead>Strategy</TableHead><TableHead className="text-right">Auto-Assign</TableHead></TableRow></TableHeader>
+                        <TableBody>
+                            {ticketTypes.map((tt) => {
+                                const setting = settings[tt.id];
+                                const routed = routeNames[tt.id] || [];
+                                return (
+                                    <TableRow key={tt.id}>
+                                        <TableCell className="font-medium">{tt.name}</TableCell>
+                                        <TableCell className="max-w-xs truncate">{routed.length > 0 ? routed.join(', ') : <span className="text-muted-foreground">None routed</span>}</TableCell>
+                                        <TableCell>
+                                            <Select
+                                                value={setting?.strategy || 'least_open'}
+                                                onValueChange={(value) => handleChange(tt, { strategy: value as AssignmentStrategy })}
+                                                disabled={savingTypeId === tt.id}
+                                            >
+                                                <SelectTrigger className="w-[13rem]"><SelectValue /></SelectTrigger>
+                                                <SelectContent>
+                                                    {STRATEGY_OPTIONS.map(o => (
+                                                        <SelectItem key={o.value} value={o.value}>
+                                                            <span title={o.description}>{o.label}</span>
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Switch
+                                                checked={!!setting?.is_enabled}
+                                                onCheckedChange={(checked) => handleChange(tt, { is_enabled: checked })}
+                                                disabled={savingTypeId === tt.id}
+                                                aria-label={`Auto-assign ${tt.name} tickets`}
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                )}
+                <ul className="mt-4 space-y-1 text-xs text-muted-foreground">
+                    {STRATEGY_OPTIONS.map(o => <li key={o.value}><strong>{o.label}:</strong> {o.description}</li>)}
+                </ul>
+            </CardContent>
+        </Card>
+    );
+}
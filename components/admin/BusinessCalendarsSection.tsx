@@ -0,0 +1,307 @@
+// components/admin/BusinessCalendarsSection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchBusinessCalendars, createBusinessCalendar, updateBusinessCalendar, deleteBusinessCalendar,
+    addBusinessCalendarHoliday, removeBusinessCalendarHoliday,
+    BusinessCalendar, BusinessCalendarHoliday, BusinessHoursWindow, NewBusinessCalendarData,
+} from '@/lib/dataService';
+import { WEEKDAY_LABELS } from '@/lib/businessHours';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PlusCircle, Edit, Trash2, Loader2, CalendarClock, X } from 'lucide-react';
+
+// Monday to Friday, 9:00 to 17:00
+const DEFAULT_SCHEDULE: (BusinessHoursWindow | null)[] = WEEKDAY_LABELS.map((_, day) =>
+    day === 0 || day === 6 ? null : { start: '09:00', end: '17:00' });
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Short weekly summary for the table, e.g. "Mon 09:00-17:00, Tue 09:00-17:00"
+function describeSchedule(schedule: (BusinessHoursWindow | null)[]): string {
+    const days = (schedule || [])
+        .map((hours, day) => hours ? `${WEEKDAY_LABELS[day].slice(0, 3)} ${hours.start}-${hours.end}` : null)
+        .filter(Boolean);
+    return days.length > 0 ? days.join(', ') : 'No working hours';
+}
+
+export default function BusinessCalendarsSection() {
+    const { toast: showToast } = useToast();
+
+    const [calendars, setCalendars] = useState<BusinessCalendar[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [showDialog, setShowDialog] = useState(false);
+    const [editingCalendar, setEditingCalendar] = useState<BusinessCalendar | null>(null);
+    const [calendarName, setCalendarName] = useState('');
+    const [timeZone, setTimeZone] = useState('');
+    const [schedule, setSchedule] = useState<(BusinessHoursWindow | null)[]>(DEFAULT_SCHEDULE);
+    const [isDefault, setIsDefault] = useState(false);
+    const [holidays, setHolidays] = useState<BusinessCalendarHoliday[]>([]);
+    const [holidayDate, setHolidayDate] = useState('');
+    const [holidayName, setHolidayName] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadCalendars = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setCalendars(await fetchBusinessCalendars());
+        } catch (err: any) {
+            console.error("Failed to load business calendars:", err);
+            setError(err.message || "Could not fetch business calendars.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadCalendars(); }, [loadCalendars]);
+
+    const handleOpenDialog = (calendar?: BusinessCalendar) => {
+        setEditingCalendar(calendar || null);
+        setCalendarName(calendar?.name || '');
+        setTimeZone(calendar?.timezone || browserTimeZone());
+        setSchedule(calendar ? WEEKDAY_LABELS.map((_, day) => calendar.schedule?.[day] || null) : DEFAULT_SCHEDULE);
+        setIsDefault(calendar?.is_default ?? calendars.length === 0);
+        setHolidays([...(calendar?.holidays || [])].sort((a, b) => a.date.localeCompare(b.date)));
+        setHolidayDate('');
+        setHolidayName('');
+        setShowDialog(true);
+    };
+
+    const updateDay = (day: number, hours: BusinessHoursWindow | null) => {
+        setSchedule(prev => prev.map((current, index) => index === day ? hours : current));
+    };
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!calendarName.trim()) {
+            showToast({ title: "Validation Error", description: "Calendar name cannot be empty.", variant: "destructive" });
+            return;
+        }
+        if (!isValidTimeZone(timeZone.trim())) {
+            showToast({ title: "Validation Error", description: "Enter a valid IANA time zone, e.g. Europe/Berlin.", variant: "destructive" });
+            return;
+        }
+        const invalidDay = schedule.findIndex(hours => hours && hours.end <= hours.start);
+        if (invalidDay !== -1) {
+            showToast({ title: "Validation Error", description: `${WEEKDAY_LABELS[invalidDay]} must end after it starts.`, variant: "destructive" });
+            return;
+        }
+
+        const calendarData: NewBusinessCalendarData = {
+            name: calendarName.trim(),
+            timezone: timeZone.trim(),
+            schedule,
+            is_default: isDefault,
+        };
+        setIsSubmitting(true);
+        try {
+            if (editingCalendar) {
+                await updateBusinessCalendar(editingCalendar.id, calendarData);
+                showToast({ title: "Success", description: "Business calendar updated successfully." });
+            } else {
+                await createBusinessCalendar(calendarData);
+                showToast({ title: "Success", description: "Business calendar created. Edit it to add holidays." });
+            }
+            setShowDialog(false); loadCalendars();
+        } catch (err: any) {
+            console.error("Failed to save business calendar:", err);
+            showToast({ title: "Error", description: err.message || "Failed to save business calendar.", variant: "destructive" });
+        } finally { setIsSubmitting(false); }
+    };
+
+    const handleAddHoliday = async () => {
+        if (!editingCalendar || !holidayDate) return;
+        if (holidays.some(h => h.date === holidayDate)) {
+            showToast({ title: "Validation Error", description: "That date is already a holiday.", variant: "destructive" });
+            return;
+        }
+        try {
+            const holiday = await addBusinessCalendarHoliday(editingCalendar.id, holidayDate, holidayName.trim());
+            if (holiday) setHolidays(prev => [...prev, holiday].sort((a, b) => a.date.localeCompare(b.date)));
+            setHolidayDate('');
+            setHolidayName('');
+            loadCalendars();
+        } catch (err: any) {
+            console.error("Failed to add holiday:", err);
+            showToast({ title: "Error", description: err.message || "Failed to add holiday.", variant: "destructive" });
+        }
+    };
+
+    const handleRemoveHoliday = async (holiday: BusinessCalendarHoliday) => {
+        if (!holiday.id) return;
+        try {
+            await removeBusinessCalendarHoliday(holiday.id);
+            setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+            loadCalendars();
+        } catch (err: any) {
+            console.error("Failed to remove holiday:", err);
+            showToast({ title: "Error", description: err.message || "Failed to remove holiday.", variant: "destructive" });
+        }
+    };
+
+    const handleDelete = async (calendarId: number) => {
+        try {
+            await deleteBusinessCalendar(calendarId);
+            showToast({ title: "Success", description: "Business calendar deleted successfully." });
+            loadCalendars();
+        } catch (err: any) {
+            console.error("Failed to delete business calendar:", err);
+            showToast({ title: "Error", description: err.message || "Failed to delete business calendar.", variant: "destructive" });
+        }
+    };
+
+    return (
+        <>
+            <Card className="mb-8">
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <CardTitle className="flex items-center"><CalendarClock className="mr-2 h-5 w-5 text-primary"/>Manage Business Hours</CardTitle>
+                        <Button onClick={() => handleOpenDialog()}>
+                            <PlusCircle className="mr-2 h-4 w-4" /> Add Calendar
+                        </Button>
+                    </div>
+                    <CardDescription>
+                        Working hours and holidays. SLA policies and automations can measure time against a calendar, and reports use the default calendar for business-hours figures.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading business calendars...</p></div>}
+                    {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                    {!isLoading && !error && calendars.length === 0 && (
+                        <p className="text-muted-foreground text-center py-4">No business calendars found.</p>
+                    )}
+                    {!isLoading && !error && calendars.length > 0 && (
+                        <Table>
+                            <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Time Zone</TableHead><TableHead>Working Hours</TableHead><TableHead>Holidays</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {calendars.map((calendar) => (
+                                    <TableRow key={calendar.id}>
+                                        <TableCell className="font-medium">
+                                            {calendar.name}
+                                            {calendar.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                                        </TableCell>
+                                        <TableCell>{calendar.timezone}</TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">{describeSchedule(calendar.schedule)}</TableCell>
+                                        <TableCell>{calendar.holidays?.length || 0}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(calendar)} className="mr-2"><Edit className="h-4 w-4" /></Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="text-destructive hover:text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader><AlertDialogTitle>Delete Calendar: {calendar.name}?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. SLA policies and automations using it will fall back to calendar time.</AlertDialogDescription></AlertDialogHeader>
+                                                    <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => handleDelete(calendar.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Dialog for Add/Edit Business Calendar */}
+            <Dialog open={showDialog} onOpenChange={setShowDialog}>
+                <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{editingCalendar ? 'Edit' : 'Add New'} Business Calendar</DialogTitle>
+                        <DialogDescription>Times are local to the calendar&apos;s time zone.</DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleFormSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="calendar-name" className="text-right">Name</Label>
+                                <Input id="calendar-name" value={calendarName} onChange={(e) => setCalendarName(e.target.value)} className="col-span-3" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="calendar-timezone" className="text-right">Time Zone</Label>
+                                <Input id="calendar-timezone" value={timeZone} onChange={(e) => setTimeZone(e.target.value)} className="col-span-3" placeholder="e.g. Europe/Berlin" required />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Working Hours</Label>
+                                {WEEKDAY_LABELS.map((label, day) => {
+                                    const hours = schedule[day];
+                                    return (
+                                        <div key={label} className="flex items-center gap-3">
+                                            <Switch
+                                                id={`calendar-day-${day}`}
+                                                checked={!!hours}
+                                                onCheckedChange={(open) => updateDay(day, open ? { start: '09:00', end: '17:00' } : null)}
+                                            />
+                                            <Label htmlFor={`calendar-day-${day}`} className="w-24 font-normal">{label}</Label>
+                                            {hours ? (
+                                                <>
+                                                    <Input type="time" value={hours.start} onChange={(e) => updateDay(day, { ...hours, start: e.target.value })} className="w-32" required />
+                                                    <span className="text-muted-foreground">to</span>
+                                                    <Input type="time" value={hours.end} onChange={(e) => updateDay(day, { ...hours, end: e.target.value })} className="w-32" required />
+                                                </>
+                                            ) : (
+                                                <span className="text-sm text-muted-foreground">Closed</span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Holidays</Label>
+                                {!editingCalendar ? (
+                                    <p className="text-sm text-muted-foreground">Save the calendar first to add holidays.</p>
+                                ) : (
+                                    <>
+                                        {holidays.length === 0 && <p className="text-sm text-muted-foreground">No holidays.</p>}
+                                        {holidays.map(holiday => (
+                                            <div key={holiday.id ?? holiday.date} className="flex items-center justify-between rounded border px-3 py-1.5 text-sm">
+                                                <span>{holiday.date}{holiday.name ? ` - ${holiday.name}` : ''}</span>
+                                                <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemoveHoliday(holiday)}><X className="h-4 w-4" /></Button>
+                                            </div>
+                                        ))}
+                                        <div className="flex items-center gap-2">
+                                            <Input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} className="w-40" />
+                                            <Input value={holidayName} onChange={(e) => setHolidayName(e.target.value)} placeholder="Name (optional)" />
+                                            <Button type="button" variant="outline" onClick={handleAddHoliday} disabled={!holidayDate}>Add</Button>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                            <div className="flex items-center space-x-2 justify-end">
+                                <Switch id="calendar-default" checked={isDefault} onCheckedChange={setIsDefault} />
+                                <Label htmlFor="calendar-default" className="font-normal">Default for reports</Label>
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}{editingCalendar ? 'Save Changes' : 'Create'}</Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,245 @@
+// components/admin/CannedResponsesSection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchCannedResponses, createCannedResponse, updateCannedResponse, deleteCannedResponse, fetchTicketStatuses, fetchAgents, isMacro,
+    CannedResponse, CannedResponseActions, NewCannedResponseData, PriorityOption, StatusOption, AgentOption,
+} from '@/lib/dataService';
+import { CANNED_RESPONSE_PLACEHOLDERS, unknownPlaceholders } from '@/lib/cannedResponses';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PlusCircle, Edit, Trash2, Loader2, MessageSquareText } from 'lucide-react';
+
+const NO_CHANGE = 'none'; // Select value for "leave this field as it is"
+
+interface CannedResponsesSectionProps {
+    priorities: PriorityOption[];
+}
+
+export default function CannedResponsesSection({ priorities }: CannedResponsesSectionProps) {
+    const { toast: showToast } = useToast();
+
+    const [responses, setResponses] = useState<CannedResponse[]>([]);
+    const [statuses, setStatuses] = useState<StatusOption[]>([]);
+    const [agents, setAgents] = useState<AgentOption[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [showDialog, setShowDialog] = useState(false);
+    const [editingResponse, setEditingResponse] = useState<CannedResponse | null>(null);
+    const [title, setTitle] = useState('');
+    const [body, setBody] = useState('');
+    const [statusId, setStatusId] = useState(NO_CHANGE);
+    const [priorityId, setPriorityId] = useState(NO_CHANGE);
+    const [assignee, setAssignee] = useState(NO_CHANGE);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadResponses = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const [responsesData, statusesData, agentsData] = await Promise.all([fetchCannedResponses(), fetchTicketStatuses(), fetchAgents()]);
+            setResponses(responsesData);
+            setStatuses(statusesData);
+            setAgents(agentsData);
+        } catch (err: any) {
+            console.error("Failed to load canned responses:", err);
+            setError(err.message || "Could not fetch canned responses.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadResponses(); }, [loadResponses]);
+
+    const handleOpenDialog = (response?: CannedResponse) => {
+        setEditingResponse(response || null);
+        setTitle(response?.title || '');
+        setBody(response?.body || '');
+        setStatusId(response?.actions?.status_id ? String(response.actions.status_id) : NO_CHANGE);
+        setPriorityId(response?.actions?.priority_id ? String(response.actions.priority_id) : NO_CHANGE);
+        setAssignee(response?.actions?.assignee || NO_CHANGE);
+        setShowDialog(true);
+    };
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!title.trim() || !body.trim()) {
+            showToast({ title: "Validation Error", description: "Enter a title and the response text.", variant: "destructive" });
+            return;
+        }
+        const unknown = unknownPlaceholders(body);
+        if (unknown.length > 0) {
+            showToast({ title: "Validation Error", description: `Unknown placeholder: ${unknown.map(key => `{{${key}}}`).join(', ')}`, variant: "destructive" });
+            return;
+        }
+
+        const actions: CannedResponseActions = {
+            status_id: statusId === NO_CHANGE ? null : parseInt(statusId, 10),
+            priority_id: priorityId === NO_CHANGE ? null : parseInt(priorityId, 10),
+            assignee: assignee === NO_CHANGE ? null : assignee,
+        };
+        const responseData: NewCannedResponseData = { title: title.trim(), body, actions: isMacro({ actions }) ? actions : null };
+        setIsSubmitting(true);
+        try {
+            if (editingResponse) {
+                await updateCannedResponse(editingResponse.id, responseData);
+                showToast({ title: "Success", description: "Canned response updated successfully." });
+            } else {
+                await createCannedResponse(responseData);
+                showToast({ title: "Success", description: "Canned response created successfully." });
+            }
+            setShowDialog(false); loadResponses();
+        } catch (err: any) {
+            console.error("Failed to save canned response:", err);
+            showToast({ title: "Error", description: err.message || "Failed to save canned response.", variant: "destructive" });
+        } finally { setIsSubmitting(false); }
+    };
+
+    const handleDelete = async (responseId: number) => {
+        try {
+            await deleteCannedResponse(responseId);
+            showToast({ title: "Success", description: "Canned response deleted successfully." });
+            loadResponses();
+        } catch (err: any) {
+            console.error("Failed to delete canned response:", err);
+            showToast({ title: "Error", description: err.message || "Failed to delete canned response.", variant: "destructive" });
+        }
+    };
+
+    const describeActions = (actions: CannedResponseActions | null): string => {
+        if (!actions) return "-";
+        const parts: string[] = [];
+        if (actions.status_id) parts.push(`Status: ${statuses.find(s => s.id === actions.status_id)?.name || `#${actions.status_id}`}`);
+        if (actions.priority_id) parts.push(`Priority: ${priorities.find(p => p.id === actions.priority_id)?.name || `#${actions.priority_id}`}`);
+        if (actions.assignee === 'me') parts.push('Assign to agent applying it');
+        else if (actions.assignee === 'unassigned') parts.push('Unassign');
+        else if (actions.assignee) parts.push(`Assign to ${agents.find(a => a.id === actions.assignee)?.full_name || 'unknown agent'}`);
+        return parts.join(', ') || "-";
+    };
+
+    return (
+        <>
+            <Card className="mb-8">
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <CardTitle className="flex items-center"><MessageSquareText className="mr-2 h-5 w-5 text-primary"/>Manage Canned Responses & Macros</CardTitle>
+                        <Button onClick={() => handleOpenDialog()}>
+                            <PlusCircle className="mr-2 h-4 w-4" /> Add Canned Response
+                        </Button>
+                    </div>
+                    <CardDescription>
+                        Saved replies agents can insert into a comment. A response that also changes the status, priority or assignee is a macro and is applied in one click.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading canned responses...</p></div>}
+                    {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                    {!isLoading && !error && responses.length === 0 && (
+                        <p className="text-muted-foreground text-center py-4">No canned responses found.</p>
+                    )}
+                    {!isLoading && !error && responses.length > 0 && (
+                        <Table>
+                            <TableHeader><TableRow><TableHead>Title</TableHead><TableHead>Kind</TableHead><TableHead>Response</TableHead><TableHead>Ticket Changes</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {responses.map((response) => (
+                                    <TableRow key={response.id}>
+                                        <TableCell className="font-medium">{response.title}</TableCell>
+                                        <TableCell><Badge variant={isMacro(response) ? "default" : "outline"}>{isMacro(response) ? "Macro" : "Reply"}</Badge></TableCell>
+                                        <TableCell className="max-w-xs truncate">{response.body}</TableCell>
+                                        <TableCell className="max-w-xs truncate">{describeActions(response.actions)}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(response)} className="mr-2"><Edit className="h-4 w-4" /></Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="text-destructive hover:text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader><AlertDialogTitle>Delete Canned Response: {response.title}?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. Comments already posted with it are kept.</AlertDialogDescription></AlertDialogHeader>
+                                                    <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => handleDelete(response.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Dialog for Add/Edit Canned Response */}
+            <Dialog open={showDialog} onOpenChange={setShowDialog}>
+                <DialogContent className="sm:max-w-[560px]">
+                    <DialogHeader>
+                        <DialogTitle>{editingResponse ? 'Edit' : 'Add New'} Canned Response</DialogTitle>
+                        <DialogDescription>
+                            Placeholders are filled in from the ticket when the response is used: {CANNED_RESPONSE_PLACEHOLDERS.map(p => `{{${p.key}}}`).join(', ')}.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleFormSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cr-title" className="text-right">Title</Label>
+                                <Input id="cr-title" value={title} onChange={(e) => setTitle(e.target.value)} className="col-span-3" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-start gap-4">
+                                <Label htmlFor="cr-body" className="text-right pt-2">Response</Label>
+                                <Textarea id="cr-body" value={body} onChange={(e) => setBody(e.target.value)} className="col-span-3" rows={6} placeholder="Hi {{requester.first_name}}, ..." required />
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cr-status" className="text-right">Set Status</Label>
+                                <Select value={statusId} onValueChange={setStatusId}>
+                                    <SelectTrigger id="cr-status" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NO_CHANGE}>Don&apos;t change</SelectItem>
+                                        {statuses.map(s => <SelectItem key={s.id} value={String(s.id)}>{s.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cr-priority" className="text-right">Set Priority</Label>
+                                <Select value={priorityId} onValueChange={setPriorityId}>
+                                    <SelectTrigger id="cr-priority" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NO_CHANGE}>Don&apos;t change</SelectItem>
+                                        {priorities.map(p => <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cr-assignee" className="text-right">Assign To</Label>
+                                <Select value={assignee} onValueChange={setAssignee}>
+                                    <SelectTrigger id="cr-assignee" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NO_CHANGE}>Don&apos;t change</SelectItem>
+                                        <SelectItem value="me">Agent applying the macro</SelectItem>
+                                        <SelectItem value="unassigned">Unassigned</SelectItem>
+                                        {agents.map(a => <SelectItem key={a.id} value={a.id}>{a.full_name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}{editingResponse ? 'Save Changes' : 'Create'}</Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
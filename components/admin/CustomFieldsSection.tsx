@@ -0,0 +1,230 @@
+// components/admin/CustomFieldsSection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchCustomFields, createCustomField, updateCustomField, deleteCustomField, TicketCustomField, NewTicketCustomFieldData,
+    CustomFieldType, TicketType,
+} from '@/lib/dataService';
+import { CUSTOM_FIELD_TYPE_LABELS } from '@/lib/customFields';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PlusCircle, Edit, Trash2, Loader2, ListPlus } from 'lucide-react';
+
+interface CustomFieldsSectionProps {
+    ticketTypes: TicketType[];
+}
+
+export default function CustomFieldsSection({ ticketTypes }: CustomFieldsSectionProps) {
+    const { toast: showToast } = useToast();
+
+    const [fields, setFields] = useState<TicketCustomField[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [showDialog, setShowDialog] = useState(false);
+    const [editingField, setEditingField] = useState<TicketCustomField | null>(null);
+    const [fieldLabel, setFieldLabel] = useState('');
+    const [ticketTypeId, setTicketTypeId] = useState<string>('');
+    const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+    const [optionsInput, setOptionsInput] = useState('');
+    const [isRequired, setIsRequired] = useState(false);
+    const [sortOrder, setSortOrder] = useState('0');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadFields = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setFields(await fetchCustomFields());
+        } catch (err: any) {
+            console.error("Failed to load custom fields:", err);
+            setError(err.message || "Could not fetch custom fields.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadFields(); }, [loadFields]);
+
+    const handleOpenDialog = (field?: TicketCustomField) => {
+        setEditingField(field || null);
+        setFieldLabel(field?.label || '');
+        setTicketTypeId(field ? String(field.ticket_type_id) : '');
+        setFieldType(field?.field_type || 'text');
+        setOptionsInput((field?.options || []).join(', '));
+        setIsRequired(field?.is_required ?? false);
+        setSortOrder(String(field?.sort_order ?? 0));
+        setShowDialog(true);
+    };
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const options = optionsInput.split(',').map(o => o.trim()).filter(Boolean);
+        if (!fieldLabel.trim() || !ticketTypeId) {
+            showToast({ title: "Validation Error", description: "Enter a label and choose a ticket type.", variant: "destructive" });
+            return;
+        }
+        if (fieldType === 'dropdown' && options.length === 0) {
+            showToast({ title: "Validation Error", description: "Dropdown fields need at least one option.", variant: "destructive" });
+            return;
+        }
+
+        const fieldData: NewTicketCustomFieldData = {
+            label: fieldLabel.trim(),
+            ticket_type_id: parseInt(ticketTypeId, 10),
+            field_type: fieldType,
+            options: fieldType === 'dropdown' ? Array.from(new Set(options)) : null,
+            is_required: fieldType !== 'checkbox' && isRequired,
+            sort_order: parseInt(sortOrder, 10) || 0,
+        };
+        setIsSubmitting(true);
+        try {
+            if (editingField) {
+                await updateCustomField(editingField.id, fieldData);
+                showToast({ title: "Success", description: "Custom field updated successfully." });
+            } else {
+                await createCustomField(fieldData);
+                showToast({ title: "Success", description: "Custom field created successfully." });
+            }
+            setShowDialog(false); loadFields();
+        } catch (err: any) {
+            console.error("Failed to save custom field:", err);
+            showToast({ title: "Error", description: err.message || "Failed to save custom field.", variant: "destructive" });
+        } finally { setIsSubmitting(false); }
+    };
+
+    const handleDelete = async (fieldId: number) => {
+        try {
+            await deleteCustomField(fieldId);
+            showToast({ title: "Success", description: "Custom field deleted successfully." });
+            loadFields();
+        } catch (err: any) {
+            console.error("Failed to delete custom field:", err);
+            showToast({ title: "Error", description: err.message || "Failed to delete custom field.", variant: "destructive" });
+        }
+    };
+
+    return (
+        <>
+            <Card className="mb-8">
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <CardTitle className="flex items-center"><ListPlus className="mr-2 h-5 w-5 text-primary"/>Manage Custom Ticket Fields</CardTitle>
+                        <Button onClick={() => handleOpenDialog()} disabled={ticketTypes.length === 0}>
+                            <PlusCircle className="mr-2 h-4 w-4" /> Add Custom Field
+                        </Button>
+                    </div>
+                    <CardDescription>
+                        Extra fields collected when a ticket of a given type is created. They can be used in automation rules and ticket list filters.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading custom fields...</p></div>}
+                    {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                    {!isLoading && !error && fields.length === 0 && (
+                        <p className="text-muted-foreground text-center py-4">No custom fields found.</p>
+                    )}
+                    {!isLoading && !error && fields.length > 0 && (
+                        <Table>
+                            <TableHeader><TableRow><TableHead>Label</TableHead><TableHead>Ticket Type</TableHead><TableHead>Field Type</TableHead><TableHead>Options</TableHead><TableHead>Required</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {fields.map((field) => (
+                                    <TableRow key={field.id}>
+                                        <TableCell className="font-medium">{field.label}</TableCell>
+                                        <TableCell>{field.ticket_types?.name || "N/A"}</TableCell>
+                                        <TableCell>{CUSTOM_FIELD_TYPE_LABELS[field.field_type]}</TableCell>
+                                        <TableCell className="max-w-xs truncate">{field.options?.join(', ') || "-"}</TableCell>
+                                        <TableCell><Badge variant={field.is_required ? "default" : "outline"}>{field.is_required ? "Required" : "Optional"}</Badge></TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(field)} className="mr-2"><Edit className="h-4 w-4" /></Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="text-destructive hover:text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader><AlertDialogTitle>Delete Custom Field: {field.label}?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. Values already entered on tickets will no longer be shown.</AlertDialogDescription></AlertDialogHeader>
+                                                    <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => handleDelete(field.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Dialog for Add/Edit Custom Field */}
+            <Dialog open={showDialog} onOpenChange={setShowDialog}>
+                <DialogContent className="sm:max-w-[480px]">
+                    <DialogHeader>
+                        <DialogTitle>{editingField ? 'Edit' : 'Add New'} Custom Field</DialogTitle>
+                        <DialogDescription>Fields appear on the new ticket form in ascending sort order.</DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleFormSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cf-label" className="text-right">Label</Label>
+                                <Input id="cf-label" value={fieldLabel} onChange={(e) => setFieldLabel(e.target.value)} className="col-span-3" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cf-type" className="text-right">Ticket Type</Label>
+                                <Select value={ticketTypeId} onValueChange={setTicketTypeId}>
+                                    <SelectTrigger id="cf-type" className="col-span-3"><SelectValue placeholder="Select a ticket type" /></SelectTrigger>
+                                    <SelectContent>
+                                        {ticketTypes.map(tt => <SelectItem key={tt.id} value={String(tt.id)}>{tt.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cf-field-type" className="text-right">Field Type</Label>
+                                <Select value={fieldType} onValueChange={(value) => setFieldType(value as CustomFieldType)}>
+                                    <SelectTrigger id="cf-field-type" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                                            <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {fieldType === 'dropdown' && (
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                    <Label htmlFor="cf-options" className="text-right">Options</Label>
+                                    <Input id="cf-options" value={optionsInput} onChange={(e) => setOptionsInput(e.target.value)} className="col-span-3" placeholder="Comma-separated, e.g. Small, Medium, Large" />
+                                </div>
+                            )}
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="cf-sort" className="text-right">Sort Order</Label>
+                                <Input id="cf-sort" type="number" value={sortOrder} onChange={(e) => setSortOrder(e.target.value)} className="col-span-3" />
+                            </div>
+                            {fieldType !== 'checkbox' && (
+                                <div className="flex items-center space-x-2 justify-end">
+                                    <Switch id="cf-required" checked={isRequired} onCheckedChange={setIsRequired} />
+                                    <Label htmlFor="cf-required" className="font-normal">Required</Label>
+                                </div>
+                            )}
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}{editingField ? 'Save Changes' : 'Create'}</Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
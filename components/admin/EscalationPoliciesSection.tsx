@@ -0,0 +1,319 @@
+// components/admin/EscalationPoliciesSection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchEscalationPolicies, createEscalationPolicy, updateEscalationPolicy, deleteEscalationPolicy, fetchAgents, fetchTeams, fetchSpecializations,
+    EscalationPolicy, EscalationTargetType, NewEscalationPolicyData, TicketType, PriorityOption, AgentOption, Team, Specialization,
+} from '@/lib/dataService';
+import { parseDurationToMinutes } from '@/lib/automationRules';
+import { formatSlaDuration } from '@/lib/sla';
+import { describeEscalationTarget } from '@/lib/escalations';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PlusCircle, Edit, Trash2, Loader2, ChevronsUp, X } from 'lucide-react';
+
+const ANY_VALUE = "__ANY__"; // Constant for "Any priority/type" option
+
+const TARGET_TYPE_LABELS: Record<EscalationTargetType, string> = {
+    agent: 'Agent',
+    team: 'Team',
+    specialization: 'Specialization',
+};
+
+// One level row in the form; target holds the agent, team or specialization id as a string
+interface LevelInput {
+    target_type: EscalationTargetType;
+    target: string;
+    threshold: string;
+}
+
+const emptyLevel = (): LevelInput => ({ target_type: 'agent', target: '', threshold: '' });
+
+interface EscalationPoliciesSectionProps {
+    ticketTypes: TicketType[];
+    priorities: PriorityOption[];
+}
+
+export default function EscalationPoliciesSection({ ticketTypes, priorities }: EscalationPoliciesSectionProps) {
+    const { toast: showToast } = useToast();
+
+    const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+    const [agents, setAgents] = useState<AgentOption[]>([]);
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [specializations, setSpecializations] = useState<Specialization[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [showDialog, setShowDialog] = useState(false);
+    const [editingPolicy, setEditingPolicy] = useState<EscalationPolicy | null>(null);
+    const [policyName, setPolicyName] = useState('');
+    const [priorityId, setPriorityId] = useState<string>(ANY_VALUE);
+    const [ticketTypeId, setTicketTypeId] = useState<string>(ANY_VALUE);
+    const [levels, setLevels] = useState<LevelInput[]>([emptyLevel()]);
+    const [isActive, setIsActive] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadPolicies = useCallback(async () => {
+        setError(null);
+        try {
+            const [policyData, agentData, teamData, specializationData] = await Promise.all([
+                fetchEscalationPolicies(), fetchAgents(), fetchTeams(), fetchSpecializations(),
+            ]);
+            setPolicies(policyData);
+            setAgents(agentData);
+            setTeams(teamData);
+            setSpecializations(specializationData);
+        } catch (err: any) {
+            console.error("Failed to load escalation policies:", err);
+            setError(err.message || "Could not fetch escalation policies.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadPolicies(); }, [loadPolicies]);
+
+    const handleOpenDialog = (policy?: EscalationPolicy) => {
+        setEditingPolicy(policy || null);
+        setPolicyName(policy?.name || '');
+        setPriorityId(policy?.priority_id ? String(policy.priority_id) : ANY_VALUE);
+        setTicketTypeId(policy?.ticket_type_id ? String(policy.ticket_type_id) : ANY_VALUE);
+        setLevels(policy?.levels.length
+            ? policy.levels.map(level => ({
+                target_type: level.target_type,
+                target: String((level.target_type === 'agent' ? level.agent_id : level.target_type === 'team' ? level.team_id : level.specialization_id) ?? ''),
+                threshold: toThresholdInput(level.threshold_minutes),
+            }))
+            : [emptyLevel()]);
+        setIsActive(policy?.is_active ?? true);
+        setShowDialog(true);
+    };
+
+    const updateLevel = (index: number, changes: Partial<LevelInput>) => {
+        setLevels(prev => prev.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+    };
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!policyName.trim()) {
+            showToast({ title: "Validation Error", description: "Policy name cannot be empty.", variant: "destructive" });
+            return;
+        }
+        const levelData: NewEscalationPolicyData['levels'] = [];
+        for (const [index, level] of levels.entries()) {
+            const thresholdMinutes = parseThreshold(level.threshold);
+            if (!level.target || thresholdMinutes === null) {
+                showToast({ title: "Validation Error", description: `Level ${index + 1} needs a target and a threshold such as 30m, 4h or 2d.`, variant: "destructive" });
+                return;
+            }
+            levelData.push({
+                target_type: level.target_type,
+                agent_id: level.target_type === 'agent' ? level.target : null,
+                team_id: level.target_type === 'team' ? parseInt(level.target, 10) : null,
+                specialization_id: level.target_type === 'specialization' ? parseInt(level.target, 10) : null,
+                threshold_minutes: thresholdMinutes,
+            });
+        }
+
+        const policyData: NewEscalationPolicyData = {
+            name: policyName.trim(),
+            priority_id: priorityId === ANY_VALUE ? null : parseInt(priorityId, 10),
+            ticket_type_id: ticketTypeId === ANY_VALUE ? null : parseInt(ticketTypeId, 10),
+            is_active: isActive,
+            levels: levelData,
+        };
+        setIsSubmitting(true);
+        try {
+            if (editingPolicy) {
+                await updateEscalationPolicy(editingPolicy.id, policyData);
+                showToast({ title: "Success", description: "Escalation policy updated successfully." });
+            } else {
+                await createEscalationPolicy(policyData);
+                showToast({ title: "Success", description: "Escalation policy created successfully." });
+            }
+            setShowDialog(false); loadPolicies();
+        } catch (err: any) {
+            console.error("Failed to save escalation policy:", err);
+            showToast({ title: "Error", description: err.message || "Failed to save escalation policy.", variant: "destructive" });
+        } finally { setIsSubmitting(false); }
+    };
+
+    const handleDelete = async (policyId: number) => {
+        try {
+            await deleteEscalationPolicy(policyId);
+            showToast({ title: "Success", description: "Escalation policy deleted successfully." });
+            loadPolicies();
+        } catch (err: any) {
+            console.error("Failed to delete escalation policy:", err);
+            showToast({ title: "Error", description: err.message || "Failed to delete escalation policy.", variant: "destructive" });
+        }
+    };
+
+    const targetOptions = (targetType: EscalationTargetType): { value: string; label: string }[] => {
+        if (targetType === 'agent') return agents.map(a => ({ value: a.id, label: a.full_name || a.id }));
+        if (targetType === 'team') return teams.map(t => ({ value: String(t.id), label: t.name }));
+        return specializations.map(s => ({ value: String(s.id), label: s.name }));
+    };
+
+    return (
+        <>
+            <Card className="mb-8">
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <CardTitle className="flex items-center"><ChevronsUp className="mr-2 h-5 w-5 text-primary"/>Manage Escalation Policies</CardTitle>
+                        <Button onClick={() => handleOpenDialog()}>
+                            <PlusCircle className="mr-2 h-4 w-4" /> Add Escalation Policy
+                        </Button>
+                    </div>
+                    <CardDescription>
+                        Ordered levels a ticket is escalated through, by hand from the ticket dialog or automatically by the scheduler once a level's threshold has passed. Each level goes to an agent, a team queue or the least busy available agent of a specialization.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading escalation policies...</p></div>}
+                    {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                    {!isLoading && !error && policies.length === 0 && (
+                        <p className="text-muted-foreground text-center py-4">No escalation policies found.</p>
+                    )}
+                    {!isLoading && !error && policies.length > 0 && (
+                        <Table>
+                            <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Priority</TableHead><TableHead>Ticket Type</TableHead><TableHead>Levels</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {policies.map((policy) => (
+                                    <TableRow key={policy.id}>
+                                        <TableCell className="font-medium">{policy.name}</TableCell>
+                                        <TableCell>{policy.ticket_priorities?.name || "Any"}</TableCell>
+                                        <TableCell>{policy.ticket_types?.name || "Any"}</TableCell>
+                                        <TableCell>
+                                            <ol className="space-y-0.5 text-sm">
+                                                {policy.levels.map(level => (
+                                                    <li key={level.position}>
+                                                        {level.position}. {describeEscalationTarget(level)} <span className="text-muted-foreground">after {formatSlaDuration(level.threshold_minutes)}</span>
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        </TableCell>
+                                        <TableCell><Badge variant={policy.is_active ? "default" : "outline"}>{policy.is_active ? "Active" : "Inactive"}</Badge></TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(policy)} className="mr-2"><Edit className="h-4 w-4" /></Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="text-destructive hover:text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader><AlertDialogTitle>Delete Escalation Policy: {policy.name}?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. Escalated tickets keep their current owners.</AlertDialogDescription></AlertDialogHeader>
+                                                    <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => handleDelete(policy.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Dialog for Add/Edit Escalation Policy */}
+            <Dialog open={showDialog} onOpenChange={setShowDialog}>
+                <DialogContent className="sm:max-w-[640px]">
+                    <DialogHeader>
+                        <DialogTitle>{editingPolicy ? 'Edit' : 'Add New'} Escalation Policy</DialogTitle>
+                        <DialogDescription>Thresholds count from the previous escalation (or ticket creation) and accept minutes, hours or days, e.g. 30m, 4h or 2d.</DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleFormSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="ep-name" className="text-right">Name</Label>
+                                <Input id="ep-name" value={policyName} onChange={(e) => setPolicyName(e.target.value)} className="col-span-3" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="ep-priority" className="text-right">Priority</Label>
+                                <Select value={priorityId} onValueChange={setPriorityId}>
+                                    <SelectTrigger id="ep-priority" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY_VALUE}>Any priority</SelectItem>
+                                        {priorities.map(p => <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="ep-type" className="text-right">Ticket Type</Label>
+                                <Select value={ticketTypeId} onValueChange={setTicketTypeId}>
+                                    <SelectTrigger id="ep-type" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY_VALUE}>Any type</SelectItem>
+                                        {ticketTypes.map(tt => <SelectItem key={tt.id} value={String(tt.id)}>{tt.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Levels</Label>
+                                {levels.map((level, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                                        <Select value={level.target_type} onValueChange={(value) => updateLevel(index, { target_type: value as EscalationTargetType, target: '' })}>
+                                            <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(TARGET_TYPE_LABELS) as EscalationTargetType[]).map(value => (
+                                                    <SelectItem key={value} value={value}>{TARGET_TYPE_LABELS[value]}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Select value={level.target} onValueChange={(value) => updateLevel(index, { target: value })}>
+                                            <SelectTrigger className="flex-1"><SelectValue placeholder={`Select ${TARGET_TYPE_LABELS[level.target_type].toLowerCase()}`} /></SelectTrigger>
+                                            <SelectContent>
+                                                {targetOptions(level.target_type).map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                                            </SelectContent>
+                                        </Select>
+                                        <Input value={level.threshold} onChange={(e) => updateLevel(index, { threshold: e.target.value })} className="w-[90px]" placeholder="e.g. 4h" aria-label={`Level ${index + 1} threshold`} />
+                                        <Button type="button" variant="ghost" size="icon" onClick={() => setLevels(prev => prev.filter((_, i) => i !== index))} disabled={levels.length === 1}>
+                                            <X className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <Button type="button" variant="outline" size="sm" onClick={() => setLevels(prev => [...prev, emptyLevel()])}>
+                                    <PlusCircle className="mr-2 h-4 w-4" /> Add Level
+                                </Button>
+                            </div>
+                            <div className="flex items-center space-x-2 justify-end">
+                                <Switch id="ep-active" checked={isActive} onCheckedChange={setIsActive} />
+                                <Label htmlFor="ep-active" className="font-normal">Active</Label>
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}{editingPolicy ? 'Save Changes' : 'Create'}</Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
+
+// Accepts the same duration syntax as SLA targets ("90", "30m", "4h", "2d")
+function parseThreshold(value: string): number | null {
+    const minutes = parseDurationToMinutes(value.replace(/\s/g, ''));
+    return minutes && minutes > 0 ? Math.round(minutes) : null;
+}
+
+// Largest whole unit for the edit form, e.g. 120 -> "2h", 90 -> "90m"
+function toThresholdInput(minutes: number): string {
+    if (minutes % (60 * 24) === 0) return `${minutes / (60 * 24)}d`;
+    if (minutes % 60 === 0) return `${minutes / 60}h`;
+    return `${minutes}m`;
+}
@@ -0,0 +1,263 @@
+// components/admin/SlaPoliciesSection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchSlaPolicies, createSlaPolicy, updateSlaPolicy, deleteSlaPolicy, fetchBusinessCalendars, SlaPolicy, NewSlaPolicyData,
+    TicketType, PriorityOption, BusinessCalendar,
+} from '@/lib/dataService';
+import { parseDurationToMinutes } from '@/lib/automationRules';
+import { formatSlaDuration } from '@/lib/sla';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PlusCircle, Edit, Trash2, Loader2, Timer } from 'lucide-react';
+
+const ANY_VALUE = "__ANY__"; // Constant for "Any priority/type" option
+const CALENDAR_TIME = "__CALENDAR__"; // No business calendar: targets count every minute
+
+interface SlaPoliciesSectionProps {
+    ticketTypes: TicketType[];
+    priorities: PriorityOption[];
+}
+
+export default function SlaPoliciesSection({ ticketTypes, priorities }: SlaPoliciesSectionProps) {
+    const { toast: showToast } = useToast();
+
+    const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+    const [calendars, setCalendars] = useState<BusinessCalendar[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [showDialog, setShowDialog] = useState(false);
+    const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+    const [policyName, setPolicyName] = useState('');
+    const [priorityId, setPriorityId] = useState<string>(ANY_VALUE);
+    const [ticketTypeId, setTicketTypeId] = useState<string>(ANY_VALUE);
+    const [firstResponseTarget, setFirstResponseTarget] = useState('');
+    const [resolutionTarget, setResolutionTarget] = useState('');
+    const [calendarId, setCalendarId] = useState<string>(CALENDAR_TIME);
+    const [isActive, setIsActive] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadPolicies = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const [policyData, calendarData] = await Promise.all([fetchSlaPolicies(), fetchBusinessCalendars()]);
+            setPolicies(policyData);
+            setCalendars(calendarData);
+        } catch (err: any) {
+            console.error("Failed to load SLA policies:", err);
+            setError(err.message || "Could not fetch SLA policies.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadPolicies(); }, [loadPolicies]);
+
+    const handleOpenDialog = (policy?: SlaPolicy) => {
+        setEditingPolicy(policy || null);
+        setPolicyName(policy?.name || '');
+        setPriorityId(policy?.priority_id ? String(policy.priority_id) : ANY_VALUE);
+        setTicketTypeId(policy?.ticket_type_id ? String(policy.ticket_type_id) : ANY_VALUE);
+        setFirstResponseTarget(policy ? toTargetInput(policy.first_response_minutes) : '');
+        setResolutionTarget(policy ? toTargetInput(policy.resolution_minutes) : '');
+        setCalendarId(policy?.business_calendar_id ? String(policy.business_calendar_id) : CALENDAR_TIME);
+        setIsActive(policy?.is_active ?? true);
+        setShowDialog(true);
+    };
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const firstResponseMinutes = parseTarget(firstResponseTarget);
+        const resolutionMinutes = parseTarget(resolutionTarget);
+        if (!policyName.trim() || firstResponseMinutes === null || resolutionMinutes === null) {
+            showToast({ title: "Validation Error", description: "Enter a name and targets such as 30m, 4h or 2d.", variant: "destructive" });
+            return;
+        }
+        if (resolutionMinutes < firstResponseMinutes) {
+            showToast({ title: "Validation Error", description: "The resolution target cannot be shorter than the first response target.", variant: "destructive" });
+            return;
+        }
+
+        const policyData: NewSlaPolicyData = {
+            name: policyName.trim(),
+            priority_id: priorityId === ANY_VALUE ? null : parseInt(priorityId, 10),
+            ticket_type_id: ticketTypeId === ANY_VALUE ? null : parseInt(ticketTypeId, 10),
+            first_response_minutes: firstResponseMinutes,
+            resolution_minutes: resolutionMinutes,
+            business_calendar_id: calendarId === CALENDAR_TIME ? null : parseInt(calendarId, 10),
+            is_active: isActive,
+        };
+        setIsSubmitting(true);
+        try {
+            if (editingPolicy) {
+                await updateSlaPolicy(editingPolicy.id, policyData);
+                showToast({ title: "Success", description: "SLA policy updated successfully." });
+            } else {
+                await createSlaPolicy(policyData);
+                showToast({ title: "Success", description: "SLA policy created successfully." });
+            }
+            setShowDialog(false); loadPolicies();
+        } catch (err: any) {
+            console.error("Failed to save SLA policy:", err);
+            showToast({ title: "Error", description: err.message || "Failed to save SLA policy.", variant: "destructive" });
+        } finally { setIsSubmitting(false); }
+    };
+
+    const handleDelete = async (policyId: number) => {
+        try {
+            await deleteSlaPolicy(policyId);
+            showToast({ title: "Success", description: "SLA policy deleted successfully." });
+            loadPolicies();
+        } catch (err: any) {
+            console.error("Failed to delete SLA policy:", err);
+            showToast({ title: "Error", description: err.message || "Failed to delete SLA policy.", variant: "destructive" });
+        }
+    };
+
+    return (
+        <>
+            <Card className="mb-8">
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <CardTitle className="flex items-center"><Timer className="mr-2 h-5 w-5 text-primary"/>Manage SLA Policies</CardTitle>
+                        <Button onClick={() => handleOpenDialog()}>
+                            <PlusCircle className="mr-2 h-4 w-4" /> Add SLA Policy
+                        </Button>
+                    </div>
+                    <CardDescription>
+                        First response and resolution targets per priority and ticket type. The most specific matching policy applies, and the clock pauses while a ticket is Pending.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading SLA policies...</p></div>}
+                    {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                    {!isLoading && !error && policies.length === 0 && (
+                        <p className="text-muted-foreground text-center py-4">No SLA policies found.</p>
+                    )}
+                    {!isLoading && !error && policies.length > 0 && (
+                        <Table>
+                            <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Priority</TableHead><TableHead>Ticket Type</TableHead><TableHead>First Response</TableHead><TableHead>Resolution</TableHead><TableHead>Measured In</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {policies.map((policy) => (
+                                    <TableRow key={policy.id}>
+                                        <TableCell className="font-medium">{policy.name}</TableCell>
+                                        <TableCell>{policy.ticket_priorities?.name || "Any"}</TableCell>
+                                        <TableCell>{policy.ticket_types?.name || "Any"}</TableCell>
+                                        <TableCell>{formatSlaDuration(policy.first_response_minutes)}</TableCell>
+                                        <TableCell>{formatSlaDuration(policy.resolution_minutes)}</TableCell>
+                                        <TableCell>{policy.business_calendar?.name || "Calendar time"}</TableCell>
+                                        <TableCell><Badge variant={policy.is_active ? "default" : "outline"}>{policy.is_active ? "Active" : "Inactive"}</Badge></TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(policy)} className="mr-2"><Edit className="h-4 w-4" /></Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="text-destructive hover:text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader><AlertDialogTitle>Delete SLA Policy: {policy.name}?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. Tickets using it will no longer show SLA targets.</AlertDialogDescription></AlertDialogHeader>
+                                                    <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => handleDelete(policy.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Dialog for Add/Edit SLA Policy */}
+            <Dialog open={showDialog} onOpenChange={setShowDialog}>
+                <DialogContent className="sm:max-w-[480px]">
+                    <DialogHeader>
+                        <DialogTitle>{editingPolicy ? 'Edit' : 'Add New'} SLA Policy</DialogTitle>
+                        <DialogDescription>Targets accept minutes, hours or days, e.g. 30m, 4h or 2d.</DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleFormSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="sla-name" className="text-right">Name</Label>
+                                <Input id="sla-name" value={policyName} onChange={(e) => setPolicyName(e.target.value)} className="col-span-3" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="sla-priority" className="text-right">Priority</Label>
+                                <Select value={priorityId} onValueChange={setPriorityId}>
+                                    <SelectTrigger id="sla-priority" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY_VALUE}>Any priority</SelectItem>
+                                        {priorities.map(p => <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="sla-type" className="text-right">Ticket Type</Label>
+                                <Select value={ticketTypeId} onValueChange={setTicketTypeId}>
+                                    <SelectTrigger id="sla-type" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY_VALUE}>Any type</SelectItem>
+                                        {ticketTypes.map(tt => <SelectItem key={tt.id} value={String(tt.id)}>{tt.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="sla-first-response" className="text-right">First Response</Label>
+                                <Input id="sla-first-response" value={firstResponseTarget} onChange={(e) => setFirstResponseTarget(e.target.value)} className="col-span-3" placeholder="e.g. 1h" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="sla-resolution" className="text-right">Resolution</Label>
+                                <Input id="sla-resolution" value={resolutionTarget} onChange={(e) => setResolutionTarget(e.target.value)} className="col-span-3" placeholder="e.g. 2d" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="sla-calendar" className="text-right">Measure In</Label>
+                                <Select value={calendarId} onValueChange={setCalendarId}>
+                                    <SelectTrigger id="sla-calendar" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={CALENDAR_TIME}>Calendar time (24/7)</SelectItem>
+                                        {calendars.map(c => <SelectItem key={c.id} value={String(c.id)}>Business hours: {c.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="flex items-center space-x-2 justify-end">
+                                <Switch id="sla-active" checked={isActive} onCheckedChange={setIsActive} />
+                                <Label htmlFor="sla-active" className="font-normal">Active</Label>
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}{editingPolicy ? 'Save Changes' : 'Create'}</Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
+
+// Accepts the same duration syntax as automation rules ("90", "30m", "4h", "2d")
+function parseTarget(value: string): number | null {
+    const minutes = parseDurationToMinutes(value.replace(/\s/g, ''));
+    return minutes && minutes > 0 ? Math.round(minutes) : null;
+}
+
+// Largest whole unit for the edit form, e.g. 120 -> "2h", 90 -> "90m"
+function toTargetInput(minutes: number): string {
+    if (minutes % (60 * 24) === 0) return `${minutes / (60 * 24)}d`;
+    if (minutes % 60 === 0) return `${minutes / 60}h`;
+    return `${minutes}m`;
+}
@@ -0,0 +1,257 @@
+// components/admin/TeamsSection.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    fetchTeams, createTeam, updateTeam, deleteTeam, saveTeamMember, removeTeamMember, fetchAgents,
+    Team, TeamMember, AgentOption,
+} from '@/lib/dataService';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PlusCircle, Edit, Trash2, Loader2, Users, UserMinus } from 'lucide-react';
+
+// Leads first, then by name
+const sortMembers = (members: TeamMember[]) =>
+    [...members].sort((a, b) => Number(b.is_lead) - Number(a.is_lead) || (a.agent?.full_name || '').localeCompare(b.agent?.full_name || ''));
+
+export default function TeamsSection() {
+    const { toast: showToast } = useToast();
+
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [agents, setAgents] = useState<AgentOption[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [showDialog, setShowDialog] = useState(false);
+    const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const [membersTeamId, setMembersTeamId] = useState<number | null>(null);
+    const [newMemberId, setNewMemberId] = useState('');
+    const [isSavingMember, setIsSavingMember] = useState(false);
+
+    const loadTeams = useCallback(async () => {
+        setError(null);
+        try {
+            const [teamsData, agentsData] = await Promise.all([fetchTeams(), fetchAgents()]);
+            setTeams(teamsData);
+            setAgents(agentsData);
+        } catch (err: any) {
+            console.error("Failed to load teams:", err);
+            setError(err.message || "Could not fetch teams.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadTeams(); }, [loadTeams]);
+
+    const handleOpenDialog = (team?: Team) => {
+        setEditingTeam(team || null);
+        setName(team?.name || '');
+        setDescription(team?.description || '');
+        setShowDialog(true);
+    };
+
+    const handleFormSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) {
+            showToast({ title: "Validation Error", description: "Team name cannot be empty.", variant: "destructive" });
+            return;
+        }
+        const teamData = { name: name.trim(), description: description.trim() || null };
+        setIsSubmitting(true);
+        try {
+            if (editingTeam) {
+                await updateTeam(editingTeam.id, teamData);
+                showToast({ title: "Success", description: "Team updated successfully." });
+            } else {
+                await createTeam(teamData);
+                showToast({ title: "Success", description: "Team created successfully." });
+            }
+            setShowDialog(false); loadTeams();
+        } catch (err: any) {
+            console.error("Failed to save team:", err);
+            showToast({ title: "Error", description: err.message || "Failed to save team.", variant: "destructive" });
+        } finally { setIsSubmitting(false); }
+    };
+
+    const handleDelete = async (teamId: number) => {
+        try {
+            await deleteTeam(teamId);
+            showToast({ title: "Success", description: "Team deleted successfully." });
+            loadTeams();
+        } catch (err: any) {
+            console.error("Failed to delete team:", err);
+            showToast({ title: "Error", description: err.message || "Failed to delete team.", variant: "destructive" });
+        }
+    };
+
+    const handleMemberChange = async (change: () => Promise<void>) => {
+        setIsSavingMember(true);
+        try {
+            await change();
+            await loadTeams();
+        } catch (err: any) {
+            console.error("Failed to update team members:", err);
+            showToast({ title: "Error", description: err.message || "Failed to update the team members.", variant: "destructive" });
+        } finally {
+            setIsSavingMember(false);
+        }
+    };
+
+    const handleAddMember = () => {
+        if (!membersTeamId || !newMemberId) return;
+        handleMemberChange(() => saveTeamMember(membersTeamId, newMemberId, false));
+        setNewMemberId('');
+    };
+
+    const membersTeam = teams.find(t => t.id === membersTeamId) || null;
+    const memberIds = new Set(membersTeam?.members.map(m => m.agent_id) || []);
+
+    return (
+        <>
+            <Card className="mb-8">
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <CardTitle className="flex items-center"><Users className="mr-2 h-5 w-5 text-primary"/>Manage Teams</CardTitle>
+                        <Button onClick={() => handleOpenDialog()}>
+                            <PlusCircle className="mr-2 h-4 w-4" /> Add Team
+                        </Button>
+                    </div>
+                    <CardDescription>
+                        Tickets assigned to a team wait in its queue until a member picks them up. Members see their team&apos;s queue; team leads see all of the team&apos;s tickets.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && <div className="flex items-center justify-center py-4"><Loader2 className="h-6 w-6 animate-spin" /> <p className="ml-2">Loading teams...</p></div>}
+                    {!isLoading && error && <p className="text-red-500 text-center py-4">{error}</p>}
+                    {!isLoading && !error && teams.length === 0 && (
+                        <p className="text-muted-foreground text-center py-4">No teams found.</p>
+                    )}
+                    {!isLoading && !error && teams.length > 0 && (
+                        <Table>
+                            <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Description</TableHead><TableHead>Members</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {teams.map((team) => (
+                                    <TableRow key={team.id}>
+                                        <TableCell className="font-medium">{team.name}</TableCell>
+                                        <TableCell className="max-w-xs truncate">{team.description || '-'}</TableCell>
+                                        <TableCell className="max-w-sm">
+                                            {team.members.length === 0 ? <span className="text-muted-foreground">No members</span> : (
+                                                <div className="flex flex-wrap gap-1">
+                                                    {sortMembers(team.members).map(member => (
+                                                        <Badge key={member.agent_id} variant={member.is_lead ? "default" : "outline"}>
+                                                            {member.agent?.full_name || 'Agent'}{member.is_lead ? ' (Lead)' : ''}
+                                                        </Badge>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right whitespace-nowrap">
+                                            <Button variant="ghost" size="icon" onClick={() => setMembersTeamId(team.id)} className="mr-2" aria-label="Manage members"><Users className="h-4 w-4" /></Button>
+                                            <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(team)} className="mr-2"><Edit className="h-4 w-4" /></Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="text-destructive hover:text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader><AlertDialogTitle>Delete Team: {team.name}?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. Tickets in the team&apos;s queue move back to the general queue.</AlertDialogDescription></AlertDialogHeader>
+                                                    <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => handleDelete(team.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Dialog for Add/Edit Team */}
+            <Dialog open={showDialog} onOpenChange={setShowDialog}>
+                <DialogContent className="sm:max-w-[480px]">
+                    <DialogHeader>
+                        <DialogTitle>{editingTeam ? 'Edit' : 'Add New'} Team</DialogTitle>
+                        <DialogDescription>Add members and leads once the team is created.</DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleFormSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="team-name" className="text-right">Name</Label>
+                                <Input id="team-name" value={name} onChange={(e) => setName(e.target.value)} className="col-span-3" required />
+                            </div>
+                            <div className="grid grid-cols-4 items-start gap-4">
+                                <Label htmlFor="team-description" className="text-right pt-2">Description</Label>
+                                <Textarea id="team-description" value={description} onChange={(e) => setDescription(e.target.value)} className="col-span-3" rows={3} />
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}{editingTeam ? 'Save Changes' : 'Create'}</Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+
+            {/* Dialog for managing a team's members */}
+            <Dialog open={!!membersTeam} onOpenChange={(open) => { if (!open) { setMembersTeamId(null); setNewMemberId(''); } }}>
+                <DialogContent className="sm:max-w-[480px]">
+                    <DialogHeader>
+                        <DialogTitle>Members of {membersTeam?.name}</DialogTitle>
+                        <DialogDescription>Agents can belong to several teams. Leads see every ticket of the team.</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-3 py-2 text-sm">
+                        {membersTeam && membersTeam.members.length === 0 && <p className="text-muted-foreground">No members yet.</p>}
+                        {membersTeam && membersTeam.members.length > 0 && (
+                            <ul className="space-y-2">
+                                {sortMembers(membersTeam.members).map(member => (
+                                    <li key={member.agent_id} className="flex items-center gap-3">
+                                        <span className="flex-1 truncate">{member.agent?.full_name || 'Agent'}</span>
+                                        <Label htmlFor={`lead-${member.agent_id}`} className="text-xs text-muted-foreground">Lead</Label>
+                                        <Switch
+                                            id={`lead-${member.agent_id}`}
+                                            checked={member.is_lead}
+                                            onCheckedChange={(checked) => handleMemberChange(() => saveTeamMember(member.team_id, member.agent_id, checked))}
+                                            disabled={isSavingMember}
+                                        />
+                                        <Button variant="ghost" size="icon" onClick={() => handleMemberChange(() => removeTeamMember(member.team_id, member.agent_id))} disabled={isSavingMember} aria-label="Remove member">
+                                            <UserMinus className="h-4 w-4" />
+                                        </Button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="flex gap-2 border-t pt-3">
+                            <Select value={newMemberId} onValueChange={setNewMemberId} disabled={isSavingMember}>
+                                <SelectTrigger><SelectValue placeholder="Select agent..." /></SelectTrigger>
+                                <SelectContent>
+                                    {agents.filter(a => !memberIds.has(a.id)).map(a => <SelectItem key={a.id} value={a.id}>{a.full_name || a.id.substring(0, 6)}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                            <Button variant="outline" onClick={handleAddMember} disabled={!newMemberId || isSavingMember}>
+                                {isSavingMember && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Add Member
+                            </Button>
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,105 @@
+// components/agents/AvailabilityMenu.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Circle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from '@/contexts/AuthContext';
+import { updateAgentAvailability, AgentAvailabilityStatus } from '@/lib/dataService';
+import { AVAILABILITY_LABELS } from '@/lib/agentAvailability';
+import OutOfOfficeList from './OutOfOfficeList';
+import RedistributeTicketsButton from './RedistributeTicketsButton';
+
+const STATUS_COLORS: Record<AgentAvailabilityStatus, string> = {
+  available: 'fill-green-500 text-green-500',
+  away: 'fill-yellow-400 text-yellow-400',
+  offline: 'fill-gray-400 text-gray-400',
+};
+
+// Sidebar entry where agents set whether they can take new tickets and schedule time off
+export default function AvailabilityMenu() {
+  const { toast: showToast } = useToast();
+  const { user, profile, isAgent } = useAuth();
+  const [status, setStatus] = useState<AgentAvailabilityStatus>('available');
+  const [isSaving, setIsSaving] = useState(false);
+  const [outOfOfficeOpen, setOutOfOfficeOpen] = useState(false);
+
+  useEffect(() => {
+    setStatus(profile?.availability_status || 'available');
+  }, [profile?.availability_status]);
+
+  if (!user || !isAgent) return null;
+
+  const handleStatusChange = async (value: string) => {
+    const next = value as AgentAvailabilityStatus;
+    const previous = status;
+    setStatus(next);
+    setIsSaving(true);
+    try {
+      await updateAgentAvailability(user.id, { availability_status: next });
+    } catch (error: any) {
+      setStatus(previous);
+      showToast({ title: "Error", description: error.message || "Could not update your status.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="rounded-lg w-10 h-10 text-muted-foreground hover:bg-muted hover:text-foreground" disabled={isSaving}>
+                <Circle size={14} className={STATUS_COLORS[status]} />
+                <span className="sr-only">Availability: {AVAILABILITY_LABELS[status]}</span>
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="right">Status: {AVAILABILITY_LABELS[status]}</TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent align="end" side="right" className="ml-2 w-52">
+          <DropdownMenuLabel>My Status</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={status} onValueChange={handleStatusChange}>
+            {(Object.keys(AVAILABILITY_LABELS) as AgentAvailabilityStatus[]).map(value => (
+              <DropdownMenuRadioItem key={value} value={value}>
+                <Circle size={10} className={`mr-2 ${STATUS_COLORS[value]}`} />
+                {AVAILABILITY_LABELS[value]}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setOutOfOfficeOpen(true)}>Out of Office...</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={outOfOfficeOpen} onOpenChange={setOutOfOfficeOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Out of Office</DialogTitle>
+            <DialogDescription>New tickets are not routed to you while you are out of office.</DialogDescription>
+          </DialogHeader>
+          {outOfOfficeOpen && <OutOfOfficeList agentId={user.id} />}
+          <DialogFooter className="sm:justify-between gap-2">
+            <RedistributeTicketsButton agentId={user.id} />
+            <Button variant="outline" onClick={() => setOutOfOfficeOpen(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,122 @@
+// components/agents/OutOfOfficeList.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarOff, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import ClientOnlyDateTime from '@/components/ClientOnlyDateTime';
+import { fetchOutOfOfficePeriods, createOutOfOfficePeriod, deleteOutOfOfficePeriod, OutOfOfficePeriod } from '@/lib/dataService';
+import { currentOutOfOffice } from '@/lib/agentAvailability';
+
+interface OutOfOfficeListProps {
+    agentId: string;
+    onChanged?: () => void; // A period was added or removed
+}
+
+// Current and upcoming out-of-office periods of one agent, with a form to schedule another
+export default function OutOfOfficeList({ agentId, onChanged }: OutOfOfficeListProps) {
+    const { toast: showToast } = useToast();
+    const [periods, setPeriods] = useState<OutOfOfficePeriod[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [startsAt, setStartsAt] = useState('');
+    const [endsAt, setEndsAt] = useState('');
+    const [note, setNote] = useState('');
+
+    const loadPeriods = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setPeriods(await fetchOutOfOfficePeriods(agentId));
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Failed to load out-of-office periods.", variant: "destructive" });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [agentId, showToast]);
+
+    useEffect(() => { loadPeriods(); }, [loadPeriods]);
+
+    const handleAdd = async () => {
+        if (!startsAt || !endsAt) return;
+        setIsSaving(true);
+        try {
+            const created = await createOutOfOfficePeriod({
+                agent_id: agentId,
+                starts_at: new Date(startsAt).toISOString(),
+                ends_at: new Date(endsAt).toISOString(),
+                note,
+            });
+            if (created) setPeriods(prev => [...prev, created].sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+            setStartsAt('');
+            setEndsAt('');
+            setNote('');
+            onChanged?.();
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Could not schedule the out-of-office period.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (period: OutOfOfficePeriod) => {
+        setIsSaving(true);
+        try {
+            await deleteOutOfOfficePeriod(period.id);
+            setPeriods(prev => prev.filter(p => p.id !== period.id));
+            onChanged?.();
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Could not remove the out-of-office period.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const current = currentOutOfOffice(periods);
+
+    return (
+        <div className="space-y-3 text-sm">
+            {isLoading && periods.length === 0 && <p className="text-muted-foreground"><Loader2 className="inline h-3 w-3 mr-1 animate-spin" />Loading...</p>}
+            {!isLoading && periods.length === 0 && <p className="text-muted-foreground">No out-of-office periods scheduled.</p>}
+            {periods.length > 0 && (
+                <ul className="space-y-1.5">
+                    {periods.map(period => (
+                        <li key={period.id} className="flex items-start gap-2">
+                            <CalendarOff className={`h-4 w-4 mt-0.5 shrink-0 ${period.id === current?.id ? 'text-orange-500' : 'text-muted-foreground'}`} />
+                            <div className="flex-1 min-w-0">
+                                <p>
+                                    <ClientOnlyDateTime dateString={period.starts_at} options={{ dateStyle: 'medium', timeStyle: 'short' }} />
+                                    {' - '}
+                                    <ClientOnlyDateTime dateString={period.ends_at} options={{ dateStyle: 'medium', timeStyle: 'short' }} />
+                                    {period.id === current?.id && <span className="ml-1 text-xs text-orange-600">(now)</span>}
+                                </p>
+                                {period.note && <p className="truncate text-xs text-muted-foreground" title={period.note}>{period.note}</p>}
+                            </div>
+                            <button type="button" onClick={() => handleDelete(period)} disabled={isSaving} aria-label="Remove out-of-office period">
+                                <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="grid gap-2 border-t pt-3">
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                        <Label htmlFor={`ooo-start-${agentId}`} className="text-xs">From</Label>
+                        <Input id={`ooo-start-${agentId}`} type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} disabled={isSaving} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor={`ooo-end-${agentId}`} className="text-xs">Until</Label>
+                        <Input id={`ooo-end-${agentId}`} type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} disabled={isSaving} />
+                    </div>
+                </div>
+                <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional), e.g. Annual leave" disabled={isSaving} />
+                <Button variant="outline" size="sm" onClick={handleAdd} disabled={!startsAt || !endsAt || isSaving}>
+                    {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}Schedule Out of Office
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,66 @@
+// components/agents/RedistributeTicketsButton.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { Loader2, Shuffle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { redistributeAgentTickets } from '@/lib/dataService';
+
+interface RedistributeTicketsButtonProps {
+    agentId: string;
+    agentName?: string | null; // Omitted when agents hand off their own tickets
+    size?: 'sm' | 'default';
+    onDone?: () => void;
+}
+
+// Confirms, then hands the agent's open tickets to other available agents
+export default function RedistributeTicketsButton({ agentId, agentName, size = 'sm', onDone }: RedistributeTicketsButtonProps) {
+    const { toast: showToast } = useToast();
+    const [isRedistributing, setIsRedistributing] = useState(false);
+
+    const handleRedistribute = async () => {
+        setIsRedistributing(true);
+        try {
+            const { reassigned, unassigned } = await redistributeAgentTickets(agentId);
+            const description = reassigned + unassigned === 0
+                ? 'There were no open tickets to redistribute.'
+                : `${reassigned} ticket(s) reassigned${unassigned > 0 ? `, ${unassigned} returned to the queue unassigned` : ''}.`;
+            showToast({ title: "Tickets Redistributed", description });
+            onDone?.();
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Could not redistribute the tickets.", variant: "destructive" });
+        } finally {
+            setIsRedistributing(false);
+        }
+    };
+
+    const owner = agentName ? `${agentName}'s` : 'your';
+
+    return (
+        <AlertDialog>
+            <AlertDialogTrigger asChild>
+                <Button variant="outline" size={size} disabled={isRedistributing}>
+                    {isRedistributing ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Shuffle className="h-3.5 w-3.5 mr-1.5" />}
+                    Redistribute Tickets
+                </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Redistribute {owner} open tickets?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        Each open ticket goes to an available agent routed to its ticket type. Tickets no other agent can take are unassigned and return to the queue.
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleRedistribute}>Redistribute</AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
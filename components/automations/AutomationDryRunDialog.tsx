@@ -0,0 +1,78 @@
+// components/automations/AutomationDryRunDialog.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { fetchAutomationDryRun, AutomationDryRunInput, AutomationDryRunResult } from '@/lib/dataService';
+
+interface AutomationDryRunDialogProps {
+    automation: (AutomationDryRunInput & { name?: string }) | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+// Lists the recent tickets an automation would match and the actions it would take, without running them
+export default function AutomationDryRunDialog({ automation, onOpenChange }: AutomationDryRunDialogProps) {
+    const [result, setResult] = useState<AutomationDryRunResult | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!automation) return;
+        setIsLoading(true);
+        setError(null);
+        setResult(null);
+        fetchAutomationDryRun(automation)
+            .then(setResult)
+            .catch((err: any) => setError(err.message || 'Failed to run the dry run.'))
+            .finally(() => setIsLoading(false));
+    }, [automation]);
+
+    return (
+        <Dialog open={!!automation} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[640px]">
+                <DialogHeader>
+                    <DialogTitle>Dry Run{automation?.name ? `: ${automation.name}` : ''}</DialogTitle>
+                    <DialogDescription>
+                        Nothing is changed. This shows what the automation would do on the most recent tickets.
+                    </DialogDescription>
+                </DialogHeader>
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-10">
+                        <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                ) : error ? (
+                    <p className="text-destructive text-center py-6">{error}</p>
+                ) : result && (
+                    <div className="space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                            {result.matches.length} of {result.scanned} ticket(s) would match.
+                        </p>
+                        {result.matches.length > 0 && (
+                            <ScrollArea className="max-h-[55vh] pr-3">
+                                <div className="space-y-3">
+                                    {result.matches.map(match => (
+                                        <div key={match.ticket_id} className="border rounded-md p-3 text-sm space-y-2">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-medium">#{match.ticket_id} {match.subject}</span>
+                                                <div className="flex items-center gap-2">
+                                                    {match.status && <Badge variant="secondary">{match.status}</Badge>}
+                                                    {match.priority && <Badge variant="outline">{match.priority}</Badge>}
+                                                </div>
+                                            </div>
+                                            <ul className="list-disc pl-5 text-muted-foreground">
+                                                {match.planned_actions.map((action, index) => <li key={index}>{action}</li>)}
+                                            </ul>
+                                        </div>
+                                    ))}
+                                </div>
+                            </ScrollArea>
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
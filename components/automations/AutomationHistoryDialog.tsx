@@ -0,0 +1,86 @@
+// components/automations/AutomationHistoryDialog.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, CheckCircle2, XCircle } from "lucide-react";
+import ClientOnlyDateTime from '@/components/ClientOnlyDateTime';
+import { fetchAutomationExecutions, Automation, AutomationExecution } from '@/lib/dataService';
+
+interface AutomationHistoryDialogProps {
+    automation: Automation | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export default function AutomationHistoryDialog({ automation, onOpenChange }: AutomationHistoryDialogProps) {
+    const [executions, setExecutions] = useState<AutomationExecution[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!automation) return;
+        setIsLoading(true);
+        setError(null);
+        fetchAutomationExecutions(automation.id)
+            .then(setExecutions)
+            .catch((err: any) => setError(err.message || 'Failed to load execution history.'))
+            .finally(() => setIsLoading(false));
+    }, [automation]);
+
+    return (
+        <Dialog open={!!automation} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[640px]">
+                <DialogHeader>
+                    <DialogTitle>Execution History</DialogTitle>
+                    <DialogDescription>
+                        Tickets matched by &quot;{automation?.name}&quot; and the outcome of each action.
+                    </DialogDescription>
+                </DialogHeader>
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-10">
+                        <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                ) : error ? (
+                    <p className="text-destructive text-center py-6">{error}</p>
+                ) : executions.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-6">This automation has not run on any ticket yet.</p>
+                ) : (
+                    <ScrollArea className="max-h-[60vh] pr-3">
+                        <div className="space-y-3">
+                            {executions.map(execution => (
+                                <div key={execution.id} className="border rounded-md p-3 text-sm space-y-2">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-medium">
+                                            #{execution.ticket_id} {execution.tickets?.subject}
+                                        </span>
+                                        <div className="flex items-center gap-2">
+                                            {execution.scheduler_run_id && <Badge variant="info">Scheduled</Badge>}
+                                            <Badge variant={execution.success ? "success" : "destructive"}>
+                                                {execution.success ? "Succeeded" : "Errors"}
+                                            </Badge>
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        <ClientOnlyDateTime dateString={execution.executed_at} options={{ dateStyle: 'medium', timeStyle: 'short' }} />
+                                    </p>
+                                    <ul className="space-y-1">
+                                        {execution.actions.map((action, index) => (
+                                            <li key={index} className="flex items-start gap-2">
+                                                {action.success
+                                                    ? <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0 mt-0.5" />
+                                                    : <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />}
+                                                <span>{action.message}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
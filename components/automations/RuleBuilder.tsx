@@ -0,0 +1,233 @@
+// components/automations/RuleBuilder.tsx
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X, ChevronDown, ListPlus } from "lucide-react";
+import {
+    RULE_FIELDS, RULE_OPERATORS, OPERATOR_LABELS, RuleFieldDefinition, isConditionGroup, isListOperator, operatorNeedsValue
+} from '@/lib/automationRules';
+import type {
+    AutomationCondition, AutomationConditionGroup, AutomationConditionOperator, AutomationRuleSet
+} from '@/lib/dataService';
+
+export interface RuleFieldOption {
+    value: string;
+    label: string;
+}
+
+interface RuleBuilderProps {
+    value: AutomationRuleSet;
+    onChange: (value: AutomationRuleSet) => void;
+    // Choices for "option" fields, keyed by field name (type, priority, status, assignee, custom:<id>)
+    fieldOptions: Record<string, RuleFieldOption[]>;
+    // Selectable fields; pass ruleFieldsWithCustomFields(...) to offer custom ticket fields
+    fields?: Record<string, RuleFieldDefinition>;
+}
+
+const MAX_BUILDER_DEPTH = 3;
+
+const newCondition = (): AutomationCondition => ({ field: 'type', operator: 'equals', value: '' });
+const newGroup = (): AutomationConditionGroup => ({ match: 'any', rules: [newCondition()] });
+
+export default function RuleBuilder({ value, onChange, fieldOptions, fields = RULE_FIELDS }: RuleBuilderProps) {
+    return (
+        <GroupEditor
+            group={value.root}
+            depth={1}
+            fieldOptions={fieldOptions}
+            fields={fields}
+            onChange={(root) => onChange({ ...value, root })}
+        />
+    );
+}
+
+interface GroupEditorProps {
+    group: AutomationConditionGroup;
+    depth: number;
+    fieldOptions: Record<string, RuleFieldOption[]>;
+    fields: Record<string, RuleFieldDefinition>;
+    onChange: (group: AutomationConditionGroup) => void;
+    onRemove?: () => void;
+}
+
+function GroupEditor({ group, depth, fieldOptions, fields, onChange, onRemove }: GroupEditorProps) {
+    const updateRule = (index: number, rule: AutomationCondition | AutomationConditionGroup) =>
+        onChange({ ...group, rules: group.rules.map((r, i) => (i === index ? rule : r)) });
+    const removeRule = (index: number) => onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+    return (
+        <div className={`space-y-2 rounded-md ${depth > 1 ? 'border border-dashed p-3' : ''}`}>
+            <div className="flex items-center gap-2 text-sm">
+                <span>Match</span>
+                <Select value={group.match} onValueChange={(match) => onChange({ ...group, match: match as AutomationConditionGroup['match'] })}>
+                    <SelectTrigger className="h-8 w-[90px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">all</SelectItem>
+                        <SelectItem value="any">any</SelectItem>
+                    </SelectContent>
+                </Select>
+                <span>of the following</span>
+                {onRemove && (
+                    <Button type="button" variant="ghost" size="icon" className="ml-auto h-8 w-8" onClick={onRemove}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                )}
+            </div>
+
+            {group.rules.length === 0 && (
+                <p className="text-xs text-muted-foreground">No conditions: the automation matches every ticket.</p>
+            )}
+
+            {group.rules.map((rule, index) => (
+                isConditionGroup(rule) ? (
+                    <GroupEditor
+                        key={index}
+                        group={rule}
+                        depth={depth + 1}
+                        fieldOptions={fieldOptions}
+                        fields={fields}
+                        onChange={(updated) => updateRule(index, updated)}
+                        onRemove={() => removeRule(index)}
+                    />
+                ) : (
+                    <ConditionEditor
+                        key={index}
+                        condition={rule}
+                        fieldOptions={fieldOptions}
+                        fields={fields}
+                        onChange={(updated) => updateRule(index, updated)}
+                        onRemove={() => removeRule(index)}
+                    />
+                )
+            ))}
+
+            <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...group, rules: [...group.rules, newCondition()] })}>
+                    <Plus className="h-3 w-3 mr-1" /> Condition
+                </Button>
+                {depth < MAX_BUILDER_DEPTH && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...group, rules: [...group.rules, newGroup()] })}>
+                        <ListPlus className="h-3 w-3 mr-1" /> Group
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+interface ConditionEditorProps {
+    condition: AutomationCondition;
+    fieldOptions: Record<string, RuleFieldOption[]>;
+    fields: Record<string, RuleFieldDefinition>;
+    onChange: (condition: AutomationCondition) => void;
+    onRemove: () => void;
+}
+
+function ConditionEditor({ condition, fieldOptions, fields, onChange, onRemove }: ConditionEditorProps) {
+    const field = fields[condition.field];
+    const operators = field ? RULE_OPERATORS[field.kind] : [];
+
+    // Changing the field resets operator and value, since they may not fit the new field's kind
+    const handleFieldChange = (fieldName: string) => {
+        const kind = fields[fieldName].kind;
+        onChange({ field: fieldName, operator: RULE_OPERATORS[kind][0], value: '' });
+    };
+
+    const handleOperatorChange = (operator: AutomationConditionOperator) => {
+        const wasList = Array.isArray(condition.value);
+        const value = isListOperator(operator)
+            ? (wasList ? condition.value : condition.value ? [condition.value as string] : [])
+            : (wasList ? (condition.value as string[])[0] || '' : condition.value);
+        onChange({ ...condition, operator, value });
+    };
+
+    return (
+        <div className="grid grid-cols-[1fr_1fr_1.3fr_auto] gap-2">
+            <Select value={condition.field} onValueChange={handleFieldChange}>
+                <SelectTrigger><SelectValue placeholder="Field" /></SelectTrigger>
+                <SelectContent>
+                    {Object.entries(fields).map(([name, definition]) => (
+                        <SelectItem key={name} value={name}>{definition.label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Select value={condition.operator} onValueChange={(operator) => handleOperatorChange(operator as AutomationConditionOperator)}>
+                <SelectTrigger><SelectValue placeholder="Operator" /></SelectTrigger>
+                <SelectContent>
+                    {operators.map(operator => (
+                        <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            {operatorNeedsValue(condition.operator) ? (
+                <ConditionValueInput condition={condition} kind={field?.kind} options={fieldOptions[condition.field]} onChange={(value) => onChange({ ...condition, value })} />
+            ) : (
+                <div />
+            )}
+            <Button type="button" variant="ghost" size="icon" onClick={onRemove}>
+                <X className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+}
+
+interface ConditionValueInputProps {
+    condition: AutomationCondition;
+    kind?: RuleFieldDefinition['kind'];
+    options?: RuleFieldOption[];
+    onChange: (value: string | string[]) => void;
+}
+
+function ConditionValueInput({ condition, kind, options, onChange }: ConditionValueInputProps) {
+
+    // Tags are picked from the tags already in use for "any of" / "none of", and typed for "contains"
+    if (options && (kind === 'option' || (kind === 'tags' && isListOperator(condition.operator)))) {
+        if (isListOperator(condition.operator)) {
+            const selected = Array.isArray(condition.value) ? condition.value : [];
+            const toggle = (value: string, checked: boolean) =>
+                onChange(checked ? [...selected, value] : selected.filter(v => v !== value));
+            return (
+                <Popover>
+                    <PopoverTrigger asChild>
+                        <Button type="button" variant="outline" className="justify-between font-normal">
+                            <span className="truncate">
+                                {selected.length === 0 ? 'Select values' : options.filter(o => selected.includes(o.value)).map(o => o.label).join(', ')}
+                            </span>
+                            <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+                        </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-56 p-2 max-h-64 overflow-y-auto">
+                        {options.map(option => (
+                            <label key={option.value} className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-accent cursor-pointer">
+                                <Checkbox checked={selected.includes(option.value)} onCheckedChange={(checked) => toggle(option.value, checked === true)} />
+                                {option.label}
+                            </label>
+                        ))}
+                    </PopoverContent>
+                </Popover>
+            );
+        }
+        return (
+            <Select value={typeof condition.value === 'string' ? condition.value : ''} onValueChange={onChange}>
+                <SelectTrigger><SelectValue placeholder="Select value" /></SelectTrigger>
+                <SelectContent>
+                    {options.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                </SelectContent>
+            </Select>
+        );
+    }
+
+    return (
+        <Input
+            type={kind === 'date' ? 'date' : kind === 'number' ? 'number' : 'text'}
+            value={typeof condition.value === 'string' ? condition.value : condition.value.join(', ')}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={kind === 'duration' ? 'e.g. 30m, 2h, 1d' : kind === 'tags' ? 'Tag' : 'Value'}
+        />
+    );
+}
@@ -0,0 +1,98 @@
+// components/sla/SlaIndicator.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Badge, BadgeProps } from "@/components/ui/badge";
+import { Timer, PauseCircle } from "lucide-react";
+import { computeSlaStatus, formatSlaDuration, SlaTargetStatus } from '@/lib/sla';
+import type { TicketSlaClock } from '@/lib/dataService';
+
+const STATE_VARIANTS: Record<SlaTargetStatus['state'], BadgeProps['variant']> = {
+    on_track: 'info',
+    at_risk: 'warning',
+    breached: 'destructive',
+    paused: 'secondary',
+    met: 'success',
+    missed: 'closed',
+};
+
+const describeTarget = (target: SlaTargetStatus): string => {
+    switch (target.state) {
+        case 'met': return 'Met';
+        case 'missed': return `Missed by ${formatSlaDuration(target.remaining_minutes)}`;
+        case 'breached': return `Overdue by ${formatSlaDuration(target.remaining_minutes)}`;
+        case 'paused': return `Paused, ${formatSlaDuration(target.remaining_minutes)} left`;
+        default: return `${formatSlaDuration(target.remaining_minutes)} left`;
+    }
+};
+
+// Re-renders every minute so countdowns stay current while a view is open
+function useMinuteTick(): Date {
+    const [now, setNow] = useState(() => new Date());
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+    return now;
+}
+
+interface SlaIndicatorProps {
+    clock: TicketSlaClock | null | undefined;
+}
+
+// Compact badge for ticket lists: shows whichever open target is closest to its deadline
+export function SlaBadge({ clock }: SlaIndicatorProps) {
+    const now = useMinuteTick();
+    const status = computeSlaStatus(clock, now);
+    if (!status) return <span className="text-muted-foreground">-</span>;
+
+    const openTargets = [
+        { label: 'Response', target: status.first_response },
+        { label: 'Resolution', target: status.resolution },
+    ].filter(t => t.target.state !== 'met' && t.target.state !== 'missed');
+
+    if (openTargets.length === 0) {
+        const missed = status.first_response.state === 'missed' || status.resolution.state === 'missed';
+        return <Badge variant={missed ? 'closed' : 'success'}>{missed ? 'SLA missed' : 'SLA met'}</Badge>;
+    }
+
+    const next = openTargets.reduce((a, b) => (b.target.remaining_minutes < a.target.remaining_minutes ? b : a));
+    return (
+        <Badge variant={STATE_VARIANTS[next.target.state]} className="whitespace-nowrap">
+            {next.label}: {describeTarget(next.target)}
+        </Badge>
+    );
+}
+
+// Both targets with due dates, for the ticket detail view
+export function SlaDetails({ clock }: SlaIndicatorProps) {
+    const now = useMinuteTick();
+    const status = computeSlaStatus(clock, now);
+    if (!status) return <p className="text-sm text-muted-foreground">No SLA policy applies to this ticket.</p>;
+
+    return (
+        <div className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">{status.policy_name}{status.business_hours && ' (business hours)'}</span>
+                {status.paused && (
+                    <span className="flex items-center text-xs text-muted-foreground">
+                        <PauseCircle className="h-3.5 w-3.5 mr-1" /> Paused while pending
+                    </span>
+                )}
+            </div>
+            {[
+                { label: 'First response', target: status.first_response },
+                { label: 'Resolution', target: status.resolution },
+            ].map(({ label, target }) => (
+                <div key={label} className="flex items-center justify-between gap-2">
+                    <span className="flex items-center">
+                        <Timer className="h-3.5 w-3.5 mr-1.5" /> {label}
+                    </span>
+                    <Badge variant={STATE_VARIANTS[target.state]} title={`Due ${new Date(target.due_at).toLocaleString()}`}>
+                        {describeTarget(target)}
+                    </Badge>
+                </div>
+            ))}
+        </div>
+    );
+}
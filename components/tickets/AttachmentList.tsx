@@ -0,0 +1,42 @@
+// components/tickets/AttachmentList.tsx
+"use client";
+
+import React from 'react';
+import { Download, FileText } from "lucide-react";
+import type { TicketAttachment } from '@/lib/dataService';
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Images get an inline preview; every file gets a download link
+export default function AttachmentList({ attachments }: { attachments: TicketAttachment[] }) {
+    if (attachments.length === 0) return null;
+
+    return (
+        <div className="mt-2 flex flex-wrap gap-2">
+            {attachments.map(attachment => (
+                <div key={attachment.id} className="flex flex-col rounded border bg-muted/30 p-1.5 text-xs max-w-[180px]">
+                    {attachment.mime_type.startsWith('image/') && attachment.url ? (
+                        <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                            <img src={attachment.url} alt={attachment.file_name} className="mb-1 h-24 w-full rounded object-cover" />
+                        </a>
+                    ) : (
+                        <FileText className="mb-1 h-8 w-8 text-muted-foreground" />
+                    )}
+                    <span className="truncate" title={attachment.file_name}>{attachment.file_name}</span>
+                    <div className="flex items-center justify-between text-muted-foreground">
+                        <span>{formatFileSize(attachment.size_bytes)}</span>
+                        {attachment.download_url && (
+                            <a href={attachment.download_url} className="flex items-center hover:text-foreground" title="Download">
+                                <Download className="h-3.5 w-3.5" />
+                            </a>
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
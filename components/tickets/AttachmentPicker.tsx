@@ -0,0 +1,57 @@
+// components/tickets/AttachmentPicker.tsx
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    ATTACHMENT_ALLOWED_TYPES, ATTACHMENT_MAX_FILES, ATTACHMENT_MAX_SIZE_BYTES, validateAttachmentFile,
+} from '@/lib/dataService';
+import { formatFileSize } from './AttachmentList';
+
+interface AttachmentPickerProps {
+    files: File[];
+    onChange: (files: File[]) => void;
+    disabled?: boolean;
+}
+
+// File chooser for new tickets and comments. Files that break the size or type limits are rejected here,
+// and dataService checks them again before anything is uploaded.
+export default function AttachmentPicker({ files, onChange, disabled }: AttachmentPickerProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from(e.target.files || []);
+        e.target.value = ''; // Allow picking the same file again after removing it
+        const problems = selected.map(validateAttachmentFile).filter(Boolean);
+        const accepted = selected.filter(file => !validateAttachmentFile(file));
+        const next = [...files, ...accepted].slice(0, ATTACHMENT_MAX_FILES);
+        if (files.length + accepted.length > ATTACHMENT_MAX_FILES) problems.push(`At most ${ATTACHMENT_MAX_FILES} files can be attached.`);
+        setError(problems.length > 0 ? problems.join(' ') : null);
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-2">
+            <input ref={inputRef} type="file" multiple accept={ATTACHMENT_ALLOWED_TYPES.join(',')} className="hidden" onChange={handleSelect} />
+            <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={disabled || files.length >= ATTACHMENT_MAX_FILES}>
+                <Paperclip className="mr-2 h-4 w-4" /> Attach files
+            </Button>
+            <span className="ml-2 text-xs text-muted-foreground">Up to {ATTACHMENT_MAX_FILES} files, {ATTACHMENT_MAX_SIZE_BYTES / (1024 * 1024)} MB each</span>
+            {files.length > 0 && (
+                <ul className="space-y-1">
+                    {files.map((file, index) => (
+                        <li key={`${file.name}-${index}`} className="flex items-center justify-between rounded border px-2 py-1 text-sm">
+                            <span className="truncate">{file.name} <span className="text-xs text-muted-foreground">({formatFileSize(file.size)})</span></span>
+                            <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => onChange(files.filter((_, i) => i !== index))} disabled={disabled}>
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+}
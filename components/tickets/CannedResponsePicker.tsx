@@ -0,0 +1,79 @@
+// components/tickets/CannedResponsePicker.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, MessageSquareText, Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { fetchCannedResponses, applyMacro, isMacro, CannedResponse, Ticket } from '@/lib/dataService';
+import { renderCannedResponse } from '@/lib/cannedResponses';
+
+interface CannedResponsePickerProps {
+    ticket: Ticket;
+    agentName: string | null | undefined;
+    disabled?: boolean;
+    onInsert: (text: string) => void; // Plain responses go into the comment box for editing
+    onMacroApplied: (updated: Ticket | null) => void; // The reply was posted and the ticket may have changed
+}
+
+export default function CannedResponsePicker({ ticket, agentName, disabled, onInsert, onMacroApplied }: CannedResponsePickerProps) {
+    const { toast: showToast } = useToast();
+    const [responses, setResponses] = useState<CannedResponse[]>([]);
+    const [isApplying, setIsApplying] = useState(false);
+
+    useEffect(() => {
+        fetchCannedResponses()
+            .then(setResponses)
+            .catch(err => console.error("Failed to load canned responses:", err));
+    }, []);
+
+    const render = (response: CannedResponse) => renderCannedResponse(response.body, { ticket, agent: { full_name: agentName ?? null } });
+
+    const handleApplyMacro = async (response: CannedResponse) => {
+        if (!response.actions) return;
+        setIsApplying(true);
+        try {
+            onMacroApplied(await applyMacro(ticket, render(response), response.actions));
+            showToast({ description: `Applied macro "${response.title}".` });
+        } catch (error: any) {
+            console.error(`Failed to apply macro #${response.id} to ticket #${ticket.id}:`, error);
+            showToast({ title: "Macro Failed", description: error.message || "Could not apply the macro.", variant: "destructive" });
+            onMacroApplied(null); // The reply may have been posted before a later change failed
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const replies = responses.filter(r => !isMacro(r));
+    const macros = responses.filter(isMacro);
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={disabled || isApplying || responses.length === 0}>
+                    {isApplying ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <MessageSquareText className="h-3.5 w-3.5 mr-1.5" />}
+                    Canned Responses
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-64">
+                {replies.length > 0 && <DropdownMenuLabel>Insert Reply</DropdownMenuLabel>}
+                {replies.map(response => (
+                    <DropdownMenuItem key={response.id} onSelect={() => onInsert(render(response))}>
+                        <span className="truncate">{response.title}</span>
+                    </DropdownMenuItem>
+                ))}
+                {replies.length > 0 && macros.length > 0 && <DropdownMenuSeparator />}
+                {macros.length > 0 && <DropdownMenuLabel>Apply Macro</DropdownMenuLabel>}
+                {macros.map(response => (
+                    <DropdownMenuItem key={response.id} onSelect={() => handleApplyMacro(response)}>
+                        <Zap className="h-3.5 w-3.5 mr-2 shrink-0" />
+                        <span className="truncate">{response.title}</span>
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
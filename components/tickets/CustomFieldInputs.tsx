@@ -0,0 +1,68 @@
+// components/tickets/CustomFieldInputs.tsx
+"use client";
+
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomFieldValue, CustomFieldValues, TicketCustomField } from '@/lib/dataService';
+
+interface CustomFieldInputsProps {
+    fields: TicketCustomField[];
+    values: CustomFieldValues;
+    onChange: (values: CustomFieldValues) => void;
+    disabled?: boolean;
+}
+
+// Inputs for the custom fields of the selected ticket type. Values are keyed by field id;
+// dataService validates them again when the ticket is created.
+export default function CustomFieldInputs({ fields, values, onChange, disabled }: CustomFieldInputsProps) {
+    if (fields.length === 0) return null;
+
+    const setValue = (field: TicketCustomField, value: CustomFieldValue) => onChange({ ...values, [String(field.id)]: value });
+
+    return (
+        <div className="space-y-4">
+            {fields.map(field => {
+                const id = `custom-field-${field.id}`;
+                const value = values[String(field.id)];
+                const label = <Label htmlFor={id}>{field.label}{field.is_required && field.field_type !== 'checkbox' ? ' *' : ''}</Label>;
+
+                if (field.field_type === 'checkbox') {
+                    return (
+                        <div key={field.id} className="flex items-center space-x-2">
+                            <Checkbox id={id} checked={value === true} onCheckedChange={(checked) => setValue(field, checked === true)} disabled={disabled} />
+                            {label}
+                        </div>
+                    );
+                }
+                return (
+                    <div key={field.id} className="space-y-1">
+                        {label}
+                        {field.field_type === 'dropdown' ? (
+                            <Select value={typeof value === 'string' ? value : ''} onValueChange={(v) => setValue(field, v)} disabled={disabled}>
+                                <SelectTrigger id={id}><SelectValue placeholder={`Select ${field.label.toLowerCase()}`} /></SelectTrigger>
+                                <SelectContent>
+                                    {(field.options || []).map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        ) : (
+                            <Input
+                                id={id}
+                                type={field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : 'text'}
+                                value={value === null || value === undefined ? '' : String(value)}
+                                onChange={(e) => {
+                                    const raw = e.target.value;
+                                    if (field.field_type === 'number') setValue(field, raw === '' ? null : Number(raw));
+                                    else setValue(field, raw === '' ? null : raw);
+                                }}
+                                disabled={disabled}
+                            />
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
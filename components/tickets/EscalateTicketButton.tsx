@@ -0,0 +1,113 @@
+// components/tickets/EscalateTicketButton.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { ChevronsUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import ClientOnlyDateTime from '@/components/ClientOnlyDateTime';
+import { escalateTicket, EscalationPolicy, Ticket } from '@/lib/dataService';
+import {
+    describeEscalationTarget, escalationDueAt, escalationProblem, nextEscalationLevel, ESCALATION_REASON_MAX_LENGTH,
+} from '@/lib/escalations';
+import { pickTicketPolicy } from '@/lib/sla';
+
+interface EscalateTicketButtonProps {
+    ticket: Ticket;
+    policies: EscalationPolicy[];
+    lastResponseAt?: string | null; // Latest public staff reply, which stops the escalation clock
+    disabled?: boolean;
+    onEscalated: (updated: Ticket) => void;
+}
+
+// Moves the ticket to the next level of its escalation policy. Hidden whenever the server would refuse,
+// e.g. no policy applies, the ticket is resolved or it is already at the last level.
+export default function EscalateTicketButton({ ticket, policies, lastResponseAt, disabled, onEscalated }: EscalateTicketButtonProps) {
+    const { toast: showToast } = useToast();
+    const [open, setOpen] = useState(false);
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const policy = pickTicketPolicy(policies, ticket.priority_id, ticket.ticket_type_id);
+    const level = policy && nextEscalationLevel(policy, ticket.escalation_level);
+    if (!policy || !level || escalationProblem({ ticket, policy })) return null;
+
+    const dueAt = escalationDueAt(level, ticket, lastResponseAt);
+    const isDue = !!dueAt && dueAt.getTime() <= Date.now();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reason.trim()) {
+            showToast({ title: "Missing Reason", description: "Explain why the ticket is being escalated.", variant: "destructive" });
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const updated = await escalateTicket(ticket.id, reason.trim());
+            if (updated) {
+                showToast({ description: `Ticket #${ticket.id} escalated to level ${level.position}: ${describeEscalationTarget(level)}.` });
+                onEscalated(updated);
+            }
+            setOpen(false);
+            setReason('');
+        } catch (error: any) {
+            console.error(`Failed to escalate ticket #${ticket.id}:`, error);
+            showToast({ title: "Escalation Failed", description: error.message || "Could not escalate the ticket.", variant: "destructive" });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <>
+            <Button variant="outline" onClick={() => setOpen(true)} disabled={disabled}>
+                <ChevronsUp className="mr-1.5 h-4 w-4" />
+                Escalate
+                {isDue && <Badge variant="destructive" className="ml-2 px-1.5 py-0 text-[10px]">Due</Badge>}
+            </Button>
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent className="sm:max-w-[480px]">
+                    <DialogHeader>
+                        <DialogTitle>Escalate Ticket #{ticket.id}</DialogTitle>
+                        <DialogDescription>
+                            Level {level.position} of {policy.levels.length} in &quot;{policy.name}&quot; goes to {describeEscalationTarget(level)}. The new owners are notified.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleSubmit}>
+                        <div className="grid gap-2 py-4">
+                            <p className="text-xs text-muted-foreground">
+                                {(ticket.escalation_level || 0) > 0 ? `Currently at level ${ticket.escalation_level}. ` : ''}
+                                {dueAt ? (
+                                    <>
+                                        {isDue ? 'Due for escalation since ' : 'Due for escalation at '}
+                                        <ClientOnlyDateTime dateString={dueAt.toISOString()} options={{ dateStyle: 'medium', timeStyle: 'short' }} />.
+                                    </>
+                                ) : 'Not due: staff have replied since the current owners got the ticket.'}
+                            </p>
+                            <Label htmlFor="escalation-reason">Reason</Label>
+                            <Textarea
+                                id="escalation-reason"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                maxLength={ESCALATION_REASON_MAX_LENGTH}
+                                placeholder="Why does this ticket need the next level?"
+                                rows={4}
+                                required
+                            />
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild><Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button></DialogClose>
+                            <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Escalate</Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
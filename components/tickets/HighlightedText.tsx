@@ -0,0 +1,17 @@
+// components/tickets/HighlightedText.tsx
+"use client";
+
+import React from 'react';
+
+// Renders search highlights (text between <mark> tags from lib/ticketSearch.ts) without injecting HTML,
+// so ticket text is always shown as plain text
+export default function HighlightedText({ text, className }: { text: string; className?: string }) {
+    const parts = text.split(/(<mark>[\s\S]*?<\/mark>)/g).filter(Boolean);
+    return (
+        <span className={className}>
+            {parts.map((part, index) => part.startsWith('<mark>') && part.endsWith('</mark>')
+                ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-800">{part.slice(6, -7)}</mark>
+                : <React.Fragment key={index}>{part}</React.Fragment>)}
+        </span>
+    );
+}
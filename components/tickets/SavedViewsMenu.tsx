@@ -0,0 +1,100 @@
+// components/tickets/SavedViewsMenu.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bookmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchTicketViews, countTicketsForViews, subscribeToTicketChanges, TicketView } from '@/lib/dataService';
+
+const REFRESH_DELAY_MS = 2000; // Bulk changes fire many events; count once they settle
+
+// Sidebar entry listing the user's saved ticket views and the ones shared with them, with live ticket counts.
+// Agents and admins only: customers cannot share views and keep theirs on the Tickets page.
+export default function SavedViewsMenu() {
+  const router = useRouter();
+  const { user, isAgent, isAdmin } = useAuth();
+  const isStaff = isAgent || isAdmin;
+  const [views, setViews] = useState<TicketView[]>([]);
+  const [counts, setCounts] = useState<Record<number, number>>({});
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const fetchedViews = await fetchTicketViews();
+      setViews(fetchedViews);
+      setCounts(await countTicketsForViews(fetchedViews));
+    } catch (err) {
+      console.error("Failed to load saved views:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user || !isStaff) return;
+    refresh();
+    const unsubscribe = subscribeToTicketChanges(`ticket_views_${user.id.replace(/-/g, '_')}`, () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(refresh, REFRESH_DELAY_MS);
+    });
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      unsubscribe();
+    };
+  }, [user, isStaff, refresh]);
+
+  const ownViews = views.filter(v => v.owner_id === user?.id);
+  const sharedViews = views.filter(v => v.owner_id !== user?.id);
+
+  const renderItems = (items: TicketView[]) => items.map(view => (
+    <DropdownMenuItem key={view.id} onClick={() => router.push(`/tickets?view=${view.id}`)}>
+      <span className="flex-1 truncate">{view.name}</span>
+      <Badge variant="outline" className="ml-2">{counts[view.id] ?? '-'}</Badge>
+    </DropdownMenuItem>
+  ));
+
+  if (!isStaff) return null;
+
+  return (
+    <DropdownMenu onOpenChange={(open) => { if (open) refresh(); }}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="rounded-lg w-10 h-10 text-muted-foreground hover:bg-muted hover:text-foreground"
+            >
+              <Bookmark size={20} />
+              <span className="sr-only">Saved views</span>
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="right">Saved Views</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent side="right" align="start" className="ml-2 w-64">
+        <DropdownMenuLabel>My Views</DropdownMenuLabel>
+        {ownViews.length > 0
+          ? renderItems(ownViews)
+          : <p className="px-2 py-1.5 text-xs text-muted-foreground">Save filters on the Tickets page to add a view.</p>}
+        {sharedViews.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Shared Views</DropdownMenuLabel>
+            {renderItems(sharedViews)}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
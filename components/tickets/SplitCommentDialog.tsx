@@ -0,0 +1,124 @@
+// components/tickets/SplitCommentDialog.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { splitCommentIntoTicket, Comment, PriorityOption, Ticket, TicketType } from '@/lib/dataService';
+
+const SUBJECT_MAX_LENGTH = 80;
+
+// First line of the comment, shortened to fit a subject
+function suggestSubject(text: string): string {
+    const firstLine = text.trim().split('\n')[0].trim();
+    return firstLine.length > SUBJECT_MAX_LENGTH ? `${firstLine.slice(0, SUBJECT_MAX_LENGTH - 3)}...` : firstLine;
+}
+
+interface SplitCommentDialogProps {
+    comment: Comment | null; // The dialog is open while a comment is set
+    ticket: Ticket;
+    priorities: PriorityOption[];
+    ticketTypes: TicketType[];
+    openStatusId: number;
+    onClose: () => void;
+    onSplit: (created: Ticket) => void;
+}
+
+// Creates a new ticket from one comment, keeping the original ticket's requester
+export default function SplitCommentDialog({ comment, ticket, priorities, ticketTypes, openStatusId, onClose, onSplit }: SplitCommentDialogProps) {
+    const { toast: showToast } = useToast();
+    const [subject, setSubject] = useState('');
+    const [priorityId, setPriorityId] = useState('');
+    const [ticketTypeId, setTicketTypeId] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (!comment) return;
+        setSubject(suggestSubject(comment.comment_text));
+        setPriorityId(String(ticket.priority_id));
+        setTicketTypeId(ticket.ticket_type_id ? String(ticket.ticket_type_id) : '');
+    }, [comment, ticket]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!comment) return;
+        if (!subject.trim() || !priorityId || !ticketTypeId) {
+            showToast({ title: "Missing Field", description: "Enter a subject and choose a priority and type.", variant: "destructive" });
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const sameType = String(ticket.ticket_type_id) === ticketTypeId;
+            const created = await splitCommentIntoTicket(comment.id, {
+                subject: subject.trim(),
+                requester_id: ticket.requester_id,
+                priority_id: parseInt(priorityId, 10),
+                status_id: openStatusId,
+                ticket_type_id: parseInt(ticketTypeId, 10),
+                custom_fields: sameType ? ticket.custom_fields || {} : {}, // Custom fields only carry over within the same type
+                tags: ticket.tags || [],
+            });
+            if (created) {
+                showToast({ description: `Created ticket #${created.id} from the comment.` });
+                onSplit(created);
+            }
+        } catch (error: any) {
+            console.error(`Failed to split comment #${comment.id}:`, error);
+            showToast({ title: "Split Failed", description: error.message || "Could not create the ticket.", variant: "destructive" });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!comment} onOpenChange={(open) => { if (!open) onClose(); }}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Split Comment Into New Ticket</DialogTitle>
+                    <DialogDescription>
+                        The comment becomes the new ticket&apos;s description. The new ticket keeps {ticket.profiles?.full_name || 'the same requester'} as requester and links back to #TICK-{String(ticket.id).padStart(5, '0')}.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+                    <div className="grid gap-2">
+                        <Label htmlFor="split-subject">Subject</Label>
+                        <Input id="split-subject" value={subject} onChange={(e) => setSubject(e.target.value)} required disabled={isSubmitting} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="split-priority">Priority</Label>
+                            <Select value={priorityId} onValueChange={setPriorityId} disabled={isSubmitting}>
+                                <SelectTrigger id="split-priority"><SelectValue placeholder="Select priority" /></SelectTrigger>
+                                <SelectContent>
+                                    {priorities.map(p => <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="split-type">Ticket Type</Label>
+                            <Select value={ticketTypeId} onValueChange={setTicketTypeId} disabled={isSubmitting}>
+                                <SelectTrigger id="split-type"><SelectValue placeholder="Select type..." /></SelectTrigger>
+                                <SelectContent>
+                                    {ticketTypes.map(tt => <SelectItem key={tt.id} value={String(tt.id)}>{tt.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    {comment && (
+                        <p className="max-h-32 overflow-y-auto rounded border bg-muted/30 p-2 text-xs text-muted-foreground whitespace-pre-wrap">{comment.comment_text}</p>
+                    )}
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+                        <Button type="submit" disabled={isSubmitting}>{isSubmitting ? "Creating..." : "Create Ticket"}</Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
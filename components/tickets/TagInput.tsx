@@ -0,0 +1,64 @@
+// components/tickets/TagInput.tsx
+"use client";
+
+import React, { useId, useState } from 'react';
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { normalizeTags } from '@/lib/ticketTags';
+
+interface TagInputProps {
+    tags: string[];
+    onChange: (tags: string[]) => void;
+    suggestions?: string[]; // Tags already in use, offered as autocomplete
+    disabled?: boolean;
+    placeholder?: string;
+}
+
+// Free-form tag editor: Enter or comma adds the typed tag, Backspace on an empty input removes the last one
+export default function TagInput({ tags, onChange, suggestions = [], disabled, placeholder = 'Add a tag...' }: TagInputProps) {
+    const listId = useId();
+    const [draft, setDraft] = useState('');
+
+    const commit = (value: string) => {
+        if (value.trim()) onChange(normalizeTags([...tags, ...value.split(',')]));
+        setDraft('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit(draft);
+        } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 rounded-md border px-2 py-1">
+            {tags.map(tag => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    {!disabled && (
+                        <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} aria-label={`Remove tag ${tag}`}>
+                            <X className="h-3 w-3" />
+                        </button>
+                    )}
+                </Badge>
+            ))}
+            <Input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => commit(draft)}
+                list={listId}
+                disabled={disabled}
+                placeholder={tags.length === 0 ? placeholder : ''}
+                className="h-7 min-w-[8rem] flex-1 border-0 px-1 shadow-none focus-visible:ring-0"
+            />
+            <datalist id={listId}>
+                {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+            </datalist>
+        </div>
+    );
+}
@@ -0,0 +1,79 @@
+// components/tickets/TicketEventItem.tsx
+"use client";
+
+import React from 'react';
+import { ArrowRightLeft, Bot, ChevronsUp, GitBranch, GitMerge, Link2, Link2Off, PlusCircle, UserCheck, Users } from "lucide-react";
+import ClientOnlyDateTime from '@/components/ClientOnlyDateTime';
+import type { TicketEvent, TicketLinkType } from '@/lib/dataService';
+import { TICKET_LINK_LABELS } from '@/lib/ticketLinks';
+
+// Who made the change: the automation's name takes precedence over the user that triggered it
+export function eventActorName(event: TicketEvent): string {
+    if (event.metadata?.automation_name) return `Automation "${event.metadata.automation_name}"`;
+    return event.actor?.full_name || 'System';
+}
+
+export function describeTicketEvent(event: TicketEvent): string {
+    switch (event.event_type) {
+        case 'created':
+            return 'created the ticket';
+        case 'field_changed':
+            if (event.field === 'assignee') {
+                if (!event.new_value) return `unassigned the ticket${event.old_value ? ` from ${event.old_value}` : ''}`;
+                return `assigned the ticket to ${event.new_value}`;
+            }
+            if (event.field === 'team') {
+                if (!event.new_value) return `removed the ticket from the ${event.old_value} team`;
+                return `moved the ticket to the ${event.new_value} team queue`;
+            }
+            return `changed ${event.field} from ${event.old_value || 'none'} to ${event.new_value || 'none'}`;
+        case 'comment_added':
+            return event.metadata?.is_internal_note ? 'added an internal note' : 'commented';
+        case 'automation_action':
+            return `ran: ${event.new_value || event.metadata?.action_type}`;
+        case 'merged':
+            return event.metadata?.merged_into_ticket_id
+                ? `merged this ticket into #${event.metadata.merged_into_ticket_id}`
+                : `merged ticket #${event.metadata?.merged_ticket_id} into this ticket`;
+        case 'split':
+            return event.metadata?.split_ticket_id
+                ? `split a comment into ticket #${event.metadata.split_ticket_id}`
+                : `created this ticket from a comment on #${event.metadata?.split_from_ticket_id}`;
+        case 'linked':
+        case 'unlinked': {
+            const labels = TICKET_LINK_LABELS[event.metadata?.link_type as TicketLinkType];
+            const label = labels ? (event.metadata?.direction === 'target' ? labels.inverse : labels.label).toLowerCase() : 'linked to';
+            return `${event.event_type === 'linked' ? 'added link' : 'removed link'}: ${label} #${event.metadata?.linked_ticket_id}`;
+        }
+        case 'escalated':
+            return `escalated the ticket to level ${event.metadata?.level} (${event.new_value})${event.metadata?.reason ? `: ${event.metadata.reason}` : ''}`;
+        default:
+            return event.event_type;
+    }
+}
+
+const EVENT_ICONS = {
+    created: PlusCircle,
+    field_changed: ArrowRightLeft,
+    comment_added: PlusCircle,
+    automation_action: Bot,
+    merged: GitMerge,
+    split: GitBranch,
+    linked: Link2,
+    unlinked: Link2Off,
+    escalated: ChevronsUp,
+};
+
+// One line in the ticket timeline, rendered between comments
+export function TicketEventItem({ event }: { event: TicketEvent }) {
+    const Icon = event.field === 'assignee' ? UserCheck : event.field === 'team' ? Users : EVENT_ICONS[event.event_type] || ArrowRightLeft;
+    return (
+        <div className="flex items-center gap-2 pl-2 text-xs text-muted-foreground">
+            <Icon className="h-3.5 w-3.5 shrink-0" />
+            <span className="flex-1">
+                <span className="font-medium text-foreground">{eventActorName(event)}</span> {describeTicketEvent(event)}
+            </span>
+            <ClientOnlyDateTime dateString={event.created_at} options={{ dateStyle: 'short', timeStyle: 'short' }} />
+        </div>
+    );
+}
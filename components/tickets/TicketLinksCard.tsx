@@ -0,0 +1,173 @@
+// components/tickets/TicketLinksCard.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link2, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    fetchTicketLinks, createTicketLink, deleteTicketLink, updateTicketLinkSettings, Ticket, TicketLink, TicketLinkType,
+} from '@/lib/dataService';
+import { TICKET_LINK_LABELS } from '@/lib/ticketLinks';
+
+const ticketNumber = (id: number) => `#TICK-${String(id).padStart(5, '0')}`;
+
+// Every link type read from this ticket, plus the inverse where it differs ("Child of" stores this ticket as the target)
+const LINK_OPTIONS = (Object.keys(TICKET_LINK_LABELS) as TicketLinkType[]).flatMap(type => {
+    const { label, inverse } = TICKET_LINK_LABELS[type];
+    return label === inverse
+        ? [{ value: `${type}:source`, label }]
+        : [{ value: `${type}:source`, label }, { value: `${type}:target`, label: inverse }];
+});
+
+interface TicketLinksCardProps {
+    ticket: Ticket;
+    candidates: Ticket[]; // Tickets that can be picked as the other side of a new link
+    onOpenTicket: (ticketId: number) => void;
+    onChanged: (updated: Ticket | null) => void; // Links or settings changed; linked statuses and history may have moved
+}
+
+export default function TicketLinksCard({ ticket, candidates, onOpenTicket, onChanged }: TicketLinksCardProps) {
+    const { toast: showToast } = useToast();
+    const [links, setLinks] = useState<TicketLink[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [linkOption, setLinkOption] = useState(LINK_OPTIONS[0].value);
+    const [otherTicketId, setOtherTicketId] = useState('');
+
+    const loadLinks = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setLinks(await fetchTicketLinks(ticket.id));
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Failed to load linked tickets.", variant: "destructive" });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [ticket.id, showToast]);
+
+    useEffect(() => { loadLinks(); }, [loadLinks]);
+
+    const handleAddLink = async () => {
+        if (!otherTicketId) return;
+        const [type, direction] = linkOption.split(':') as [TicketLinkType, 'source' | 'target'];
+        const otherId = parseInt(otherTicketId, 10);
+        setIsSaving(true);
+        try {
+            if (direction === 'source') await createTicketLink(ticket.id, otherId, type);
+            else await createTicketLink(otherId, ticket.id, type);
+            setOtherTicketId('');
+            await loadLinks();
+            onChanged(null);
+        } catch (error: any) {
+            showToast({ title: "Link Failed", description: error.message || "Could not link the tickets.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRemoveLink = async (link: TicketLink) => {
+        setIsSaving(true);
+        try {
+            await deleteTicketLink(link);
+            setLinks(prev => prev.filter(l => l.id !== link.id));
+            onChanged(null);
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Could not remove the link.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSettingChange = async (settings: Pick<Ticket, 'is_problem' | 'auto_resolve_children'>) => {
+        setIsSaving(true);
+        try {
+            onChanged(await updateTicketLinkSettings(ticket.id, settings));
+            await loadLinks(); // Children may have taken over the parent's status
+        } catch (error: any) {
+            showToast({ title: "Update Failed", description: error.message || "Could not update the ticket.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const linkedIds = new Set(links.map(l => (l.source_ticket_id === ticket.id ? l.target_ticket_id : l.source_ticket_id)));
+    const hasChildren = links.some(l => l.link_type === 'parent_of' && l.source_ticket_id === ticket.id);
+
+    return (
+        <Card>
+            <CardHeader><CardTitle className="text-base">Linked Tickets</CardTitle></CardHeader>
+            <CardContent className="text-sm space-y-3">
+                {isLoading && links.length === 0 && <p className="text-muted-foreground"><Loader2 className="inline h-3 w-3 mr-1 animate-spin" />Loading...</p>}
+                {!isLoading && links.length === 0 && <p className="text-muted-foreground">No linked tickets.</p>}
+                {links.length > 0 && (
+                    <ul className="space-y-1.5">
+                        {links.map(link => {
+                            const isSource = link.source_ticket_id === ticket.id;
+                            const other = isSource ? link.target : link.source;
+                            const otherId = isSource ? link.target_ticket_id : link.source_ticket_id;
+                            const labels = TICKET_LINK_LABELS[link.link_type];
+                            return (
+                                <li key={link.id} className="flex items-center gap-2">
+                                    <Badge variant="outline" className="shrink-0">{isSource ? labels.label : labels.inverse}</Badge>
+                                    <button type="button" className="flex-1 truncate text-left hover:underline" onClick={() => onOpenTicket(otherId)} title={other?.subject}>
+                                        {ticketNumber(otherId)} {other?.subject}
+                                    </button>
+                                    {other?.ticket_statuses?.name && <span className="shrink-0 text-xs text-muted-foreground">{other.ticket_statuses.name}</span>}
+                                    <button type="button" onClick={() => handleRemoveLink(link)} disabled={isSaving} aria-label="Remove link">
+                                        <X className="h-3.5 w-3.5 text-muted-foreground hover:text-foreground" />
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+                <div className="grid gap-2 border-t pt-3">
+                    <div className="flex gap-2">
+                        <Select value={linkOption} onValueChange={setLinkOption} disabled={isSaving}>
+                            <SelectTrigger className="w-[9rem] shrink-0"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {LINK_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                        <Select value={otherTicketId} onValueChange={setOtherTicketId} disabled={isSaving}>
+                            <SelectTrigger className="min-w-0"><SelectValue placeholder="Select ticket..." /></SelectTrigger>
+                            <SelectContent>
+                                {candidates.filter(t => t.id !== ticket.id && !linkedIds.has(t.id)).map(t => (
+                                    <SelectItem key={t.id} value={String(t.id)}>{ticketNumber(t.id)} {t.subject}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleAddLink} disabled={!otherTicketId || isSaving}>
+                        <Link2 className="h-3.5 w-3.5 mr-1.5" /> Add Link
+                    </Button>
+                </div>
+                <div className="space-y-2 border-t pt-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <div>
+                            <Label htmlFor={`problem-${ticket.id}`} className="text-xs">Problem ticket</Label>
+                            <p className="text-xs text-muted-foreground">Child tickets always take this ticket&apos;s status.</p>
+                        </div>
+                        <Switch id={`problem-${ticket.id}`} checked={!!ticket.is_problem} onCheckedChange={(checked) => handleSettingChange({ is_problem: checked })} disabled={isSaving} />
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                        <div>
+                            <Label htmlFor={`auto-resolve-${ticket.id}`} className="text-xs">Auto-resolve children</Label>
+                            <p className="text-xs text-muted-foreground">Open child tickets are resolved or closed along with this ticket.</p>
+                        </div>
+                        <Switch id={`auto-resolve-${ticket.id}`} checked={!!ticket.auto_resolve_children} onCheckedChange={(checked) => handleSettingChange({ auto_resolve_children: checked })} disabled={isSaving || !!ticket.is_problem} />
+                    </div>
+                    {(ticket.is_problem || ticket.auto_resolve_children) && !hasChildren && (
+                        <p className="text-xs text-muted-foreground">Link child tickets with &quot;Parent of&quot; to apply this.</p>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
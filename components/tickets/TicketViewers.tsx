@@ -0,0 +1,46 @@
+// components/tickets/TicketViewers.tsx
+"use client";
+
+import React from 'react';
+import { Eye } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { getAvatarPublicUrl, TicketViewer } from '@/lib/dataService';
+
+const viewerName = (viewer: TicketViewer) => viewer.full_name || 'Another agent';
+
+// Joins names as "A", "A and B" or "A, B and C"
+function listNames(names: string[]): string {
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+}
+
+// Banner in the ticket dialog naming the other agents who have the ticket open and who is typing a reply
+export default function TicketViewers({ viewers }: { viewers: TicketViewer[] }) {
+    if (viewers.length === 0) return null;
+    const typing = viewers.filter(v => v.is_typing).map(viewerName);
+    const viewing = viewers.filter(v => !v.is_typing).map(viewerName);
+
+    return (
+        <div className="flex items-center gap-2 rounded-md border border-sky-200 bg-sky-50 px-3 py-1.5 text-xs text-sky-900 dark:border-sky-900 dark:bg-sky-950/30 dark:text-sky-100">
+            <Eye className="h-3.5 w-3.5 shrink-0" />
+            <div className="flex -space-x-1.5">
+                {viewers.map(viewer => (
+                    <Tooltip key={viewer.user_id}>
+                        <TooltipTrigger asChild>
+                            <Avatar className={`h-5 w-5 border border-background ${viewer.is_typing ? 'ring-2 ring-sky-400' : ''}`}>
+                                <AvatarImage src={viewer.avatar_url ? getAvatarPublicUrl(viewer.avatar_url) || undefined : undefined} alt={viewerName(viewer)} />
+                                <AvatarFallback className="text-[10px]">{viewer.full_name?.[0]?.toUpperCase() || 'A'}</AvatarFallback>
+                            </Avatar>
+                        </TooltipTrigger>
+                        <TooltipContent>{viewerName(viewer)}{viewer.is_typing ? ' (typing)' : ''}</TooltipContent>
+                    </Tooltip>
+                ))}
+            </div>
+            <span>
+                {typing.length > 0 && `${listNames(typing)} ${typing.length === 1 ? 'is' : 'are'} typing a reply`}
+                {typing.length > 0 && viewing.length > 0 && '; '}
+                {viewing.length > 0 && `${listNames(viewing)} ${viewing.length === 1 ? 'is' : 'are'} also viewing this ticket`}
+            </span>
+        </div>
+    );
+}
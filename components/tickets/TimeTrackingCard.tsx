@@ -0,0 +1,214 @@
+// components/tickets/TimeTrackingCard.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, Play, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ClientOnlyDateTime from '@/components/ClientOnlyDateTime';
+import {
+    fetchTimeEntries, startTicketTimer, stopTicketTimer, logTicketTime, deleteTimeEntry, Comment, TimeEntry,
+} from '@/lib/dataService';
+import { formatTrackedTime, parseDuration, timerMinutes } from '@/lib/timeTracking';
+
+const NO_COMMENT = 'none';
+
+// Comment picker label: author and the start of the text
+const commentLabel = (comment: Comment) => {
+    const text = comment.comment_text.replace(/\s+/g, ' ').trim();
+    return `${comment.profiles?.full_name || 'User'}: ${text.length > 40 ? `${text.slice(0, 37)}...` : text}`;
+};
+
+interface TimeTrackingCardProps {
+    ticketId: number;
+    userId: string;
+    comments: Comment[]; // Entries can be linked to one of these
+}
+
+export default function TimeTrackingCard({ ticketId, userId, comments }: TimeTrackingCardProps) {
+    const { toast: showToast } = useToast();
+    const [entries, setEntries] = useState<TimeEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [durationInput, setDurationInput] = useState('');
+    const [workDate, setWorkDate] = useState('');
+    const [note, setNote] = useState('');
+    const [commentId, setCommentId] = useState(NO_COMMENT);
+    const [now, setNow] = useState(() => new Date());
+
+    const loadEntries = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setEntries(await fetchTimeEntries(ticketId));
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Failed to load time entries.", variant: "destructive" });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [ticketId, showToast]);
+
+    useEffect(() => { loadEntries(); }, [loadEntries]);
+
+    const runningEntry = entries.find(e => e.agent_id === userId && e.minutes === null) || null;
+
+    // Keeps the running timer's elapsed time current
+    useEffect(() => {
+        if (!runningEntry) return;
+        const timer = setInterval(() => setNow(new Date()), 30000);
+        return () => clearInterval(timer);
+    }, [runningEntry]);
+
+    const linkedDetails = () => ({
+        comment_id: commentId === NO_COMMENT ? null : parseInt(commentId, 10),
+        note: note.trim() || null,
+    });
+
+    const resetForm = () => {
+        setDurationInput('');
+        setWorkDate('');
+        setNote('');
+        setCommentId(NO_COMMENT);
+    };
+
+    const handleStartTimer = async () => {
+        setIsSaving(true);
+        try {
+            const started = await startTicketTimer(ticketId);
+            if (started) setEntries(prev => [started, ...prev]);
+            setNow(new Date());
+        } catch (error: any) {
+            showToast({ title: "Timer Failed", description: error.message || "Could not start the timer.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStopTimer = async () => {
+        if (!runningEntry) return;
+        setIsSaving(true);
+        try {
+            const stopped = await stopTicketTimer(runningEntry, linkedDetails());
+            if (stopped) {
+                setEntries(prev => prev.map(e => (e.id === stopped.id ? stopped : e)));
+                showToast({ description: `Logged ${formatTrackedTime(stopped.minutes || 0)}.` });
+            }
+            resetForm();
+        } catch (error: any) {
+            showToast({ title: "Timer Failed", description: error.message || "Could not stop the timer.", variant: "destructive" });
+            loadEntries();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleLogTime = async () => {
+        const minutes = parseDuration(durationInput);
+        if (!minutes) {
+            showToast({ title: "Invalid Duration", description: 'Enter the time spent, e.g. "45m", "1h 30m" or "1.5h".', variant: "destructive" });
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const logged = await logTicketTime({
+                ticket_id: ticketId,
+                minutes,
+                started_at: workDate ? new Date(`${workDate}T09:00:00`).toISOString() : undefined,
+                ...linkedDetails(),
+            });
+            if (logged) setEntries(prev => [logged, ...prev].sort((a, b) => b.started_at.localeCompare(a.started_at)));
+            resetForm();
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Could not log the time.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (entry: TimeEntry) => {
+        setIsSaving(true);
+        try {
+            await deleteTimeEntry(entry.id);
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+        } catch (error: any) {
+            showToast({ title: "Error", description: error.message || "Could not delete the time entry.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const totalMinutes = entries.reduce((sum, e) => sum + (e.minutes || 0), 0);
+    const commentsById = new Map(comments.map(c => [c.id, c]));
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                    Time Tracking
+                    <span className="text-sm font-normal text-muted-foreground">Total: {formatTrackedTime(totalMinutes)}</span>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-3">
+                {runningEntry ? (
+                    <div className="flex items-center justify-between gap-2 rounded border border-green-200 bg-green-50 p-2">
+                        <span>Timer running: <strong>{formatTrackedTime(timerMinutes(runningEntry.started_at, now))}</strong></span>
+                        <Button size="sm" variant="outline" onClick={handleStopTimer} disabled={isSaving}>
+                            <Square className="h-3.5 w-3.5 mr-1.5" /> Stop
+                        </Button>
+                    </div>
+                ) : (
+                    <Button size="sm" variant="outline" className="w-full" onClick={handleStartTimer} disabled={isSaving || isLoading}>
+                        <Play className="h-3.5 w-3.5 mr-1.5" /> Start Timer
+                    </Button>
+                )}
+                <div className="grid gap-2 border-t pt-3">
+                    {!runningEntry && (
+                        <div className="flex gap-2">
+                            <Input value={durationInput} onChange={(e) => setDurationInput(e.target.value)} placeholder="e.g. 1h 30m" disabled={isSaving} />
+                            <Input type="date" value={workDate} onChange={(e) => setWorkDate(e.target.value)} className="w-[9.5rem] shrink-0" disabled={isSaving} aria-label="Date worked" />
+                        </div>
+                    )}
+                    <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" disabled={isSaving} />
+                    {comments.length > 0 && (
+                        <Select value={commentId} onValueChange={setCommentId} disabled={isSaving}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_COMMENT}>Not linked to a comment</SelectItem>
+                                {comments.map(c => <SelectItem key={c.id} value={String(c.id)}>{commentLabel(c)}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    )}
+                    {!runningEntry && (
+                        <Button variant="outline" size="sm" onClick={handleLogTime} disabled={!durationInput.trim() || isSaving}>Log Time</Button>
+                    )}
+                </div>
+                {isLoading && entries.length === 0 && <p className="text-muted-foreground"><Loader2 className="inline h-3 w-3 mr-1 animate-spin" />Loading...</p>}
+                {!isLoading && entries.length === 0 && <p className="text-muted-foreground">No time logged yet.</p>}
+                {entries.length > 0 && (
+                    <ul className="space-y-1.5 border-t pt-3">
+                        {entries.map(entry => {
+                            const comment = entry.comment_id ? commentsById.get(entry.comment_id) : undefined;
+                            return (
+                                <li key={entry.id} className="flex items-start gap-2">
+                                    <span className="w-14 shrink-0 font-medium">{entry.minutes === null ? 'Running' : formatTrackedTime(entry.minutes)}</span>
+                                    <div className="flex-1 min-w-0 text-xs text-muted-foreground">
+                                        <p className="truncate">{entry.agent?.full_name || 'Agent'}, <ClientOnlyDateTime dateString={entry.started_at} options={{ dateStyle: 'short' }} /></p>
+                                        {entry.note && <p className="truncate" title={entry.note}>{entry.note}</p>}
+                                        {comment && <p className="truncate">On: {commentLabel(comment)}</p>}
+                                    </div>
+                                    {entry.agent_id === userId && entry.minutes !== null && (
+                                        <button type="button" onClick={() => handleDelete(entry)} disabled={isSaving} aria-label="Delete time entry">
+                                            <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
+                                        </button>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -12,7 +12,7 @@ import React, {
 } from 'react';
 import { Session, User, RealtimeChannel, AuthResponse } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabaseClient';
-import { fetchUserNotifications, Notification as NotificationType } from '@/lib/dataService';
+import { fetchUserNotifications, Notification as NotificationType, AgentAvailabilityStatus } from '@/lib/dataService';
 import { debounce } from 'lodash'; // Make sure you have lodash installed
 
 // Constants
@@ -27,6 +27,7 @@ export interface UserProfile {
   full_name?: string;
   avatar_url?: string;
   role?: string;
+  availability_status?: AgentAvailabilityStatus;
   // Add other profile fields as needed
 }
 
@@ -0,0 +1,45 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { joinTicketPresence, TicketPresence, TicketViewer } from "@/lib/dataService"
+
+// Typing stops being shown this long after the last keystroke
+const TYPING_IDLE_MS = 4000
+
+// Others viewing the ticket, plus a function to call on every keystroke in the reply box.
+// Pass a null ticketId (e.g. while the dialog is closed) to leave the channel.
+export function useTicketPresence(ticketId: number | null, viewer: Pick<TicketViewer, "user_id" | "full_name" | "avatar_url"> | null) {
+  const [others, setOthers] = useState<TicketViewer[]>([])
+  const presenceRef = useRef<TicketPresence | null>(null)
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const userId = viewer?.user_id
+  const fullName = viewer?.full_name ?? null
+  const avatarUrl = viewer?.avatar_url ?? null
+
+  useEffect(() => {
+    setOthers([])
+    if (ticketId === null || !userId) return
+
+    const presence = joinTicketPresence(ticketId, { user_id: userId, full_name: fullName, avatar_url: avatarUrl }, setOthers)
+    presenceRef.current = presence
+    return () => {
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current)
+      presenceRef.current = null
+      presence.leave()
+    }
+  }, [ticketId, userId, fullName, avatarUrl])
+
+  const notifyTyping = useCallback(() => {
+    presenceRef.current?.setTyping(true)
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current)
+    typingTimerRef.current = setTimeout(() => presenceRef.current?.setTyping(false), TYPING_IDLE_MS)
+  }, [])
+
+  const stopTyping = useCallback(() => {
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current)
+    presenceRef.current?.setTyping(false)
+  }, [])
+
+  return { others, notifyTyping, stopTyping }
+}
@@ -0,0 +1,85 @@
+// lib/agentAvailability.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AgentAvailability, AgentAvailabilityStatus, OutOfOfficePeriod } from './dataService';
+
+// Whether an agent can take another ticket: their own status (profiles.availability_status), an optional
+// open-ticket limit (profiles.max_open_tickets) and scheduled out-of-office periods (agent_out_of_office).
+// Takes the Supabase client as a parameter so the dashboard and the server-side routing share it.
+
+const RESOLVED_STATUS_NAMES = ['resolved', 'closed'];
+
+export const AVAILABILITY_LABELS: Record<AgentAvailabilityStatus, string> = {
+    available: 'Available',
+    away: 'Away',
+    offline: 'Offline',
+};
+
+export function currentOutOfOffice(periods: OutOfOfficePeriod[], now: Date = new Date()): OutOfOfficePeriod | null {
+    const time = now.getTime();
+    return periods.find(p => new Date(p.starts_at).getTime() <= time && new Date(p.ends_at).getTime() > time) || null;
+}
+
+// Why the agent should not get new tickets right now, or null when they can take one
+export function unavailableReason(agent: Omit<AgentAvailability, 'unavailable_reason'>): string | null {
+    if (agent.out_of_office) return 'Out of office';
+    if (agent.availability_status !== 'available') return AVAILABILITY_LABELS[agent.availability_status] || 'Unavailable';
+    if (agent.max_open_tickets !== null && agent.open_ticket_count >= agent.max_open_tickets) {
+        return `At capacity (${agent.open_ticket_count}/${agent.max_open_tickets})`;
+    }
+    return null;
+}
+
+// Availability of each agent, in the order of agentIds. Unknown ids are left out.
+export async function loadAgentAvailability(supabase: SupabaseClient, agentIds: string[], now: Date = new Date()): Promise<AgentAvailability[]> {
+    if (agentIds.length === 0) return [];
+
+    const [
+        { data: profiles, error: profilesError },
+        { data: statuses, error: statusesError },
+        { data: tickets, error: ticketsError },
+        { data: periods, error: periodsError },
+    ] = await Promise.all([
+        supabase.from('profiles').select('id, full_name, availability_status, max_open_tickets').in('id', agentIds),
+        supabase.from('ticket_statuses').select('id, name'),
+        supabase.from('tickets').select('assignee_id, status_id').in('assignee_id', agentIds),
+        supabase
+            .from('agent_out_of_office')
+            .select('id, agent_id, starts_at, ends_at, note, created_at')
+            .in('agent_id', agentIds)
+            .lte('starts_at', now.toISOString())
+            .gt('ends_at', now.toISOString()),
+    ]);
+    if (profilesError) throw profilesError;
+    if (statusesError) throw statusesError;
+    if (ticketsError) throw ticketsError;
+    if (periodsError) throw periodsError;
+
+    const closedStatusIds = new Set((statuses || []).filter(s => RESOLVED_STATUS_NAMES.includes(String(s.name).trim().toLowerCase())).map(s => s.id));
+    const openCounts = new Map<string, number>();
+    (tickets || []).forEach(t => {
+        if (t.assignee_id && !closedStatusIds.has(t.status_id)) {
+            openCounts.set(t.assignee_id, (openCounts.get(t.assignee_id) || 0) + 1);
+        }
+    });
+    const profilesById = new Map((profiles || []).map(p => [p.id as string, p]));
+
+    return agentIds.flatMap(id => {
+        const profile = profilesById.get(id);
+        if (!profile) return [];
+        const agent = {
+            agent_id: id,
+            full_name: profile.full_name as string | null,
+            availability_status: (profile.availability_status || 'available') as AgentAvailabilityStatus,
+            max_open_tickets: (profile.max_open_tickets ?? null) as number | null,
+            open_ticket_count: openCounts.get(id) || 0,
+            out_of_office: currentOutOfOffice(((periods || []) as OutOfOfficePeriod[]).filter(p => p.agent_id === id), now),
+        };
+        return [{ ...agent, unavailable_reason: unavailableReason(agent) }];
+    });
+}
+
+// The agents that can take a ticket now, keeping the order of agentIds (round robin relies on it)
+export async function filterAvailableAgentIds(supabase: SupabaseClient, agentIds: string[], now: Date = new Date()): Promise<string[]> {
+    const availability = await loadAgentAvailability(supabase, agentIds, now);
+    return availability.filter(a => !a.unavailable_reason).map(a => a.agent_id);
+}
@@ -0,0 +1,153 @@
+// lib/autoAssignment.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TicketAssignmentSetting } from './dataService';
+import { pickLeastLoadedAgent } from './automationEngine';
+import { fetchTicketAuditSnapshot, recordTicketChanges } from './ticketEvents';
+import { filterAvailableAgentIds } from './agentAvailability';
+
+// Assigns new tickets to an agent whose specialization is routed to the ticket's type
+// (ticket_type_specialization_routes). Runs server-side with the service role (lib/ticketChanges.ts)
+// because customers create tickets but cannot see other tickets or agents' workloads.
+
+const RESOLVED_STATUS_NAMES = ['resolved', 'closed'];
+
+// Agents routed to the ticket type, in a stable order for round robin
+export async function findCompatibleAgentIds(supabase: SupabaseClient, ticketTypeId: number): Promise<string[]> {
+    const { data: routes, error: routesError } = await supabase.from('ticket_type_specialization_routes').select('specialization_id').eq('ticket_type_id', ticketTypeId);
+    if (routesError) throw routesError;
+    const specializationIds = (routes || []).map(r => r.specialization_id as number);
+    if (specializationIds.length === 0) return [];
+
+    const { data: agents, error: agentsError } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('role', 'agent')
+        .in('specialization_id', specializationIds)
+        .order('id', { ascending: true });
+    if (agentsError) throw agentsError;
+    return (agents || []).map(a => a.id as string);
+}
+
+// Agents are ordered by id, so the next turn is the first id after the previous pick, even if that agent left
+function pickRoundRobin(agentIds: string[], lastAssignedId: string | null | undefined): string {
+    if (!lastAssignedId) return agentIds[0];
+    return agentIds.find(id => id > lastAssignedId) || agentIds[0];
+}
+
+async function pickLeastRecentlyAssigned(supabase: SupabaseClient, agentIds: string[]): Promise<string> {
+    const { data, error } = await supabase.from('profiles').select('id, last_assigned_at').in('id', agentIds);
+    if (error) throw error;
+    const lastAssigned = new Map((data || []).map(p => [p.id as string, p.last_assigned_at ? new Date(p.last_assigned_at).getTime() : 0]));
+    return agentIds.reduce((best, id) => ((lastAssigned.get(id) || 0) < (lastAssigned.get(best) || 0) ? id : best), agentIds[0]);
+}
+
+export async function pickAgent(supabase: SupabaseClient, setting: TicketAssignmentSetting, agentIds: string[]): Promise<string | null> {
+    if (agentIds.length === 0) return null;
+    switch (setting.strategy) {
+        case 'round_robin': return pickRoundRobin(agentIds, setting.last_assigned_agent_id);
+        case 'least_recent': return pickLeastRecentlyAssigned(supabase, agentIds);
+        default: return pickLeastLoadedAgent(supabase, agentIds);
+    }
+}
+
+// Assigns an unassigned ticket when auto-assignment is switched on for its type.
+// Returns the chosen agent, or null when the ticket was left as it was.
+export async function autoAssignTicket(supabase: SupabaseClient, ticketId: number): Promise<string | null> {
+    const { data: ticket, error: ticketError } = await supabase.from('tickets').select('id, ticket_type_id, assignee_id').eq('id', ticketId).maybeSingle();
+    if (ticketError) throw ticketError;
+    if (!ticket || ticket.assignee_id || !ticket.ticket_type_id) return null;
+
+    const { data: setting, error: settingError } = await supabase
+        .from('ticket_assignment_settings')
+        .select('ticket_type_id, is_enabled, strategy, last_assigned_agent_id')
+        .eq('ticket_type_id', ticket.ticket_type_id)
+        .maybeSingle();
+    if (settingError) throw settingError;
+    if (!setting?.is_enabled) return null;
+
+    // Agents who are away, out of office or at their ticket limit are skipped; the ticket stays unassigned if nobody is left
+    const agentIds = await filterAvailableAgentIds(supabase, await findCompatibleAgentIds(supabase, ticket.ticket_type_id));
+    const agentId = await pickAgent(supabase, setting as TicketAssignmentSetting, agentIds);
+    if (!agentId) return null;
+
+    const before = await fetchTicketAuditSnapshot(supabase, ticketId);
+    const now = new Date().toISOString();
+    // Only fills the ticket if nobody assigned it in the meantime
+    const { data: updated, error: updateError } = await supabase
+        .from('tickets')
+        .update({ assignee_id: agentId, updated_at: now })
+        .eq('id', ticketId)
+        .is('assignee_id', null)
+        .select('id');
+    if (updateError) throw updateError;
+    if (!updated || updated.length === 0) return null;
+    await recordTicketChanges(supabase, before, { actorId: null });
+    await recordAssignment(supabase, agentId, ticket.ticket_type_id, now);
+    return agentId;
+}
+
+// Feeds the least recently assigned and round robin strategies. Failures are logged, never thrown.
+async function recordAssignment(supabase: SupabaseClient, agentId: string, ticketTypeId: number, assignedAt: string): Promise<void> {
+    const [{ error: profileError }, { error: stateError }] = await Promise.all([
+        supabase.from('profiles').update({ last_assigned_at: assignedAt }).eq('id', agentId),
+        supabase.from('ticket_assignment_settings').update({ last_assigned_agent_id: agentId }).eq('ticket_type_id', ticketTypeId),
+    ]);
+    if (profileError) console.error(`Error recording assignment time for agent ${agentId}:`, profileError.message);
+    if (stateError) console.error(`Error recording round robin position for ticket type #${ticketTypeId}:`, stateError.message);
+}
+
+export interface RedistributionResult {
+    reassigned: number;
+    unassigned: number; // No other compatible agent could take these; they are back in the queue
+}
+
+// Hands an agent's open tickets to other agents, e.g. before they go on leave. Each ticket goes to an available
+// agent routed to its type, picked with the type's strategy (fewest open tickets when the type has no setting).
+// Tickets are handled one at a time so capacity limits and workloads include the tickets already moved.
+export async function redistributeAgentTickets(supabase: SupabaseClient, agentId: string, actorId: string): Promise<RedistributionResult> {
+    const [{ data: statuses, error: statusesError }, { data: tickets, error: ticketsError }, { data: settings, error: settingsError }] = await Promise.all([
+        supabase.from('ticket_statuses').select('id, name'),
+        supabase.from('tickets').select('id, ticket_type_id, status_id').eq('assignee_id', agentId).order('created_at', { ascending: true }),
+        supabase.from('ticket_assignment_settings').select('ticket_type_id, is_enabled, strategy, last_assigned_agent_id'),
+    ]);
+    if (statusesError) throw statusesError;
+    if (ticketsError) throw ticketsError;
+    if (settingsError) throw settingsError;
+
+    const closedStatusIds = new Set((statuses || []).filter(s => RESOLVED_STATUS_NAMES.includes(String(s.name).trim().toLowerCase())).map(s => s.id));
+    const settingsByType = new Map(((settings || []) as TicketAssignmentSetting[]).map(s => [s.ticket_type_id, s]));
+    const result: RedistributionResult = { reassigned: 0, unassigned: 0 };
+
+    for (const ticket of (tickets || []).filter(t => !closedStatusIds.has(t.status_id))) {
+        const setting: TicketAssignmentSetting | null = ticket.ticket_type_id
+            ? settingsByType.get(ticket.ticket_type_id) || { ticket_type_id: ticket.ticket_type_id, is_enabled: false, strategy: 'least_open' }
+            : null;
+        let newAgentId: string | null = null;
+        if (setting) {
+            const candidates = (await findCompatibleAgentIds(supabase, setting.ticket_type_id)).filter(id => id !== agentId);
+            newAgentId = await pickAgent(supabase, setting, await filterAvailableAgentIds(supabase, candidates));
+        }
+
+        const before = await fetchTicketAuditSnapshot(supabase, ticket.id);
+        const now = new Date().toISOString();
+        // Skips tickets someone else picked up in the meantime
+        const { data: updated, error: updateError } = await supabase
+            .from('tickets')
+            .update({ assignee_id: newAgentId, updated_at: now })
+            .eq('id', ticket.id)
+            .eq('assignee_id', agentId)
+            .select('id');
+        if (updateError) throw updateError;
+        if (!updated || updated.length === 0) continue;
+        await recordTicketChanges(supabase, before, { actorId });
+
+        if (newAgentId && setting) {
+            await recordAssignment(supabase, newAgentId, setting.ticket_type_id, now);
+            setting.last_assigned_agent_id = newAgentId; // Next round robin pick for this type moves on
+            result.reassigned += 1;
+        } else {
+            result.unassigned += 1;
+        }
+    }
+    return result;
+}
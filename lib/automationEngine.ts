@@ -0,0 +1,681 @@
+// lib/automationEngine.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+    Automation, AutomationAction, AutomationCondition, BusinessCalendar, AutomationConditionGroup, AutomationEvent, AutomationRuleSet,
+    AutomationTriggerType, AutomationSchedulerRun, AutomationDryRunInput, AutomationDryRunResult, CustomFieldValues, NewAutomationData,
+    TicketCustomField
+} from './dataService';
+import {
+    RULE_FIELDS, RuleFieldDefinition, RuleFieldKind, CUSTOM_FIELD_PREFIX, isConditionGroup, parseDurationToMinutes,
+    ruleFieldsWithCustomFields, toRuleSet, validateRuleSet
+} from './automationRules';
+import { fetchFirstResponseTimes, syncTicketSla } from './sla';
+import { elapsedMinutes, BUSINESS_CALENDAR_COLUMNS } from './businessHours';
+import { fetchTicketAuditSnapshot, recordTicketChanges, recordTicketEvents } from './ticketEvents';
+import { normalizeTags, parseTagInput } from './ticketTags';
+import { linkedStatusSync } from './ticketLinks';
+import { sendCsatSurvey } from './csat';
+import { filterAvailableAgentIds } from './agentAvailability';
+
+// The engine takes the Supabase client as a parameter instead of importing the browser
+// client, so API routes can run it with the service role key (see lib/supabaseServer.ts).
+
+const ENGINE_TICKET_SELECT_QUERY = `
+    id, subject, description, created_at, updated_at, status_id, priority_id, requester_id, assignee_id, ticket_type_id, custom_fields, tags,
+    ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name ),
+    ticket_priorities:ticket_priorities!tickets_priority_id_fkey ( name ),
+    ticket_types:ticket_types!tickets_ticket_type_id_fkey ( name )
+`;
+
+const AUTOMATION_COLUMNS = `id, name, description, is_active, trigger_type, conditions, actions, business_calendar_id, created_at, updated_at, last_run_at,
+    business_calendar:business_calendars ( ${BUSINESS_CALENDAR_COLUMNS} )`;
+
+const CUSTOM_FIELD_COLUMNS = 'id, ticket_type_id, label, field_type, options, is_required, sort_order, ticket_types ( name )';
+
+// Statuses that no longer count towards an agent's open workload
+const CLOSED_STATUS_NAMES = ['resolved', 'closed'];
+
+// The scheduler walks the open tickets in pages of this size, oldest first
+const SCHEDULER_PAGE_SIZE = 500;
+
+export interface EngineTicket {
+    id: number;
+    subject: string;
+    description: string;
+    created_at: string;
+    updated_at?: string | null;
+    status_id: number;
+    priority_id: number;
+    requester_id: string;
+    assignee_id?: string | null;
+    ticket_type_id?: number | null;
+    ticket_statuses: { name: string } | null;
+    ticket_priorities: { name: string } | null;
+    ticket_types: { name: string } | null;
+    custom_fields?: CustomFieldValues | null;
+    tags?: string[] | null;
+    first_response_at?: string | null; // First public reply by an agent or admin, filled in by attachFirstResponses
+}
+
+export interface EngineContext {
+    actorId?: string | null; // User whose change triggered the run, used as author of automation notes
+    now?: Date;
+    schedulerRunId?: number | null; // Set when the run is part of a scheduler pass
+    ruleFields?: Record<string, RuleFieldDefinition>; // From loadRuleFields; without it, rules on custom fields never match
+}
+
+// What a rule is evaluated against besides the ticket itself
+export interface RuleEvaluationScope {
+    now: Date;
+    calendar?: BusinessCalendar | null; // Durations count business minutes when set
+    fields?: Record<string, RuleFieldDefinition>; // Defaults to RULE_FIELDS
+}
+
+export interface AutomationActionResult {
+    type: string;
+    success: boolean;
+    message: string;
+}
+
+export interface AutomationRunResult {
+    automation_id: number;
+    automation_name: string;
+    ticket_id: number;
+    matched: boolean;
+    actions: AutomationActionResult[];
+}
+
+// Which stored trigger types react to each ticket event
+const EVENT_TRIGGERS: Record<AutomationEvent, AutomationTriggerType[]> = {
+    ticket_created: ['ticket_created'],
+    ticket_updated: ['ticket_updated'],
+    status_changed: ['status_changed', 'ticket_updated'],
+};
+
+// --- Condition evaluation ---
+
+type FieldValue = string | number | string[] | null | undefined;
+type FieldResolver = (ticket: EngineTicket, now: Date, calendar?: BusinessCalendar | null) => FieldValue;
+
+// Durations count business minutes when the automation has a business calendar
+const minutesBetween = (from: string | null | undefined, now: Date, calendar?: BusinessCalendar | null): number | null => {
+    if (!from) return null;
+    return Math.floor(elapsedMinutes(new Date(from), now, calendar));
+};
+
+// Resolves each field in RULE_FIELDS (lib/automationRules.ts) on a ticket
+export const AUTOMATION_FIELDS: Record<string, FieldResolver> = {
+    type: t => t.ticket_types?.name,
+    priority: t => t.ticket_priorities?.name,
+    status: t => t.ticket_statuses?.name,
+    subject: t => t.subject,
+    description: t => t.description,
+    assignee: t => t.assignee_id,
+    requester: t => t.requester_id,
+    tags: t => t.tags || [],
+    age: (t, now, calendar) => minutesBetween(t.created_at, now, calendar),
+    time_since_update: (t, now, calendar) => minutesBetween(t.updated_at || t.created_at, now, calendar),
+    // Time the requester waited for a first reply; keeps growing while nobody has answered
+    response_time: (t, now, calendar) => minutesBetween(t.created_at, t.first_response_at ? new Date(t.first_response_at) : now, calendar),
+    created_at: t => t.created_at,
+    updated_at: t => t.updated_at || t.created_at,
+};
+
+// Built-in fields come from AUTOMATION_FIELDS, custom fields from the ticket's custom_fields values
+function resolveField(name: string): FieldResolver | undefined {
+    if (!name.startsWith(CUSTOM_FIELD_PREFIX)) return AUTOMATION_FIELDS[name];
+    const fieldId = name.slice(CUSTOM_FIELD_PREFIX.length);
+    return t => {
+        const value = t.custom_fields?.[fieldId];
+        return typeof value === 'boolean' ? String(value) : value;
+    };
+}
+
+const normalize = (value: unknown): string => (value === null || value === undefined ? '' : String(value).trim().toLowerCase());
+
+// Tag conditions match against the whole list: "contains" needs the tag, "in" any of the tags
+function compareTags(actual: string[], operator: string, expected: string | string[]): boolean {
+    const expectedTags = parseTagInput(expected);
+    const hasAny = expectedTags.some(tag => actual.includes(tag));
+    switch (operator) {
+        case 'contains':
+        case 'in': return hasAny;
+        case 'not_contains':
+        case 'not_in': return !hasAny;
+        case 'is_empty': return actual.length === 0;
+        case 'is_not_empty': return actual.length > 0;
+        default: return false;
+    }
+}
+
+function compareValues(actual: FieldValue, operator: string, expected: string | string[], kind: RuleFieldKind): boolean {
+    if (kind === 'tags' || Array.isArray(actual)) {
+        return compareTags(Array.isArray(actual) ? normalizeTags(actual) : [], operator, expected);
+    }
+    if (kind === 'number' && operator !== 'is_empty' && operator !== 'is_not_empty') {
+        if (actual === null || actual === undefined || actual === '' || Array.isArray(expected)) return false;
+        const actualValue = Number(actual);
+        const expectedValue = Number(expected);
+        if (isNaN(actualValue) || isNaN(expectedValue)) return false;
+        switch (operator) {
+            case 'equals': return actualValue === expectedValue;
+            case 'not_equals': return actualValue !== expectedValue;
+            case 'greater_than': return actualValue > expectedValue;
+            case 'less_than': return actualValue < expectedValue;
+            default: return false;
+        }
+    }
+    if (kind === 'duration' || kind === 'date') {
+        if (actual === null || actual === undefined || Array.isArray(expected)) return false;
+        const actualValue = kind === 'duration' ? Number(actual) : new Date(actual).getTime();
+        const expectedValue = kind === 'duration' ? parseDurationToMinutes(expected) : new Date(expected).getTime();
+        if (expectedValue === null || isNaN(expectedValue)) return false;
+        switch (operator) {
+            case 'greater_than': return actualValue > expectedValue;
+            case 'less_than': return actualValue < expectedValue;
+            default: return false;
+        }
+    }
+
+    const expectedList = (Array.isArray(expected) ? expected : [expected]).map(normalize);
+    switch (operator) {
+        case 'equals': return normalize(actual) === expectedList[0];
+        case 'not_equals': return normalize(actual) !== expectedList[0];
+        case 'in': return expectedList.includes(normalize(actual));
+        case 'not_in': return !expectedList.includes(normalize(actual));
+        case 'contains': return normalize(actual).includes(expectedList[0]);
+        case 'not_contains': return !normalize(actual).includes(expectedList[0]);
+        case 'is_empty': return normalize(actual) === '';
+        case 'is_not_empty': return normalize(actual) !== '';
+        default:
+            console.warn(`Unknown automation operator "${operator}"`);
+            return false;
+    }
+}
+
+export function evaluateCondition(condition: AutomationCondition, ticket: EngineTicket, scope: RuleEvaluationScope = { now: new Date() }): boolean {
+    const field = (scope.fields || RULE_FIELDS)[condition.field];
+    const resolve = resolveField(condition.field);
+    if (!field || !resolve) {
+        console.warn(`Unknown automation field "${condition.field}"`);
+        return false;
+    }
+    return compareValues(resolve(ticket, scope.now, scope.calendar), condition.operator, condition.value, field.kind);
+}
+
+// "all" groups need every rule to match, "any" groups at least one; an empty group matches every ticket
+function evaluateGroup(group: AutomationConditionGroup, ticket: EngineTicket, scope: RuleEvaluationScope): boolean {
+    if (group.rules.length === 0) return true;
+    const evaluate = (rule: AutomationCondition | AutomationConditionGroup) =>
+        isConditionGroup(rule) ? evaluateGroup(rule, ticket, scope) : evaluateCondition(rule, ticket, scope);
+    return group.match === 'any' ? group.rules.some(evaluate) : group.rules.every(evaluate);
+}
+
+// Accepts both the current rule schema and legacy flat condition lists.
+// Rules that fail validation never match, so a broken automation cannot act on every ticket.
+export function matchesConditions(conditions: AutomationRuleSet | AutomationCondition[] | null | undefined, ticket: EngineTicket, scope: RuleEvaluationScope = { now: new Date() }): boolean {
+    const ruleSet = toRuleSet(conditions);
+    const errors = validateRuleSet(ruleSet, scope.fields);
+    if (errors.length > 0) {
+        console.error('Skipping invalid automation rule:', errors.join('; '));
+        return false;
+    }
+    return evaluateGroup(ruleSet.root, ticket, scope);
+}
+
+// Rule field definitions including every custom ticket field, for validating and evaluating rules
+export async function loadRuleFields(supabase: SupabaseClient): Promise<Record<string, RuleFieldDefinition>> {
+    const { data, error } = await supabase.from('ticket_custom_fields').select(CUSTOM_FIELD_COLUMNS);
+    if (error) throw error;
+    return ruleFieldsWithCustomFields((data as unknown as TicketCustomField[]) || []);
+}
+
+// --- Actions ---
+
+type ActionHandler = (
+    supabase: SupabaseClient,
+    ticket: EngineTicket,
+    settings: Record<string, any>,
+    context: EngineContext & { automation: Automation }
+) => Promise<string>;
+
+async function updateTicketColumns(supabase: SupabaseClient, ticketId: number, updates: Record<string, unknown>): Promise<void> {
+    const { error } = await supabase.from('tickets').update({ ...updates, updated_at: new Date().toISOString() }).eq('id', ticketId);
+    if (error) throw error;
+}
+
+// Lookup tables are small, so match names case-insensitively in memory
+async function findIdByName(supabase: SupabaseClient, table: string, name: string): Promise<number> {
+    const { data, error } = await supabase.from(table).select('id, name');
+    if (error) throw error;
+    const row = (data || []).find(item => normalize(item.name) === normalize(name));
+    if (!row) throw new Error(`No ${table} entry named "${name}"`);
+    return row.id as number;
+}
+
+// Picks the agent with the fewest tickets that are not yet resolved or closed
+export async function pickLeastLoadedAgent(supabase: SupabaseClient, agentIds: string[]): Promise<string | null> {
+    if (agentIds.length === 0) return null;
+
+    const [{ data: statuses, error: statusesError }, { data: tickets, error: ticketsError }] = await Promise.all([
+        supabase.from('ticket_statuses').select('id, name'),
+        supabase.from('tickets').select('assignee_id, status_id').in('assignee_id', agentIds),
+    ]);
+    if (statusesError) throw statusesError;
+    if (ticketsError) throw ticketsError;
+
+    const closedStatusIds = new Set((statuses || []).filter(s => CLOSED_STATUS_NAMES.includes(normalize(s.name))).map(s => s.id));
+    const openCounts = new Map(agentIds.map(id => [id, 0]));
+    (tickets || []).forEach(t => {
+        if (t.assignee_id && !closedStatusIds.has(t.status_id)) {
+            openCounts.set(t.assignee_id, (openCounts.get(t.assignee_id) || 0) + 1);
+        }
+    });
+
+    return agentIds.reduce((best, id) => ((openCounts.get(id) || 0) < (openCounts.get(best) || 0) ? id : best), agentIds[0]);
+}
+
+const assignToAgent: ActionHandler = async (supabase, ticket, settings) => {
+    if (!settings.agent_id) throw new Error('No agent selected');
+    await updateTicketColumns(supabase, ticket.id, { assignee_id: settings.agent_id });
+    return `Assigned to agent ${settings.agent_id}`;
+};
+
+const assignToDepartment: ActionHandler = async (supabase, ticket, settings) => {
+    const department = settings.department || settings.specialization;
+    if (!department) throw new Error('No department selected');
+    const specializationId = await findIdByName(supabase, 'specializations', department);
+
+    const { data: agents, error } = await supabase.from('profiles').select('id').eq('role', 'agent').eq('specialization_id', specializationId);
+    if (error) throw error;
+    if (!agents || agents.length === 0) throw new Error(`No agents with specialization "${department}"`);
+    // Agents who are away, out of office or at their ticket limit are skipped
+    const agentId = await pickLeastLoadedAgent(supabase, await filterAvailableAgentIds(supabase, agents.map(a => a.id)));
+    if (!agentId) throw new Error(`No available agents with specialization "${department}"`);
+
+    await updateTicketColumns(supabase, ticket.id, { assignee_id: agentId });
+    return `Assigned to ${department} agent ${agentId}`;
+};
+
+const setPriority: ActionHandler = async (supabase, ticket, settings) => {
+    const level = settings.level || settings.priority;
+    if (!level) throw new Error('No priority selected');
+    const priorityId = await findIdByName(supabase, 'ticket_priorities', level);
+    await updateTicketColumns(supabase, ticket.id, { priority_id: priorityId });
+    return `Priority set to ${level}`;
+};
+
+const setStatus: ActionHandler = async (supabase, ticket, settings, context) => {
+    if (!settings.status) throw new Error('No status selected');
+    const statusId = await findIdByName(supabase, 'ticket_statuses', settings.status);
+    await updateTicketColumns(supabase, ticket.id, { status_id: statusId });
+    const childCount = await applyStatusToLinkedChildren(supabase, ticket.id, context.automation).catch(err => {
+        console.error(`Error updating child tickets of #${ticket.id}:`, err?.message || err);
+        return 0;
+    });
+    await surveyRequester(supabase, ticket.id);
+    return childCount > 0 ? `Status set to ${settings.status} (and ${childCount} linked tickets)` : `Status set to ${settings.status}`;
+};
+
+// Child tickets follow their parent's new status (lib/ticketLinks.ts). Their changes are attributed to the
+// automation; automations are not run on the children so one rule cannot cascade into others.
+async function applyStatusToLinkedChildren(supabase: SupabaseClient, parentId: number, automation: Automation): Promise<number> {
+    const sync = await linkedStatusSync(supabase, parentId);
+    if (!sync) return 0;
+    let count = 0;
+    for (const childId of sync.childIds) {
+        const before = await fetchTicketAuditSnapshot(supabase, childId);
+        await updateTicketColumns(supabase, childId, { status_id: sync.statusId });
+        await recordTicketChanges(supabase, before, { actorId: null, automation: { id: automation.id, name: automation.name } });
+        await syncTicketSla(supabase, childId);
+        await surveyRequester(supabase, childId);
+        count += 1 + await applyStatusToLinkedChildren(supabase, childId, automation);
+    }
+    return count;
+}
+
+// Resolving a ticket through an automation asks for a rating just like a manual status change (lib/csat.ts)
+async function surveyRequester(supabase: SupabaseClient, ticketId: number): Promise<void> {
+    await sendCsatSurvey(supabase, ticketId).catch(err => console.error(`Error sending CSAT survey for ticket #${ticketId}:`, err?.message || err));
+}
+
+// Scheduled runs have no acting user, so their notes are attributed to the first admin
+async function findFallbackAuthor(supabase: SupabaseClient): Promise<string | null> {
+    const { data, error } = await supabase.from('profiles').select('id').eq('role', 'admin').order('id', { ascending: true }).limit(1);
+    if (error) throw error;
+    return data?.[0]?.id || null;
+}
+
+const addInternalNote: ActionHandler = async (supabase, ticket, settings, context) => {
+    const authorId = settings.author_id || context.actorId || (await findFallbackAuthor(supabase));
+    if (!authorId) throw new Error('No author available for the automation note');
+    const text = settings.text || `Automation "${context.automation.name}" ran on this ticket.`;
+    const { error } = await supabase.from('ticket_comments').insert([{ ticket_id: ticket.id, user_id: authorId, comment_text: text, is_internal_note: true }]);
+    if (error) throw error;
+    return 'Internal note added';
+};
+
+async function changeTicketTags(supabase: SupabaseClient, ticket: EngineTicket, change: (tags: string[]) => string[]): Promise<string[]> {
+    const { data, error } = await supabase.from('tickets').select('tags').eq('id', ticket.id).single();
+    if (error) throw error;
+    const tags = normalizeTags(change(normalizeTags(data?.tags)));
+    await updateTicketColumns(supabase, ticket.id, { tags });
+    return tags;
+}
+
+const addTags: ActionHandler = async (supabase, ticket, settings) => {
+    const tags = parseTagInput(settings.tags);
+    if (tags.length === 0) throw new Error('No tags given');
+    await changeTicketTags(supabase, ticket, current => [...current, ...tags]);
+    return `Added tags: ${tags.join(', ')}`;
+};
+
+const removeTags: ActionHandler = async (supabase, ticket, settings) => {
+    const tags = parseTagInput(settings.tags);
+    if (tags.length === 0) throw new Error('No tags given');
+    await changeTicketTags(supabase, ticket, current => current.filter(tag => !tags.includes(tag)));
+    return `Removed tags: ${tags.join(', ')}`;
+};
+
+const notifyAdmins: ActionHandler = async (supabase, ticket, settings, context) => {
+    const { data: admins, error } = await supabase.from('profiles').select('id').eq('role', 'admin');
+    if (error) throw error;
+    if (!admins || admins.length === 0) return 'No admins to notify';
+
+    const message = settings.message || `Automation "${context.automation.name}" flagged ticket #${ticket.id}: ${ticket.subject}`;
+    const { error: insertError } = await supabase.from('notifications').insert(
+        admins.map(admin => ({ user_id: admin.id, ticket_id: ticket.id, message, type: 'automation', is_read: false }))
+    );
+    if (insertError) throw insertError;
+    return `Notified ${admins.length} admin(s)`;
+};
+
+export const AUTOMATION_ACTIONS: Record<string, ActionHandler> = {
+    assign_to_agent: assignToAgent,
+    assign_to_department: assignToDepartment,
+    set_priority: setPriority,
+    escalate_priority: setPriority,
+    set_status: setStatus,
+    add_internal_note: addInternalNote,
+    add_tags: addTags,
+    remove_tags: removeTags,
+    notify_admins: notifyAdmins,
+    notify_manager: notifyAdmins,
+};
+
+// Human readable summary of what an action would do, used by dry runs
+export function describeAction(action: AutomationAction): string {
+    const settings = action.settings || {};
+    switch (action.type) {
+        case 'assign_to_agent': return `Assign to agent ${settings.agent_id || '(none selected)'}`;
+        case 'assign_to_department': return `Assign to least busy ${settings.department || settings.specialization || '(none selected)'} agent`;
+        case 'set_priority':
+        case 'escalate_priority': return `Set priority to ${settings.level || settings.priority || '(none selected)'}`;
+        case 'set_status': return `Set status to ${settings.status || '(none selected)'}`;
+        case 'add_internal_note': return `Add internal note${settings.text ? `: "${settings.text}"` : ''}`;
+        case 'add_tags': return `Add tags: ${parseTagInput(settings.tags).join(', ') || '(none given)'}`;
+        case 'remove_tags': return `Remove tags: ${parseTagInput(settings.tags).join(', ') || '(none given)'}`;
+        case 'notify_admins':
+        case 'notify_manager': return 'Notify admins';
+        default: return `Unknown action type "${action.type}"`;
+    }
+}
+
+// --- Runner ---
+
+// Fills in first_response_at for the given tickets from their earliest public staff comment
+async function attachFirstResponses(supabase: SupabaseClient, tickets: EngineTicket[]): Promise<EngineTicket[]> {
+    const firstResponses = await fetchFirstResponseTimes(supabase, tickets.map(t => t.id));
+    return tickets.map(t => ({ ...t, first_response_at: firstResponses.get(t.id) || null }));
+}
+
+export async function fetchEngineTicket(supabase: SupabaseClient, ticketId: number): Promise<EngineTicket | null> {
+    const { data, error } = await supabase.from('tickets').select(ENGINE_TICKET_SELECT_QUERY).eq('id', ticketId).maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+    const [ticket] = await attachFirstResponses(supabase, [data as unknown as EngineTicket]);
+    return ticket;
+}
+
+async function fetchClosedStatusIds(supabase: SupabaseClient): Promise<number[]> {
+    const { data: statuses, error } = await supabase.from('ticket_statuses').select('id, name');
+    if (error) throw error;
+    return (statuses || []).filter(s => CLOSED_STATUS_NAMES.includes(normalize(s.name))).map(s => s.id as number);
+}
+
+// The next page of open tickets after afterId; keyset paging so tickets closed mid-run cannot shift the pages
+async function fetchOpenEngineTicketPage(supabase: SupabaseClient, closedStatusIds: number[], afterId: number): Promise<EngineTicket[]> {
+    let query = supabase.from('tickets').select(ENGINE_TICKET_SELECT_QUERY).gt('id', afterId).order('id', { ascending: true }).limit(SCHEDULER_PAGE_SIZE);
+    if (closedStatusIds.length > 0) {
+        query = query.not('status_id', 'in', `(${closedStatusIds.join(',')})`);
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+    return attachFirstResponses(supabase, (data as unknown as EngineTicket[]) || []);
+}
+
+// "automationId:ticketId" for every execution of the automations on the given tickets.
+// Paged with range() because the result can exceed PostgREST's row cap.
+async function fetchExecutedPairs(supabase: SupabaseClient, automationIds: number[], ticketIds: number[]): Promise<Set<string>> {
+    const pairs = new Set<string>();
+    if (automationIds.length === 0 || ticketIds.length === 0) return pairs;
+    for (let from = 0; ; from += SCHEDULER_PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('automation_executions')
+            .select('automation_id, ticket_id')
+            .in('automation_id', automationIds)
+            .in('ticket_id', ticketIds)
+            .order('id', { ascending: true })
+            .range(from, from + SCHEDULER_PAGE_SIZE - 1);
+        if (error) throw error;
+        for (const e of data || []) pairs.add(`${e.automation_id}:${e.ticket_id}`);
+        if (!data || data.length < SCHEDULER_PAGE_SIZE) return pairs;
+    }
+}
+
+export async function fetchActiveAutomations(supabase: SupabaseClient, triggerTypes: AutomationTriggerType[]): Promise<Automation[]> {
+    const { data, error } = await supabase
+        .from('automations')
+        .select(AUTOMATION_COLUMNS)
+        .eq('is_active', true)
+        .in('trigger_type', triggerTypes)
+        .order('id', { ascending: true });
+    if (error) throw error;
+    return (data as unknown as Automation[]) || [];
+}
+
+// Creates the automation, or updates automation #id. Callers validate the rule first (app/api/automations).
+export async function saveAutomation(supabase: SupabaseClient, fields: Partial<NewAutomationData>, id?: number): Promise<Automation> {
+    const query = id === undefined
+        ? supabase.from('automations').insert({ ...fields, is_active: fields.is_active ?? true })
+        : supabase.from('automations').update({ ...fields, updated_at: new Date().toISOString() }).eq('id', id);
+    const { data, error } = await query.select(AUTOMATION_COLUMNS).single();
+    if (error) throw error;
+    return data as unknown as Automation;
+}
+
+// Each successful action is logged to the ticket's history, followed by the field changes the actions made
+async function executeActions(supabase: SupabaseClient, actions: AutomationAction[], ticket: EngineTicket, context: EngineContext & { automation: Automation }): Promise<AutomationActionResult[]> {
+    const source = { actorId: null, automation: { id: context.automation.id, name: context.automation.name } };
+    const before = await fetchTicketAuditSnapshot(supabase, ticket.id).catch(err => {
+        console.error(`Error loading ticket #${ticket.id} before automation #${context.automation.id}:`, err?.message || err);
+        return null;
+    });
+    const results: AutomationActionResult[] = [];
+    for (const action of actions || []) {
+        const handler = AUTOMATION_ACTIONS[action.type];
+        if (!handler) {
+            results.push({ type: action.type, success: false, message: `Unknown action type "${action.type}"` });
+            continue;
+        }
+        try {
+            const message = await handler(supabase, ticket, action.settings || {}, context);
+            results.push({ type: action.type, success: true, message });
+            await recordTicketEvents(supabase, [{
+                ticket_id: ticket.id, actor_id: null, event_type: 'automation_action', new_value: message,
+                metadata: { automation_id: source.automation.id, automation_name: source.automation.name, action_type: action.type },
+            }]);
+        } catch (err: any) {
+            console.error(`Automation #${context.automation.id} action "${action.type}" failed on ticket #${ticket.id}:`, err?.message || err);
+            results.push({ type: action.type, success: false, message: err?.message || 'Action failed' });
+        }
+    }
+    if (results.some(r => r.success)) await recordTicketChanges(supabase, before, source);
+    return results;
+}
+
+// Every matched run is stored in automation_executions, which backs the history on the Automations page
+async function recordExecution(supabase: SupabaseClient, result: AutomationRunResult, schedulerRunId: number | null): Promise<void> {
+    const { error } = await supabase.from('automation_executions').insert([{
+        automation_id: result.automation_id,
+        ticket_id: result.ticket_id,
+        scheduler_run_id: schedulerRunId,
+        actions: result.actions,
+        success: result.actions.every(a => a.success),
+    }]);
+    if (error) console.error(`Error recording execution of automation #${result.automation_id} on ticket #${result.ticket_id}:`, error.message);
+}
+
+export async function runAutomation(supabase: SupabaseClient, automation: Automation, ticket: EngineTicket, context: EngineContext = {}): Promise<AutomationRunResult> {
+    const now = context.now || new Date();
+    const result: AutomationRunResult = { automation_id: automation.id, automation_name: automation.name, ticket_id: ticket.id, matched: false, actions: [] };
+
+    if (!matchesConditions(automation.conditions, ticket, { now, calendar: automation.business_calendar, fields: context.ruleFields })) return result;
+
+    result.matched = true;
+    result.actions = await executeActions(supabase, automation.actions, ticket, { ...context, now, automation });
+    if (result.actions.some(a => a.success)) {
+        // Actions write to the ticket directly, so keep its SLA clock in step (e.g. after set_status)
+        await syncTicketSla(supabase, ticket.id).catch(err => console.error(`Error syncing SLA for ticket #${ticket.id}:`, err?.message || err));
+    }
+
+    const { error } = await supabase.from('automations').update({ last_run_at: new Date().toISOString() }).eq('id', automation.id);
+    if (error) console.error(`Error recording last run for automation #${automation.id}:`, error.message);
+    await recordExecution(supabase, result, context.schedulerRunId || null);
+
+    return result;
+}
+
+// Runs every active automation listening to the event against the ticket, in id order.
+// The ticket is reloaded after each automation that changed something so later rules see the new values.
+export async function runAutomationsForTicket(supabase: SupabaseClient, event: AutomationEvent, ticketId: number, context: EngineContext = {}): Promise<AutomationRunResult[]> {
+    const automations = await fetchActiveAutomations(supabase, EVENT_TRIGGERS[event]);
+    if (automations.length === 0) return [];
+
+    let ticket = await fetchEngineTicket(supabase, ticketId);
+    if (!ticket) throw new Error(`Ticket #${ticketId} not found`);
+    const ruleFields = await loadRuleFields(supabase);
+
+    const results: AutomationRunResult[] = [];
+    for (const automation of automations) {
+        const result = await runAutomation(supabase, automation, ticket, { ...context, ruleFields });
+        results.push(result);
+        if (result.actions.some(a => a.success)) {
+            ticket = (await fetchEngineTicket(supabase, ticketId)) || ticket;
+        }
+    }
+    return results;
+}
+
+// --- Scheduler ---
+
+// Evaluates every active time-based automation against the open tickets.
+// A time-based automation fires at most once per ticket, so repeated runs never escalate the same ticket twice.
+// Each run is stored in automation_scheduler_runs, with its executions linked through scheduler_run_id.
+export async function runTimeBasedAutomations(supabase: SupabaseClient, context: EngineContext = {}): Promise<AutomationSchedulerRun> {
+    const { data: runRow, error: runError } = await supabase
+        .from('automation_scheduler_runs')
+        .insert([{ status: 'running', started_at: new Date().toISOString() }])
+        .select('id')
+        .single();
+    if (runError) throw runError;
+    const runId = runRow.id as number;
+
+    const summary = { tickets_scanned: 0, automations_evaluated: 0, executions: 0, actions_succeeded: 0, actions_failed: 0 };
+    let status: AutomationSchedulerRun['status'] = 'completed';
+    let errorMessage: string | null = null;
+
+    try {
+        const automations = await fetchActiveAutomations(supabase, ['time_based']);
+        summary.automations_evaluated = automations.length;
+
+        if (automations.length > 0) {
+            const closedStatusIds = await fetchClosedStatusIds(supabase);
+            const ruleFields = await loadRuleFields(supabase);
+            const automationIds = automations.map(a => a.id);
+
+            for (let afterId = 0; ;) {
+                const tickets = await fetchOpenEngineTicketPage(supabase, closedStatusIds, afterId);
+                if (tickets.length === 0) break;
+                summary.tickets_scanned += tickets.length;
+                afterId = tickets[tickets.length - 1].id;
+                const alreadyRun = await fetchExecutedPairs(supabase, automationIds, tickets.map(t => t.id));
+
+                for (let ticket of tickets) {
+                    for (const automation of automations) {
+                        if (alreadyRun.has(`${automation.id}:${ticket.id}`)) continue;
+
+                        const result = await runAutomation(supabase, automation, ticket, { ...context, schedulerRunId: runId, ruleFields });
+                        if (!result.matched) continue;
+
+                        summary.executions += 1;
+                        summary.actions_succeeded += result.actions.filter(a => a.success).length;
+                        summary.actions_failed += result.actions.filter(a => !a.success).length;
+
+                        if (result.actions.some(a => a.success)) {
+                            ticket = (await fetchEngineTicket(supabase, ticket.id)) || ticket;
+                        }
+                    }
+                }
+                if (tickets.length < SCHEDULER_PAGE_SIZE) break;
+            }
+        }
+        if (summary.actions_failed > 0) status = 'completed_with_errors';
+    } catch (err: any) {
+        console.error(`Automation scheduler run #${runId} failed:`, err?.message || err);
+        status = 'failed';
+        errorMessage = err?.message || 'Scheduler run failed';
+    }
+
+    const { data: finished, error: finishError } = await supabase
+        .from('automation_scheduler_runs')
+        .update({ ...summary, status, error_message: errorMessage, finished_at: new Date().toISOString() })
+        .eq('id', runId)
+        .select('*')
+        .single();
+    if (finishError) throw finishError;
+    return finished as unknown as AutomationSchedulerRun;
+}
+
+// --- Dry run ---
+
+// Evaluates an automation against the most recent tickets without running any action or writing anything
+export async function dryRunAutomation(supabase: SupabaseClient, automation: AutomationDryRunInput, limit: number = 100, now: Date = new Date()): Promise<AutomationDryRunResult> {
+    const { data, error } = await supabase
+        .from('tickets')
+        .select(ENGINE_TICKET_SELECT_QUERY)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    if (error) throw error;
+    const tickets = await attachFirstResponses(supabase, (data as unknown as EngineTicket[]) || []);
+
+    let calendar: BusinessCalendar | null = null;
+    if (automation.business_calendar_id) {
+        const { data: calendarData, error: calendarError } = await supabase.from('business_calendars').select(BUSINESS_CALENDAR_COLUMNS).eq('id', automation.business_calendar_id).maybeSingle();
+        if (calendarError) throw calendarError;
+        calendar = calendarData as unknown as BusinessCalendar | null;
+    }
+
+    const fields = await loadRuleFields(supabase);
+    const plannedActions = (automation.actions || []).map(describeAction);
+    const matches = tickets
+        .filter(ticket => matchesConditions(automation.conditions, ticket, { now, calendar, fields }))
+        .map(ticket => ({
+            ticket_id: ticket.id,
+            subject: ticket.subject,
+            status: ticket.ticket_statuses?.name || null,
+            priority: ticket.ticket_priorities?.name || null,
+            planned_actions: plannedActions,
+        }));
+    return { scanned: tickets.length, matches };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { AutomationRuleSet, TicketCustomField } from './dataService';
+import { customFieldRuleKey, ruleFieldsWithCustomFields, toRuleSet, validateRuleSet, AUTOMATION_RULE_VERSION } from './automationRules';
+
+const ruleSet = (root: AutomationRuleSet['root']): AutomationRuleSet => ({ version: AUTOMATION_RULE_VERSION, root });
+
+describe('toRuleSet', () => {
+    it('upgrades a version 1 condition list to an "all" group', () => {
+        const conditions = [{ field: 'priority', operator: 'equals' as const, value: '1' }];
+        expect(toRuleSet(conditions)).toEqual(ruleSet({ match: 'all', rules: conditions }));
+    });
+
+    it('returns an empty rule for missing conditions', () => {
+        expect(toRuleSet(null)).toEqual(ruleSet({ match: 'all', rules: [] }));
+    });
+
+    it('keeps current rules as they are', () => {
+        const current = ruleSet({ match: 'any', rules: [{ field: 'subject', operator: 'contains', value: 'refund' }] });
+        expect(toRuleSet(current)).toBe(current);
+    });
+});
+
+describe('validateRuleSet', () => {
+    it('accepts nested groups of valid conditions', () => {
+        expect(validateRuleSet(ruleSet({
+            match: 'all',
+            rules: [
+                { field: 'priority', operator: 'in', value: ['1', '2'] },
+                { match: 'any', rules: [{ field: 'age', operator: 'greater_than', value: '2h' }, { field: 'assignee', operator: 'is_empty', value: '' }] },
+            ],
+        }))).toEqual([]);
+    });
+
+    it('rejects anything that is not a current rule object', () => {
+        expect(validateRuleSet([])).toHaveLength(1);
+        expect(validateRuleSet({ version: 1, root: { match: 'all', rules: [] } })[0]).toContain('Unsupported rule version');
+        expect(validateRuleSet({ version: AUTOMATION_RULE_VERSION })).toEqual(['Rule is missing its root group']);
+    });
+
+    it('reports unknown fields and operators that do not fit the field', () => {
+        const errors = validateRuleSet(ruleSet({
+            match: 'all',
+            rules: [
+                { field: 'mood', operator: 'equals', value: 'angry' },
+                { field: 'subject', operator: 'greater_than', value: '3' },
+            ],
+        }));
+        expect(errors).toEqual([
+            'root.rules[0]: unknown field "mood"',
+            'root.rules[1]: operator "greater_than" cannot be used with Subject',
+        ]);
+    });
+
+    it('checks values against the field kind', () => {
+        const errors = validateRuleSet(ruleSet({
+            match: 'all',
+            rules: [
+                { field: 'age', operator: 'greater_than', value: 'soon' },
+                { field: 'created_at', operator: 'less_than', value: 'yesterday' },
+                { field: 'type', operator: 'in', value: [] },
+                { field: 'subject', operator: 'contains', value: ' ' },
+            ],
+        }));
+        expect(errors).toEqual([
+            'root.rules[0]: "soon" is not a duration such as 30m, 2h or 1d',
+            'root.rules[1]: "yesterday" is not a valid date',
+            'root.rules[2]: Ticket Type needs at least one value',
+            'root.rules[3]: Subject needs a value',
+        ]);
+    });
+
+    it('limits how deep groups can be nested', () => {
+        let root: AutomationRuleSet['root'] = { match: 'all', rules: [] };
+        for (let i = 0; i < 4; i++) root = { match: 'all', rules: [root] };
+        expect(validateRuleSet(ruleSet(root))).toEqual(['root.rules[0].rules[0].rules[0].rules[0]: groups can be nested at most 4 levels deep']);
+    });
+
+    it('only accepts custom field conditions when the custom fields are passed in', () => {
+        const field = { id: 7, ticket_type_id: 1, label: 'Order number', field_type: 'number', options: null, is_required: false, sort_order: 0 } as unknown as TicketCustomField;
+        const rule = ruleSet({ match: 'all', rules: [{ field: customFieldRuleKey(7), operator: 'greater_than', value: '100' }] });
+        expect(validateRuleSet(rule)).toEqual(['root.rules[0]: unknown field "custom:7"']);
+        expect(validateRuleSet(rule, ruleFieldsWithCustomFields([field]))).toEqual([]);
+    });
+});
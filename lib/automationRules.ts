@@ -0,0 +1,203 @@
+// lib/automationRules.ts
+import type {
+    AutomationCondition, AutomationConditionGroup, AutomationConditionOperator, AutomationRuleSet, CustomFieldType, TicketCustomField
+} from './dataService';
+
+// Shared by the rule builder on the Automations page and by lib/automationEngine.ts,
+// so this file must stay free of Supabase and React imports.
+
+export const AUTOMATION_RULE_VERSION = 2;
+const MAX_GROUP_DEPTH = 4;
+
+// option: picked from a lookup list (types, priorities, statuses, agents); tags: a ticket's list of tags
+export type RuleFieldKind = 'option' | 'text' | 'number' | 'duration' | 'date' | 'tags';
+
+export interface RuleFieldDefinition {
+    label: string;
+    kind: RuleFieldKind;
+}
+
+export const RULE_FIELDS: Record<string, RuleFieldDefinition> = {
+    type: { label: 'Ticket Type', kind: 'option' },
+    priority: { label: 'Priority', kind: 'option' },
+    status: { label: 'Status', kind: 'option' },
+    assignee: { label: 'Assignee', kind: 'option' },
+    subject: { label: 'Subject', kind: 'text' },
+    description: { label: 'Description', kind: 'text' },
+    requester: { label: 'Requester ID', kind: 'text' },
+    tags: { label: 'Tags', kind: 'tags' },
+    age: { label: 'Ticket Age', kind: 'duration' },
+    time_since_update: { label: 'Time Since Update', kind: 'duration' },
+    response_time: { label: 'Time Without First Response', kind: 'duration' },
+    created_at: { label: 'Created At', kind: 'date' },
+    updated_at: { label: 'Updated At', kind: 'date' },
+};
+
+// Custom ticket fields are referenced in rules as "custom:<field id>"
+export const CUSTOM_FIELD_PREFIX = 'custom:';
+export const customFieldRuleKey = (fieldId: number) => `${CUSTOM_FIELD_PREFIX}${fieldId}`;
+
+const CUSTOM_FIELD_KINDS: Record<CustomFieldType, RuleFieldKind> = {
+    text: 'text',
+    number: 'number',
+    dropdown: 'option',
+    date: 'date',
+    checkbox: 'option', // Compared as "true" / "false"
+};
+
+// RULE_FIELDS plus one entry per custom ticket field
+export function ruleFieldsWithCustomFields(customFields: TicketCustomField[]): Record<string, RuleFieldDefinition> {
+    const custom = customFields.map(field => [
+        customFieldRuleKey(field.id),
+        { label: field.ticket_types?.name ? `${field.label} (${field.ticket_types.name})` : field.label, kind: CUSTOM_FIELD_KINDS[field.field_type] },
+    ]);
+    return { ...RULE_FIELDS, ...Object.fromEntries(custom) };
+}
+
+export const RULE_OPERATORS: Record<RuleFieldKind, AutomationConditionOperator[]> = {
+    option: ['equals', 'not_equals', 'in', 'not_in', 'is_empty', 'is_not_empty'],
+    text: ['equals', 'not_equals', 'contains', 'not_contains', 'is_empty', 'is_not_empty'],
+    number: ['equals', 'not_equals', 'greater_than', 'less_than', 'is_empty', 'is_not_empty'],
+    duration: ['greater_than', 'less_than'],
+    date: ['greater_than', 'less_than'],
+    // contains: has the tag; in: has any of the tags
+    tags: ['contains', 'not_contains', 'in', 'not_in', 'is_empty', 'is_not_empty'],
+};
+
+export const OPERATOR_LABELS: Record<AutomationConditionOperator, string> = {
+    equals: 'is',
+    not_equals: 'is not',
+    in: 'is any of',
+    not_in: 'is none of',
+    contains: 'contains',
+    not_contains: 'does not contain',
+    is_empty: 'is empty',
+    is_not_empty: 'is not empty',
+    greater_than: 'greater than',
+    less_than: 'less than',
+};
+
+export const isConditionGroup = (rule: AutomationCondition | AutomationConditionGroup): rule is AutomationConditionGroup =>
+    Array.isArray((rule as AutomationConditionGroup).rules);
+
+export const operatorNeedsValue = (operator: AutomationConditionOperator) => operator !== 'is_empty' && operator !== 'is_not_empty';
+export const isListOperator = (operator: AutomationConditionOperator) => operator === 'in' || operator === 'not_in';
+
+export const emptyRuleSet = (): AutomationRuleSet => ({ version: AUTOMATION_RULE_VERSION, root: { match: 'all', rules: [] } });
+
+// Parses values such as "90", "30m", "1h", "2d" or "1w" into minutes
+export function parseDurationToMinutes(value: string): number | null {
+    const match = String(value).trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(m|min|h|d|w)?$/);
+    if (!match) return null;
+    const amount = parseFloat(match[1]);
+    switch (match[2]) {
+        case 'h': return amount * 60;
+        case 'd': return amount * 60 * 24;
+        case 'w': return amount * 60 * 24 * 7;
+        default: return amount; // minutes
+    }
+}
+
+// Upgrades version 1 rules (a flat list where every condition must match) to the current schema
+export function toRuleSet(conditions: AutomationRuleSet | AutomationCondition[] | null | undefined): AutomationRuleSet {
+    if (!conditions) return emptyRuleSet();
+    if (Array.isArray(conditions)) {
+        return { version: AUTOMATION_RULE_VERSION, root: { match: 'all', rules: conditions } };
+    }
+    return conditions;
+}
+
+function validateCondition(condition: AutomationCondition, path: string, fields: Record<string, RuleFieldDefinition>, errors: string[]): void {
+    const field = fields[condition.field];
+    if (!field) {
+        errors.push(`${path}: unknown field "${condition.field}"`);
+        return;
+    }
+    if (!RULE_OPERATORS[field.kind].includes(condition.operator)) {
+        errors.push(`${path}: operator "${condition.operator}" cannot be used with ${field.label}`);
+        return;
+    }
+    if (!operatorNeedsValue(condition.operator)) return;
+
+    if (isListOperator(condition.operator)) {
+        if (!Array.isArray(condition.value) || condition.value.length === 0) {
+            errors.push(`${path}: ${field.label} needs at least one value`);
+        }
+        return;
+    }
+    if (typeof condition.value !== 'string' || condition.value.trim() === '') {
+        errors.push(`${path}: ${field.label} needs a value`);
+        return;
+    }
+    if (field.kind === 'duration' && parseDurationToMinutes(condition.value) === null) {
+        errors.push(`${path}: "${condition.value}" is not a duration such as 30m, 2h or 1d`);
+    }
+    if (field.kind === 'number' && isNaN(Number(condition.value))) {
+        errors.push(`${path}: "${condition.value}" is not a number`);
+    }
+    if (field.kind === 'date' && isNaN(new Date(condition.value).getTime())) {
+        errors.push(`${path}: "${condition.value}" is not a valid date`);
+    }
+}
+
+function validateGroup(group: AutomationConditionGroup, path: string, depth: number, fields: Record<string, RuleFieldDefinition>, errors: string[]): void {
+    if (depth > MAX_GROUP_DEPTH) {
+        errors.push(`${path}: groups can be nested at most ${MAX_GROUP_DEPTH} levels deep`);
+        return;
+    }
+    if (group.match !== 'all' && group.match !== 'any') {
+        errors.push(`${path}: match must be "all" or "any"`);
+    }
+    if (!Array.isArray(group.rules)) {
+        errors.push(`${path}: rules must be a list`);
+        return;
+    }
+    group.rules.forEach((rule, index) => {
+        const rulePath = `${path}.rules[${index}]`;
+        if (!rule || typeof rule !== 'object') {
+            errors.push(`${rulePath}: must be a condition or a group`);
+        } else if (isConditionGroup(rule)) {
+            validateGroup(rule, rulePath, depth + 1, fields, errors);
+        } else {
+            validateCondition(rule, rulePath, fields, errors);
+        }
+    });
+}
+
+// Returns a list of problems with the rule; an empty list means it is valid.
+// Pass ruleFieldsWithCustomFields(...) as fields to accept conditions on custom ticket fields.
+export function validateRuleSet(ruleSet: unknown, fields: Record<string, RuleFieldDefinition> = RULE_FIELDS): string[] {
+    const errors: string[] = [];
+    const candidate = ruleSet as AutomationRuleSet;
+    if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+        return ['Rule must be an object with a version and a root group'];
+    }
+    if (candidate.version !== AUTOMATION_RULE_VERSION) {
+        return [`Unsupported rule version ${candidate.version}; expected ${AUTOMATION_RULE_VERSION}`];
+    }
+    if (!candidate.root || typeof candidate.root !== 'object') {
+        return ['Rule is missing its root group'];
+    }
+    validateGroup(candidate.root, 'root', 1, fields, errors);
+    return errors;
+}
+
+// One line summary such as: Priority is High AND (Type is any of Bug, Incident OR Ticket Age greater than 2h)
+export function describeRuleSet(ruleSet: AutomationRuleSet, valueLabels: Record<string, string> = {}, fields: Record<string, RuleFieldDefinition> = RULE_FIELDS): string {
+    const describeValue = (value: string | string[]) =>
+        (Array.isArray(value) ? value : [value]).map(v => valueLabels[v] || v).join(', ');
+
+    const describe = (rule: AutomationCondition | AutomationConditionGroup, nested: boolean): string => {
+        if (!isConditionGroup(rule)) {
+            const label = fields[rule.field]?.label || rule.field;
+            const operator = OPERATOR_LABELS[rule.operator] || rule.operator;
+            return operatorNeedsValue(rule.operator) ? `${label} ${operator} ${describeValue(rule.value)}` : `${label} ${operator}`;
+        }
+        const parts = rule.rules.map(r => describe(r, true));
+        if (parts.length === 0) return '';
+        const joined = parts.join(rule.match === 'any' ? ' OR ' : ' AND ');
+        return nested && parts.length > 1 ? `(${joined})` : joined;
+    };
+
+    return describe(ruleSet.root, false) || 'Every ticket';
+}
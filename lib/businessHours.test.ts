@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { BusinessCalendar } from './dataService';
+import { addBusinessMinutes, businessMinutesBetween, elapsedMinutes } from './businessHours';
+
+// Monday to Friday, 09:00-17:00 in Berlin (UTC+1 in winter, UTC+2 from March 30th 2025)
+const weekdays = { start: '09:00', end: '17:00' };
+const berlin: BusinessCalendar = {
+    id: 1,
+    name: 'Berlin office',
+    timezone: 'Europe/Berlin',
+    schedule: [null, weekdays, weekdays, weekdays, weekdays, weekdays, null],
+    holidays: [],
+};
+const withHoliday = (date: string): BusinessCalendar => ({ ...berlin, holidays: [{ date, name: 'Holiday' }] });
+
+describe('businessMinutesBetween', () => {
+    it('only counts working hours across the night', () => {
+        // Monday 16:00 to Tuesday 10:00 local time
+        expect(businessMinutesBetween(new Date('2025-03-03T15:00:00Z'), new Date('2025-03-04T09:00:00Z'), berlin)).toBe(120);
+    });
+
+    it('skips weekends and holidays', () => {
+        // Friday 16:30 to Monday 09:30
+        expect(businessMinutesBetween(new Date('2025-03-07T15:30:00Z'), new Date('2025-03-10T08:30:00Z'), berlin)).toBe(60);
+        // Monday 16:00 to Wednesday 10:00 with Tuesday off
+        expect(businessMinutesBetween(new Date('2025-03-03T15:00:00Z'), new Date('2025-03-05T09:00:00Z'), withHoliday('2025-03-04'))).toBe(120);
+    });
+
+    it('is negative when the end comes first', () => {
+        expect(businessMinutesBetween(new Date('2025-03-04T09:00:00Z'), new Date('2025-03-03T15:00:00Z'), berlin)).toBe(-120);
+    });
+
+    it('counts wall-clock minutes for a calendar without working hours', () => {
+        const closed = { ...berlin, schedule: [null, null, null, null, null, null, null] };
+        expect(businessMinutesBetween(new Date('2025-03-08T10:00:00Z'), new Date('2025-03-08T12:30:00Z'), closed)).toBe(150);
+    });
+});
+
+describe('addBusinessMinutes', () => {
+    it('carries the remainder over to the next working day', () => {
+        // Friday 16:30 + 1h = Monday 09:30
+        expect(addBusinessMinutes(new Date('2025-03-07T15:30:00Z'), 60, berlin).toISOString()).toBe('2025-03-10T08:30:00.000Z');
+    });
+
+    it('starts counting at opening time', () => {
+        // Monday 07:00 + 30m = Monday 09:30
+        expect(addBusinessMinutes(new Date('2025-03-03T06:00:00Z'), 30, berlin).toISOString()).toBe('2025-03-03T08:30:00.000Z');
+    });
+
+    it('keeps local opening hours across a daylight saving change', () => {
+        // Friday 16:00 + 2h = Monday 10:00, which is UTC+2 after the switch
+        expect(addBusinessMinutes(new Date('2025-03-28T15:00:00Z'), 120, berlin).toISOString()).toBe('2025-03-31T08:00:00.000Z');
+    });
+
+    it('is the inverse of businessMinutesBetween', () => {
+        const start = new Date('2025-03-05T13:15:00Z');
+        const due = addBusinessMinutes(start, 1000, withHoliday('2025-03-06'));
+        expect(businessMinutesBetween(start, due, withHoliday('2025-03-06'))).toBe(1000);
+    });
+});
+
+describe('elapsedMinutes', () => {
+    it('falls back to calendar time without a calendar', () => {
+        expect(elapsedMinutes(new Date('2025-03-08T10:00:00Z'), new Date('2025-03-09T10:00:00Z'))).toBe(24 * 60);
+    });
+});
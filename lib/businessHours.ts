@@ -0,0 +1,124 @@
+// lib/businessHours.ts
+import type { BusinessCalendar } from './dataService';
+
+// Business-time arithmetic for SLA clocks, time-based automations and reports.
+// Pure and dependency free: time zones are handled with Intl, so it runs in the browser and in API routes.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Columns for embedding a calendar with its holidays in Supabase selects
+export const BUSINESS_CALENDAR_COLUMNS = 'id, name, timezone, schedule, is_default, holidays:business_calendar_holidays ( id, calendar_id, date, name )';
+
+// Upper bound on how many calendar days a single calculation walks through
+const MAX_DAYS = 3 * 366;
+
+interface LocalDate { year: number; month: number; day: number; weekday: number }
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+// Wall-clock fields of an instant in the given time zone, encoded as a UTC timestamp
+function zonedWallTime(date: Date, timeZone: string): number {
+    const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(date).map(p => [p.type, p.value]));
+    return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+}
+
+function toLocalDate(date: Date, timeZone: string): LocalDate {
+    const wall = new Date(zonedWallTime(date, timeZone));
+    return { year: wall.getUTCFullYear(), month: wall.getUTCMonth() + 1, day: wall.getUTCDate(), weekday: wall.getUTCDay() };
+}
+
+function nextLocalDate(local: LocalDate): LocalDate {
+    const next = new Date(Date.UTC(local.year, local.month - 1, local.day) + DAY_MS);
+    return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate(), weekday: next.getUTCDay() };
+}
+
+const isoDate = (local: LocalDate) => `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+
+// Instant at which the wall clock in timeZone shows the given local date and "HH:MM" time
+function zonedTimeToInstant(local: LocalDate, time: string, timeZone: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const wall = Date.UTC(local.year, local.month - 1, local.day, hours, minutes || 0);
+    // Two passes settle the offset, including on daylight saving transition days
+    let instant = wall;
+    for (let i = 0; i < 2; i++) {
+        instant = wall - (zonedWallTime(new Date(instant), timeZone) - instant);
+    }
+    return new Date(instant);
+}
+
+// Working window for a local date, or null when the calendar is closed that day
+function workingWindow(local: LocalDate, calendar: BusinessCalendar, holidays: Set<string>): { start: Date; end: Date } | null {
+    const hours = calendar.schedule?.[local.weekday];
+    if (!hours || holidays.has(isoDate(local))) return null;
+    const start = zonedTimeToInstant(local, hours.start, calendar.timezone);
+    const end = zonedTimeToInstant(local, hours.end, calendar.timezone);
+    return end > start ? { start, end } : null;
+}
+
+const hasWorkingHours = (calendar: BusinessCalendar) => (calendar.schedule || []).some(Boolean);
+const holidaySet = (calendar: BusinessCalendar) => new Set((calendar.holidays || []).map(h => h.date));
+
+// Minutes between two instants that fall inside the calendar's working hours.
+// Negative when `to` is before `from`. Calendars without any working hours fall back to wall-clock minutes.
+export function businessMinutesBetween(from: Date, to: Date, calendar: BusinessCalendar): number {
+    if (to < from) return -businessMinutesBetween(to, from, calendar);
+    if (!hasWorkingHours(calendar)) return (to.getTime() - from.getTime()) / MINUTE_MS;
+
+    const holidays = holidaySet(calendar);
+    let local = toLocalDate(from, calendar.timezone);
+    let total = 0;
+    for (let i = 0; i < MAX_DAYS; i++) {
+        const window = workingWindow(local, calendar, holidays);
+        if (window) {
+            if (window.start >= to) break;
+            const start = Math.max(window.start.getTime(), from.getTime());
+            const end = Math.min(window.end.getTime(), to.getTime());
+            if (end > start) total += (end - start) / MINUTE_MS;
+        } else if (zonedTimeToInstant(local, '00:00', calendar.timezone) >= to) {
+            break;
+        }
+        local = nextLocalDate(local);
+    }
+    return total;
+}
+
+// Instant reached after `minutes` of working time from `start`
+export function addBusinessMinutes(start: Date, minutes: number, calendar: BusinessCalendar): Date {
+    if (!hasWorkingHours(calendar) || minutes <= 0) return new Date(start.getTime() + minutes * MINUTE_MS);
+
+    const holidays = holidaySet(calendar);
+    let local = toLocalDate(start, calendar.timezone);
+    let remaining = minutes;
+    for (let i = 0; i < MAX_DAYS; i++) {
+        const window = workingWindow(local, calendar, holidays);
+        if (window && window.end > start) {
+            const from = Math.max(window.start.getTime(), start.getTime());
+            const available = (window.end.getTime() - from) / MINUTE_MS;
+            if (remaining <= available) return new Date(from + remaining * MINUTE_MS);
+            remaining -= available;
+        }
+        local = nextLocalDate(local);
+    }
+    return new Date(start.getTime() + minutes * MINUTE_MS);
+}
+
+// Elapsed minutes in business time when a calendar is given, otherwise in calendar time
+export function elapsedMinutes(from: Date, to: Date, calendar?: BusinessCalendar | null): number {
+    return calendar ? businessMinutesBetween(from, to, calendar) : (to.getTime() - from.getTime()) / MINUTE_MS;
+}
+
+export function addElapsedMinutes(start: Date, minutes: number, calendar?: BusinessCalendar | null): Date {
+    return calendar ? addBusinessMinutes(start, minutes, calendar) : new Date(start.getTime() + minutes * MINUTE_MS);
+}
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
@@ -0,0 +1,39 @@
+// lib/cannedResponses.ts
+import type { Ticket, UserProfile } from './dataService';
+
+// Placeholder rendering for canned responses and macros. Like lib/customFields.ts this file must stay
+// free of Supabase and React imports.
+
+export interface CannedResponseContext {
+    ticket: Ticket;
+    requester?: Pick<UserProfile, 'full_name'> | null;
+    agent?: Pick<UserProfile, 'full_name'> | null; // The agent inserting the response
+}
+
+// Placeholders offered in the admin editor; unknown placeholders are left as typed so mistakes stay visible
+export const CANNED_RESPONSE_PLACEHOLDERS: { key: string; description: string; resolve: (context: CannedResponseContext) => string | null | undefined }[] = [
+    { key: 'requester.full_name', description: "Requester's full name", resolve: c => (c.requester || c.ticket.profiles)?.full_name },
+    { key: 'requester.first_name', description: "Requester's first name", resolve: c => (c.requester || c.ticket.profiles)?.full_name?.trim().split(/\s+/)[0] },
+    { key: 'ticket.id', description: 'Ticket number', resolve: c => String(c.ticket.id) },
+    { key: 'ticket.reference', description: 'Ticket reference, e.g. #TICK-00042', resolve: c => `#TICK-${String(c.ticket.id).padStart(5, '0')}` },
+    { key: 'ticket.subject', description: 'Ticket subject', resolve: c => c.ticket.subject },
+    { key: 'ticket.status', description: 'Current status', resolve: c => c.ticket.ticket_statuses?.name },
+    { key: 'ticket.priority', description: 'Current priority', resolve: c => c.ticket.ticket_priorities?.name },
+    { key: 'ticket.type', description: 'Ticket type', resolve: c => c.ticket.ticket_types?.name },
+    { key: 'agent.full_name', description: 'Your full name', resolve: c => c.agent?.full_name },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Placeholders without a value (e.g. a requester without a name) become empty
+export function renderCannedResponse(template: string, context: CannedResponseContext): string {
+    return template.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+        const placeholder = CANNED_RESPONSE_PLACEHOLDERS.find(p => p.key === key);
+        return placeholder ? placeholder.resolve(context) ?? '' : match;
+    });
+}
+
+export function unknownPlaceholders(template: string): string[] {
+    const keys = Array.from(template.matchAll(PLACEHOLDER_PATTERN), m => m[1]);
+    return Array.from(new Set(keys.filter(key => !CANNED_RESPONSE_PLACEHOLDERS.some(p => p.key === key))));
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { csatResponseProblem, CSAT_COMMENT_MAX_LENGTH } from './csat';
+
+describe('csatResponseProblem', () => {
+    it('accepts whole scores from 1 to 5 with or without a comment', () => {
+        expect(csatResponseProblem(1, undefined)).toBeNull();
+        expect(csatResponseProblem(5, null)).toBeNull();
+        expect(csatResponseProblem(4, 'Quick and friendly')).toBeNull();
+    });
+
+    it('rejects scores outside the scale', () => {
+        for (const score of [0, 6, 3.5, '4', null]) {
+            expect(csatResponseProblem(score, undefined)).toBe('The score must be a whole number from 1 to 5');
+        }
+    });
+
+    it('rejects comments that are not text or too long', () => {
+        expect(csatResponseProblem(3, { text: 'hi' })).toBe('The comment must be text');
+        expect(csatResponseProblem(3, 'a'.repeat(CSAT_COMMENT_MAX_LENGTH))).toBeNull();
+        expect(csatResponseProblem(3, 'a'.repeat(CSAT_COMMENT_MAX_LENGTH + 1))).toBe(`The comment can be at most ${CSAT_COMMENT_MAX_LENGTH} characters`);
+    });
+});
@@ -0,0 +1,107 @@
+// lib/csat.ts
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CsatSurvey } from './dataService';
+
+// Customer satisfaction surveys. Runs server-side with the service role (app/api/csat): the survey token is
+// the requester's only credential on the rating page, so it is created and checked here, never in the browser.
+
+const RESOLVED_STATUS_NAMES = ['resolved', 'closed'];
+const SURVEY_COLUMNS = 'id, ticket_id, requester_id, agent_id, token, score, comment, sent_at, responded_at';
+export const CSAT_COMMENT_MAX_LENGTH = 2000;
+
+// What the public rating page may show about a survey
+export interface PublicCsatSurvey {
+    ticket_id: number;
+    subject: string;
+    agent_name: string | null;
+    score: number | null;
+    comment: string | null;
+    responded_at: string | null;
+}
+
+// Sends one survey per ticket, the first time it is resolved or closed. Tickets closed by a merge are skipped:
+// the conversation continues on the surviving ticket. Returns whether a survey was sent.
+export async function sendCsatSurvey(supabase: SupabaseClient, ticketId: number): Promise<boolean> {
+    const { data: ticket, error: ticketError } = await supabase
+        .from('tickets')
+        .select('id, subject, requester_id, assignee_id, merged_into_ticket_id, ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name ), requester:profiles!tickets_requester_id_fkey ( role )')
+        .eq('id', ticketId)
+        .maybeSingle();
+    if (ticketError) throw ticketError;
+    if (!ticket || ticket.merged_into_ticket_id) return false;
+    const statusName = String((ticket.ticket_statuses as unknown as { name: string } | null)?.name || '').trim().toLowerCase();
+    if (!RESOLVED_STATUS_NAMES.includes(statusName)) return false;
+    if ((ticket.requester as unknown as { role: string } | null)?.role !== 'customer') return false; // Staff do not rate each other
+
+    const { data: existing, error: existingError } = await supabase.from('csat_surveys').select('id').eq('ticket_id', ticketId).limit(1);
+    if (existingError) throw existingError;
+    if (existing && existing.length > 0) return false;
+
+    const token = randomUUID();
+    const { error: insertError } = await supabase.from('csat_surveys').insert([{
+        ticket_id: ticketId,
+        requester_id: ticket.requester_id,
+        agent_id: ticket.assignee_id, // The agent who owned the ticket when it was resolved gets the rating
+        token,
+        sent_at: new Date().toISOString(),
+    }]);
+    if (insertError) {
+        if (insertError.code === '23505') return false; // Another request sent it first
+        throw insertError;
+    }
+
+    const { error: notifyError } = await supabase.from('notifications').insert([{
+        user_id: ticket.requester_id,
+        ticket_id: ticketId,
+        message: `Your ticket #${ticketId} "${ticket.subject}" was resolved. How did we do? Rate the support you received.`,
+        type: 'csat_request',
+        link: `/csat/${token}`,
+        is_read: false,
+    }]);
+    if (notifyError) console.error(`Error sending CSAT notification for ticket #${ticketId}:`, notifyError.message);
+    return true;
+}
+
+export async function fetchSurveyByToken(supabase: SupabaseClient, token: string): Promise<CsatSurvey | null> {
+    const { data, error } = await supabase.from('csat_surveys').select(SURVEY_COLUMNS).eq('token', token).maybeSingle();
+    if (error) throw error;
+    return data as CsatSurvey | null;
+}
+
+export async function toPublicSurvey(supabase: SupabaseClient, survey: CsatSurvey): Promise<PublicCsatSurvey> {
+    const { data: ticket, error } = await supabase
+        .from('tickets')
+        .select('subject, assignee:profiles!tickets_assignee_id_fkey ( full_name )')
+        .eq('id', survey.ticket_id)
+        .maybeSingle();
+    if (error) throw error;
+    return {
+        ticket_id: survey.ticket_id,
+        subject: ticket?.subject || '',
+        agent_name: (ticket?.assignee as unknown as { full_name: string | null } | null)?.full_name || null,
+        score: survey.score,
+        comment: survey.comment,
+        responded_at: survey.responded_at,
+    };
+}
+
+// Returns why the response is not accepted, or null when it is
+export function csatResponseProblem(score: unknown, comment: unknown): string | null {
+    if (typeof score !== 'number' || !Number.isInteger(score) || score < 1 || score > 5) return 'The score must be a whole number from 1 to 5';
+    if (comment !== undefined && comment !== null && typeof comment !== 'string') return 'The comment must be text';
+    if (typeof comment === 'string' && comment.length > CSAT_COMMENT_MAX_LENGTH) return `The comment can be at most ${CSAT_COMMENT_MAX_LENGTH} characters`;
+    return null;
+}
+
+// The requester may change their answer later; only the latest one is kept
+export async function saveCsatResponse(supabase: SupabaseClient, survey: CsatSurvey, score: number, comment: string | null): Promise<CsatSurvey> {
+    const { data, error } = await supabase
+        .from('csat_surveys')
+        .update({ score, comment: comment?.trim() || null, responded_at: new Date().toISOString() })
+        .eq('id', survey.id)
+        .select(SURVEY_COLUMNS)
+        .single();
+    if (error) throw error;
+    return data as CsatSurvey;
+}
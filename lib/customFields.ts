@@ -0,0 +1,52 @@
+// lib/customFields.ts
+import type { CustomFieldValue, CustomFieldValues, TicketCustomField } from './dataService';
+
+// Value helpers for custom ticket fields, shared by the ticket forms, the ticket list filters and dataService.
+// Like lib/automationRules.ts this file must stay free of Supabase and React imports.
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<TicketCustomField['field_type'], string> = {
+    text: 'Text',
+    number: 'Number',
+    dropdown: 'Dropdown',
+    date: 'Date',
+    checkbox: 'Checkbox',
+};
+
+export const isEmptyCustomFieldValue = (value: CustomFieldValue | undefined) =>
+    value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+// Returns one message per problem; an empty list means the values can be saved
+export function validateCustomFieldValues(fields: TicketCustomField[], values: CustomFieldValues): string[] {
+    const errors: string[] = [];
+    for (const field of fields) {
+        const value = values[String(field.id)];
+        // An unticked checkbox is a valid answer, so "required" only applies to the other types
+        if (isEmptyCustomFieldValue(value)) {
+            if (field.is_required && field.field_type !== 'checkbox') errors.push(`${field.label} is required.`);
+            continue;
+        }
+        switch (field.field_type) {
+            case 'number':
+                if (typeof value !== 'number' || isNaN(value)) errors.push(`${field.label} must be a number.`);
+                break;
+            case 'dropdown':
+                if (!(field.options || []).includes(String(value))) errors.push(`${field.label} must be one of: ${(field.options || []).join(', ')}.`);
+                break;
+            case 'date':
+                if (isNaN(new Date(String(value)).getTime())) errors.push(`${field.label} must be a valid date.`);
+                break;
+            case 'checkbox':
+                if (typeof value !== 'boolean') errors.push(`${field.label} must be checked or unchecked.`);
+                break;
+        }
+    }
+    return errors;
+}
+
+// Display text for the ticket views, e.g. "Yes" for a ticked checkbox
+export function formatCustomFieldValue(field: TicketCustomField, value: CustomFieldValue | undefined): string {
+    if (field.field_type === 'checkbox') return value === true ? 'Yes' : 'No';
+    if (isEmptyCustomFieldValue(value)) return '-';
+    if (field.field_type === 'date') return new Date(String(value)).toLocaleDateString(undefined, { timeZone: 'UTC' });
+    return String(value);
+}
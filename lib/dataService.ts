@@ -1,5 +1,19 @@
 // lib/dataService.ts
 import { supabase } from './supabaseClient'; 
+import { validateCustomFieldValues } from './customFields';
+import { normalizeTags } from './ticketTags';
+import { signAttachmentUrls, ATTACHMENT_SELECT_QUERY, ATTACHMENTS_BUCKET } from './ticketAttachments';
+import { linkedStatusSync } from './ticketLinks';
+import { ticketQueryFromViewFilters } from './ticketViews';
+import { timerMinutes } from './timeTracking';
+import type { TicketSearchHit } from './ticketSearch';
+import type { PublicCsatSurvey } from './csat';
+import type { RedistributionResult } from './autoAssignment';
+import { loadAgentAvailability } from './agentAvailability';
+import { agentVisibilityFilter, loadTicketAccessScope } from './ticketVisibility';
+import type { TicketAccessScope } from './ticketVisibility';
+import { validateEscalationLevels } from './escalations';
+import { elapsedMinutes, BUSINESS_CALENDAR_COLUMNS } from './businessHours';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 
@@ -23,6 +37,8 @@ export interface UserProfile {
   updated_at?: string;
   specialization_id?: number | null;
   specializations?: Specialization | null;
+  availability_status?: AgentAvailabilityStatus; // Agents only
+  max_open_tickets?: number | null; // Open-ticket limit for routing; null means no limit
 }
 
 export interface Ticket {
@@ -41,6 +57,129 @@ export interface Ticket {
   updated_at?: string;
   ticket_type_id?: number | null;
   ticket_types?: TicketType | null;
+  sla_clock?: TicketSlaClock | null;
+  custom_fields?: CustomFieldValues | null;
+  tags?: string[] | null;
+  merged_into_ticket_id?: number | null; // Set once the ticket was merged into another one (see lib/ticketMerge.ts)
+  split_from_ticket_id?: number | null; // Set when the ticket was split off another ticket's comment
+  is_problem?: boolean; // Problem tickets drive the status of their child tickets
+  auto_resolve_children?: boolean;
+  team_id?: number | null; // Team queue; an unassigned ticket with a team waits there for a member to pick it up
+  team?: { id: number; name: string } | null;
+  escalation_level?: number; // Level of its escalation policy the ticket was escalated to; 0 when never escalated
+  escalated_at?: string | null;
+}
+
+// Returned by createTicket: the ticket exists even when some of its files failed to upload,
+// so callers report those instead of letting the user submit the ticket again
+export interface CreatedTicket extends Ticket {
+  failed_attachments: string[]; // File names
+}
+
+export type TicketLinkType = 'parent_of' | 'related_to' | 'duplicate_of' | 'blocked_by';
+
+export interface LinkedTicketSummary {
+  id: number;
+  subject: string;
+  ticket_statuses: { name: string } | null;
+}
+
+// Directed link read from the source ticket, e.g. source "parent_of" target (see lib/ticketLinks.ts)
+export interface TicketLink {
+  id: number;
+  source_ticket_id: number;
+  target_ticket_id: number;
+  link_type: TicketLinkType;
+  created_by?: string | null;
+  created_at: string;
+  source?: LinkedTicketSummary | null;
+  target?: LinkedTicketSummary | null;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'dropdown' | 'date' | 'checkbox';
+export type CustomFieldValue = string | number | boolean | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>; // jsonb on tickets, keyed by field id
+
+// Extra field collected on tickets of one type (see lib/customFields.ts)
+export interface TicketCustomField {
+  id: number;
+  ticket_type_id: number;
+  label: string;
+  field_type: CustomFieldType;
+  options?: string[] | null; // Choices for dropdown fields
+  is_required: boolean;
+  sort_order: number;
+  ticket_types?: { name: string } | null;
+}
+
+export type NewTicketCustomFieldData = Omit<TicketCustomField, 'id' | 'ticket_types'>;
+
+export interface BusinessHoursWindow {
+  start: string; // "HH:MM" local time
+  end: string;
+}
+
+export interface BusinessCalendarHoliday {
+  id?: number;
+  calendar_id?: number;
+  date: string; // "YYYY-MM-DD" in the calendar's time zone
+  name?: string | null;
+}
+
+// Working hours used to measure time in business minutes (see lib/businessHours.ts)
+export interface BusinessCalendar {
+  id: number;
+  name: string;
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
+  schedule: (BusinessHoursWindow | null)[]; // jsonb, 7 entries starting on Sunday; null means closed
+  is_default?: boolean;
+  holidays?: BusinessCalendarHoliday[];
+}
+
+export interface NewBusinessCalendarData {
+  name: string;
+  timezone: string;
+  schedule: (BusinessHoursWindow | null)[];
+  is_default?: boolean;
+}
+
+// Response and resolution targets, matched to tickets by priority and/or type (see lib/sla.ts)
+export interface SlaPolicy {
+  id: number;
+  name: string;
+  priority_id?: number | null; // null matches any priority
+  ticket_type_id?: number | null; // null matches any type
+  first_response_minutes: number;
+  resolution_minutes: number;
+  is_active: boolean;
+  business_calendar_id?: number | null; // Targets count business minutes when set, calendar minutes otherwise
+  created_at?: string;
+  ticket_priorities?: { name: string } | null;
+  ticket_types?: { name: string } | null;
+  business_calendar?: BusinessCalendar | null;
+}
+
+export interface NewSlaPolicyData {
+  name: string;
+  priority_id?: number | null;
+  ticket_type_id?: number | null;
+  first_response_minutes: number;
+  resolution_minutes: number;
+  is_active?: boolean;
+  business_calendar_id?: number | null;
+}
+
+// Per-ticket SLA state, kept up to date by syncTicketSla on the server
+export interface TicketSlaClock {
+  ticket_id: number;
+  sla_policy_id: number | null;
+  started_at: string;
+  first_responded_at?: string | null;
+  resolved_at?: string | null;
+  paused_at?: string | null; // Set while the ticket is Pending
+  paused_minutes: number; // Total paused time before paused_at, in the policy's business minutes if it has a calendar
+  first_response_paused_minutes?: number | null; // Paused time before the first response, the only pauses that move its target
+  sla_policies?: Pick<SlaPolicy, 'name' | 'first_response_minutes' | 'resolution_minutes' | 'business_calendar'> | null;
 }
 
 export interface NewTicketData {
@@ -50,6 +189,10 @@ export interface NewTicketData {
   requester_id: string;
   status_id: number;
   ticket_type_id: number;
+  custom_fields?: CustomFieldValues;
+  tags?: string[];
+  split_from_ticket_id?: number | null;
+  attachments?: File[]; // Uploaded to the ticket-attachments bucket after the ticket is created
 }
 
 export interface PriorityOption {
@@ -70,13 +213,55 @@ export interface Comment {
   is_internal_note: boolean;
   created_at: string;
   profiles: UserProfile | null;
+  attachments?: TicketAttachment[]; // Only set on comments returned by addCommentToTicket
 }
 
+// Returned by addCommentToTicket; as with CreatedTicket, the comment exists even when some files failed to upload
+export interface AddedComment extends Comment {
+  failed_attachments: string[]; // File names
+}
+
+export type TicketEventType = 'created' | 'field_changed' | 'comment_added' | 'automation_action' | 'merged' | 'split' | 'linked' | 'unlinked' | 'escalated';
+export type TicketAuditField = 'status' | 'priority' | 'assignee' | 'team' | 'tags';
+
+// Entry in the append-only ticket_events log (see lib/ticketEvents.ts)
+export interface TicketEvent {
+  id: number;
+  ticket_id: number;
+  actor_id?: string | null; // null when an automation made the change
+  event_type: TicketEventType;
+  field?: TicketAuditField | null; // Set for field_changed
+  old_value?: string | null; // Display names, e.g. the previous status
+  new_value?: string | null;
+  metadata?: Record<string, any> | null; // e.g. automation_id/automation_name, comment_id/is_internal_note, action_type, merged_into_ticket_id/merged_ticket_id, split_ticket_id/split_from_ticket_id, link_type/linked_ticket_id/direction, policy_id/policy_name/level/reason
+  created_at: string;
+  actor?: UserProfile | null;
+}
+
+export type NewTicketEvent = Omit<TicketEvent, 'id' | 'created_at' | 'actor'>;
+
 export interface NewCommentData {
     ticket_id: number;
     user_id: string;
     comment_text: string;
     is_internal_note?: boolean;
+    attachments?: File[];
+}
+
+// File stored in the private ticket-attachments bucket, on the ticket itself or on one of its comments
+export interface TicketAttachment {
+  id: number;
+  ticket_id: number;
+  comment_id?: number | null; // null for files attached when the ticket was created
+  uploaded_by: string;
+  file_name: string;
+  file_path: string; // Object path inside the bucket
+  mime_type: string;
+  size_bytes: number;
+  is_internal: boolean; // Copied from the comment, so internal-note files can be filtered without a join
+  created_at: string;
+  url?: string | null; // Short-lived signed URLs, filled in when attachments are fetched
+  download_url?: string | null;
 }
 
 export interface AgentOption {
@@ -93,10 +278,24 @@ export interface Notification {
     message: string;
     is_read: boolean;
     type: string | null;
+    link?: string | null; // In-app path the notification points to, e.g. a CSAT rating page
     created_at: string;
     tickets?: { subject: string } | null;
 }
 
+// One satisfaction survey per resolved ticket; score and comment stay null until the requester answers
+export interface CsatSurvey {
+    id: number;
+    ticket_id: number;
+    requester_id: string;
+    agent_id: string | null;
+    token: string;
+    score: number | null; // 1 (very unsatisfied) to 5 (very satisfied)
+    comment: string | null;
+    sent_at: string;
+    responded_at: string | null;
+}
+
 export interface KBCategory {
     id: number;
     name: string;
@@ -141,53 +340,373 @@ export interface UpdateKBArticleData {
     is_published?: boolean;
 }
 
+export type AutomationTriggerType = 'ticket_created' | 'ticket_updated' | 'status_changed' | 'time_based';
+
+// Ticket events that fire the event-driven automations (time_based ones are run by the scheduler)
+export type AutomationEvent = 'ticket_created' | 'ticket_updated' | 'status_changed';
+
+export type AutomationConditionOperator =
+    | 'equals' | 'not_equals' | 'in' | 'not_in'
+    | 'contains' | 'not_contains' | 'is_empty' | 'is_not_empty'
+    | 'greater_than' | 'less_than';
+
+export interface AutomationCondition {
+    field: string;
+    operator: AutomationConditionOperator;
+    value: string | string[]; // Arrays are used by the in/not_in operators
+}
+
+// Nested AND ("all") / OR ("any") group of conditions
+export interface AutomationConditionGroup {
+    match: 'all' | 'any';
+    rules: (AutomationCondition | AutomationConditionGroup)[];
+}
+
+// Versioned rule stored in automations.conditions. Version 1 was a flat AutomationCondition[]
+// where every condition had to match; lib/automationRules.ts upgrades those when read.
+export interface AutomationRuleSet {
+    version: 2;
+    root: AutomationConditionGroup;
+}
+
+export interface AutomationAction {
+    type: string;
+    settings: Record<string, any>;
+}
+
+export interface Automation {
+    id: number;
+    name: string;
+    description?: string | null;
+    is_active: boolean;
+    trigger_type: AutomationTriggerType;
+    conditions: AutomationRuleSet | AutomationCondition[]; // jsonb, see AutomationRuleSet
+    actions: AutomationAction[]; // jsonb
+    business_calendar_id?: number | null; // Duration conditions count business minutes when set
+    business_calendar?: BusinessCalendar | null;
+    created_at: string;
+    updated_at?: string | null;
+    last_run_at?: string | null;
+}
+
+export interface NewAutomationData {
+    name: string;
+    description?: string | null;
+    is_active?: boolean;
+    trigger_type: AutomationTriggerType;
+    conditions: AutomationRuleSet;
+    actions: AutomationAction[];
+    business_calendar_id?: number | null;
+}
+
+// One pass of the time-based automation scheduler (app/api/automations/scheduler)
+export interface AutomationSchedulerRun {
+    id: number;
+    started_at: string;
+    finished_at?: string | null;
+    status: 'running' | 'completed' | 'completed_with_errors' | 'failed';
+    tickets_scanned: number;
+    automations_evaluated: number;
+    executions: number; // Tickets an automation matched and acted on
+    actions_succeeded: number;
+    actions_failed: number;
+    error_message?: string | null;
+}
+
+// One matched automation run against a ticket, with the outcome of each action
+export interface AutomationExecution {
+    id: number;
+    automation_id: number;
+    ticket_id: number;
+    scheduler_run_id?: number | null;
+    executed_at: string;
+    success: boolean;
+    actions: { type: string; success: boolean; message: string }[]; // jsonb
+    tickets?: { subject: string } | null;
+}
+
+// Draft or saved automation evaluated without side effects
+export type AutomationDryRunInput = Pick<Automation, 'conditions' | 'actions' | 'business_calendar_id'>;
+
+export interface AutomationDryRunResult {
+    scanned: number;
+    matches: {
+        ticket_id: number;
+        subject: string;
+        status: string | null;
+        priority: string | null;
+        planned_actions: string[];
+    }[];
+}
+
 const TICKET_SELECT_QUERY = `
-  id, subject, description, created_at, updated_at, status_id, priority_id, requester_id, assignee_id, ticket_type_id,
+  id, subject, description, created_at, updated_at, status_id, priority_id, requester_id, assignee_id, ticket_type_id, custom_fields, tags, merged_into_ticket_id, split_from_ticket_id, is_problem, auto_resolve_children, team_id, escalation_level, escalated_at,
+  team:teams!tickets_team_id_fkey ( id, name ),
   ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name, color_code ),
   ticket_priorities:ticket_priorities!tickets_priority_id_fkey ( name ),
   ticket_types:ticket_types!tickets_ticket_type_id_fkey ( id, name, description ),
   profiles:profiles!tickets_requester_id_fkey ( id, full_name, avatar_url, role, specialization_id, specializations:specializations!profiles_specialization_id_fkey(id, name, description) ),
-  assignee_profile:profiles!tickets_assignee_id_fkey ( id, full_name, avatar_url, role, specialization_id, specializations:specializations!profiles_specialization_id_fkey(id, name, description) )
+  assignee_profile:profiles!tickets_assignee_id_fkey ( id, full_name, avatar_url, role, specialization_id, specializations:specializations!profiles_specialization_id_fkey(id, name, description) ),
+  sla_clock:ticket_sla_clocks ( ticket_id, sla_policy_id, started_at, first_responded_at, resolved_at, paused_at, paused_minutes, first_response_paused_minutes, sla_policies ( name, first_response_minutes, resolution_minutes, business_calendar:business_calendars ( ${BUSINESS_CALENDAR_COLUMNS} ) ) )
 `;
 
-export async function fetchTicketsForUser(limit: number, offset: number): Promise<{ tickets: Ticket[], count: number | null }> {
-  // Get current user and their profile
+export type TicketSortKey = 'created_at' | 'updated_at' | 'subject' | 'priority_id' | 'status_id';
+
+// Criteria for fetchTicketsForUser, applied by the database and combined with AND.
+// Dates are ISO timestamps; both ends of a range are inclusive.
+export interface TicketQuery {
+  ids?: number[];
+  statusIds?: number[];
+  priorityIds?: number[];
+  ticketTypeIds?: number[];
+  assigneeId?: string | null; // null matches unassigned tickets
+  teamId?: number | null; // null matches tickets without a team
+  requesterId?: string;
+  tags?: string[]; // Tickets carrying all of these tags
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  search?: string; // Subject, description, requester name or ticket number ("42", "#TICK-00042")
+  customFields?: { field: TicketCustomField; value: string }[]; // Text matches by substring, everything else exactly
+  sort?: TicketSortKey;
+  ascending?: boolean;
+}
+
+// Filters of a saved view, as stored. Unlike TicketQuery they are relative to whoever opens the view
+// ("assigned to me") and keep calendar days; lib/ticketViews.ts turns them into a TicketQuery.
+export interface TicketViewFilters {
+  statusIds?: number[];
+  priorityIds?: number[];
+  ticketTypeIds?: number[];
+  assignee?: string; // 'me', 'unassigned' or an agent id
+  team?: string; // 'none' or a team id
+  requesterId?: string;
+  tags?: string[];
+  createdFrom?: string; // yyyy-mm-dd
+  createdTo?: string;
+  search?: string;
+  customFields?: Record<string, string>; // Filter value by custom field id
+  sort?: TicketSortKey;
+  ascending?: boolean;
+}
+
+export interface TicketView {
+  id: number;
+  name: string;
+  owner_id: string;
+  is_shared: boolean; // Shared views are listed for agents and admins; customers cannot share views
+  shared_team_id?: number | null; // Limits a shared view to the members of one team (admins see it too)
+  filters: TicketViewFilters;
+  created_at: string;
+  updated_at?: string;
+  owner?: { full_name: string | null } | null;
+  shared_team?: { name: string } | null;
+}
+
+export type NewTicketViewData = Pick<TicketView, 'name' | 'is_shared' | 'shared_team_id' | 'filters'>;
+
+interface TicketScope extends TicketAccessScope {
+  requesterIds: string[]; // Requesters whose name matches the search
+}
+
+async function resolveTicketScope(): Promise<TicketAccessScope> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
-  if (!profile) throw new Error('Profile not found');
+  const scope = await loadTicketAccessScope(supabase, user.id);
+  if (!scope) throw new Error('Profile not found');
+  return scope;
+}
 
-  let query = supabase.from('tickets').select(`${TICKET_SELECT_QUERY}`, { count: 'exact' });
+async function findRequesterIds(search: string | undefined): Promise<string[]> {
+  const term = search?.trim();
+  if (!term) return [];
+  const { data, error } = await supabase.from('profiles').select('id').ilike('full_name', `%${term}%`).limit(50);
+  if (error) { console.error('Error searching requesters:', error.message); throw error; }
+  return (data || []).map(p => p.id as string);
+}
+
+// Quoted PostgREST filter value, so commas and parentheses in user input cannot break the filter
+const quoteFilterValue = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+function buildTicketListQuery(scope: TicketScope, criteria: TicketQuery, options: { head?: boolean } = {}) {
+  let query = supabase.from('tickets').select(TICKET_SELECT_QUERY, { count: 'exact', head: options.head });
 
   // Filter tickets based on user role
-  if (profile.role === 'customer') {
+  if (scope.role === 'customer') {
     // Customers can only see their own tickets
-    query = query.eq('requester_id', user.id);
-  } else if (profile.role === 'agent') {
-    // Agents can see tickets assigned to them or unassigned tickets
-    query = query.or(`assignee_id.eq.${user.id},assignee_id.is.null`);
+    query = query.eq('requester_id', scope.userId);
+  } else if (scope.role === 'agent') {
+    // Agents see their own tickets, the general queue and their teams' queues (see lib/ticketVisibility.ts)
+    query = query.or(agentVisibilityFilter(scope));
   }
   // Admins can see all tickets, so no additional filtering needed
 
-  const { data, error, count } = await query
-    .order('created_at', { ascending: false })
+  if (criteria.ids) query = query.in('id', criteria.ids);
+  if (criteria.statusIds?.length) query = query.in('status_id', criteria.statusIds);
+  if (criteria.priorityIds?.length) query = query.in('priority_id', criteria.priorityIds);
+  if (criteria.ticketTypeIds?.length) query = query.in('ticket_type_id', criteria.ticketTypeIds);
+  if (criteria.assigneeId === null) query = query.is('assignee_id', null);
+  else if (criteria.assigneeId) query = query.eq('assignee_id', criteria.assigneeId);
+  if (criteria.teamId === null) query = query.is('team_id', null);
+  else if (criteria.teamId) query = query.eq('team_id', criteria.teamId);
+  if (criteria.requesterId) query = query.eq('requester_id', criteria.requesterId);
+  if (criteria.tags?.length) query = query.contains('tags', normalizeTags(criteria.tags));
+  if (criteria.createdFrom) query = query.gte('created_at', criteria.createdFrom);
+  if (criteria.createdTo) query = query.lte('created_at', criteria.createdTo);
+  if (criteria.updatedFrom) query = query.gte('updated_at', criteria.updatedFrom);
+  if (criteria.updatedTo) query = query.lte('updated_at', criteria.updatedTo);
+
+  const term = criteria.search?.trim();
+  if (term) {
+    const pattern = quoteFilterValue(`%${term}%`);
+    const matches = [`subject.ilike.${pattern}`, `description.ilike.${pattern}`];
+    const ticketNumber = term.match(/^#?(?:TICK-)?0*(\d+)$/i);
+    if (ticketNumber) matches.push(`id.eq.${ticketNumber[1]}`);
+    if (scope.requesterIds.length) matches.push(`requester_id.in.(${scope.requesterIds.join(',')})`);
+    query = query.or(matches.join(','));
+  }
+
+  for (const { field, value } of criteria.customFields || []) {
+    if (value === '') continue;
+    const column = `custom_fields->>${field.id}`;
+    switch (field.field_type) {
+      case 'checkbox':
+        query = value === 'true' ? query.eq(column, 'true') : query.or(`${column}.is.null,${column}.neq.true`);
+        break;
+      case 'text':
+        query = query.ilike(column, `%${value}%`);
+        break;
+      case 'number':
+        query = query.eq(column, String(Number(value)));
+        break;
+      default:
+        query = query.eq(column, value);
+    }
+  }
+  return query;
+}
+
+export async function fetchTicketsForUser(limit: number, offset: number, criteria: TicketQuery = {}): Promise<{ tickets: Ticket[], count: number | null }> {
+  const [scope, requesterIds] = await Promise.all([resolveTicketScope(), findRequesterIds(criteria.search)]);
+  const ascending = criteria.ascending ?? false;
+
+  const { data, error, count } = await buildTicketListQuery({ ...scope, requesterIds }, criteria)
+    .order(criteria.sort || 'created_at', { ascending })
+    .order('id', { ascending }) // Tie-breaker, so pages do not overlap
     .range(offset, offset + limit - 1);
 
   if (error) { console.error('Error fetching tickets:', error.message); throw error; }
   return { tickets: (data as unknown as Ticket[]) || [], count };
 }
 
-export async function createTicket(ticketData: NewTicketData): Promise<Ticket | null> {
-    const { data, error } = await supabase.from('tickets').insert([{ ...ticketData }]).select(TICKET_SELECT_QUERY).single();
-    if (error) { 
-        console.error('Error creating ticket:', error.message); 
-        console.error('Full error:', error);
-        throw error; 
+export interface TicketSearchResult extends TicketSearchHit {
+  ticket: Ticket;
+}
+
+// Ranked full-text search over subject, description and comments (lib/ticketSearch.ts), best match first.
+// The hits are loaded through the ticket list query, so visibility applies twice and the criteria narrow them further.
+export async function searchTicketsFullText(search: string, criteria: Omit<TicketQuery, 'ids' | 'search'> = {}): Promise<TicketSearchResult[]> {
+  const { hits = [] } = await callApi<{ hits?: TicketSearchHit[] }>('/api/tickets/search', { query: search });
+  if (hits.length === 0) return [];
+
+  const { tickets } = await fetchTicketsForUser(hits.length, 0, { ...criteria, ids: hits.map(hit => hit.ticket_id) });
+  const ticketsById = new Map(tickets.map(ticket => [ticket.id, ticket]));
+  return hits.flatMap(hit => {
+    const ticket = ticketsById.get(hit.ticket_id);
+    return ticket ? [{ ...hit, ticket }] : [];
+  });
+}
+
+// Number of tickets the current user can see that match each query, in the same order
+export async function countTickets(queries: TicketQuery[]): Promise<number[]> {
+  const scope = await resolveTicketScope();
+  return Promise.all(queries.map(async criteria => {
+    const requesterIds = await findRequesterIds(criteria.search);
+    const { error, count } = await buildTicketListQuery({ ...scope, requesterIds }, criteria, { head: true });
+    if (error) { console.error('Error counting tickets:', error.message); throw error; }
+    return count || 0;
+  }));
+}
+
+// Number of matching tickets per status; the status criterion itself is ignored
+export async function countTicketsByStatus(statusIds: number[], criteria: TicketQuery = {}): Promise<Record<number, number>> {
+  const counts = await countTickets(statusIds.map(statusId => ({ ...criteria, statusIds: [statusId] })));
+  return Object.fromEntries(statusIds.map((statusId, index) => [statusId, counts[index]]));
+}
+
+// Acting user for the audit log; the session is cached locally, so this does not hit the network
+async function currentUserId(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id || null;
+}
+
+// Calls one of our API routes as the signed-in user and returns the parsed response.
+// An error status is logged and thrown with the route's message.
+async function callApi<T>(path: string, body?: unknown, method: 'POST' | 'PATCH' = 'POST'): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not authenticated');
+
+    const response = await fetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        console.error(`Error calling ${path}:`, result.error);
+        throw new Error(result.error || `Request to ${path} failed with status ${response.status}`);
     }
+    return result as T;
+}
+
+export async function fetchTicketById(ticketId: number): Promise<Ticket | null> {
+    const { data, error } = await supabase.from('tickets').select(TICKET_SELECT_QUERY).eq('id', ticketId).single();
+    if (error) { console.error(`Error fetching ticket #${ticketId}:`, error.message); throw error; }
     return data as unknown as Ticket | null;
 }
 
+// Asks the server to follow up the changes the user just made: auto-assignment, automations, SLA and CSAT
+// (lib/ticketChanges.ts). Failures are logged, never thrown; the scheduler follows up whatever is left.
+// Returns the tickets that were changed again, so callers know to refetch them.
+async function followUpTicketChanges(): Promise<number[]> {
+    try {
+        const { changedTicketIds = [] } = await callApi<{ changedTicketIds?: number[] }>('/api/tickets/changes');
+        return changedTicketIds;
+    } catch (err) {
+        console.error('Error following up ticket changes:', err);
+        return [];
+    }
+}
+
+export async function createTicket(ticketData: NewTicketData): Promise<CreatedTicket | null> {
+    const { attachments, ...ticketRow } = ticketData;
+    assertValidAttachments(attachments);
+    const customFieldErrors = validateCustomFieldValues(await fetchCustomFields(ticketData.ticket_type_id), ticketData.custom_fields || {});
+    if (customFieldErrors.length > 0) throw new Error(customFieldErrors.join(' '));
+    const { data, error } = await supabase.from('tickets').insert([{ ...ticketRow, tags: normalizeTags(ticketRow.tags) }]).select(TICKET_SELECT_QUERY).single();
+    if (error) {
+        console.error('Error creating ticket:', error.message);
+        console.error('Full error:', error);
+        throw error;
+    }
+    const created = data as unknown as Ticket | null;
+    if (!created) return null;
+    const failedAttachments: string[] = [];
+    for (const file of attachments || []) {
+        // One file at a time, so a failed upload doesn't keep the others or the rest of the ticket setup from happening
+        try {
+            await uploadTicketAttachments(created.id, [file], { commentId: null, isInternal: false });
+        } catch {
+            failedAttachments.push(file.name);
+        }
+    }
+    await followUpTicketChanges();
+    const ticket = await fetchTicketById(created.id);
+    return ticket && { ...ticket, failed_attachments: failedAttachments };
+}
+
 export async function fetchTicketPriorities(): Promise<PriorityOption[]> {
   const { data, error } = await supabase.from('ticket_priorities').select('id, name, sort_order').order('sort_order', { ascending: true });
   if (error) { console.error('Error fetching ticket priorities:', error.message); throw error; }
@@ -323,7 +842,9 @@ export async function fetchTicketCountsOverTime(
 
 // --- Report Specific Data Fetching Functions ---
 
-export async function fetchTicketVolumeBy(dimension: 'type' | 'status' | 'priority' | 'assignee'): Promise<{ dimension: string; count: number }[]> {
+export async function fetchTicketVolumeBy(dimension: 'type' | 'status' | 'priority' | 'assignee' | 'tag'): Promise<{ dimension: string; count: number }[]> {
+    if (dimension === 'tag') return fetchTicketVolumeByTag();
+
     let selectQuery = '';
     let joinTable = '';
     let dimensionColumn = '';
@@ -419,7 +940,19 @@ export async function fetchTicketVolumeBy(dimension: 'type' | 'status' | 'priori
     }));
 }
 
-export async function fetchAgentPerformance(): Promise<{ agent: string; assigned: number; resolved: number; closed: number; average_resolution_time: string | null }[]> {
+// A ticket with several tags counts once for each of them. Counted by the ticket_volume_by_tag function
+// (supabase/migrations), so the report is not limited to the rows a single query returns.
+async function fetchTicketVolumeByTag(): Promise<{ dimension: string; count: number }[]> {
+    const { data, error } = await supabase.rpc('ticket_volume_by_tag');
+    if (error) {
+        console.error('Error fetching ticket volume by tag:', error.message);
+        throw error;
+    }
+    return ((data || []) as { tag: string; ticket_count: number }[]).map(row => ({ dimension: row.tag, count: Number(row.ticket_count) }));
+}
+
+// With a team, only the team's members are reported
+export async function fetchAgentPerformance(teamId?: number): Promise<{ agent: string; assigned: number; resolved: number; closed: number; average_resolution_time: string | null }[]> {
     // This is a complex report requiring aggregation and joins.
     // A database view or RPC would be the most efficient.
     // Client-side processing would be very inefficient for large datasets.
@@ -438,19 +971,25 @@ export async function fetchAgentPerformance(): Promise<{ agent: string; assigned
         .from('ticket_statuses')
         .select('id, name');
 
+    const { data: membersData, error: membersError } = teamId
+        ? await supabase.from('team_members').select('agent_id').eq('team_id', teamId)
+        : { data: null, error: null };
 
     if (ticketsError) { console.error('Error fetching tickets for agent performance:', ticketsError.message); throw ticketsError; }
     if (agentsError) { console.error('Error fetching agents for agent performance:', agentsError.message); throw agentsError; }
     if (statusesError) { console.error('Error fetching statuses for agent performance:', statusesError.message); throw statusesError; }
+    if (membersError) { console.error(`Error fetching members of team #${teamId} for agent performance:`, membersError.message); throw membersError; }
 
     if (!ticketsData || !agentsData || !statusesData) return [];
+    const memberIds = membersData ? new Set(membersData.map(m => m.agent_id as string)) : null;
+    const reportedAgents = memberIds ? agentsData.filter(a => memberIds.has(a.id)) : agentsData;
 
     const statusNameMap = new Map(statusesData.map(s => [s.id, s.name]));
     const agentNameMap = new Map(agentsData.map(a => [a.id, a.full_name || 'Unknown Agent']));
 
     const agentMetrics: { [agentId: string]: { assigned: number; resolved: number; closed: number; resolutionTimes: number[] } } = {};
 
-    agentsData.forEach(agent => {
+    reportedAgents.forEach(agent => {
         agentMetrics[agent.id] = { assigned: 0, resolved: 0, closed: 0, resolutionTimes: [] };
     });
 
@@ -512,7 +1051,96 @@ export async function fetchAgentPerformance(): Promise<{ agent: string; assigned
     return result.sort((a, b) => a.agent.localeCompare(b.agent));
 }
 
-export async function fetchResolutionTimesBy(dimension: 'type' | 'priority' | 'agent'): Promise<{ dimension: string; average_resolution_time: string | null; average_resolution_minutes: number | null }[]> {
+interface TimeSpentRow {
+  minutes: number | null;
+  agent: { full_name: string | null } | null;
+  tickets: { requester: { full_name: string | null } | null; ticket_types: { name: string } | null } | null;
+}
+
+// Logged time per agent, customer (the ticket's requester) or ticket type. Running timers are not counted.
+// Dates are yyyy-mm-dd and match the day the work started.
+export async function fetchTimeSpentBy(dimension: 'agent' | 'customer' | 'type', startDate?: string, endDate?: string): Promise<{ dimension: string; minutes: number; hours: number; entries: number }[]> {
+    let query = supabase
+        .from('ticket_time_entries')
+        .select(`minutes, agent:profiles!ticket_time_entries_agent_id_fkey ( full_name ), tickets!inner ( requester:profiles!tickets_requester_id_fkey ( full_name ), ticket_types:ticket_types!tickets_ticket_type_id_fkey ( name ) )`)
+        .not('minutes', 'is', null);
+    if (startDate) query = query.gte('started_at', new Date(`${startDate}T00:00:00`).toISOString());
+    if (endDate) query = query.lte('started_at', new Date(`${endDate}T23:59:59.999`).toISOString());
+    const { data, error } = await query;
+    if (error) { console.error(`Error fetching time spent by ${dimension}:`, error.message); throw error; }
+
+    const totals: { [key: string]: { minutes: number; entries: number } } = {};
+    ((data as unknown as TimeSpentRow[]) || []).forEach(row => {
+        const key: string = dimension === 'agent'
+            ? row.agent?.full_name || 'Unknown Agent'
+            : dimension === 'customer'
+                ? row.tickets?.requester?.full_name || 'Unknown Customer'
+                : row.tickets?.ticket_types?.name || 'No Type';
+        totals[key] = totals[key] || { minutes: 0, entries: 0 };
+        totals[key].minutes += row.minutes || 0;
+        totals[key].entries++;
+    });
+
+    return Object.keys(totals)
+        .map(key => ({ dimension: key, minutes: totals[key].minutes, hours: Math.round((totals[key].minutes / 60) * 100) / 100, entries: totals[key].entries }))
+        .sort((a, b) => b.minutes - a.minutes);
+}
+
+// Answered surveys in the date range (yyyy-mm-dd, by answer date), with the rated agent's name
+async function fetchCsatResponses(startDate?: string, endDate?: string): Promise<{ score: number; responded_at: string; agent_id: string | null; agent: { full_name: string | null } | null }[]> {
+    let query = supabase
+        .from('csat_surveys')
+        .select('score, responded_at, agent_id, agent:profiles!csat_surveys_agent_id_fkey ( full_name )')
+        .not('score', 'is', null)
+        .order('responded_at', { ascending: true });
+    if (startDate) query = query.gte('responded_at', new Date(`${startDate}T00:00:00`).toISOString());
+    if (endDate) query = query.lte('responded_at', new Date(`${endDate}T23:59:59.999`).toISOString());
+    const { data, error } = await query;
+    if (error) { console.error('Error fetching CSAT responses:', error.message); throw error; }
+    return (data as unknown as { score: number; responded_at: string; agent_id: string | null; agent: { full_name: string | null } | null }[]) || [];
+}
+
+// Average score (1-5) and share of satisfied answers (4 or 5) for a group of responses
+function summarizeCsat(scores: number[]): { responses: number; average_score: number; satisfied_percent: number } {
+    const satisfied = scores.filter(score => score >= 4).length;
+    return {
+        responses: scores.length,
+        average_score: Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100,
+        satisfied_percent: Math.round((satisfied / scores.length) * 100),
+    };
+}
+
+// Periods are keyed by their first day (weeks start on Sunday, like fetchTicketCountsOverTime)
+export async function fetchCsatTrend(interval: 'week' | 'month', startDate?: string, endDate?: string): Promise<{ time_period: string; responses: number; average_score: number; satisfied_percent: number }[]> {
+    const responses = await fetchCsatResponses(startDate, endDate);
+    const scoresByPeriod = new Map<string, number[]>();
+    responses.forEach(response => {
+        const date = new Date(response.responded_at);
+        if (interval === 'week') date.setDate(date.getDate() - date.getDay());
+        else date.setDate(1);
+        const period = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+        scoresByPeriod.set(period, [...(scoresByPeriod.get(period) || []), response.score]);
+    });
+    return Array.from(scoresByPeriod.entries()).map(([period, scores]) => ({ time_period: period, ...summarizeCsat(scores) }));
+}
+
+export async function fetchCsatByAgent(startDate?: string, endDate?: string): Promise<{ agent_id: string | null; agent: string; responses: number; average_score: number; satisfied_percent: number }[]> {
+    const responses = await fetchCsatResponses(startDate, endDate);
+    // Grouped by id so two agents with the same name are not merged; null collects the unassigned tickets
+    const scoresByAgent = new Map<string | null, number[]>();
+    const agentNames = new Map<string, string>();
+    responses.forEach(response => {
+        const agentId = response.agent_id || null;
+        if (agentId) agentNames.set(agentId, response.agent?.full_name || 'Unknown Agent');
+        scoresByAgent.set(agentId, [...(scoresByAgent.get(agentId) || []), response.score]);
+    });
+    return Array.from(scoresByAgent.entries())
+        .map(([agentId, scores]) => ({ agent_id: agentId, agent: agentId ? agentNames.get(agentId)! : 'Unassigned', ...summarizeCsat(scores) }))
+        .sort((a, b) => b.average_score - a.average_score || b.responses - a.responses);
+}
+
+// Pass a business calendar to measure resolution time in working hours instead of wall-clock time
+export async function fetchResolutionTimesBy(dimension: 'type' | 'priority' | 'agent', calendar?: BusinessCalendar | null): Promise<{ dimension: string; average_resolution_time: string | null; average_resolution_minutes: number | null }[]> {
      // Similar to agent performance, this is complex and best handled by a database function/view.
      // Client-side fallback: Fetch all tickets and process.
 
@@ -559,9 +1187,7 @@ export async function fetchResolutionTimesBy(dimension: 'type' | 'priority' | 'a
          // Only consider tickets that have been resolved or closed after being resolved
          if (statusName === 'Resolved' || statusName === 'Closed') {
              if (ticket.created_at && ticket.updated_at) {
-                 const createdAt = new Date(ticket.created_at).getTime();
-                 const updatedAt = new Date(ticket.updated_at).getTime();
-                 const duration = updatedAt - createdAt; // Time in milliseconds
+                 const duration = elapsedMinutes(new Date(ticket.created_at), new Date(ticket.updated_at), calendar) * 60 * 1000; // Time in milliseconds
 
                  let key: string | null | undefined;
                  switch (dimension) {
@@ -648,7 +1274,7 @@ export async function fetchCustomerTicketCounts(): Promise<{ customer: string; t
     return result.sort((a, b) => a.customer.localeCompare(b.customer));
 }
 
-export async function fetchOverallAverageResolutionTime(): Promise<string | null> {
+export async function fetchOverallAverageResolutionTime(calendar?: BusinessCalendar | null): Promise<string | null> {
     // Fetch tickets that are either 'Resolved' or 'Closed'
     const { data: ticketsData, error: ticketsError } = await supabase
         .from('tickets')
@@ -675,9 +1301,7 @@ export async function fetchOverallAverageResolutionTime(): Promise<string | null
     ticketsData.forEach(ticket => {
         const statusName = statusNameMap.get(ticket.status_id);
         if ((statusName === 'Resolved' || statusName === 'Closed') && ticket.created_at && ticket.updated_at) {
-            const createdAt = new Date(ticket.created_at).getTime();
-            const updatedAt = new Date(ticket.updated_at).getTime();
-            resolutionTimes.push(updatedAt - createdAt); // Time in milliseconds
+            resolutionTimes.push(elapsedMinutes(new Date(ticket.created_at), new Date(ticket.updated_at), calendar) * 60 * 1000); // Time in milliseconds
         }
     });
 
@@ -793,9 +1417,11 @@ export async function deleteSpecialization(id: number): Promise<void> {
 }
 
 export async function updateTicketStatus(ticketId: number, statusId: number): Promise<Ticket | null> {
-    const { data, error } = await supabase.from('tickets').update({ status_id: statusId, updated_at: new Date().toISOString() }).eq('id', ticketId).select(TICKET_SELECT_QUERY).single();
+    const { error } = await supabase.from('tickets').update({ status_id: statusId, updated_at: new Date().toISOString() }).eq('id', ticketId).select(TICKET_SELECT_QUERY).single();
     if (error) { console.error(`Error updating status for ticket #${ticketId}:`, error.message); throw error; }
-    return data as unknown as Ticket | null;
+    await followUpTicketChanges();
+    await syncLinkedChildStatuses(ticketId);
+    return fetchTicketById(ticketId);
 }
 
 export async function deleteTicket(ticketId: number): Promise<{ success: boolean }> {
@@ -804,16 +1430,81 @@ export async function deleteTicket(ticketId: number): Promise<{ success: boolean
     return { success: true };
 }
 
+// Moves the duplicate's comments and attachments into the surviving ticket and closes the duplicate.
+// Runs server-side (app/api/tickets/merge); unlike automations and SLA syncs, failures are thrown.
+export async function mergeTickets(sourceTicketId: number, targetTicketId: number): Promise<{ source: Ticket | null; target: Ticket | null }> {
+    await callApi('/api/tickets/merge', { sourceTicketId, targetTicketId });
+    const [source, target] = await Promise.all([fetchTicketById(sourceTicketId), fetchTicketById(targetTicketId)]);
+    return { source, target };
+}
+
+// Turns a comment about an unrelated issue into its own ticket. The comment stays on the original ticket,
+// its text becomes the new ticket's description and its files are linked to the new ticket as well.
+export async function splitCommentIntoTicket(commentId: number, ticketData: Omit<NewTicketData, 'description' | 'split_from_ticket_id' | 'attachments'>): Promise<Ticket | null> {
+    const { data: comment, error: commentError } = await supabase.from('ticket_comments').select('id, ticket_id, comment_text, is_internal_note').eq('id', commentId).single();
+    if (commentError) { console.error(`Error fetching comment #${commentId}:`, commentError.message); throw commentError; }
+    if (comment.is_internal_note) throw new Error('Internal notes cannot be split into a ticket.');
+
+    const created = await createTicket({ ...ticketData, description: comment.comment_text, split_from_ticket_id: comment.ticket_id });
+    if (!created) return null;
+
+    const { data: files, error: filesError } = await supabase.from('ticket_attachments').select(ATTACHMENT_SELECT_QUERY).eq('comment_id', commentId);
+    if (filesError) { console.error(`Error fetching attachments of comment #${commentId}:`, filesError.message); throw filesError; }
+    if (files && files.length > 0) {
+        // The copies point at the same stored objects
+        const { error: copyError } = await supabase.from('ticket_attachments').insert(files.map(({ id, created_at, ...file }) => ({ ...file, ticket_id: created.id, comment_id: null })));
+        if (copyError) { console.error(`Error copying attachments to ticket #${created.id}:`, copyError.message); throw copyError; }
+    }
+    return created;
+}
+
+const COMMENT_SELECT_QUERY = `id, ticket_id, user_id, comment_text, is_internal_note, created_at, profiles!inner ( id, full_name, avatar_url, role, specialization_id, specializations:specializations!profiles_specialization_id_fkey(id, name) )`;
+
 export async function fetchCommentsForTicket(ticketId: number): Promise<Comment[]> {
-    const { data, error } = await supabase.from('ticket_comments').select(`id, ticket_id, user_id, comment_text, is_internal_note, created_at, profiles!inner ( id, full_name, avatar_url, role, specialization_id, specializations:specializations!profiles_specialization_id_fkey(id, name) )`).eq('ticket_id', ticketId).order('created_at', { ascending: true });
+    const { data, error } = await supabase.from('ticket_comments').select(COMMENT_SELECT_QUERY).eq('ticket_id', ticketId).order('created_at', { ascending: true });
     if (error) { console.error(`Error fetching comments for ticket #${ticketId}:`, error.message); throw error; }
     return (data as unknown as Comment[]) || [];
 }
 
-export async function addCommentToTicket(commentData: NewCommentData): Promise<Comment | null> {
-    const { data, error } = await supabase.from('ticket_comments').insert([{ ...commentData, is_internal_note: commentData.is_internal_note || false }]).select(`id, ticket_id, user_id, comment_text, is_internal_note, created_at, profiles!inner ( id, full_name, avatar_url, role, specialization_id, specializations:specializations!profiles_specialization_id_fkey(id, name) )`).single();
+// Comments other users added after the given comment id, used to warn before replying on top of someone else.
+// Ids are compared rather than timestamps so the browser's clock does not matter.
+export async function fetchNewCommentsByOthers(ticketId: number, afterCommentId: number, userId: string): Promise<Comment[]> {
+    const { data, error } = await supabase
+        .from('ticket_comments')
+        .select(COMMENT_SELECT_QUERY)
+        .eq('ticket_id', ticketId)
+        .gt('id', afterCommentId)
+        .neq('user_id', userId)
+        .order('created_at', { ascending: true });
+    if (error) { console.error(`Error checking new comments on ticket #${ticketId}:`, error.message); throw error; }
+    return (data as unknown as Comment[]) || [];
+}
+
+export async function addCommentToTicket(commentData: NewCommentData): Promise<AddedComment | null> {
+    const { attachments, ...commentRow } = commentData;
+    assertValidAttachments(attachments);
+    const { data, error } = await supabase.from('ticket_comments').insert([{ ...commentRow, is_internal_note: commentData.is_internal_note || false }]).select(`id, ticket_id, user_id, comment_text, is_internal_note, created_at, profiles!inner ( id, full_name, avatar_url, role, specialization_id, specializations:specializations!profiles_specialization_id_fkey(id, name) )`).single();
     if (error) { console.error('Error adding comment:', error.message); throw error; }
-    return data as unknown as Comment | null;
+    const comment = data as unknown as Comment | null;
+    if (!comment) return null;
+    const uploaded: TicketAttachment[] = [];
+    const failedAttachments: string[] = [];
+    for (const file of attachments || []) {
+        try {
+            uploaded.push(...await uploadTicketAttachments(comment.ticket_id, [file], { commentId: comment.id, isInternal: comment.is_internal_note }));
+        } catch {
+            failedAttachments.push(file.name);
+        }
+    }
+    if (uploaded.length > 0) comment.attachments = await signAttachmentUrls(supabase, uploaded);
+    await followUpTicketChanges();
+    return { ...comment, failed_attachments: failedAttachments };
+}
+
+// Through the server, which leaves staff-only activity out of customers' timelines
+export async function fetchTicketEvents(ticketId: number): Promise<TicketEvent[]> {
+    const { events } = await callApi<{ events: TicketEvent[] }>('/api/tickets/events', { ticketId });
+    return events;
 }
 
 export async function fetchAgents(): Promise<AgentOption[]> {
@@ -825,13 +1516,15 @@ export async function fetchAgents(): Promise<AgentOption[]> {
 export async function assignTicket(ticketId: number, agentId: string | null): Promise<Ticket | null> {
     const { data, error } = await supabase.from('tickets').update({ assignee_id: agentId, updated_at: new Date().toISOString() }).eq('id', ticketId).select(TICKET_SELECT_QUERY).single();
     if (error) { console.error(`Error assigning ticket #${ticketId}:`, error.message); throw error; }
+    if ((await followUpTicketChanges()).includes(ticketId)) return fetchTicketById(ticketId);
     return data as unknown as Ticket | null;
 }
 
 export async function updateTicketPriority(ticketId: number, priorityId: number): Promise<Ticket | null> {
-    const { data, error } = await supabase.from('tickets').update({ priority_id: priorityId, updated_at: new Date().toISOString() }).eq('id', ticketId).select(TICKET_SELECT_QUERY).single();
+    const { error } = await supabase.from('tickets').update({ priority_id: priorityId, updated_at: new Date().toISOString() }).eq('id', ticketId).select(TICKET_SELECT_QUERY).single();
     if (error) { console.error(`Error updating priority for ticket #${ticketId}:`, error.message); throw error; }
-    return data as unknown as Ticket | null;
+    await followUpTicketChanges();
+    return fetchTicketById(ticketId);
 }
 
 export async function fetchUserProfileById(userId: string): Promise<UserProfile | null> {
@@ -885,7 +1578,7 @@ export function getAvatarPublicUrl(filePath: string): string | null {
 }
 
 export async function fetchUserNotifications(userId: string, limit: number = 10, onlyUnread: boolean = false): Promise<Notification[]> {
-    let query = supabase.from('notifications').select(`id, user_id, ticket_id, message, is_read, type, created_at, tickets ( subject )`).eq('user_id', userId);
+    let query = supabase.from('notifications').select(`id, user_id, ticket_id, message, is_read, type, link, created_at, tickets ( subject )`).eq('user_id', userId);
     if (onlyUnread) { query = query.eq('is_read', false); }
     query = query.order('created_at', { ascending: false }).limit(limit);
     const { data, error } = await query;
@@ -894,7 +1587,7 @@ export async function fetchUserNotifications(userId: string, limit: number = 10,
 }
 
 export async function markNotificationAsRead(notificationId: number): Promise<Notification | null> {
-    const { data, error } = await supabase.from('notifications').update({ is_read: true, updated_at: new Date().toISOString() }).eq('id', notificationId).select(`id, user_id, ticket_id, message, is_read, type, created_at, tickets ( subject )`).single();
+    const { data, error } = await supabase.from('notifications').update({ is_read: true, updated_at: new Date().toISOString() }).eq('id', notificationId).select(`id, user_id, ticket_id, message, is_read, type, link, created_at, tickets ( subject )`).single();
     if (error) { console.error(`Error marking notification #${notificationId} as read:`, error.message); throw error; }
     return data as unknown as Notification | null;
 }
@@ -909,7 +1602,7 @@ export async function fetchAllUsersWithProfiles(): Promise<UserProfile[]> {
     const { data, error } = await supabase
         .from('profiles')
         .select(`
-            id, full_name, avatar_url, role, updated_at, specialization_id,
+            id, full_name, avatar_url, role, updated_at, specialization_id, availability_status, max_open_tickets,
             specializations:specializations!profiles_specialization_id_fkey (id, name, description)
         `)
         .order('full_name', { ascending: true });
@@ -1213,3 +1906,1040 @@ export async function fetchKBCategoryById(id: number): Promise<KBCategory | null
         article_count: Array.isArray(data.kb_articles) ? data.kb_articles[0]?.count || 0 : 0
     } : null;
 }
+
+// == Automations ==
+const AUTOMATION_SELECT_QUERY = `id, name, description, is_active, trigger_type, conditions, actions, business_calendar_id, created_at, updated_at, last_run_at,
+    business_calendar:business_calendars ( ${BUSINESS_CALENDAR_COLUMNS} )`;
+
+export async function fetchAutomations(): Promise<Automation[]> {
+    const { data, error } = await supabase
+        .from('automations')
+        .select(AUTOMATION_SELECT_QUERY)
+        .order('created_at', { ascending: true });
+
+    if (error) { console.error('Error fetching automations:', error.message); throw error; }
+    return (data as unknown as Automation[]) || [];
+}
+
+// Saved through app/api/automations, which checks the rule against the current fields before writing it
+async function saveAutomationViaApi(method: 'POST' | 'PATCH', payload: { id?: number; automation: Partial<NewAutomationData> }): Promise<Automation | null> {
+    const { automation } = await callApi<{ automation?: Automation }>('/api/automations', payload, method);
+    return automation || null;
+}
+
+export async function createAutomation(automationData: NewAutomationData): Promise<Automation | null> {
+    return saveAutomationViaApi('POST', { automation: automationData });
+}
+
+export async function updateAutomation(id: number, updates: Partial<NewAutomationData>): Promise<Automation | null> {
+    return saveAutomationViaApi('PATCH', { id, automation: updates });
+}
+
+export async function setAutomationActive(id: number, isActive: boolean): Promise<Automation | null> {
+    return updateAutomation(id, { is_active: isActive });
+}
+
+export async function deleteAutomation(id: number): Promise<void> {
+    const { error } = await supabase.from('automations').delete().eq('id', id);
+    if (error) { console.error(`Error deleting automation #${id}:`, error.message); throw error; }
+}
+
+export async function fetchAutomationSchedulerRuns(limit: number = 20): Promise<AutomationSchedulerRun[]> {
+    const { data, error } = await supabase
+        .from('automation_scheduler_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+    if (error) { console.error('Error fetching automation scheduler runs:', error.message); throw error; }
+    return (data as unknown as AutomationSchedulerRun[]) || [];
+}
+
+// Lets an admin trigger the scheduler immediately instead of waiting for the cron job
+export async function runAutomationSchedulerNow(): Promise<AutomationSchedulerRun> {
+    const { run } = await callApi<{ run: AutomationSchedulerRun }>('/api/automations/scheduler');
+    return run;
+}
+
+export async function fetchAutomationExecutions(automationId: number, limit: number = 50): Promise<AutomationExecution[]> {
+    const { data, error } = await supabase
+        .from('automation_executions')
+        .select('id, automation_id, ticket_id, scheduler_run_id, executed_at, success, actions, tickets:tickets!automation_executions_ticket_id_fkey ( subject )')
+        .eq('automation_id', automationId)
+        .order('executed_at', { ascending: false })
+        .limit(limit);
+    if (error) { console.error(`Error fetching executions for automation #${automationId}:`, error.message); throw error; }
+    return (data as unknown as AutomationExecution[]) || [];
+}
+
+// Shows which recent tickets an automation would match and what it would do, without changing anything
+export async function fetchAutomationDryRun(automation: AutomationDryRunInput): Promise<AutomationDryRunResult> {
+    return callApi<AutomationDryRunResult>('/api/automations/dry-run', {
+        automation: { conditions: automation.conditions, actions: automation.actions, business_calendar_id: automation.business_calendar_id },
+    });
+}
+
+// == SLA Policies ==
+const SLA_POLICY_SELECT_QUERY = `
+    id, name, priority_id, ticket_type_id, first_response_minutes, resolution_minutes, is_active, business_calendar_id, created_at,
+    ticket_priorities:ticket_priorities!sla_policies_priority_id_fkey ( name ),
+    ticket_types:ticket_types!sla_policies_ticket_type_id_fkey ( name ),
+    business_calendar:business_calendars ( ${BUSINESS_CALENDAR_COLUMNS} )
+`;
+
+export async function fetchSlaPolicies(): Promise<SlaPolicy[]> {
+    const { data, error } = await supabase.from('sla_policies').select(SLA_POLICY_SELECT_QUERY).order('name', { ascending: true });
+    if (error) { console.error('Error fetching SLA policies:', error.message); throw error; }
+    return (data as unknown as SlaPolicy[]) || [];
+}
+
+export async function createSlaPolicy(policyData: NewSlaPolicyData): Promise<SlaPolicy | null> {
+    const { data, error } = await supabase.from('sla_policies').insert({ ...policyData, is_active: policyData.is_active ?? true }).select(SLA_POLICY_SELECT_QUERY).single();
+    if (error) { console.error('Error creating SLA policy:', error.message); throw error; }
+    return data as unknown as SlaPolicy | null;
+}
+
+export async function updateSlaPolicy(id: number, updates: Partial<NewSlaPolicyData>): Promise<SlaPolicy | null> {
+    const { data, error } = await supabase.from('sla_policies').update(updates).eq('id', id).select(SLA_POLICY_SELECT_QUERY).single();
+    if (error) { console.error(`Error updating SLA policy #${id}:`, error.message); throw error; }
+    return data as unknown as SlaPolicy | null;
+}
+
+export async function deleteSlaPolicy(id: number): Promise<void> {
+    const { error } = await supabase.from('sla_policies').delete().eq('id', id);
+    if (error) { console.error(`Error deleting SLA policy #${id}:`, error.message); throw error; }
+}
+
+// == Business Calendars ==
+export async function fetchBusinessCalendars(): Promise<BusinessCalendar[]> {
+    const { data, error } = await supabase.from('business_calendars').select(BUSINESS_CALENDAR_COLUMNS).order('name', { ascending: true });
+    if (error) { console.error('Error fetching business calendars:', error.message); throw error; }
+    return (data as unknown as BusinessCalendar[]) || [];
+}
+
+// Only one calendar can be the default used by reports
+async function clearDefaultBusinessCalendar(exceptId?: number): Promise<void> {
+    let query = supabase.from('business_calendars').update({ is_default: false }).eq('is_default', true);
+    if (exceptId) query = query.neq('id', exceptId);
+    const { error } = await query;
+    if (error) { console.error('Error clearing default business calendar:', error.message); throw error; }
+}
+
+export async function createBusinessCalendar(calendarData: NewBusinessCalendarData): Promise<BusinessCalendar | null> {
+    if (calendarData.is_default) await clearDefaultBusinessCalendar();
+    const { data, error } = await supabase.from('business_calendars').insert(calendarData).select(BUSINESS_CALENDAR_COLUMNS).single();
+    if (error) { console.error('Error creating business calendar:', error.message); throw error; }
+    return data as unknown as BusinessCalendar | null;
+}
+
+export async function updateBusinessCalendar(id: number, updates: Partial<NewBusinessCalendarData>): Promise<BusinessCalendar | null> {
+    if (updates.is_default) await clearDefaultBusinessCalendar(id);
+    const { data, error } = await supabase.from('business_calendars').update(updates).eq('id', id).select(BUSINESS_CALENDAR_COLUMNS).single();
+    if (error) { console.error(`Error updating business calendar #${id}:`, error.message); throw error; }
+    return data as unknown as BusinessCalendar | null;
+}
+
+export async function deleteBusinessCalendar(id: number): Promise<void> {
+    const { error } = await supabase.from('business_calendars').delete().eq('id', id);
+    if (error) { console.error(`Error deleting business calendar #${id}:`, error.message); throw error; }
+}
+
+export async function addBusinessCalendarHoliday(calendarId: number, date: string, name?: string | null): Promise<BusinessCalendarHoliday | null> {
+    const { data, error } = await supabase.from('business_calendar_holidays').insert({ calendar_id: calendarId, date, name: name || null }).select('id, calendar_id, date, name').single();
+    if (error) { console.error(`Error adding holiday to business calendar #${calendarId}:`, error.message); throw error; }
+    return data as BusinessCalendarHoliday | null;
+}
+
+export async function removeBusinessCalendarHoliday(holidayId: number): Promise<void> {
+    const { error } = await supabase.from('business_calendar_holidays').delete().eq('id', holidayId);
+    if (error) { console.error(`Error removing holiday #${holidayId}:`, error.message); throw error; }
+}
+
+// == Ticket Attachments ==
+// Stored like avatars (see uploadAvatar), but in a private bucket served through signed URLs,
+// since internal-note files must stay hidden from customers (see lib/ticketAttachments.ts).
+
+export const ATTACHMENT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_FILES = 5;
+export const ATTACHMENT_ALLOWED_TYPES = [
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain', 'text/csv', 'application/zip',
+    'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Returns a message describing why the file cannot be attached, or null when it is fine
+export function validateAttachmentFile(file: File): string | null {
+    if (!ATTACHMENT_ALLOWED_TYPES.includes(file.type)) return `${file.name}: this file type is not supported.`;
+    if (file.size > ATTACHMENT_MAX_SIZE_BYTES) return `${file.name}: files can be at most ${ATTACHMENT_MAX_SIZE_BYTES / (1024 * 1024)} MB.`;
+    return null;
+}
+
+function assertValidAttachments(files: File[] | undefined): void {
+    if (!files || files.length === 0) return;
+    if (files.length > ATTACHMENT_MAX_FILES) throw new Error(`At most ${ATTACHMENT_MAX_FILES} files can be attached at once.`);
+    const problem = files.map(validateAttachmentFile).find(Boolean);
+    if (problem) throw new Error(problem);
+}
+
+// Keeps object paths URL-safe; the original name is kept in file_name
+const toStorageName = (name: string) => name.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-100) || 'file';
+
+async function uploadTicketAttachments(ticketId: number, files: File[], options: { commentId: number | null; isInternal: boolean }): Promise<TicketAttachment[]> {
+    const uploaderId = await currentUserId();
+    if (!uploaderId) throw new Error('Not authenticated');
+
+    const uploaded: TicketAttachment[] = [];
+    for (const file of files) {
+        const filePath = `${ticketId}/${Date.now()}/${toStorageName(file.name)}`;
+        const { error: uploadError } = await supabase.storage.from(ATTACHMENTS_BUCKET).upload(filePath, file, { cacheControl: '3600', contentType: file.type, upsert: false });
+        if (uploadError) { console.error(`Error uploading attachment to ticket #${ticketId}:`, uploadError.message); throw uploadError; }
+
+        const { data, error } = await supabase.from('ticket_attachments').insert([{
+            ticket_id: ticketId,
+            comment_id: options.commentId,
+            uploaded_by: uploaderId,
+            file_name: file.name,
+            file_path: filePath,
+            mime_type: file.type,
+            size_bytes: file.size,
+            is_internal: options.isInternal,
+        }]).select(ATTACHMENT_SELECT_QUERY).single();
+        if (error) {
+            console.error(`Error saving attachment for ticket #${ticketId}:`, error.message);
+            await supabase.storage.from(ATTACHMENTS_BUCKET).remove([filePath]); // Don't leave an orphaned object behind
+            throw error;
+        }
+        uploaded.push(data as TicketAttachment);
+    }
+    return uploaded;
+}
+
+// Listed and signed by app/api/tickets/attachments, which leaves out internal-note files for customers
+export async function fetchTicketAttachments(ticketId: number): Promise<TicketAttachment[]> {
+    const { attachments } = await callApi<{ attachments?: TicketAttachment[] }>('/api/tickets/attachments', { ticketId });
+    return attachments || [];
+}
+
+// == Custom Ticket Fields ==
+const CUSTOM_FIELD_SELECT_QUERY = 'id, ticket_type_id, label, field_type, options, is_required, sort_order, ticket_types ( name )';
+
+// All custom fields, or only those of one ticket type, in form order
+export async function fetchCustomFields(ticketTypeId?: number | null): Promise<TicketCustomField[]> {
+    let query = supabase.from('ticket_custom_fields').select(CUSTOM_FIELD_SELECT_QUERY);
+    if (ticketTypeId) query = query.eq('ticket_type_id', ticketTypeId);
+    const { data, error } = await query.order('sort_order', { ascending: true }).order('id', { ascending: true });
+    if (error) { console.error('Error fetching custom fields:', error.message); throw error; }
+    return (data as unknown as TicketCustomField[]) || [];
+}
+
+export async function createCustomField(fieldData: NewTicketCustomFieldData): Promise<TicketCustomField | null> {
+    const { data, error } = await supabase.from('ticket_custom_fields').insert(fieldData).select(CUSTOM_FIELD_SELECT_QUERY).single();
+    if (error) { console.error('Error creating custom field:', error.message); throw error; }
+    return data as unknown as TicketCustomField | null;
+}
+
+export async function updateCustomField(id: number, updates: Partial<NewTicketCustomFieldData>): Promise<TicketCustomField | null> {
+    const { data, error } = await supabase.from('ticket_custom_fields').update(updates).eq('id', id).select(CUSTOM_FIELD_SELECT_QUERY).single();
+    if (error) { console.error(`Error updating custom field #${id}:`, error.message); throw error; }
+    return data as unknown as TicketCustomField | null;
+}
+
+// Values already stored on tickets are kept; they are simply no longer shown or editable
+export async function deleteCustomField(id: number): Promise<void> {
+    const { error } = await supabase.from('ticket_custom_fields').delete().eq('id', id);
+    if (error) { console.error(`Error deleting custom field #${id}:`, error.message); throw error; }
+}
+
+// == Ticket Tags ==
+
+// Every tag in use, for autocomplete and the ticket list filter. Collected by the ticket_tags database function,
+// so tags on tickets beyond the first page of rows are included.
+export async function fetchTicketTags(): Promise<string[]> {
+    const { data, error } = await supabase.rpc('ticket_tags');
+    if (error) { console.error('Error fetching ticket tags:', error.message); throw error; }
+    return normalizeTags(((data || []) as { tag: string }[]).map(row => row.tag));
+}
+
+export async function updateTicketTags(ticketId: number, tags: string[]): Promise<Ticket | null> {
+    const { error } = await supabase.from('tickets').update({ tags: normalizeTags(tags), updated_at: new Date().toISOString() }).eq('id', ticketId);
+    if (error) { console.error(`Error updating tags for ticket #${ticketId}:`, error.message); throw error; }
+    await followUpTicketChanges();
+    return fetchTicketById(ticketId);
+}
+
+// == Ticket Links ==
+const LINKED_TICKET_COLUMNS = 'id, subject, ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name )';
+const TICKET_LINK_SELECT_QUERY = `
+    id, source_ticket_id, target_ticket_id, link_type, created_by, created_at,
+    source:tickets!ticket_links_source_ticket_id_fkey ( ${LINKED_TICKET_COLUMNS} ),
+    target:tickets!ticket_links_target_ticket_id_fkey ( ${LINKED_TICKET_COLUMNS} )
+`;
+
+// Links in both directions, so a child also lists its parent
+export async function fetchTicketLinks(ticketId: number): Promise<TicketLink[]> {
+    const { data, error } = await supabase
+        .from('ticket_links')
+        .select(TICKET_LINK_SELECT_QUERY)
+        .or(`source_ticket_id.eq.${ticketId},target_ticket_id.eq.${ticketId}`)
+        .order('created_at', { ascending: true });
+    if (error) { console.error(`Error fetching links for ticket #${ticketId}:`, error.message); throw error; }
+    return (data as unknown as TicketLink[]) || [];
+}
+
+export async function createTicketLink(sourceTicketId: number, targetTicketId: number, linkType: TicketLinkType): Promise<TicketLink | null> {
+    if (sourceTicketId === targetTicketId) throw new Error('A ticket cannot be linked to itself.');
+    const actorId = await currentUserId();
+    const { data, error } = await supabase
+        .from('ticket_links')
+        .insert([{ source_ticket_id: sourceTicketId, target_ticket_id: targetTicketId, link_type: linkType, created_by: actorId }])
+        .select(TICKET_LINK_SELECT_QUERY)
+        .single();
+    if (error) {
+        console.error(`Error linking ticket #${sourceTicketId} to #${targetTicketId}:`, error.message);
+        if (error.code === '23505') throw new Error('These tickets are already linked this way.');
+        throw error;
+    }
+    const link = data as unknown as TicketLink | null;
+    if (link) {
+        await followUpTicketChanges();
+        if (link.link_type === 'parent_of') await syncLinkedChildStatuses(link.source_ticket_id);
+    }
+    return link;
+}
+
+export async function deleteTicketLink(link: TicketLink): Promise<void> {
+    const { error } = await supabase.from('ticket_links').delete().eq('id', link.id);
+    if (error) { console.error(`Error deleting ticket link #${link.id}:`, error.message); throw error; }
+    await followUpTicketChanges();
+}
+
+export async function updateTicketLinkSettings(ticketId: number, settings: Pick<Ticket, 'is_problem' | 'auto_resolve_children'>): Promise<Ticket | null> {
+    const { error } = await supabase.from('tickets').update({ ...settings, updated_at: new Date().toISOString() }).eq('id', ticketId);
+    if (error) { console.error(`Error updating link settings for ticket #${ticketId}:`, error.message); throw error; }
+    await followUpTicketChanges();
+    await syncLinkedChildStatuses(ticketId);
+    return fetchTicketById(ticketId);
+}
+
+// Children follow a problem ticket's status, or are resolved along with their parent (see lib/ticketLinks.ts).
+// Each child goes through updateTicketStatus, so its history, automations and SLA are updated as usual.
+// Failures are logged, never thrown, so they cannot undo the parent's change.
+async function syncLinkedChildStatuses(parentId: number): Promise<void> {
+    try {
+        const sync = await linkedStatusSync(supabase, parentId);
+        if (!sync) return;
+        for (const childId of sync.childIds) await updateTicketStatus(childId, sync.statusId);
+    } catch (err: any) {
+        console.error(`Error updating child tickets of #${parentId}:`, err?.message || err);
+    }
+}
+
+// == Bulk Ticket Actions ==
+export type BulkTicketAction =
+    | { type: 'set_status'; statusId: number }
+    | { type: 'set_priority'; priorityId: number }
+    | { type: 'assign'; agentId: string | null }
+    | { type: 'add_tags'; tags: string[] }
+    | { type: 'remove_tags'; tags: string[] }
+    | { type: 'merge'; targetTicketId: number } // Every other selected ticket is merged into the target
+    | { type: 'delete' };
+
+export interface BulkTicketActionResult {
+    succeeded: number[];
+    skipped: number[]; // Nothing to change, e.g. the tags were already there or the ticket is the merge target
+    failed: { ticketId: number; message: string }[];
+}
+
+// Runs the action one ticket at a time through the single-ticket functions, so each ticket gets its own
+// history entries, automation run and SLA sync. A failing ticket does not stop the others.
+export async function runBulkTicketAction(ticketIds: number[], action: BulkTicketAction): Promise<BulkTicketActionResult> {
+    const result: BulkTicketActionResult = { succeeded: [], skipped: [], failed: [] };
+    let currentTags = new Map<number, string[]>();
+    if (action.type === 'add_tags' || action.type === 'remove_tags') {
+        const { data, error } = await supabase.from('tickets').select('id, tags').in('id', ticketIds);
+        if (error) { console.error('Error fetching tickets for tagging:', error.message); throw error; }
+        currentTags = new Map((data || []).map(ticket => [ticket.id as number, normalizeTags(ticket.tags)]));
+    }
+    for (const ticketId of ticketIds) {
+        try {
+            const changed = await applyBulkTicketAction(ticketId, action, currentTags.get(ticketId) || []);
+            (changed ? result.succeeded : result.skipped).push(ticketId);
+        } catch (err: any) {
+            console.error(`Bulk action "${action.type}" failed on ticket #${ticketId}:`, err?.message || err);
+            result.failed.push({ ticketId, message: err?.message || 'Action failed' });
+        }
+    }
+    return result;
+}
+
+// Returns false when the ticket was left as it was
+async function applyBulkTicketAction(ticketId: number, action: BulkTicketAction, currentTags: string[]): Promise<boolean> {
+    switch (action.type) {
+        case 'set_status':
+            await updateTicketStatus(ticketId, action.statusId);
+            return true;
+        case 'set_priority':
+            await updateTicketPriority(ticketId, action.priorityId);
+            return true;
+        case 'assign':
+            await assignTicket(ticketId, action.agentId);
+            return true;
+        case 'add_tags':
+        case 'remove_tags': {
+            const removed = new Set(normalizeTags(action.tags));
+            const next = normalizeTags(action.type === 'add_tags' ? [...currentTags, ...action.tags] : currentTags.filter(tag => !removed.has(tag)));
+            if (next.join(',') === currentTags.join(',')) return false;
+            await updateTicketTags(ticketId, next);
+            return true;
+        }
+        case 'merge':
+            if (ticketId === action.targetTicketId) return false;
+            await mergeTickets(ticketId, action.targetTicketId);
+            return true;
+        case 'delete':
+            await deleteTicket(ticketId);
+            return true;
+    }
+}
+
+// == Saved Ticket Views ==
+const TICKET_VIEW_SELECT_QUERY = `
+    id, name, owner_id, is_shared, shared_team_id, filters, created_at, updated_at,
+    owner:profiles!ticket_views_owner_id_fkey ( full_name ), shared_team:teams!ticket_views_shared_team_id_fkey ( name )
+`;
+
+// Views shared with the user: agents get those shared with everyone or with one of their teams, admins all of them.
+// Customers have none; the ticket_views policies (supabase/migrations) apply the same rule.
+function sharedViewFilter(scope: TicketAccessScope): string | null {
+    if (scope.role === 'admin') return 'is_shared.eq.true';
+    if (scope.role !== 'agent') return null;
+    const teams = scope.teamIds.length ? `shared_team_id.is.null,shared_team_id.in.(${scope.teamIds.join(',')})` : 'shared_team_id.is.null';
+    return `and(is_shared.eq.true,or(${teams}))`;
+}
+
+// The user's own views followed by the views others shared with them
+export async function fetchTicketViews(): Promise<TicketView[]> {
+    const scope = await resolveTicketScope();
+    const userId = scope.userId;
+    const shared = sharedViewFilter(scope);
+    const { data, error } = await supabase
+        .from('ticket_views')
+        .select(TICKET_VIEW_SELECT_QUERY)
+        .or(shared ? `owner_id.eq.${userId},${shared}` : `owner_id.eq.${userId}`)
+        .order('name', { ascending: true });
+    if (error) { console.error('Error fetching ticket views:', error.message); throw error; }
+    const views = (data as unknown as TicketView[]) || [];
+    return [...views.filter(v => v.owner_id === userId), ...views.filter(v => v.owner_id !== userId)];
+}
+
+export async function createTicketView(viewData: NewTicketViewData): Promise<TicketView | null> {
+    const ownerId = await currentUserId();
+    if (!ownerId) throw new Error('Not authenticated');
+    const { data, error } = await supabase
+        .from('ticket_views')
+        .insert([{ ...viewData, name: viewData.name.trim(), owner_id: ownerId }])
+        .select(TICKET_VIEW_SELECT_QUERY)
+        .single();
+    if (error) { console.error('Error creating ticket view:', error.message); throw error; }
+    return data as unknown as TicketView | null;
+}
+
+export async function updateTicketView(viewId: number, viewData: Partial<NewTicketViewData>): Promise<TicketView | null> {
+    const { data, error } = await supabase
+        .from('ticket_views')
+        .update({ ...viewData, updated_at: new Date().toISOString() })
+        .eq('id', viewId)
+        .select(TICKET_VIEW_SELECT_QUERY)
+        .single();
+    if (error) { console.error(`Error updating ticket view #${viewId}:`, error.message); throw error; }
+    return data as unknown as TicketView | null;
+}
+
+export async function deleteTicketView(viewId: number): Promise<void> {
+    const { error } = await supabase.from('ticket_views').delete().eq('id', viewId);
+    if (error) { console.error(`Error deleting ticket view #${viewId}:`, error.message); throw error; }
+}
+
+// Ticket count per view id for the current user
+export async function countTicketsForViews(views: TicketView[]): Promise<Record<number, number>> {
+    if (views.length === 0) return {};
+    const userId = await currentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    const needsFields = views.some(v => Object.keys(v.filters.customFields || {}).length > 0);
+    const fields = needsFields ? await fetchCustomFields() : [];
+    const counts = await countTickets(views.map(v => ticketQueryFromViewFilters(v.filters, userId, fields)));
+    return Object.fromEntries(views.map((v, index) => [v.id, counts[index]]));
+}
+
+// Calls onChange after any ticket insert, update or delete the user may see (RLS applies to Realtime).
+// Returns the unsubscribe function.
+export function subscribeToTicketChanges(channelName: string, onChange: () => void): () => void {
+    const channel = supabase
+        .channel(channelName)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'tickets' }, () => onChange())
+        .subscribe();
+    return () => {
+        supabase.removeChannel(channel).catch(err => console.error(`Error removing channel ${channelName}:`, err));
+    };
+}
+
+// == Canned Responses ==
+// Ticket changes a macro makes after posting its reply; a response without actions only inserts text
+export interface CannedResponseActions {
+  status_id?: number | null;
+  priority_id?: number | null;
+  assignee?: 'me' | 'unassigned' | string | null; // 'me' is the agent applying the macro
+}
+
+export interface CannedResponse {
+  id: number;
+  title: string;
+  body: string; // May contain placeholders, see lib/cannedResponses.ts
+  actions: CannedResponseActions | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type NewCannedResponseData = Pick<CannedResponse, 'title' | 'body' | 'actions'>;
+
+const CANNED_RESPONSE_SELECT_QUERY = 'id, title, body, actions, created_by, created_at, updated_at';
+
+export function isMacro(response: Pick<CannedResponse, 'actions'>): boolean {
+    const actions = response.actions;
+    return !!actions && (!!actions.status_id || !!actions.priority_id || !!actions.assignee);
+}
+
+export async function fetchCannedResponses(): Promise<CannedResponse[]> {
+    const { data, error } = await supabase.from('canned_responses').select(CANNED_RESPONSE_SELECT_QUERY).order('title', { ascending: true });
+    if (error) { console.error('Error fetching canned responses:', error.message); throw error; }
+    return (data as unknown as CannedResponse[]) || [];
+}
+
+export async function createCannedResponse(responseData: NewCannedResponseData): Promise<CannedResponse | null> {
+    const { data, error } = await supabase
+        .from('canned_responses')
+        .insert([{ ...responseData, title: responseData.title.trim(), created_by: await currentUserId() }])
+        .select(CANNED_RESPONSE_SELECT_QUERY)
+        .single();
+    if (error) { console.error('Error creating canned response:', error.message); throw error; }
+    return data as unknown as CannedResponse | null;
+}
+
+export async function updateCannedResponse(id: number, updates: Partial<NewCannedResponseData>): Promise<CannedResponse | null> {
+    const { data, error } = await supabase
+        .from('canned_responses')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(CANNED_RESPONSE_SELECT_QUERY)
+        .single();
+    if (error) { console.error(`Error updating canned response #${id}:`, error.message); throw error; }
+    return data as unknown as CannedResponse | null;
+}
+
+export async function deleteCannedResponse(id: number): Promise<void> {
+    const { error } = await supabase.from('canned_responses').delete().eq('id', id);
+    if (error) { console.error(`Error deleting canned response #${id}:`, error.message); throw error; }
+}
+
+// Posts the already rendered reply as a public comment, then applies the macro's changes through the
+// single-ticket functions so each change gets its history entry, automation run and SLA sync.
+// The status goes last because it may resolve linked child tickets.
+export async function applyMacro(ticket: Ticket, replyText: string, actions: CannedResponseActions): Promise<Ticket | null> {
+    const userId = await currentUserId();
+    if (!userId) throw new Error('Not authenticated');
+
+    if (replyText.trim()) await addCommentToTicket({ ticket_id: ticket.id, user_id: userId, comment_text: replyText.trim(), is_internal_note: false });
+    let updated: Ticket | null = ticket;
+    if (actions.priority_id && actions.priority_id !== ticket.priority_id) updated = await updateTicketPriority(ticket.id, actions.priority_id);
+    if (actions.assignee) {
+        const assigneeId = actions.assignee === 'me' ? userId : actions.assignee === 'unassigned' ? null : actions.assignee;
+        if (assigneeId !== (ticket.assignee_id ?? null)) updated = await assignTicket(ticket.id, assigneeId);
+    }
+    if (actions.status_id && actions.status_id !== ticket.status_id) updated = await updateTicketStatus(ticket.id, actions.status_id);
+    return updated === ticket ? fetchTicketById(ticket.id) : updated;
+}
+
+// == Time Tracking ==
+// Time an agent spent on a ticket, either a timer (minutes stay null while it runs) or a manual entry
+export interface TimeEntry {
+  id: number;
+  ticket_id: number;
+  agent_id: string;
+  comment_id?: number | null; // The reply or note the work was for
+  started_at: string;
+  ended_at?: string | null;
+  minutes: number | null;
+  note?: string | null;
+  created_at: string;
+  agent?: { full_name: string | null } | null;
+}
+
+export interface NewTimeEntryData {
+  ticket_id: number;
+  minutes: number;
+  started_at?: string; // Defaults to now; manual entries may be back-dated
+  comment_id?: number | null;
+  note?: string | null;
+}
+
+const TIME_ENTRY_SELECT_QUERY = 'id, ticket_id, agent_id, comment_id, started_at, ended_at, minutes, note, created_at, agent:profiles!ticket_time_entries_agent_id_fkey ( full_name )';
+
+export async function fetchTimeEntries(ticketId: number): Promise<TimeEntry[]> {
+    const { data, error } = await supabase.from('ticket_time_entries').select(TIME_ENTRY_SELECT_QUERY).eq('ticket_id', ticketId).order('started_at', { ascending: false });
+    if (error) { console.error(`Error fetching time entries for ticket #${ticketId}:`, error.message); throw error; }
+    return (data as unknown as TimeEntry[]) || [];
+}
+
+// Each agent can run one timer per ticket
+export async function startTicketTimer(ticketId: number): Promise<TimeEntry | null> {
+    const agentId = await currentUserId();
+    if (!agentId) throw new Error('Not authenticated');
+    const { data: running, error: runningError } = await supabase.from('ticket_time_entries').select('id').eq('ticket_id', ticketId).eq('agent_id', agentId).is('minutes', null).limit(1);
+    if (runningError) { console.error(`Error checking timers for ticket #${ticketId}:`, runningError.message); throw runningError; }
+    if (running && running.length > 0) throw new Error('Your timer is already running on this ticket.');
+
+    const { data, error } = await supabase
+        .from('ticket_time_entries')
+        .insert([{ ticket_id: ticketId, agent_id: agentId, started_at: new Date().toISOString(), minutes: null }])
+        .select(TIME_ENTRY_SELECT_QUERY)
+        .single();
+    if (error) { console.error(`Error starting timer on ticket #${ticketId}:`, error.message); throw error; }
+    return data as unknown as TimeEntry | null;
+}
+
+export async function stopTicketTimer(entry: TimeEntry, details: Pick<NewTimeEntryData, 'comment_id' | 'note'> = {}): Promise<TimeEntry | null> {
+    const endedAt = new Date();
+    const { data, error } = await supabase
+        .from('ticket_time_entries')
+        .update({ ...details, ended_at: endedAt.toISOString(), minutes: timerMinutes(entry.started_at, endedAt) })
+        .eq('id', entry.id)
+        .is('minutes', null) // Already stopped elsewhere, e.g. in another tab
+        .select(TIME_ENTRY_SELECT_QUERY)
+        .maybeSingle();
+    if (error) { console.error(`Error stopping timer #${entry.id}:`, error.message); throw error; }
+    if (!data) throw new Error('This timer was already stopped.');
+    return data as unknown as TimeEntry | null;
+}
+
+export async function logTicketTime(entryData: NewTimeEntryData): Promise<TimeEntry | null> {
+    const agentId = await currentUserId();
+    if (!agentId) throw new Error('Not authenticated');
+    if (!Number.isInteger(entryData.minutes) || entryData.minutes <= 0) throw new Error('Enter a duration of at least one minute.');
+    const startedAt = entryData.started_at || new Date().toISOString();
+    const { data, error } = await supabase
+        .from('ticket_time_entries')
+        .insert([{
+            ...entryData,
+            agent_id: agentId,
+            started_at: startedAt,
+            ended_at: new Date(new Date(startedAt).getTime() + entryData.minutes * 60000).toISOString(),
+        }])
+        .select(TIME_ENTRY_SELECT_QUERY)
+        .single();
+    if (error) { console.error(`Error logging time on ticket #${entryData.ticket_id}:`, error.message); throw error; }
+    return data as unknown as TimeEntry | null;
+}
+
+export async function deleteTimeEntry(id: number): Promise<void> {
+    const { error } = await supabase.from('ticket_time_entries').delete().eq('id', id);
+    if (error) { console.error(`Error deleting time entry #${id}:`, error.message); throw error; }
+}
+
+// == Customer Satisfaction ==
+// The rating page is opened from the CSAT notification and works without a session: the token is the credential
+
+export async function fetchCsatSurvey(token: string): Promise<PublicCsatSurvey> {
+    const response = await fetch(`/api/csat/${encodeURIComponent(token)}`);
+    const body = await response.json();
+    if (!response.ok) {
+        console.error('Error fetching CSAT survey:', body.error);
+        throw new Error(body.error || 'Failed to load the survey');
+    }
+    return body.survey as PublicCsatSurvey;
+}
+
+export async function submitCsatResponse(token: string, score: number, comment: string): Promise<PublicCsatSurvey> {
+    const response = await fetch(`/api/csat/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ score, comment: comment.trim() || null }),
+    });
+    const body = await response.json();
+    if (!response.ok) {
+        console.error('Error submitting CSAT response:', body.error);
+        throw new Error(body.error || 'Failed to save your rating');
+    }
+    return body.survey as PublicCsatSurvey;
+}
+
+// == Auto-Assignment ==
+export type AssignmentStrategy = 'round_robin' | 'least_open' | 'least_recent';
+
+// Per ticket type; types without a row are not auto-assigned
+export interface TicketAssignmentSetting {
+  ticket_type_id: number;
+  is_enabled: boolean;
+  strategy: AssignmentStrategy;
+  last_assigned_agent_id?: string | null; // Round robin position
+  updated_at?: string;
+}
+
+const ASSIGNMENT_SETTING_SELECT_QUERY = 'ticket_type_id, is_enabled, strategy, last_assigned_agent_id, updated_at';
+
+export async function fetchAssignmentSettings(): Promise<TicketAssignmentSetting[]> {
+    const { data, error } = await supabase.from('ticket_assignment_settings').select(ASSIGNMENT_SETTING_SELECT_QUERY);
+    if (error) { console.error('Error fetching assignment settings:', error.message); throw error; }
+    return (data as TicketAssignmentSetting[]) || [];
+}
+
+export async function saveAssignmentSetting(ticketTypeId: number, setting: Pick<TicketAssignmentSetting, 'is_enabled' | 'strategy'>): Promise<TicketAssignmentSetting | null> {
+    const { data, error } = await supabase
+        .from('ticket_assignment_settings')
+        .upsert({ ticket_type_id: ticketTypeId, ...setting, updated_at: new Date().toISOString() }, { onConflict: 'ticket_type_id' })
+        .select(ASSIGNMENT_SETTING_SELECT_QUERY)
+        .single();
+    if (error) { console.error(`Error saving assignment setting for ticket type #${ticketTypeId}:`, error.message); throw error; }
+    return data as TicketAssignmentSetting | null;
+}
+
+// == Agent Availability ==
+// Routing skips agents who are away or offline, out of office, or at their open-ticket limit (see lib/agentAvailability.ts)
+export type AgentAvailabilityStatus = 'available' | 'away' | 'offline';
+
+export interface OutOfOfficePeriod {
+  id: number;
+  agent_id: string;
+  starts_at: string;
+  ends_at: string;
+  note?: string | null;
+  created_at: string;
+}
+
+export type NewOutOfOfficePeriodData = Pick<OutOfOfficePeriod, 'agent_id' | 'starts_at' | 'ends_at' | 'note'>;
+
+export interface AgentAvailability {
+  agent_id: string;
+  full_name?: string | null;
+  availability_status: AgentAvailabilityStatus;
+  max_open_tickets: number | null;
+  open_ticket_count: number;
+  out_of_office: OutOfOfficePeriod | null; // The period covering now, if any
+  unavailable_reason: string | null; // Null when the agent can take another ticket
+}
+
+const OUT_OF_OFFICE_SELECT_QUERY = 'id, agent_id, starts_at, ends_at, note, created_at';
+
+export async function fetchAgentAvailability(agentIds: string[]): Promise<AgentAvailability[]> {
+    try {
+        return await loadAgentAvailability(supabase, agentIds);
+    } catch (error: any) {
+        console.error('Error fetching agent availability:', error.message);
+        throw error;
+    }
+}
+
+export async function updateAgentAvailability(agentId: string, updates: Pick<UserProfile, 'availability_status' | 'max_open_tickets'>): Promise<void> {
+    if (updates.max_open_tickets !== undefined && updates.max_open_tickets !== null && (!Number.isInteger(updates.max_open_tickets) || updates.max_open_tickets < 0)) {
+        throw new Error('The ticket limit must be a whole number of 0 or more.');
+    }
+    const { error } = await supabase.from('profiles').update({ ...updates, updated_at: new Date().toISOString() }).eq('id', agentId);
+    if (error) { console.error(`Error updating availability of agent ${agentId}:`, error.message); throw error; }
+}
+
+// Current and upcoming periods, soonest first
+export async function fetchOutOfOfficePeriods(agentId: string): Promise<OutOfOfficePeriod[]> {
+    const { data, error } = await supabase
+        .from('agent_out_of_office')
+        .select(OUT_OF_OFFICE_SELECT_QUERY)
+        .eq('agent_id', agentId)
+        .gt('ends_at', new Date().toISOString())
+        .order('starts_at', { ascending: true });
+    if (error) { console.error(`Error fetching out-of-office periods for agent ${agentId}:`, error.message); throw error; }
+    return (data as OutOfOfficePeriod[]) || [];
+}
+
+export async function createOutOfOfficePeriod(periodData: NewOutOfOfficePeriodData): Promise<OutOfOfficePeriod | null> {
+    if (new Date(periodData.ends_at).getTime() <= new Date(periodData.starts_at).getTime()) {
+        throw new Error('The out-of-office period must end after it starts.');
+    }
+    const { data, error } = await supabase
+        .from('agent_out_of_office')
+        .insert([{ ...periodData, note: periodData.note?.trim() || null }])
+        .select(OUT_OF_OFFICE_SELECT_QUERY)
+        .single();
+    if (error) { console.error(`Error scheduling out of office for agent ${periodData.agent_id}:`, error.message); throw error; }
+    return data as OutOfOfficePeriod | null;
+}
+
+export async function deleteOutOfOfficePeriod(id: number): Promise<void> {
+    const { error } = await supabase.from('agent_out_of_office').delete().eq('id', id);
+    if (error) { console.error(`Error deleting out-of-office period #${id}:`, error.message); throw error; }
+}
+
+// Hands the agent's open tickets to other available agents; tickets nobody can take are unassigned
+export async function redistributeAgentTickets(agentId: string): Promise<RedistributionResult> {
+    return callApi<RedistributionResult>('/api/agents/redistribute', { agentId });
+}
+
+// == Teams ==
+// Teams have members and leads, and tickets can be assigned to a team's queue (tickets.team_id) for a member to pick up
+export interface TeamMember {
+  team_id: number;
+  agent_id: string;
+  is_lead: boolean; // Leads see all of their team's tickets, not just the queue
+  agent?: { id: string; full_name: string | null } | null;
+}
+
+export interface Team {
+  id: number;
+  name: string;
+  description?: string | null;
+  created_at: string;
+  updated_at?: string;
+  members: TeamMember[];
+}
+
+export type NewTeamData = Pick<Team, 'name' | 'description'>;
+
+const TEAM_SELECT_QUERY = `
+  id, name, description, created_at, updated_at,
+  members:team_members ( team_id, agent_id, is_lead, agent:profiles!team_members_agent_id_fkey ( id, full_name ) )
+`;
+
+export async function fetchTeams(): Promise<Team[]> {
+    const { data, error } = await supabase.from('teams').select(TEAM_SELECT_QUERY).order('name', { ascending: true });
+    if (error) { console.error('Error fetching teams:', error.message); throw error; }
+    return (data as unknown as Team[]) || [];
+}
+
+export async function createTeam(teamData: NewTeamData): Promise<Team | null> {
+    const { data, error } = await supabase.from('teams').insert([teamData]).select(TEAM_SELECT_QUERY).single();
+    if (error) { console.error('Error creating team:', error.message); throw error; }
+    return data as unknown as Team | null;
+}
+
+export async function updateTeam(id: number, updates: Partial<NewTeamData>): Promise<Team | null> {
+    const { data, error } = await supabase.from('teams').update({ ...updates, updated_at: new Date().toISOString() }).eq('id', id).select(TEAM_SELECT_QUERY).single();
+    if (error) { console.error(`Error updating team #${id}:`, error.message); throw error; }
+    return data as unknown as Team | null;
+}
+
+// Tickets in the team's queue keep their place in the general queue (team_id is cleared by the foreign key)
+export async function deleteTeam(id: number): Promise<void> {
+    const { error } = await supabase.from('teams').delete().eq('id', id);
+    if (error) { console.error(`Error deleting team #${id}:`, error.message); throw error; }
+}
+
+export async function saveTeamMember(teamId: number, agentId: string, isLead: boolean): Promise<void> {
+    const { error } = await supabase.from('team_members').upsert({ team_id: teamId, agent_id: agentId, is_lead: isLead }, { onConflict: 'team_id,agent_id' });
+    if (error) { console.error(`Error saving member ${agentId} of team #${teamId}:`, error.message); throw error; }
+}
+
+export async function removeTeamMember(teamId: number, agentId: string): Promise<void> {
+    const { error } = await supabase.from('team_members').delete().eq('team_id', teamId).eq('agent_id', agentId);
+    if (error) { console.error(`Error removing member ${agentId} from team #${teamId}:`, error.message); throw error; }
+}
+
+// Teams the current user belongs to
+export async function fetchMyTeamMemberships(): Promise<TeamMember[]> {
+    const userId = await currentUserId();
+    if (!userId) return [];
+    const { data, error } = await supabase.from('team_members').select('team_id, agent_id, is_lead').eq('agent_id', userId);
+    if (error) { console.error('Error fetching team memberships:', error.message); throw error; }
+    return (data as TeamMember[]) || [];
+}
+
+// Puts the ticket in the team's queue: the current assignee is removed so any member can pick it up.
+// A null team takes the ticket out of team queues and leaves the assignee as it is.
+export async function assignTicketToTeam(ticketId: number, teamId: number | null): Promise<Ticket | null> {
+    const updates = teamId === null ? { team_id: null } : { team_id: teamId, assignee_id: null };
+    const { data, error } = await supabase.from('tickets').update({ ...updates, updated_at: new Date().toISOString() }).eq('id', ticketId).select(TICKET_SELECT_QUERY).single();
+    if (error) { console.error(`Error assigning ticket #${ticketId} to team:`, error.message); throw error; }
+    if ((await followUpTicketChanges()).includes(ticketId)) return fetchTicketById(ticketId);
+    return data as unknown as Ticket | null;
+}
+
+// Takes an unassigned ticket from its queue. Fails when someone else picked it up first.
+export async function pickUpTicket(ticketId: number): Promise<Ticket | null> {
+    const userId = await currentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    const { data, error } = await supabase
+        .from('tickets')
+        .update({ assignee_id: userId, updated_at: new Date().toISOString() })
+        .eq('id', ticketId)
+        .is('assignee_id', null)
+        .select(TICKET_SELECT_QUERY)
+        .maybeSingle();
+    if (error) { console.error(`Error picking up ticket #${ticketId}:`, error.message); throw error; }
+    if (!data) throw new Error('This ticket was already picked up by someone else.');
+    if ((await followUpTicketChanges()).includes(ticketId)) return fetchTicketById(ticketId);
+    return data as unknown as Ticket | null;
+}
+
+// == Escalation Policies ==
+// Ordered tiers a ticket can be escalated through (see lib/escalations.ts). Level 1 is the first escalation.
+export type EscalationTargetType = 'agent' | 'team' | 'specialization';
+
+export interface EscalationLevel {
+  id?: number;
+  policy_id?: number;
+  position: number; // 1-based order within the policy
+  target_type: EscalationTargetType;
+  agent_id?: string | null;
+  team_id?: number | null;
+  specialization_id?: number | null;
+  threshold_minutes: number; // Time at the previous level after which the ticket is due for this one
+  agent?: { full_name: string | null } | null;
+  team?: { name: string } | null;
+  specialization?: { name: string } | null;
+}
+
+export interface EscalationPolicy {
+  id: number;
+  name: string;
+  priority_id?: number | null; // null matches any priority
+  ticket_type_id?: number | null; // null matches any type
+  is_active: boolean;
+  created_at?: string;
+  ticket_priorities?: { name: string } | null;
+  ticket_types?: { name: string } | null;
+  levels: EscalationLevel[]; // Sorted by position
+}
+
+export interface NewEscalationPolicyData {
+  name: string;
+  priority_id?: number | null;
+  ticket_type_id?: number | null;
+  is_active?: boolean;
+  levels: Pick<EscalationLevel, 'target_type' | 'agent_id' | 'team_id' | 'specialization_id' | 'threshold_minutes'>[];
+}
+
+const ESCALATION_POLICY_SELECT_QUERY = `
+  id, name, priority_id, ticket_type_id, is_active, created_at,
+  ticket_priorities:ticket_priorities!escalation_policies_priority_id_fkey ( name ),
+  ticket_types:ticket_types!escalation_policies_ticket_type_id_fkey ( name ),
+  levels:escalation_levels ( id, policy_id, position, target_type, agent_id, team_id, specialization_id, threshold_minutes,
+    agent:profiles!escalation_levels_agent_id_fkey ( full_name ),
+    team:teams!escalation_levels_team_id_fkey ( name ),
+    specialization:specializations!escalation_levels_specialization_id_fkey ( name ) )
+`;
+
+const withSortedLevels = (policy: EscalationPolicy): EscalationPolicy =>
+    ({ ...policy, levels: [...(policy.levels || [])].sort((a, b) => a.position - b.position) });
+
+export async function fetchEscalationPolicies(): Promise<EscalationPolicy[]> {
+    const { data, error } = await supabase.from('escalation_policies').select(ESCALATION_POLICY_SELECT_QUERY).order('name', { ascending: true });
+    if (error) { console.error('Error fetching escalation policies:', error.message); throw error; }
+    return ((data as unknown as EscalationPolicy[]) || []).map(withSortedLevels);
+}
+
+async function fetchEscalationPolicyById(id: number): Promise<EscalationPolicy | null> {
+    const { data, error } = await supabase.from('escalation_policies').select(ESCALATION_POLICY_SELECT_QUERY).eq('id', id).single();
+    if (error) { console.error(`Error fetching escalation policy #${id}:`, error.message); throw error; }
+    return data ? withSortedLevels(data as unknown as EscalationPolicy) : null;
+}
+
+async function insertEscalationLevels(policyId: number, levels: NewEscalationPolicyData['levels']): Promise<void> {
+    if (levels.length === 0) return;
+    const rows = levels.map((level, index) => ({
+        policy_id: policyId,
+        position: index + 1,
+        target_type: level.target_type,
+        agent_id: level.target_type === 'agent' ? level.agent_id || null : null,
+        team_id: level.target_type === 'team' ? level.team_id || null : null,
+        specialization_id: level.target_type === 'specialization' ? level.specialization_id || null : null,
+        threshold_minutes: level.threshold_minutes,
+    }));
+    const { error } = await supabase.from('escalation_levels').insert(rows);
+    if (error) { console.error(`Error saving levels of escalation policy #${policyId}:`, error.message); throw error; }
+}
+
+export async function createEscalationPolicy(policyData: NewEscalationPolicyData): Promise<EscalationPolicy | null> {
+    const problem = validateEscalationLevels(policyData.levels);
+    if (problem) throw new Error(problem);
+    const { levels, ...policy } = policyData;
+    const { data, error } = await supabase.from('escalation_policies').insert({ ...policy, is_active: policy.is_active ?? true }).select('id').single();
+    if (error) { console.error('Error creating escalation policy:', error.message); throw error; }
+    await insertEscalationLevels(data.id, levels);
+    return fetchEscalationPolicyById(data.id);
+}
+
+// Levels are replaced as a whole; tickets keep their level number, so reordering moves where they continue from
+export async function updateEscalationPolicy(id: number, updates: Partial<NewEscalationPolicyData>): Promise<EscalationPolicy | null> {
+    const { levels, ...policy } = updates;
+    if (levels) {
+        const problem = validateEscalationLevels(levels);
+        if (problem) throw new Error(problem);
+    }
+    const { error } = await supabase.from('escalation_policies').update(policy).eq('id', id);
+    if (error) { console.error(`Error updating escalation policy #${id}:`, error.message); throw error; }
+    if (levels) {
+        const { error: deleteError } = await supabase.from('escalation_levels').delete().eq('policy_id', id);
+        if (deleteError) { console.error(`Error replacing levels of escalation policy #${id}:`, deleteError.message); throw deleteError; }
+        await insertEscalationLevels(id, levels);
+    }
+    return fetchEscalationPolicyById(id);
+}
+
+export async function deleteEscalationPolicy(id: number): Promise<void> {
+    const { error } = await supabase.from('escalation_policies').delete().eq('id', id);
+    if (error) { console.error(`Error deleting escalation policy #${id}:`, error.message); throw error; }
+}
+
+// Moves the ticket to the next level of its escalation policy. Runs on the server (app/api/tickets/escalate)
+// because the new owners are notified and may not be able to see the ticket yet.
+export async function escalateTicket(ticketId: number, reason: string): Promise<Ticket | null> {
+    await callApi('/api/tickets/escalate', { ticketId, reason });
+    return fetchTicketById(ticketId);
+}
+
+// == Ticket Presence ==
+// Who else has a ticket open, over a Realtime presence channel per ticket. Nothing is stored; a user's entry
+// disappears when they close the ticket or lose their connection.
+export interface TicketViewer {
+  user_id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  is_typing: boolean;
+  joined_at: string;
+}
+
+export interface TicketPresence {
+    setTyping: (isTyping: boolean) => void;
+    leave: () => void;
+}
+
+// Joins the ticket's presence channel as viewer and calls onChange with everyone else on it.
+// A user with the ticket open in several tabs is listed once, typing if they type in any of them.
+export function joinTicketPresence(ticketId: number, viewer: Pick<TicketViewer, 'user_id' | 'full_name' | 'avatar_url'>, onChange: (others: TicketViewer[]) => void): TicketPresence {
+    const channelName = `ticket_presence_${ticketId}`;
+    const state: TicketViewer = { ...viewer, is_typing: false, joined_at: new Date().toISOString() };
+    let isSubscribed = false;
+
+    const channel = supabase.channel(channelName, { config: { presence: { key: viewer.user_id } } });
+    channel
+        .on('presence', { event: 'sync' }, () => {
+            const others = Object.entries(channel.presenceState<TicketViewer>())
+                .filter(([userId, entries]) => userId !== viewer.user_id && entries.length > 0)
+                .map(([, entries]) => ({ ...entries[0], is_typing: entries.some(entry => entry.is_typing) }))
+                .sort((a, b) => a.joined_at.localeCompare(b.joined_at));
+            onChange(others);
+        })
+        .subscribe(status => {
+            if (status !== 'SUBSCRIBED') return;
+            isSubscribed = true;
+            channel.track(state).catch(err => console.error(`Error joining ${channelName}:`, err));
+        });
+
+    return {
+        setTyping: (isTyping: boolean) => {
+            if (state.is_typing === isTyping) return;
+            state.is_typing = isTyping;
+            if (isSubscribed) channel.track(state).catch(err => console.error(`Error updating ${channelName}:`, err));
+        },
+        leave: () => {
+            supabase.removeChannel(channel).catch(err => console.error(`Error removing channel ${channelName}:`, err));
+        },
+    };
+}
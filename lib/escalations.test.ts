@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import type { BusinessCalendar, EscalationLevel, EscalationPolicy } from './dataService';
+import { escalateOverdueTickets, escalationDueAt, escalationProblem, nextEscalationLevel, validateEscalationLevels } from './escalations';
+import type { EscalationTicket } from './escalations';
+import { callArgs, createSupabaseMock, filterValue, hasCall } from './testing/supabaseMock';
+import type { MockResult } from './testing/supabaseMock';
+
+const tier1: EscalationLevel = { position: 1, target_type: 'team', team_id: 1, threshold_minutes: 60, team: { name: 'Tier 1' } };
+const tier2: EscalationLevel = { position: 2, target_type: 'team', team_id: 2, threshold_minutes: 240, team: { name: 'Tier 2' } };
+const policy: EscalationPolicy = { id: 1, name: 'Standard', is_active: true, levels: [tier1, tier2] };
+
+// Monday to Friday, 09:00-17:00 in Berlin (UTC+1 in March 2025)
+const weekdays = { start: '09:00', end: '17:00' };
+const berlin: BusinessCalendar = { id: 1, name: 'Berlin office', timezone: 'Europe/Berlin', schedule: [null, weekdays, weekdays, weekdays, weekdays, weekdays, null], holidays: [] };
+const businessHours = { sla_policies: { business_calendar: berlin } };
+
+const ticket = (id: number, overrides: Partial<EscalationTicket> = {}): EscalationTicket => ({
+    id,
+    subject: 'Cannot log in',
+    created_at: '2025-03-03T10:00:00Z',
+    priority_id: 4,
+    escalation_level: 0,
+    escalated_at: null,
+    merged_into_ticket_id: null,
+    ticket_statuses: { name: 'Open' },
+    ...overrides,
+});
+
+describe('nextEscalationLevel', () => {
+    it('walks the levels in order and stops after the last one', () => {
+        expect(nextEscalationLevel(policy, null)).toBe(tier1);
+        expect(nextEscalationLevel(policy, 1)).toBe(tier2);
+        expect(nextEscalationLevel(policy, 2)).toBeNull();
+    });
+});
+
+describe('escalationDueAt', () => {
+    it('counts from creation until the first escalation, then from the last escalation', () => {
+        expect(escalationDueAt(tier1, ticket(1))?.toISOString()).toBe('2025-03-03T11:00:00.000Z');
+        expect(escalationDueAt(tier2, ticket(1, { escalated_at: '2025-03-03T12:00:00Z' }))?.toISOString()).toBe('2025-03-03T16:00:00.000Z');
+    });
+
+    it('stops once staff replied to the current owners\' ticket', () => {
+        expect(escalationDueAt(tier1, ticket(1), '2025-03-03T10:20:00Z')).toBeNull();
+        // A reply from before the last escalation does not count for the new owners
+        expect(escalationDueAt(tier2, ticket(1, { escalated_at: '2025-03-03T12:00:00Z' }), '2025-03-03T10:20:00Z')?.toISOString()).toBe('2025-03-03T16:00:00.000Z');
+    });
+
+    it('counts business minutes when the ticket\'s SLA policy has a calendar', () => {
+        // Friday 16:30 local time: 30 minutes on Friday, the other 30 on Monday morning
+        expect(escalationDueAt(tier1, ticket(1, { created_at: '2025-03-07T15:30:00Z', sla_clock: businessHours }))?.toISOString()).toBe('2025-03-10T08:30:00.000Z');
+    });
+});
+
+describe('escalationProblem', () => {
+    it('allows open tickets below the last level of their policy', () => {
+        expect(escalationProblem({ ticket: ticket(1), policy })).toBeNull();
+    });
+
+    it('explains why a ticket cannot be escalated', () => {
+        expect(escalationProblem({ ticket: ticket(1, { merged_into_ticket_id: 9 }), policy })).toBe('Ticket #1 was merged into #9');
+        expect(escalationProblem({ ticket: ticket(1, { ticket_statuses: { name: 'Resolved' } }), policy })).toBe('Resolved and closed tickets cannot be escalated');
+        expect(escalationProblem({ ticket: ticket(1), policy: null })).toBe('No escalation policy applies to this ticket');
+        expect(escalationProblem({ ticket: ticket(1, { escalation_level: 2 }), policy })).toBe('Ticket #1 is already at the last level of "Standard"');
+    });
+});
+
+describe('validateEscalationLevels', () => {
+    it('needs at least one level, each with a target and a threshold', () => {
+        expect(validateEscalationLevels([])).toBe('An escalation policy needs at least one level');
+        expect(validateEscalationLevels([{ target_type: 'agent', agent_id: 'agent-1', threshold_minutes: 30 }])).toBeNull();
+        expect(validateEscalationLevels([{ target_type: 'specialization', specialization_id: null, threshold_minutes: 30 }])).toBe('Level 1 has no specialization selected');
+        expect(validateEscalationLevels([
+            { target_type: 'team', team_id: 1, threshold_minutes: 30 },
+            { target_type: 'team', team_id: 2, threshold_minutes: 0 },
+        ])).toBe('Level 2 needs a time threshold');
+    });
+});
+
+describe('escalateOverdueTickets', () => {
+    const now = new Date('2025-03-03T14:30:00Z'); // Monday
+
+    // One page of open tickets with the given staff replies; team members and writes succeed unless overridden
+    const database = (tickets: EscalationTicket[], replies: { ticket_id: number; created_at: string }[], overrides: Record<string, MockResult> = {}) =>
+        createSupabaseMock(query => {
+            if (query.table && overrides[query.table]) return overrides[query.table];
+            if (query.table === 'escalation_policies') return { data: [policy] };
+            if (query.table === 'ticket_statuses') return { data: [{ id: 1, name: 'Open' }, { id: 4, name: 'Closed' }] };
+            if (query.table === 'ticket_comments') return { data: replies };
+            if (query.table === 'team_members') return { data: [{ agent_id: 'agent-7' }] };
+            if (query.table === 'tickets' && !hasCall(query, 'update') && !hasCall(query, 'maybeSingle')) return { data: tickets };
+            return undefined;
+        });
+    const escalatedIds = (mock: ReturnType<typeof database>) =>
+        mock.queries.filter(q => q.table === 'tickets' && hasCall(q, 'update')).map(q => filterValue(q, 'eq', 'id'));
+
+    it('escalates open tickets nobody responded to within the threshold', async () => {
+        const mock = database([
+            ticket(1), // Unanswered since 10:00
+            ticket(2), // Answered at 10:20
+            ticket(3, { created_at: '2025-03-03T14:00:00Z' }), // Not due yet
+            ticket(4, { escalation_level: 1, escalated_at: '2025-03-03T10:00:00Z' }), // Only answered before the escalation
+        ], [
+            { ticket_id: 4, created_at: '2025-03-03T09:50:00Z' },
+            { ticket_id: 2, created_at: '2025-03-03T10:20:00Z' },
+        ]);
+
+        expect(await escalateOverdueTickets(mock.client, null, now)).toEqual({ escalated: 2, failed: 0 });
+        expect(escalatedIds(mock)).toEqual([1, 4]);
+        const update = mock.queries.find(q => q.table === 'tickets' && hasCall(q, 'update'))!;
+        expect(callArgs(update, 'update')![0]).toMatchObject({ assignee_id: null, team_id: 1, escalation_level: 1 });
+
+        const scan = mock.queries.find(q => q.table === 'tickets')!;
+        expect(callArgs(scan, 'not')).toEqual(['status_id', 'in', '(4)']);
+        // Replies are only looked up for tickets past their threshold
+        expect(callArgs(mock.queries.find(q => q.table === 'ticket_comments')!, 'in')).toEqual(['ticket_id', [1, 2, 4]]);
+    });
+
+    it('records the reason and notifies the new owners', async () => {
+        const mock = database([ticket(1)], []);
+        await escalateOverdueTickets(mock.client, null, now);
+
+        const event = mock.queries.find(q => q.table === 'ticket_events')!;
+        expect(callArgs(event, 'insert')![0]).toEqual([expect.objectContaining({ event_type: 'escalated', new_value: 'Tier 1 team', metadata: expect.objectContaining({ reason: 'No response within 1h' }) })]);
+        const notifications = mock.queries.find(q => q.table === 'notifications')!;
+        expect(callArgs(notifications, 'insert')![0]).toEqual([expect.objectContaining({ user_id: 'agent-7', ticket_id: 1, type: 'ticket_escalated' })]);
+    });
+
+    it('leaves weekends out of business-hours clocks', async () => {
+        const saturday = new Date('2025-03-08T12:00:00Z');
+        const mock = database([ticket(1, { created_at: '2025-03-07T15:30:00Z', sla_clock: businessHours })], []);
+        expect(await escalateOverdueTickets(mock.client, null, saturday)).toEqual({ escalated: 0, failed: 0 });
+        expect(mock.queries.some(q => q.table === 'ticket_comments')).toBe(false);
+    });
+
+    it('counts tickets that could not be escalated and carries on', async () => {
+        const mock = database([ticket(1), ticket(2)], [], { team_members: { error: { message: 'connection lost' } } });
+        expect(await escalateOverdueTickets(mock.client, null, now)).toEqual({ escalated: 0, failed: 2 });
+    });
+});
@@ -0,0 +1,231 @@
+// lib/escalations.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BusinessCalendar, EscalationLevel, EscalationPolicy, NewEscalationPolicyData } from './dataService';
+import { loadAgentAvailability } from './agentAvailability';
+import { addElapsedMinutes, BUSINESS_CALENDAR_COLUMNS } from './businessHours';
+import { fetchLastResponseTimes, formatSlaDuration, pickTicketPolicy } from './sla';
+import { fetchTicketAuditSnapshot, recordTicketChanges, recordTicketEvents } from './ticketEvents';
+
+// Escalation policies: ordered levels, each owned by an agent, a team queue or the least busy available agent
+// of a specialization. The helpers at the top are pure and used by the admin page and the ticket dialog;
+// escalateTicket runs server-side with the service role (app/api/tickets/escalate) because it notifies the new owners,
+// and escalateOverdueTickets moves tickets on by itself once a level's threshold has passed (the cron scheduler).
+
+const RESOLVED_STATUS_NAMES = ['resolved', 'closed'];
+export const ESCALATION_REASON_MAX_LENGTH = 1000;
+
+// The level after currentLevel (0 when the ticket was never escalated), or null at the top of the policy
+export function nextEscalationLevel(policy: EscalationPolicy, currentLevel: number | null | undefined): EscalationLevel | null {
+    return policy.levels[currentLevel || 0] || null;
+}
+
+export function describeEscalationTarget(level: EscalationLevel): string {
+    switch (level.target_type) {
+        case 'agent': return level.agent?.full_name || 'Unknown agent';
+        case 'team': return `${level.team?.name || 'Unknown'} team`;
+        case 'specialization': return `Least busy ${level.specialization?.name || 'unknown'} agent`;
+    }
+}
+
+// Ticket fields the escalation clock reads. The calendar is the one of the ticket's SLA policy.
+export interface EscalationClockTicket {
+    created_at: string;
+    escalated_at?: string | null;
+    sla_clock?: { sla_policies?: { business_calendar?: BusinessCalendar | null } | null } | null;
+}
+
+// When the next level is due, or null while it is not running. The clock waits for a response from the current
+// owners: it starts when they got the ticket (the last escalation, or creation at level 0) and stops once staff
+// reply publicly (lastResponseAt). Like SLA targets, the threshold counts business minutes when the ticket's
+// SLA policy has a calendar.
+export function escalationDueAt(level: EscalationLevel, ticket: EscalationClockTicket, lastResponseAt?: string | null): Date | null {
+    const since = new Date(ticket.escalated_at || ticket.created_at);
+    if (lastResponseAt && new Date(lastResponseAt) >= since) return null;
+    return addElapsedMinutes(since, level.threshold_minutes, ticket.sla_clock?.sla_policies?.business_calendar);
+}
+
+// Returns why the levels cannot be saved, or null when they can
+export function validateEscalationLevels(levels: NewEscalationPolicyData['levels']): string | null {
+    if (levels.length === 0) return 'An escalation policy needs at least one level';
+    for (const [index, level] of levels.entries()) {
+        const target = level.target_type === 'agent' ? level.agent_id
+            : level.target_type === 'team' ? level.team_id
+            : level.specialization_id;
+        if (!target) return `Level ${index + 1} has no ${level.target_type} selected`;
+        if (!Number.isFinite(level.threshold_minutes) || level.threshold_minutes <= 0) return `Level ${index + 1} needs a time threshold`;
+    }
+    return null;
+}
+
+const OVERDUE_SCAN_PAGE_SIZE = 500;
+
+const ESCALATION_TICKET_COLUMNS = `
+    id, subject, created_at, priority_id, ticket_type_id, escalation_level, escalated_at, merged_into_ticket_id,
+    ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name ),
+    sla_clock:ticket_sla_clocks ( sla_policies ( business_calendar:business_calendars ( ${BUSINESS_CALENDAR_COLUMNS} ) ) )
+`;
+
+const ESCALATION_POLICY_COLUMNS = `
+    id, name, priority_id, ticket_type_id, is_active,
+    levels:escalation_levels ( id, policy_id, position, target_type, agent_id, team_id, specialization_id, threshold_minutes,
+        agent:profiles!escalation_levels_agent_id_fkey ( full_name ),
+        team:teams!escalation_levels_team_id_fkey ( name ),
+        specialization:specializations!escalation_levels_specialization_id_fkey ( name ) )
+`;
+
+export interface EscalationTicket extends EscalationClockTicket {
+    id: number;
+    subject: string;
+    priority_id: number;
+    ticket_type_id?: number | null;
+    escalation_level?: number | null;
+    merged_into_ticket_id?: number | null;
+    ticket_statuses: { name: string } | null;
+}
+
+export interface EscalationContext {
+    ticket: EscalationTicket;
+    policy: EscalationPolicy | null;
+}
+
+async function fetchActiveEscalationPolicies(supabase: SupabaseClient): Promise<EscalationPolicy[]> {
+    const { data, error } = await supabase.from('escalation_policies').select(ESCALATION_POLICY_COLUMNS).eq('is_active', true);
+    if (error) throw error;
+    return ((data || []) as unknown as EscalationPolicy[])
+        .map(p => ({ ...p, levels: [...(p.levels || [])].sort((a, b) => a.position - b.position) }));
+}
+
+export async function fetchEscalationContext(supabase: SupabaseClient, ticketId: number): Promise<EscalationContext | null> {
+    const [{ data: ticket, error: ticketError }, policies] = await Promise.all([
+        supabase.from('tickets').select(ESCALATION_TICKET_COLUMNS).eq('id', ticketId).maybeSingle(),
+        fetchActiveEscalationPolicies(supabase),
+    ]);
+    if (ticketError) throw ticketError;
+    if (!ticket) return null;
+
+    const escalationTicket = ticket as unknown as EscalationTicket;
+    return { ticket: escalationTicket, policy: pickTicketPolicy(policies, escalationTicket.priority_id, escalationTicket.ticket_type_id) };
+}
+
+// Returns why the ticket cannot be escalated, or null when it can
+export function escalationProblem({ ticket, policy }: EscalationContext): string | null {
+    if (ticket.merged_into_ticket_id) return `Ticket #${ticket.id} was merged into #${ticket.merged_into_ticket_id}`;
+    if (RESOLVED_STATUS_NAMES.includes(String(ticket.ticket_statuses?.name || '').trim().toLowerCase())) {
+        return 'Resolved and closed tickets cannot be escalated';
+    }
+    if (!policy) return 'No escalation policy applies to this ticket';
+    if (!nextEscalationLevel(policy, ticket.escalation_level)) return `Ticket #${ticket.id} is already at the last level of "${policy.name}"`;
+    return null;
+}
+
+// Moves the ticket to its policy's next level, records the reason in the ticket history and notifies the
+// new owners. Specialization levels go to the available agent with the fewest open tickets.
+// actorId is null when the scheduler escalates an overdue ticket.
+export async function escalateTicket(supabase: SupabaseClient, context: EscalationContext, reason: string, actorId: string | null): Promise<EscalationLevel> {
+    const { ticket, policy } = context;
+    const level = policy && nextEscalationLevel(policy, ticket.escalation_level);
+    if (!policy || !level) throw new Error(escalationProblem(context) || 'The ticket cannot be escalated');
+
+    let owners: { assignee_id: string | null; team_id?: number | null };
+    let recipientIds: string[];
+    if (level.target_type === 'team') {
+        const { data: members, error } = await supabase.from('team_members').select('agent_id').eq('team_id', level.team_id);
+        if (error) throw error;
+        owners = { assignee_id: null, team_id: level.team_id };
+        recipientIds = (members || []).map(m => m.agent_id as string);
+    } else {
+        const agentId = level.target_type === 'agent' ? level.agent_id || null : await pickSpecializationAgent(supabase, level);
+        if (!agentId) throw new Error(`No available agents with specialization "${level.specialization?.name || level.specialization_id}"`);
+        owners = { assignee_id: agentId };
+        recipientIds = [agentId];
+    }
+
+    const before = await fetchTicketAuditSnapshot(supabase, ticket.id);
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabase.from('tickets')
+        .update({ ...owners, escalation_level: level.position, escalated_at: now, updated_at: now })
+        .eq('id', ticket.id);
+    if (updateError) throw updateError;
+
+    const target = describeEscalationTarget(level);
+    await recordTicketChanges(supabase, before, { actorId });
+    await recordTicketEvents(supabase, [{
+        ticket_id: ticket.id,
+        actor_id: actorId,
+        event_type: 'escalated',
+        new_value: target,
+        metadata: { policy_id: policy.id, policy_name: policy.name, level: level.position, reason },
+    }]);
+
+    const recipients = recipientIds.filter(id => id !== actorId);
+    if (recipients.length > 0) {
+        const message = level.target_type === 'team'
+            ? `Ticket #${ticket.id} "${ticket.subject}" was escalated to the ${target} queue (level ${level.position}): ${reason}`
+            : `Ticket #${ticket.id} "${ticket.subject}" was escalated to you (level ${level.position}): ${reason}`;
+        const { error: notifyError } = await supabase.from('notifications').insert(
+            recipients.map(userId => ({ user_id: userId, ticket_id: ticket.id, message, type: 'ticket_escalated', is_read: false }))
+        );
+        if (notifyError) console.error(`Error notifying owners of escalated ticket #${ticket.id}:`, notifyError.message);
+    }
+    return level;
+}
+
+export interface OverdueEscalationResult {
+    escalated: number;
+    failed: number; // e.g. no available agent for a specialization level; retried on the next run
+}
+
+// Escalates every open ticket whose next level is due (see escalationDueAt), one level per run.
+// Pages through the open tickets so none is skipped however many there are; replies are only looked up
+// for the tickets whose threshold has passed.
+export async function escalateOverdueTickets(supabase: SupabaseClient, actorId: string | null, now: Date = new Date()): Promise<OverdueEscalationResult> {
+    const result: OverdueEscalationResult = { escalated: 0, failed: 0 };
+    const policies = await fetchActiveEscalationPolicies(supabase);
+    if (policies.length === 0) return result;
+
+    const { data: statuses, error: statusesError } = await supabase.from('ticket_statuses').select('id, name');
+    if (statusesError) throw statusesError;
+    const closedStatusIds = (statuses || []).filter(s => RESOLVED_STATUS_NAMES.includes(String(s.name).trim().toLowerCase())).map(s => s.id);
+
+    const due: EscalationContext[] = [];
+    for (let lastId = 0; ;) {
+        let query = supabase.from('tickets').select(ESCALATION_TICKET_COLUMNS).is('merged_into_ticket_id', null).gt('id', lastId).order('id', { ascending: true }).limit(OVERDUE_SCAN_PAGE_SIZE);
+        if (closedStatusIds.length > 0) query = query.not('status_id', 'in', `(${closedStatusIds.join(',')})`);
+        const { data, error } = await query;
+        if (error) throw error;
+        const tickets = (data || []) as unknown as EscalationTicket[];
+
+        const overdue = (ticket: EscalationTicket, policy: EscalationPolicy | null, lastResponseAt?: string | null) => {
+            const level = policy && nextEscalationLevel(policy, ticket.escalation_level);
+            const dueAt = level && escalationDueAt(level, ticket, lastResponseAt);
+            return !!dueAt && dueAt.getTime() <= now.getTime();
+        };
+        const candidates = tickets
+            .map(ticket => ({ ticket, policy: pickTicketPolicy(policies, ticket.priority_id, ticket.ticket_type_id) }))
+            .filter(({ ticket, policy }) => overdue(ticket, policy));
+        const lastResponses = await fetchLastResponseTimes(supabase, candidates.map(c => c.ticket.id));
+        due.push(...candidates.filter(({ ticket, policy }) => overdue(ticket, policy, lastResponses.get(ticket.id))));
+        if (tickets.length < OVERDUE_SCAN_PAGE_SIZE) break;
+        lastId = tickets[tickets.length - 1].id;
+    }
+
+    for (const context of due) {
+        const level = nextEscalationLevel(context.policy!, context.ticket.escalation_level)!;
+        try {
+            await escalateTicket(supabase, context, `No response within ${formatSlaDuration(level.threshold_minutes)}`, actorId);
+            result.escalated += 1;
+        } catch (err: any) {
+            console.error(`Error escalating overdue ticket #${context.ticket.id}:`, err?.message || err);
+            result.failed += 1;
+        }
+    }
+    return result;
+}
+
+async function pickSpecializationAgent(supabase: SupabaseClient, level: EscalationLevel): Promise<string | null> {
+    const { data: agents, error } = await supabase.from('profiles').select('id').eq('role', 'agent').eq('specialization_id', level.specialization_id);
+    if (error) throw error;
+    const available = (await loadAgentAvailability(supabase, (agents || []).map(a => a.id as string))).filter(a => !a.unavailable_reason);
+    if (available.length === 0) return null;
+    return available.reduce((best, agent) => (agent.open_ticket_count < best.open_ticket_count ? agent : best)).agent_id;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { SlaPolicy, TicketSlaClock } from './dataService';
+import { computeSlaStatus, pickTicketPolicy } from './sla';
+
+const policy = { name: 'Standard', first_response_minutes: 60, resolution_minutes: 480, business_calendar: null };
+const clock = (overrides: Partial<TicketSlaClock> = {}): TicketSlaClock => ({
+    ticket_id: 1,
+    sla_policy_id: 1,
+    started_at: '2025-03-03T10:00:00Z',
+    paused_minutes: 0,
+    sla_policies: policy,
+    ...overrides,
+});
+const at = (time: string) => new Date(`2025-03-03T${time}:00Z`);
+
+describe('computeSlaStatus', () => {
+    it('returns null without a clock or policy', () => {
+        expect(computeSlaStatus(null)).toBeNull();
+        expect(computeSlaStatus(clock({ sla_policies: null }))).toBeNull();
+    });
+
+    it('is on track, then at risk, then breached as time passes', () => {
+        expect(computeSlaStatus(clock(), at('10:20'))!.first_response).toEqual({ state: 'on_track', due_at: '2025-03-03T11:00:00.000Z', remaining_minutes: 40 });
+        expect(computeSlaStatus(clock(), at('10:50'))!.first_response.state).toBe('at_risk');
+        expect(computeSlaStatus(clock(), at('11:30'))!.first_response).toMatchObject({ state: 'breached', remaining_minutes: -30 });
+        expect(computeSlaStatus(clock(), at('11:30'))!.resolution).toMatchObject({ state: 'on_track', remaining_minutes: 390 });
+    });
+
+    it('freezes a completed target as met or missed', () => {
+        expect(computeSlaStatus(clock({ first_responded_at: '2025-03-03T10:30:00Z' }), at('15:00'))!.first_response)
+            .toMatchObject({ state: 'met', remaining_minutes: 30 });
+        expect(computeSlaStatus(clock({ first_responded_at: '2025-03-03T11:10:00Z' }), at('15:00'))!.first_response)
+            .toMatchObject({ state: 'missed', remaining_minutes: -10 });
+    });
+
+    it('moves the due times while the ticket is paused', () => {
+        const status = computeSlaStatus(clock({ paused_at: '2025-03-03T10:10:00Z' }), at('10:40'))!;
+        expect(status.paused).toBe(true);
+        expect(status.first_response).toMatchObject({ state: 'paused', due_at: '2025-03-03T11:30:00.000Z' });
+        expect(status.resolution.due_at).toBe('2025-03-03T18:30:00.000Z');
+    });
+
+    it('only lets pauses before the first response move the first response target', () => {
+        // Responded at 10:30 without any pause, then waited on the customer for two hours
+        const status = computeSlaStatus(clock({ first_responded_at: '2025-03-03T10:30:00Z', first_response_paused_minutes: 0, paused_minutes: 120 }), at('15:00'))!;
+        expect(status.first_response).toMatchObject({ state: 'met', due_at: '2025-03-03T11:00:00.000Z', remaining_minutes: 30 });
+        expect(status.resolution.due_at).toBe('2025-03-03T20:00:00.000Z');
+    });
+
+    it('counts every pause for clocks recorded before the split', () => {
+        const status = computeSlaStatus(clock({ first_responded_at: '2025-03-03T11:10:00Z', paused_minutes: 20 }), at('15:00'))!;
+        expect(status.first_response).toMatchObject({ state: 'met', due_at: '2025-03-03T11:20:00.000Z' });
+    });
+});
+
+describe('pickTicketPolicy', () => {
+    const base = { first_response_minutes: 60, resolution_minutes: 480, is_active: true };
+    const policies: SlaPolicy[] = [
+        { ...base, id: 1, name: 'Catch-all' },
+        { ...base, id: 2, name: 'Urgent', priority_id: 4 },
+        { ...base, id: 3, name: 'Urgent incidents', priority_id: 4, ticket_type_id: 2 },
+        { ...base, id: 4, name: 'Retired', priority_id: 4, ticket_type_id: 2, is_active: false },
+    ];
+
+    it('prefers the most specific active policy', () => {
+        expect(pickTicketPolicy(policies, 4, 2)?.id).toBe(3);
+        expect(pickTicketPolicy(policies, 4, 1)?.id).toBe(2);
+        expect(pickTicketPolicy(policies, 1, 2)?.id).toBe(1);
+        expect(pickTicketPolicy(policies.slice(1), 1, null)).toBeNull();
+    });
+});
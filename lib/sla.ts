@@ -0,0 +1,191 @@
+// lib/sla.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BusinessCalendar, SlaPolicy, TicketSlaClock } from './dataService';
+import { addElapsedMinutes, elapsedMinutes, BUSINESS_CALENDAR_COLUMNS } from './businessHours';
+
+// The status helpers are pure and used by the ticket views. syncTicketSla takes the Supabase client
+// as a parameter and is run server-side with the service role (lib/ticketChanges.ts, lib/automationEngine.ts).
+
+// The clock stops while a ticket waits on the customer, and stops for good once it is resolved
+const PAUSED_STATUS_NAMES = ['pending'];
+const RESOLVED_STATUS_NAMES = ['resolved', 'closed'];
+
+// A target is "at risk" once less than this share of its time is left
+const AT_RISK_RATIO = 0.25;
+
+export type SlaTargetState = 'on_track' | 'at_risk' | 'breached' | 'paused' | 'met' | 'missed';
+
+export interface SlaTargetStatus {
+    state: SlaTargetState;
+    due_at: string;
+    remaining_minutes: number; // Negative once overdue; frozen when the target was completed
+}
+
+export interface TicketSlaStatus {
+    policy_name: string;
+    paused: boolean;
+    business_hours: boolean; // Remaining times are business minutes
+    first_response: SlaTargetStatus;
+    resolution: SlaTargetStatus;
+}
+
+const normalize = (value: unknown): string => (value === null || value === undefined ? '' : String(value).trim().toLowerCase());
+
+// What SLA and escalation policies are matched on
+export interface TicketPolicyScope {
+    is_active: boolean;
+    priority_id?: number | null; // null matches any priority
+    ticket_type_id?: number | null; // null matches any type
+}
+
+// Most specific active policy wins: priority and type > priority or type > catch-all
+export function pickTicketPolicy<T extends TicketPolicyScope>(policies: T[], priorityId: number | null | undefined, ticketTypeId: number | null | undefined): T | null {
+    let best: T | null = null;
+    let bestScore = -1;
+    for (const policy of policies) {
+        if (!policy.is_active) continue;
+        if (policy.priority_id && policy.priority_id !== priorityId) continue;
+        if (policy.ticket_type_id && policy.ticket_type_id !== ticketTypeId) continue;
+        const score = (policy.priority_id ? 1 : 0) + (policy.ticket_type_id ? 1 : 0);
+        if (score > bestScore) {
+            best = policy;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+// Targets, pauses and remaining time are all measured in the policy calendar's business minutes, if it has one
+function targetStatus(startedAt: Date, targetMinutes: number, completedAt: string | null | undefined, pausedMinutes: number, isPaused: boolean, now: Date, calendar: BusinessCalendar | null | undefined): SlaTargetStatus {
+    const dueAt = addElapsedMinutes(startedAt, targetMinutes + pausedMinutes, calendar);
+    if (completedAt) {
+        const remaining = Math.round(elapsedMinutes(new Date(completedAt), dueAt, calendar));
+        return { state: remaining >= 0 ? 'met' : 'missed', due_at: dueAt.toISOString(), remaining_minutes: remaining };
+    }
+
+    const remaining = Math.round(elapsedMinutes(now, dueAt, calendar));
+    let state: SlaTargetState = 'on_track';
+    if (remaining < 0) state = 'breached';
+    else if (isPaused) state = 'paused';
+    else if (remaining < targetMinutes * AT_RISK_RATIO) state = 'at_risk';
+    return { state, due_at: dueAt.toISOString(), remaining_minutes: remaining };
+}
+
+export function computeSlaStatus(clock: TicketSlaClock | null | undefined, now: Date = new Date()): TicketSlaStatus | null {
+    const policy = clock?.sla_policies;
+    if (!clock || !policy) return null;
+
+    const calendar = policy.business_calendar;
+    const isPaused = !!clock.paused_at && !clock.resolved_at;
+    const pausedMinutes = (clock.paused_minutes || 0) + (isPaused ? elapsedMinutes(new Date(clock.paused_at!), now, calendar) : 0);
+    // Pauses after the first response only move the resolution target (clocks synced before the split count them all)
+    const firstResponsePausedMinutes = clock.first_responded_at ? (clock.first_response_paused_minutes ?? clock.paused_minutes ?? 0) : pausedMinutes;
+    const startedAt = new Date(clock.started_at);
+
+    return {
+        policy_name: policy.name,
+        paused: isPaused,
+        business_hours: !!calendar,
+        first_response: targetStatus(startedAt, policy.first_response_minutes, clock.first_responded_at, firstResponsePausedMinutes, isPaused, now, calendar),
+        resolution: targetStatus(startedAt, policy.resolution_minutes, clock.resolved_at, pausedMinutes, isPaused, now, calendar),
+    };
+}
+
+// Formats minutes as e.g. "45m", "3h 10m" or "2d 4h"
+export function formatSlaDuration(totalMinutes: number): string {
+    const minutes = Math.abs(Math.round(totalMinutes));
+    const days = Math.floor(minutes / (60 * 24));
+    const hours = Math.floor((minutes % (60 * 24)) / 60);
+    const mins = minutes % 60;
+    if (days > 0) return `${days}d${hours ? ` ${hours}h` : ''}`;
+    if (hours > 0) return `${hours}h${mins ? ` ${mins}m` : ''}`;
+    return `${mins}m`;
+}
+
+// Public replies by an agent or admin to the given tickets, oldest first
+async function fetchStaffReplies(supabase: SupabaseClient, ticketIds: number[]): Promise<{ ticket_id: number; created_at: string }[]> {
+    if (ticketIds.length === 0) return [];
+    const { data, error } = await supabase
+        .from('ticket_comments')
+        .select('ticket_id, created_at, profiles!inner ( role )')
+        .in('ticket_id', ticketIds)
+        .in('profiles.role', ['agent', 'admin'])
+        .eq('is_internal_note', false)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data || [];
+}
+
+// Earliest public reply by an agent or admin for each ticket
+export async function fetchFirstResponseTimes(supabase: SupabaseClient, ticketIds: number[]): Promise<Map<number, string>> {
+    const firstResponses = new Map<number, string>();
+    (await fetchStaffReplies(supabase, ticketIds)).forEach(reply => {
+        if (!firstResponses.has(reply.ticket_id)) firstResponses.set(reply.ticket_id, reply.created_at);
+    });
+    return firstResponses;
+}
+
+// Latest public reply by an agent or admin for each ticket (the escalation clock, lib/escalations.ts)
+export async function fetchLastResponseTimes(supabase: SupabaseClient, ticketIds: number[]): Promise<Map<number, string>> {
+    const lastResponses = new Map<number, string>();
+    (await fetchStaffReplies(supabase, ticketIds)).forEach(reply => lastResponses.set(reply.ticket_id, reply.created_at));
+    return lastResponses;
+}
+
+// Brings the ticket's SLA clock in line with its current state: picks the policy for its priority and type,
+// records the first response and resolution, and pauses or resumes the clock around the Pending status.
+export async function syncTicketSla(supabase: SupabaseClient, ticketId: number, now: Date = new Date()): Promise<void> {
+    const [{ data: ticket, error: ticketError }, { data: clock, error: clockError }, { data: policies, error: policiesError }] = await Promise.all([
+        supabase.from('tickets').select('id, created_at, priority_id, ticket_type_id, ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name )').eq('id', ticketId).maybeSingle(),
+        supabase.from('ticket_sla_clocks').select('*').eq('ticket_id', ticketId).maybeSingle(),
+        supabase.from('sla_policies').select(`*, business_calendar:business_calendars ( ${BUSINESS_CALENDAR_COLUMNS} )`).eq('is_active', true),
+    ]);
+    if (ticketError) throw ticketError;
+    if (clockError) throw clockError;
+    if (policiesError) throw policiesError;
+    if (!ticket) return;
+
+    const existing = clock as TicketSlaClock | null;
+    const policy = pickTicketPolicy((policies as SlaPolicy[]) || [], ticket.priority_id, ticket.ticket_type_id);
+    if (!policy && !existing) return;
+
+    const statusName = normalize((ticket.ticket_statuses as unknown as { name: string } | null)?.name);
+    const isPaused = PAUSED_STATUS_NAMES.includes(statusName);
+    const isResolved = RESOLVED_STATUS_NAMES.includes(statusName);
+
+    const calendar = policy?.business_calendar;
+    let pausedAt = existing?.paused_at || null;
+    let pausedMinutes = existing?.paused_minutes || 0;
+
+    // Paused time up to the first response, counting a pause that was still running then only up to that point
+    let firstResponsePausedMinutes = existing?.first_response_paused_minutes ?? null;
+    let firstRespondedAt = existing?.first_responded_at || null;
+    if (!firstRespondedAt) {
+        firstRespondedAt = (await fetchFirstResponseTimes(supabase, [ticketId])).get(ticketId) || null;
+        if (firstRespondedAt) {
+            const respondedAt = new Date(firstRespondedAt);
+            const runningPause = pausedAt && new Date(pausedAt) < respondedAt ? elapsedMinutes(new Date(pausedAt), respondedAt, calendar) : 0;
+            firstResponsePausedMinutes = pausedMinutes + Math.round(runningPause);
+        }
+    }
+
+    if (isPaused && !pausedAt) {
+        pausedAt = now.toISOString();
+    } else if (!isPaused && pausedAt) {
+        pausedMinutes += Math.round(elapsedMinutes(new Date(pausedAt), now, calendar));
+        pausedAt = null;
+    }
+
+    const { error } = await supabase.from('ticket_sla_clocks').upsert({
+        ticket_id: ticketId,
+        sla_policy_id: policy?.id ?? null,
+        started_at: existing?.started_at || ticket.created_at,
+        first_responded_at: firstRespondedAt,
+        first_response_paused_minutes: firstResponsePausedMinutes,
+        resolved_at: isResolved ? (existing?.resolved_at || now.toISOString()) : null, // Reopening resumes the resolution clock
+        paused_at: pausedAt,
+        paused_minutes: pausedMinutes,
+        updated_at: now.toISOString(),
+    }, { onConflict: 'ticket_id' });
+    if (error) throw error;
+}
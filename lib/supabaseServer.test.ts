@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { authorizeTicketAccess } from './supabaseServer';
+import { createSupabaseMock, filterValue } from './testing/supabaseMock';
+import type { TicketAccessScope } from './ticketVisibility';
+
+const scope = (role: string, overrides: Partial<TicketAccessScope> = {}): TicketAccessScope => ({
+    userId: 'user-1',
+    role,
+    teamIds: [],
+    ledTeamIds: [],
+    ...overrides,
+});
+const tickets = [
+    { id: 1, requester_id: 'user-1', assignee_id: null, team_id: null },
+    { id: 2, requester_id: 'customer-2', assignee_id: 'agent-2', team_id: 5 },
+];
+
+// Answers ticket lookups from the rows above; the last event on ticket #2 was written by user-1
+const database = () => createSupabaseMock(query => {
+    if (query.table === 'tickets') return { data: tickets.find(t => t.id === filterValue(query, 'eq', 'id')) || null };
+    if (query.table === 'ticket_events') return { data: { actor_id: 'user-1' } };
+    return undefined;
+});
+
+describe('authorizeTicketAccess', () => {
+    it('lets callers act on tickets they can see', async () => {
+        expect(await authorizeTicketAccess(database().client, scope('customer'), 1)).toBeNull();
+        expect(await authorizeTicketAccess(database().client, scope('admin'), 2)).toBeNull();
+        expect(await authorizeTicketAccess(database().client, scope('agent', { teamIds: [5], ledTeamIds: [5] }), 2)).toBeNull();
+    });
+
+    it('answers 404 for unknown tickets', async () => {
+        const denied = await authorizeTicketAccess(database().client, scope('admin'), 9);
+        expect(denied?.status).toBe(404);
+        expect(await denied?.json()).toEqual({ error: 'Ticket #9 not found' });
+    });
+
+    it('answers 403 for tickets outside the caller\'s scope, whatever the ticket history says', async () => {
+        const mock = database();
+        expect((await authorizeTicketAccess(mock.client, scope('agent'), 2))?.status).toBe(403);
+        expect((await authorizeTicketAccess(mock.client, scope('customer'), 2))?.status).toBe(403);
+        expect(mock.queries.map(q => q.table)).toEqual(['tickets', 'tickets']);
+    });
+
+    it('passes database errors on', async () => {
+        const failing = createSupabaseMock(() => ({ error: { message: 'connection lost' } }));
+        await expect(authorizeTicketAccess(failing.client, scope('admin'), 1)).rejects.toMatchObject({ message: 'connection lost' });
+    });
+});
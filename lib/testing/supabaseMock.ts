@@ -0,0 +1,70 @@
+// lib/testing/supabaseMock.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Stand-in for the Supabase client in unit tests of the server helpers. Every query started with from() or
+// rpc() is recorded with its chained calls, and awaiting it resolves to whatever the responder returns for it.
+// Filters are not applied: the responder reads the recorded calls and answers the way the database would.
+
+export interface MockQuery {
+    table: string | null; // Null for rpc calls
+    rpc: string | null;
+    args?: unknown; // Arguments of the rpc call
+    calls: { method: string; args: unknown[] }[];
+}
+
+export interface MockResult {
+    data?: unknown;
+    error?: { message: string } | null;
+    count?: number | null;
+}
+
+export type MockResponder = (query: MockQuery) => MockResult | undefined;
+
+export interface SupabaseMock {
+    client: SupabaseClient;
+    queries: MockQuery[];
+}
+
+export function createSupabaseMock(respond: MockResponder = () => undefined): SupabaseMock {
+    const queries: MockQuery[] = [];
+
+    const builder = (query: MockQuery): unknown => {
+        const proxy: unknown = new Proxy({}, {
+            get(_target, method) {
+                if (typeof method !== 'string') return undefined;
+                if (method === 'then') {
+                    return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => {
+                        const result = respond(query) || {};
+                        return Promise.resolve({ data: result.data ?? null, error: result.error ?? null, count: result.count ?? null }).then(resolve, reject);
+                    };
+                }
+                return (...args: unknown[]) => {
+                    query.calls.push({ method, args });
+                    return proxy;
+                };
+            },
+        });
+        return proxy;
+    };
+    const start = (query: MockQuery) => {
+        queries.push(query);
+        return builder(query);
+    };
+
+    const client = {
+        from: (table: string) => start({ table, rpc: null, calls: [] }),
+        rpc: (name: string, args?: unknown) => start({ table: null, rpc: name, args, calls: [] }),
+    };
+    return { client: client as unknown as SupabaseClient, queries };
+}
+
+// Value passed to a filter such as eq('id', 4), or undefined when the query has no such filter
+export function filterValue(query: MockQuery, method: string, column: string): unknown {
+    return query.calls.find(call => call.method === method && call.args[0] === column)?.args[1];
+}
+
+// Whether the query chained the given method, e.g. update or insert
+export const hasCall = (query: MockQuery, method: string): boolean => query.calls.some(call => call.method === method);
+
+// Arguments of the first call to the method
+export const callArgs = (query: MockQuery, method: string): unknown[] | undefined => query.calls.find(call => call.method === method)?.args;
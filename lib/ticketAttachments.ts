@@ -0,0 +1,36 @@
+// lib/ticketAttachments.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TicketAttachment } from './dataService';
+
+// Attachments live in a private bucket served through signed URLs. dataService uploads them with the
+// browser client; listing and signing a ticket's files runs server-side (app/api/tickets/attachments),
+// where the caller's role decides whether internal-note files are included.
+
+export const ATTACHMENTS_BUCKET = 'ticket-attachments';
+export const ATTACHMENT_SELECT_QUERY = 'id, ticket_id, comment_id, uploaded_by, file_name, file_path, mime_type, size_bytes, is_internal, created_at';
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export async function signAttachmentUrls(supabase: SupabaseClient, attachments: TicketAttachment[]): Promise<TicketAttachment[]> {
+    if (attachments.length === 0) return attachments;
+    const paths = attachments.map(a => a.file_path);
+    const [previews, downloads] = await Promise.all([
+        supabase.storage.from(ATTACHMENTS_BUCKET).createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS),
+        supabase.storage.from(ATTACHMENTS_BUCKET).createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS, { download: true }),
+    ]);
+    if (previews.error) console.error('Error signing attachment URLs:', previews.error.message);
+    if (downloads.error) console.error('Error signing attachment download URLs:', downloads.error.message);
+    return attachments.map((attachment, i) => ({
+        ...attachment,
+        url: previews.data?.[i]?.signedUrl || null,
+        download_url: downloads.data?.[i]?.signedUrl || null,
+    }));
+}
+
+// The ticket's files with signed URLs; internal-note files only when includeInternal is set
+export async function listTicketAttachments(supabase: SupabaseClient, ticketId: number, includeInternal: boolean): Promise<TicketAttachment[]> {
+    let query = supabase.from('ticket_attachments').select(ATTACHMENT_SELECT_QUERY).eq('ticket_id', ticketId);
+    if (!includeInternal) query = query.eq('is_internal', false);
+    const { data, error } = await query.order('created_at', { ascending: true });
+    if (error) throw error;
+    return signAttachmentUrls(supabase, (data as TicketAttachment[]) || []);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { processTicketChanges, type TicketChange } from './ticketChanges';
+import { callArgs, createSupabaseMock, hasCall } from './testing/supabaseMock';
+
+const change = (overrides: Partial<TicketChange>): TicketChange => ({
+    id: 1,
+    ticket_id: 10,
+    event: 'comment_added',
+    actor_id: 'agent-1',
+    old_row: null,
+    new_row: null,
+    created_at: '2025-03-03T10:00:00Z',
+    ...overrides,
+});
+
+// Hands out the given changes on the first claim and nothing afterwards
+const queue = (changes: TicketChange[]) => {
+    let claimed = false;
+    return createSupabaseMock(query => {
+        if (query.rpc === 'claim_ticket_changes') {
+            const data = claimed ? [] : changes;
+            claimed = true;
+            return { data };
+        }
+        return undefined;
+    });
+};
+
+const insertedEvents = (mock: ReturnType<typeof queue>) =>
+    mock.queries.filter(q => q.table === 'ticket_events' && hasCall(q, 'insert')).flatMap(q => callArgs(q, 'insert')![0] as object[]);
+
+describe('processTicketChanges', () => {
+    it('records the history of a new link on both tickets and nothing else', async () => {
+        const link = { id: 3, source_ticket_id: 10, target_ticket_id: 20, link_type: 'parent_of' };
+        const mock = queue([change({ event: 'linked', new_row: link })]);
+
+        const results = await processTicketChanges(mock.client, { actorId: 'agent-1' });
+
+        expect(results).toEqual([{ change_id: 1, ticket_id: 10, event: 'linked', changed: false }]);
+        expect(insertedEvents(mock)).toEqual([
+            expect.objectContaining({ ticket_id: 10, actor_id: 'agent-1', event_type: 'linked', new_value: '#20' }),
+            expect.objectContaining({ ticket_id: 20, actor_id: 'agent-1', event_type: 'linked', new_value: '#10' }),
+        ]);
+        expect(mock.queries[0].args).toEqual({ claimant_id: 'agent-1', max_rows: 50 });
+    });
+
+    it('records comments under their author and marks each change processed', async () => {
+        const mock = queue([change({ id: 7, actor_id: null, new_row: { id: 42, ticket_id: 10, user_id: 'agent-2', is_internal_note: true } })]);
+
+        await processTicketChanges(mock.client);
+
+        expect(insertedEvents(mock)).toEqual([{
+            ticket_id: 10, actor_id: 'agent-2', event_type: 'comment_added', metadata: { comment_id: 42, is_internal_note: true },
+        }]);
+        const done = mock.queries.find(q => q.table === 'ticket_changes')!;
+        expect(callArgs(done, 'update')![0]).toMatchObject({ error: null });
+        expect(callArgs(done, 'eq')).toEqual(['id', 7]);
+    });
+
+    it('marks a failing change with its error instead of stopping', async () => {
+        const mock = createSupabaseMock(query => {
+            if (query.rpc === 'claim_ticket_changes') return { data: [change({ event: 'ticket_created', new_row: { id: 10, status_id: 1 } })] };
+            if (query.table === 'ticket_statuses') return { error: { message: 'connection lost' } };
+            return undefined;
+        });
+
+        const results = await processTicketChanges(mock.client);
+
+        expect(results).toEqual([{ change_id: 1, ticket_id: 10, event: 'ticket_created', changed: false, error: 'connection lost' }]);
+        expect(callArgs(mock.queries.find(q => q.table === 'ticket_changes')!, 'update')![0]).toMatchObject({ error: 'connection lost' });
+    });
+});
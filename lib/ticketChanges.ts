@@ -0,0 +1,118 @@
+// lib/ticketChanges.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AutomationEvent, NewTicketEvent, TicketLink } from './dataService';
+import { runAutomationsForTicket } from './automationEngine';
+import { autoAssignTicket } from './autoAssignment';
+import { sendCsatSurvey } from './csat';
+import { syncTicketSla } from './sla';
+import { diffTicketSnapshots, recordTicketEvents, snapshotsFromRows } from './ticketEvents';
+import { linkEvents } from './ticketLinks';
+
+// Follow-up of the ticket changes users make through the browser client. Database triggers queue each real
+// change in ticket_changes (supabase/migrations), so the event comes from what actually changed rather than
+// from the client, and a change is followed up even when the user's browser never asks for it: the scheduler
+// sweeps the queue. Runs server-side with the service role (app/api/tickets/changes, the scheduler), which is
+// also what writes the change to the ticket's history: browsers cannot insert into ticket_events.
+
+// Changes are claimed from the queue in batches of this size
+const CLAIM_BATCH_SIZE = 50;
+
+export type TicketChangeEvent = AutomationEvent | 'comment_added' | 'linked' | 'unlinked';
+
+export interface TicketChange {
+    id: number;
+    ticket_id: number;
+    event: TicketChangeEvent;
+    actor_id: string | null;
+    old_row: Record<string, unknown> | null; // The ticket before an update, or the removed link
+    new_row: Record<string, unknown> | null; // The ticket after the change, the new comment or the new link
+    created_at: string;
+}
+
+export interface TicketChangeResult {
+    change_id: number;
+    ticket_id: number;
+    event: TicketChangeEvent;
+    changed: boolean; // Auto-assignment or an automation changed the ticket again
+    error?: string;
+}
+
+// The history entries for the change itself. A split-off ticket is also noted on the ticket it came from.
+async function changeEvents(supabase: SupabaseClient, change: TicketChange): Promise<NewTicketEvent[]> {
+    const row = change.new_row || {};
+    const actorId = change.actor_id;
+    switch (change.event) {
+        case 'ticket_created': {
+            const { data: status, error } = await supabase.from('ticket_statuses').select('name').eq('id', row.status_id).maybeSingle();
+            if (error) throw error;
+            const events: NewTicketEvent[] = [{ ticket_id: change.ticket_id, actor_id: actorId, event_type: 'created', new_value: status?.name || null }];
+            const splitFromId = row.split_from_ticket_id as number | null | undefined;
+            if (splitFromId) {
+                events.push(
+                    { ticket_id: splitFromId, actor_id: actorId, event_type: 'split', new_value: `#${change.ticket_id}`, metadata: { split_ticket_id: change.ticket_id } },
+                    { ticket_id: change.ticket_id, actor_id: actorId, event_type: 'split', old_value: `#${splitFromId}`, metadata: { split_from_ticket_id: splitFromId } },
+                );
+            }
+            return events;
+        }
+        case 'comment_added':
+            return [{
+                ticket_id: change.ticket_id, actor_id: (row.user_id as string | undefined) || actorId, event_type: 'comment_added',
+                metadata: { comment_id: row.id, is_internal_note: row.is_internal_note },
+            }];
+        case 'linked':
+            return linkEvents('linked', row as unknown as TicketLink, actorId);
+        case 'unlinked':
+            return change.old_row ? linkEvents('unlinked', change.old_row as unknown as TicketLink, actorId) : [];
+        default: {
+            if (!change.old_row || !change.new_row) return [];
+            const [before, after] = await snapshotsFromRows(supabase, change.old_row, change.new_row);
+            return diffTicketSnapshots(before, after, { actorId });
+        }
+    }
+}
+
+// The change is logged first, then followed up; auto-assignment runs before the automations so their rules see the assignee
+async function followUpChange(supabase: SupabaseClient, change: TicketChange): Promise<boolean> {
+    await recordTicketEvents(supabase, await changeEvents(supabase, change));
+    if (change.event === 'linked' || change.event === 'unlinked') return false;
+    if (change.event === 'comment_added') {
+        if (!change.new_row?.is_internal_note) await syncTicketSla(supabase, change.ticket_id); // A public staff reply is the first response
+        return false;
+    }
+
+    const assigned = change.event === 'ticket_created' && (await autoAssignTicket(supabase, change.ticket_id)) !== null;
+    const results = await runAutomationsForTicket(supabase, change.event, change.ticket_id, { actorId: change.actor_id });
+    await syncTicketSla(supabase, change.ticket_id);
+    if (change.event === 'status_changed') await sendCsatSurvey(supabase, change.ticket_id);
+    return assigned || results.some(r => r.actions.some(a => a.success));
+}
+
+// Claims pending changes (only those of actorId when given) and follows them up in queue order.
+// claim_ticket_changes hands each change out once, so concurrent calls never run the same automations twice.
+// A failing change is marked processed with its error instead of being retried forever.
+export async function processTicketChanges(supabase: SupabaseClient, options: { actorId?: string | null } = {}): Promise<TicketChangeResult[]> {
+    const results: TicketChangeResult[] = [];
+    for (;;) {
+        const { data, error } = await supabase.rpc('claim_ticket_changes', { claimant_id: options.actorId || null, max_rows: CLAIM_BATCH_SIZE });
+        if (error) throw error;
+        const changes = ((data as TicketChange[]) || []).sort((a, b) => a.id - b.id);
+
+        for (const change of changes) {
+            const result: TicketChangeResult = { change_id: change.id, ticket_id: change.ticket_id, event: change.event, changed: false };
+            try {
+                result.changed = await followUpChange(supabase, change);
+            } catch (err: any) {
+                console.error(`Error following up change #${change.id} (${change.event}) of ticket #${change.ticket_id}:`, err?.message || err);
+                result.error = err?.message || 'Follow-up failed';
+            }
+            const { error: doneError } = await supabase
+                .from('ticket_changes')
+                .update({ processed_at: new Date().toISOString(), error: result.error || null })
+                .eq('id', change.id);
+            if (doneError) console.error(`Error marking ticket change #${change.id} as processed:`, doneError.message);
+            results.push(result);
+        }
+        if (changes.length < CLAIM_BATCH_SIZE) return results;
+    }
+}
@@ -0,0 +1,136 @@
+// lib/ticketEvents.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NewTicketEvent, TicketAuditField, TicketEvent, TicketEventType } from './dataService';
+
+// Helpers for the append-only ticket_events log. Only the server reads and writes it, with the service role:
+// lib/ticketChanges.ts records user changes from the queued rows and lib/automationEngine.ts records
+// automation changes; app/api/tickets/events lists a ticket's history. Browser clients have no access
+// to the table (supabase/migrations).
+
+const EVENT_SELECT_QUERY = 'id, ticket_id, actor_id, event_type, field, old_value, new_value, metadata, created_at, actor:profiles ( id, full_name, avatar_url, role )';
+
+// Automation and escalation activity (escalation reasons included) is for staff only
+const STAFF_ONLY_EVENT_TYPES: TicketEventType[] = ['automation_action', 'escalated'];
+
+// Values are stored as display names, so the history still reads correctly after a status or agent is renamed
+const AUDIT_SELECT_QUERY = `
+    id, status_id, priority_id, assignee_id, team_id, tags,
+    ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name ),
+    ticket_priorities:ticket_priorities!tickets_priority_id_fkey ( name ),
+    assignee_profile:profiles!tickets_assignee_id_fkey ( full_name ),
+    team:teams!tickets_team_id_fkey ( name )
+`;
+
+export interface TicketAuditSnapshot {
+    id: number;
+    status_id: number;
+    priority_id: number;
+    assignee_id?: string | null;
+    team_id?: number | null;
+    tags?: string[] | null;
+    ticket_statuses: { name: string } | null;
+    ticket_priorities: { name: string } | null;
+    assignee_profile: { full_name?: string | null } | null;
+    team: { name: string } | null;
+}
+
+// Origin of a change: the acting user, and the automation when one made it
+export interface TicketEventSource {
+    actorId?: string | null;
+    automation?: { id: number; name: string } | null;
+}
+
+const AUDIT_FIELDS: { field: TicketAuditField; key: keyof TicketAuditSnapshot; label: (t: TicketAuditSnapshot) => string | null }[] = [
+    { field: 'status', key: 'status_id', label: t => t.ticket_statuses?.name || null },
+    { field: 'priority', key: 'priority_id', label: t => t.ticket_priorities?.name || null },
+    { field: 'assignee', key: 'assignee_id', label: t => (t.assignee_id ? t.assignee_profile?.full_name || t.assignee_id : null) },
+    { field: 'team', key: 'team_id', label: t => (t.team_id ? t.team?.name || `#${t.team_id}` : null) },
+    { field: 'tags', key: 'tags', label: t => (t.tags?.length ? t.tags.join(', ') : null) },
+];
+
+const sourceMetadata = (source: TicketEventSource) =>
+    source.automation ? { automation_id: source.automation.id, automation_name: source.automation.name } : {};
+
+export async function fetchTicketAuditSnapshot(supabase: SupabaseClient, ticketId: number): Promise<TicketAuditSnapshot | null> {
+    const { data, error } = await supabase.from('tickets').select(AUDIT_SELECT_QUERY).eq('id', ticketId).maybeSingle();
+    if (error) throw error;
+    return data as unknown as TicketAuditSnapshot | null;
+}
+
+// Tables holding the display name of each id field the log tracks
+const NAME_LOOKUPS: { key: keyof TicketAuditSnapshot; table: string; column: string; target: keyof TicketAuditSnapshot }[] = [
+    { key: 'status_id', table: 'ticket_statuses', column: 'name', target: 'ticket_statuses' },
+    { key: 'priority_id', table: 'ticket_priorities', column: 'name', target: 'ticket_priorities' },
+    { key: 'assignee_id', table: 'profiles', column: 'full_name', target: 'assignee_profile' },
+    { key: 'team_id', table: 'teams', column: 'name', target: 'team' },
+];
+
+async function lookupName(supabase: SupabaseClient, table: string, column: string, id: unknown): Promise<Record<string, string | null> | null> {
+    if (id === null || id === undefined) return null;
+    const { data, error } = await supabase.from(table).select(column).eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data as unknown as Record<string, string | null> | null;
+}
+
+// Snapshots of a ticket as stored before and after a change (raw rows, e.g. from ticket_changes).
+// Names are looked up only for the fields that changed, since only those end up in the log.
+export async function snapshotsFromRows(supabase: SupabaseClient, before: Record<string, unknown>, after: Record<string, unknown>): Promise<[TicketAuditSnapshot, TicketAuditSnapshot]> {
+    const snapshot = (row: Record<string, unknown>) => ({
+        id: row.id, status_id: row.status_id, priority_id: row.priority_id, assignee_id: row.assignee_id ?? null, team_id: row.team_id ?? null,
+        tags: row.tags ?? null, ticket_statuses: null, ticket_priorities: null, assignee_profile: null, team: null,
+    } as TicketAuditSnapshot);
+    const snapshots: [TicketAuditSnapshot, TicketAuditSnapshot] = [snapshot(before), snapshot(after)];
+    for (const { key, table, column, target } of NAME_LOOKUPS) {
+        if (String(before[key] ?? '') === String(after[key] ?? '')) continue;
+        for (const side of snapshots) {
+            const row = await lookupName(supabase, table, column, side[key]);
+            (side as unknown as Record<string, unknown>)[target] = row ? { [column]: row[column] } : null;
+        }
+    }
+    return snapshots;
+}
+
+// One field_changed event per tracked field that differs between the two snapshots.
+// Values are compared as strings so that tag lists (stored sorted) compare by content.
+export function diffTicketSnapshots(before: TicketAuditSnapshot, after: TicketAuditSnapshot, source: TicketEventSource): NewTicketEvent[] {
+    return AUDIT_FIELDS
+        .filter(({ key }) => String(before[key] ?? '') !== String(after[key] ?? ''))
+        .map(({ field, label }) => ({
+            ticket_id: after.id,
+            actor_id: source.actorId || null,
+            event_type: 'field_changed',
+            field,
+            old_value: label(before),
+            new_value: label(after),
+            metadata: sourceMetadata(source),
+        }));
+}
+
+// Audit failures are logged, never thrown, so they cannot undo the change being recorded
+export async function recordTicketEvents(supabase: SupabaseClient, events: NewTicketEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    const { error } = await supabase.from('ticket_events').insert(events);
+    if (error) console.error(`Error recording events for ticket #${events[0].ticket_id}:`, error.message);
+}
+
+// Compares the ticket against a snapshot taken before the change and logs what differs
+export async function recordTicketChanges(supabase: SupabaseClient, before: TicketAuditSnapshot | null, source: TicketEventSource): Promise<void> {
+    if (!before) return;
+    try {
+        const after = await fetchTicketAuditSnapshot(supabase, before.id);
+        if (after) await recordTicketEvents(supabase, diffTicketSnapshots(before, after, source));
+    } catch (err: any) {
+        console.error(`Error recording changes for ticket #${before.id}:`, err?.message || err);
+    }
+}
+
+// The ticket's history, oldest first. Without staff activity, events only staff may see are left out,
+// as are the comment_added events of internal notes.
+export async function listTicketEvents(supabase: SupabaseClient, ticketId: number, includeStaffActivity: boolean): Promise<TicketEvent[]> {
+    let query = supabase.from('ticket_events').select(EVENT_SELECT_QUERY).eq('ticket_id', ticketId);
+    if (!includeStaffActivity) query = query.not('event_type', 'in', `(${STAFF_ONLY_EVENT_TYPES.join(',')})`);
+    const { data, error } = await query.order('created_at', { ascending: true });
+    if (error) throw error;
+    const events = (data as unknown as TicketEvent[]) || [];
+    return includeStaffActivity ? events : events.filter(event => !(event.event_type === 'comment_added' && event.metadata?.is_internal_note));
+}
@@ -0,0 +1,58 @@
+// lib/ticketLinks.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NewTicketEvent, TicketLink, TicketLinkType } from './dataService';
+
+// Typed links between tickets. The labels are used by the ticket views; linkedStatusSync takes the
+// Supabase client as a parameter so dataService (user changes) and lib/automationEngine.ts (automation
+// changes) apply the same parent -> child status rules.
+
+// Each link reads from its source ticket ("#1 is parent of #2"); the inverse label is shown on the target
+export const TICKET_LINK_LABELS: Record<TicketLinkType, { label: string; inverse: string }> = {
+    parent_of: { label: 'Parent of', inverse: 'Child of' },
+    related_to: { label: 'Related to', inverse: 'Related to' },
+    duplicate_of: { label: 'Duplicate of', inverse: 'Duplicated by' },
+    blocked_by: { label: 'Blocked by', inverse: 'Blocks' },
+};
+
+// Each side's history gets an entry; direction tells which label (TICKET_LINK_LABELS) applies
+export const linkEvents = (eventType: 'linked' | 'unlinked', link: Pick<TicketLink, 'source_ticket_id' | 'target_ticket_id' | 'link_type'>, actorId: string | null): NewTicketEvent[] => [
+    { ticket_id: link.source_ticket_id, actor_id: actorId, event_type: eventType, new_value: `#${link.target_ticket_id}`, metadata: { link_type: link.link_type, linked_ticket_id: link.target_ticket_id, direction: 'source' } },
+    { ticket_id: link.target_ticket_id, actor_id: actorId, event_type: eventType, new_value: `#${link.source_ticket_id}`, metadata: { link_type: link.link_type, linked_ticket_id: link.source_ticket_id, direction: 'target' } },
+];
+
+const RESOLVED_STATUS_NAMES = ['resolved', 'closed'];
+
+const normalize = (value: unknown): string => (value === null || value === undefined ? '' : String(value).trim().toLowerCase());
+
+// Children that must follow the parent's status after it changed:
+// - a problem ticket drives the status of every child (the customer tickets of one incident)
+// - otherwise, with auto_resolve_children, open children are resolved together with the parent
+export async function linkedStatusSync(supabase: SupabaseClient, parentId: number): Promise<{ statusId: number; childIds: number[] } | null> {
+    const { data: parent, error: parentError } = await supabase
+        .from('tickets')
+        .select('id, status_id, is_problem, auto_resolve_children, ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name )')
+        .eq('id', parentId)
+        .maybeSingle();
+    if (parentError) throw parentError;
+    if (!parent || (!parent.is_problem && !parent.auto_resolve_children)) return null;
+
+    const parentResolved = RESOLVED_STATUS_NAMES.includes(normalize((parent.ticket_statuses as unknown as { name: string } | null)?.name));
+    if (!parent.is_problem && !parentResolved) return null;
+
+    const { data: links, error: linksError } = await supabase.from('ticket_links').select('target_ticket_id').eq('source_ticket_id', parentId).eq('link_type', 'parent_of');
+    if (linksError) throw linksError;
+    const linkedIds = (links || []).map(l => l.target_ticket_id as number);
+    if (linkedIds.length === 0) return null;
+
+    const { data: children, error: childrenError } = await supabase
+        .from('tickets')
+        .select('id, status_id, ticket_statuses:ticket_statuses!tickets_status_id_fkey ( name )')
+        .in('id', linkedIds);
+    if (childrenError) throw childrenError;
+
+    const childIds = (children || [])
+        .filter(child => child.status_id !== parent.status_id)
+        .filter(child => parent.is_problem || !RESOLVED_STATUS_NAMES.includes(normalize((child.ticket_statuses as unknown as { name: string } | null)?.name)))
+        .map(child => child.id as number);
+    return childIds.length > 0 ? { statusId: parent.status_id as number, childIds } : null;
+}
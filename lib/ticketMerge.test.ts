@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { mergeProblem, mergeTickets } from './ticketMerge';
+import type { MergeTicket } from './ticketMerge';
+import { createSupabaseMock, filterValue } from './testing/supabaseMock';
+import type { MockResult } from './testing/supabaseMock';
+
+const source: MergeTicket = { id: 1, subject: 'Printer', description: 'Printer is on fire', requester_id: 'customer-1', merged_into_ticket_id: null };
+const target: MergeTicket = { id: 2, subject: 'Office printer', description: 'Printer smokes', requester_id: 'customer-1', merged_into_ticket_id: null };
+const statuses = [{ id: 1, name: 'Open' }, { id: 5, name: ' Closed ' }];
+
+// Answers the status list and the merge itself; the SLA sync finds no ticket and stops there
+const database = (merge: MockResult = {}, statusRows = statuses) => createSupabaseMock(query => {
+    if (query.table === 'ticket_statuses') return { data: statusRows };
+    if (query.rpc === 'merge_tickets') return merge;
+    return undefined;
+});
+
+describe('mergeProblem', () => {
+    it('allows merging two open tickets of the same requester', () => {
+        expect(mergeProblem(source, target)).toBeNull();
+    });
+
+    it('rejects merging a ticket into itself, merged tickets and other requesters\' tickets', () => {
+        expect(mergeProblem(source, source)).toBe('A ticket cannot be merged into itself');
+        expect(mergeProblem({ ...source, merged_into_ticket_id: 3 }, target)).toBe('Ticket #1 was already merged into #3');
+        expect(mergeProblem(source, { ...target, merged_into_ticket_id: 3 })).toBe('Ticket #2 was merged into #3; merge into that ticket instead');
+        expect(mergeProblem(source, { ...target, requester_id: 'customer-2' })).toBe('Only tickets of the same requester can be merged');
+    });
+});
+
+describe('mergeTickets', () => {
+    it('merges in one database call, then syncs both SLA clocks', async () => {
+        const mock = database();
+
+        await mergeTickets(mock.client, source, target, 'agent-1');
+
+        const calls = mock.queries.filter(q => q.rpc || q.table === 'tickets');
+        expect(calls.map(q => q.rpc || `${q.table}#${filterValue(q, 'eq', 'id')}`)).toEqual(['merge_tickets', 'tickets#1', 'tickets#2']);
+        expect(calls[0].args).toEqual({
+            source_ticket_id: 1,
+            target_ticket_id: 2,
+            closed_status_id: 5,
+            actor_id: 'agent-1',
+            merge_note: 'Merged from ticket #1 "Printer":\n\nPrinter is on fire',
+        });
+        // History and the notification are written by merge_tickets itself
+        expect(mock.queries.some(q => q.table === 'ticket_events' || q.table === 'notifications' || q.table === 'ticket_comments')).toBe(false);
+    });
+
+    it('fails without a closed status, before changing anything', async () => {
+        const mock = database({}, [{ id: 1, name: 'Open' }]);
+        await expect(mergeTickets(mock.client, source, target, 'agent-1')).rejects.toThrow('No "Closed" ticket status is configured');
+        expect(mock.queries.map(q => q.table || q.rpc)).toEqual(['ticket_statuses']);
+    });
+
+    it('passes a failed merge on and leaves the SLA clocks alone', async () => {
+        const mock = database({ error: { message: 'Ticket #1 was already merged' } });
+        await expect(mergeTickets(mock.client, source, target, 'agent-1')).rejects.toMatchObject({ message: 'Ticket #1 was already merged' });
+        expect(mock.queries.map(q => q.table || q.rpc)).toEqual(['ticket_statuses', 'merge_tickets']);
+    });
+});
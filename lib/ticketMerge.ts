@@ -0,0 +1,56 @@
+// lib/ticketMerge.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { syncTicketSla } from './sla';
+
+// Merges a duplicate ticket into the ticket that survives. Runs server-side with the service role
+// (app/api/tickets/merge) because it moves other users' comments and notifies the duplicate's requester.
+// Both tickets must belong to the same requester, since the moved comments and files become part of the target.
+
+const MERGE_TICKET_COLUMNS = 'id, subject, description, requester_id, merged_into_ticket_id';
+const CLOSED_STATUS_NAME = 'closed';
+
+export interface MergeTicket {
+    id: number;
+    subject: string;
+    description: string;
+    requester_id: string;
+    merged_into_ticket_id?: number | null;
+}
+
+export async function fetchMergeTicket(supabase: SupabaseClient, ticketId: number): Promise<MergeTicket | null> {
+    const { data, error } = await supabase.from('tickets').select(MERGE_TICKET_COLUMNS).eq('id', ticketId).maybeSingle();
+    if (error) throw error;
+    return data as MergeTicket | null;
+}
+
+// Returns why the merge is not allowed, or null when it is
+export function mergeProblem(source: MergeTicket, target: MergeTicket): string | null {
+    if (source.id === target.id) return 'A ticket cannot be merged into itself';
+    if (source.merged_into_ticket_id) return `Ticket #${source.id} was already merged into #${source.merged_into_ticket_id}`;
+    if (target.merged_into_ticket_id) return `Ticket #${target.id} was merged into #${target.merged_into_ticket_id}; merge into that ticket instead`;
+    if (source.requester_id !== target.requester_id) return 'Only tickets of the same requester can be merged';
+    return null;
+}
+
+// Comments and attachments move to the target, the duplicate's description is kept as a comment on the target,
+// and the duplicate is closed with a link to the target. Attachments keep their storage paths.
+// Everything, including both histories and the requester's notification, runs in one database function
+// (merge_tickets), so a failure leaves both tickets untouched; the SLA clocks follow once it has committed.
+export async function mergeTickets(supabase: SupabaseClient, source: MergeTicket, target: MergeTicket, actorId: string): Promise<void> {
+    const { data: statuses, error: statusesError } = await supabase.from('ticket_statuses').select('id, name');
+    if (statusesError) throw statusesError;
+    const closedStatus = (statuses || []).find(s => String(s.name).trim().toLowerCase() === CLOSED_STATUS_NAME);
+    if (!closedStatus) throw new Error('No "Closed" ticket status is configured');
+
+    const { error: mergeError } = await supabase.rpc('merge_tickets', {
+        source_ticket_id: source.id,
+        target_ticket_id: target.id,
+        closed_status_id: closedStatus.id,
+        actor_id: actorId,
+        merge_note: `Merged from ticket #${source.id} "${source.subject}":\n\n${source.description}`,
+    });
+    if (mergeError) throw mergeError;
+
+    await syncTicketSla(supabase, source.id);
+    await syncTicketSla(supabase, target.id);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { searchTickets } from './ticketSearch';
+import { createSupabaseMock } from './testing/supabaseMock';
+import type { TicketAccessScope } from './ticketVisibility';
+
+const scope = (role: string, overrides: Partial<TicketAccessScope> = {}): TicketAccessScope => ({
+    userId: 'user-1',
+    role,
+    teamIds: [],
+    ledTeamIds: [],
+    ...overrides,
+});
+const hit = (ticketId: number, rank: number, requesterId = 'user-1') => ({
+    ticket_id: ticketId,
+    rank,
+    subject_highlight: `<mark>Printer</mark> #${ticketId}`,
+    snippet: 'The <mark>printer</mark> is on fire',
+    matched_in: 'subject',
+    requester_id: requesterId,
+    assignee_id: null,
+    team_id: null,
+});
+
+const database = (rows: unknown[] = []) => createSupabaseMock(query => (query.rpc === 'search_tickets' ? { data: rows } : undefined));
+
+describe('searchTickets', () => {
+    it('searches internal notes and every ticket for admins', async () => {
+        const mock = database();
+        await searchTickets(mock.client, 'printer', scope('admin'));
+        expect(mock.queries[0].args).toEqual({
+            search_query: 'printer',
+            include_internal_notes: true,
+            requester_filter: null,
+            agent_filter: null,
+            agent_team_ids: null,
+            agent_led_team_ids: null,
+            max_results: 50,
+        });
+    });
+
+    it('limits customers to their own tickets without internal notes', async () => {
+        const mock = database();
+        await searchTickets(mock.client, 'printer', scope('customer'), 10);
+        expect(mock.queries[0].args).toMatchObject({ include_internal_notes: false, requester_filter: 'user-1', agent_filter: null, max_results: 10 });
+    });
+
+    it("passes the agent's teams so the database filters before the limit", async () => {
+        const mock = database();
+        await searchTickets(mock.client, 'printer', scope('agent', { teamIds: [5, 6], ledTeamIds: [6] }), 500);
+        expect(mock.queries[0].args).toMatchObject({
+            include_internal_notes: true, requester_filter: null, agent_filter: 'user-1', agent_team_ids: [5, 6], agent_led_team_ids: [6], max_results: 50,
+        });
+    });
+
+    it('returns the hits best first, without the visibility columns', async () => {
+        const hits = await searchTickets(database([hit(1, 0.2), hit(2, 0.9)]).client, 'printer', scope('customer'));
+        expect(hits.map(h => h.ticket_id)).toEqual([2, 1]);
+        expect(hits[0]).toEqual({ ticket_id: 2, rank: 0.9, subject_highlight: '<mark>Printer</mark> #2', snippet: 'The <mark>printer</mark> is on fire', matched_in: 'subject' });
+    });
+
+    it('drops rows the caller may not see', async () => {
+        const rows = [hit(1, 0.5), hit(2, 0.4, 'customer-2')];
+        expect((await searchTickets(database(rows).client, 'printer', scope('customer'))).map(h => h.ticket_id)).toEqual([1]);
+        expect(await searchTickets(database(rows).client, 'printer', scope('guest'))).toEqual([]);
+    });
+
+    it('passes database errors on', async () => {
+        const failing = createSupabaseMock(() => ({ error: { message: 'function search_tickets does not exist' } }));
+        await expect(searchTickets(failing.client, 'printer', scope('admin'))).rejects.toMatchObject({ message: 'function search_tickets does not exist' });
+    });
+});
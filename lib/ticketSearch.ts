@@ -0,0 +1,46 @@
+// lib/ticketSearch.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { canViewTicket } from './ticketVisibility';
+import type { TicketAccessScope } from './ticketVisibility';
+
+// Full-text ticket search on Postgres (the search_tickets function in supabase/migrations: websearch_to_tsquery
+// over the subject, description and comment text, ranked with ts_rank, snippets from ts_headline between <mark> tags).
+// Runs server-side (app/api/tickets/search) so the caller's role, not the browser, decides whether
+// internal notes are searched and which tickets may be returned. The function applies the visibility
+// rule of lib/ticketVisibility.ts itself (requester_filter for customers, agent_* for agents) before max_results.
+
+export const SEARCH_MAX_RESULTS = 50;
+
+export type TicketSearchMatch = 'subject' | 'description' | 'comment';
+
+export interface TicketSearchHit {
+    ticket_id: number;
+    rank: number;
+    subject_highlight: string; // Subject with matches between <mark> tags
+    snippet: string; // Best matching fragment of the description or a comment, same markup
+    matched_in: TicketSearchMatch;
+}
+
+interface SearchRow extends TicketSearchHit {
+    requester_id: string;
+    assignee_id: string | null;
+    team_id: number | null;
+}
+
+export async function searchTickets(supabase: SupabaseClient, query: string, viewer: TicketAccessScope, limit = SEARCH_MAX_RESULTS): Promise<TicketSearchHit[]> {
+    const { data, error } = await supabase.rpc('search_tickets', {
+        search_query: query,
+        include_internal_notes: viewer.role !== 'customer', // Internal notes never match for customers
+        requester_filter: viewer.role === 'customer' ? viewer.userId : null,
+        // Filtering before the limit keeps tickets the agent cannot see from crowding out the ones they can
+        agent_filter: viewer.role === 'agent' ? viewer.userId : null,
+        agent_team_ids: viewer.role === 'agent' ? viewer.teamIds : null,
+        agent_led_team_ids: viewer.role === 'agent' ? viewer.ledTeamIds : null,
+        max_results: Math.min(limit, SEARCH_MAX_RESULTS),
+    });
+    if (error) throw error;
+    return ((data as SearchRow[]) || [])
+        .filter(row => canViewTicket(row, viewer)) // The function filters customers and agents only; this also keeps other roles out
+        .sort((a, b) => b.rank - a.rank)
+        .map(({ ticket_id, rank, subject_highlight, snippet, matched_in }) => ({ ticket_id, rank, subject_highlight, snippet, matched_in }));
+}
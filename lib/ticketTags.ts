@@ -0,0 +1,20 @@
+// lib/ticketTags.ts
+
+// Tag helpers shared by dataService, the ticket pages and lib/automationEngine.ts.
+// Like lib/customFields.ts this file must stay free of Supabase and React imports.
+
+export const TAG_MAX_LENGTH = 50;
+
+// Tags are free-form but stored lowercased with single spaces, so "Billing " and "billing" group together
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, TAG_MAX_LENGTH);
+
+// Deduplicated and sorted, which also keeps the audit diff stable
+export function normalizeTags(tags: string[] | null | undefined): string[] {
+    return Array.from(new Set((tags || []).map(normalizeTag).filter(Boolean))).sort();
+}
+
+// Accepts a comma-separated string (automation settings, form input) or a list
+export function parseTagInput(input: string | string[] | null | undefined): string[] {
+    if (!input) return [];
+    return normalizeTags(Array.isArray(input) ? input : input.split(','));
+}
@@ -0,0 +1,34 @@
+// lib/ticketViews.ts
+import type { TicketCustomField, TicketQuery, TicketViewFilters } from './dataService';
+
+// Saved ticket views: the tickets page stores its filters as TicketViewFilters, and both the page and the
+// sidebar counts turn them into a TicketQuery for whoever is looking. Must stay free of Supabase and React imports.
+
+// Date inputs give local calendar days; the range includes the whole "to" day
+export const startOfDay = (date: string | undefined) => (date ? new Date(`${date}T00:00:00`).toISOString() : undefined);
+export const endOfDay = (date: string | undefined) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined);
+
+// fields: custom field definitions; filters on fields that no longer exist are dropped
+export function ticketQueryFromViewFilters(filters: TicketViewFilters, userId: string, fields: TicketCustomField[]): TicketQuery {
+    const customFields = Object.entries(filters.customFields || {})
+        .map(([fieldId, value]) => ({ field: fields.find(f => String(f.id) === fieldId), value }))
+        .filter((entry): entry is { field: TicketCustomField; value: string } => !!entry.field && entry.value !== '');
+    return {
+        statusIds: filters.statusIds?.length ? filters.statusIds : undefined,
+        priorityIds: filters.priorityIds?.length ? filters.priorityIds : undefined,
+        ticketTypeIds: filters.ticketTypeIds?.length ? filters.ticketTypeIds : undefined,
+        assigneeId: !filters.assignee ? undefined
+            : filters.assignee === 'unassigned' ? null
+            : filters.assignee === 'me' ? userId
+            : filters.assignee,
+        teamId: !filters.team ? undefined : filters.team === 'none' ? null : Number(filters.team),
+        requesterId: filters.requesterId || undefined,
+        tags: filters.tags?.length ? filters.tags : undefined,
+        createdFrom: startOfDay(filters.createdFrom),
+        createdTo: endOfDay(filters.createdTo),
+        search: filters.search?.trim() || undefined,
+        customFields,
+        sort: filters.sort,
+        ascending: filters.ascending,
+    };
+}
@@ -0,0 +1,57 @@
+// lib/ticketVisibility.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Which tickets a user may see. The ticket list (lib/dataService.ts), search (lib/ticketSearch.ts) and the
+// API routes acting on a single ticket all go through these helpers, so the rule lives in one place:
+// customers see their own tickets; agents see tickets assigned to them, unassigned tickets outside team
+// queues and their teams' queues, and team leads also see what their team members are working on;
+// admins see everything. Takes the Supabase client as a parameter so it runs in the browser and on the server.
+
+export interface TicketAccessScope {
+    userId: string;
+    role: string;
+    teamIds: number[]; // Teams the agent belongs to
+    ledTeamIds: number[]; // Teams the agent leads
+}
+
+export interface VisibilityTicket {
+    requester_id: string;
+    assignee_id?: string | null;
+    team_id?: number | null;
+}
+
+// The user's role and, for agents, their team memberships. Null when the user has no profile.
+export async function loadTicketAccessScope(supabase: SupabaseClient, userId: string): Promise<TicketAccessScope | null> {
+    const { data: profile, error: profileError } = await supabase.from('profiles').select('role').eq('id', userId).maybeSingle();
+    if (profileError) throw profileError;
+    if (!profile?.role) return null;
+    if (profile.role !== 'agent') return { userId, role: profile.role, teamIds: [], ledTeamIds: [] };
+
+    const { data: memberships, error } = await supabase.from('team_members').select('team_id, is_lead').eq('agent_id', userId);
+    if (error) throw error;
+    return {
+        userId,
+        role: profile.role,
+        teamIds: (memberships || []).map(m => m.team_id as number),
+        ledTeamIds: (memberships || []).filter(m => m.is_lead).map(m => m.team_id as number),
+    };
+}
+
+export function canViewTicket(ticket: VisibilityTicket, scope: TicketAccessScope): boolean {
+    if (scope.role === 'admin') return true;
+    if (scope.role === 'customer') return ticket.requester_id === scope.userId;
+    if (scope.role !== 'agent') return false;
+
+    const teamId = ticket.team_id ?? null;
+    if (ticket.assignee_id === scope.userId) return true;
+    if (!ticket.assignee_id && (teamId === null || scope.teamIds.includes(teamId))) return true;
+    return teamId !== null && scope.ledTeamIds.includes(teamId);
+}
+
+// The agent rule of canViewTicket as a PostgREST "or" filter for ticket queries
+export function agentVisibilityFilter(scope: TicketAccessScope): string {
+    const visible = [`assignee_id.eq.${scope.userId}`, 'and(assignee_id.is.null,team_id.is.null)'];
+    if (scope.teamIds.length) visible.push(`and(assignee_id.is.null,team_id.in.(${scope.teamIds.join(',')}))`);
+    if (scope.ledTeamIds.length) visible.push(`team_id.in.(${scope.ledTeamIds.join(',')})`);
+    return visible.join(',');
+}
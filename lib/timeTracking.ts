@@ -0,0 +1,30 @@
+// lib/timeTracking.ts
+
+// Duration helpers for agent time entries. Tracked time is billed in hours, so unlike formatSlaDuration
+// in lib/sla.ts durations are never rolled up into days.
+
+// Formats minutes as e.g. "45m", "3h 10m" or "26h"
+export function formatTrackedTime(totalMinutes: number): string {
+    const minutes = Math.max(0, Math.round(totalMinutes));
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) return `${hours}h${mins ? ` ${mins}m` : ''}`;
+    return `${mins}m`;
+}
+
+// Accepts "90", "45m", "1h 30m", "1.5h" or "1:30"; returns null for anything else or a zero duration
+export function parseDuration(input: string): number | null {
+    const text = input.trim().toLowerCase();
+    let minutes: number | null = null;
+    const clock = text.match(/^(\d+):([0-5]\d)$/);
+    const units = text.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+    if (/^\d+$/.test(text)) minutes = parseInt(text, 10);
+    else if (clock) minutes = parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+    else if (units && (units[1] || units[2])) minutes = Math.round(parseFloat(units[1] || '0') * 60) + parseInt(units[2] || '0', 10);
+    return minutes && minutes > 0 ? minutes : null;
+}
+
+// A started timer always counts at least one minute
+export function timerMinutes(startedAt: string, endedAt: Date = new Date()): number {
+    return Math.max(1, Math.ceil((endedAt.getTime() - new Date(startedAt).getTime()) / 60000));
+}
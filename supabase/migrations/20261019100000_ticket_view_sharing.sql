@@ -0,0 +1,57 @@
+-- Saved ticket views: only agents and admins can share a view, either with all staff or with one team.
+-- lib/dataService.ts (fetchTicketViews) filters the same way; these policies are what actually enforce it.
+
+alter table public.ticket_views
+  add column if not exists shared_team_id bigint references public.teams (id) on delete set null;
+
+-- True when the signed-in user is an agent or an admin. Security definer so policies on other tables
+-- can call it without also needing read access to profiles.
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from profiles where id = auth.uid() and role in ('agent', 'admin'));
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from profiles where id = auth.uid() and role = 'admin');
+$$;
+
+alter table public.ticket_views enable row level security;
+
+drop policy if exists "ticket_views_select" on public.ticket_views;
+create policy "ticket_views_select" on public.ticket_views
+  for select using (
+    owner_id = auth.uid()
+    or (
+      is_shared
+      and public.is_staff()
+      and (
+        shared_team_id is null
+        or public.is_admin()
+        or exists (select 1 from public.team_members m where m.team_id = ticket_views.shared_team_id and m.agent_id = auth.uid())
+      )
+    )
+  );
+
+drop policy if exists "ticket_views_insert" on public.ticket_views;
+create policy "ticket_views_insert" on public.ticket_views
+  for insert with check (owner_id = auth.uid() and (not is_shared or public.is_staff()));
+
+drop policy if exists "ticket_views_update" on public.ticket_views;
+create policy "ticket_views_update" on public.ticket_views
+  for update using (owner_id = auth.uid())
+  with check (owner_id = auth.uid() and (not is_shared or public.is_staff()));
+
+drop policy if exists "ticket_views_delete" on public.ticket_views;
+create policy "ticket_views_delete" on public.ticket_views
+  for delete using (owner_id = auth.uid());
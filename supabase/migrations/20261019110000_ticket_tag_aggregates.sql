@@ -0,0 +1,26 @@
+-- Tag reports aggregated in the database, so they cover every ticket instead of the first page of rows
+-- PostgREST returns. Security invoker (the default): the caller's ticket policies still apply.
+
+-- Every distinct tag in use, for the tag filters and suggestions
+create or replace function public.ticket_tags()
+returns table (tag text)
+language sql
+stable
+as $$
+  select distinct t.tag
+  from public.tickets, unnest(tickets.tags) as t(tag)
+  order by t.tag;
+$$;
+
+-- Tickets per tag; a ticket counts once for each of its tags, and tickets without tags count as 'Untagged'
+create or replace function public.ticket_volume_by_tag()
+returns table (tag text, ticket_count bigint)
+language sql
+stable
+as $$
+  select coalesce(t.tag, 'Untagged') as tag, count(*) as ticket_count
+  from public.tickets
+  left join lateral unnest(tickets.tags) as t(tag) on true
+  group by 1
+  order by 2 desc, 1;
+$$;
@@ -0,0 +1,94 @@
+-- Queue of ticket changes made by users through the browser client. Triggers record one row per real change,
+-- in the same transaction as the change itself, and lib/ticketChanges.ts follows each of them up once on the
+-- server: auto-assignment, event automations, the SLA clock and the CSAT survey. The user's own request
+-- processes its changes right away (app/api/tickets/changes); the scheduler picks up whatever is left.
+
+create table if not exists public.ticket_changes (
+  id bigint generated always as identity primary key,
+  ticket_id bigint not null references public.tickets (id) on delete cascade,
+  event text not null check (event in ('ticket_created', 'ticket_updated', 'status_changed', 'comment_added')),
+  actor_id uuid references public.profiles (id) on delete set null,
+  old_row jsonb, -- The ticket before an update
+  new_row jsonb, -- The ticket after the change, or the new comment
+  created_at timestamptz not null default now(),
+  claimed_at timestamptz,
+  processed_at timestamptz,
+  error text
+);
+
+create index if not exists ticket_changes_pending_idx on public.ticket_changes (id) where processed_at is null;
+
+-- No policies: only the service role reads or writes the queue
+alter table public.ticket_changes enable row level security;
+
+create or replace function public.queue_ticket_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  change_event text;
+begin
+  -- Writes made with the service role have no user and do their own follow-up
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  if tg_table_name = 'ticket_comments' then
+    insert into ticket_changes (ticket_id, event, actor_id, new_row)
+    values (new.ticket_id, 'comment_added', auth.uid(), to_jsonb(new));
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    change_event := 'ticket_created';
+  elsif new.status_id is distinct from old.status_id then
+    change_event := 'status_changed';
+  elsif to_jsonb(new) - 'updated_at' is distinct from to_jsonb(old) - 'updated_at' then
+    change_event := 'ticket_updated';
+  else
+    return null; -- Only the timestamp changed
+  end if;
+
+  insert into ticket_changes (ticket_id, event, actor_id, old_row, new_row)
+  values (new.id, change_event, auth.uid(), case when tg_op = 'UPDATE' then to_jsonb(old) end, to_jsonb(new));
+  return null;
+end;
+$$;
+
+drop trigger if exists tickets_queue_change on public.tickets;
+create trigger tickets_queue_change
+  after insert or update on public.tickets
+  for each row execute function public.queue_ticket_change();
+
+drop trigger if exists ticket_comments_queue_change on public.ticket_comments;
+create trigger ticket_comments_queue_change
+  after insert on public.ticket_comments
+  for each row execute function public.queue_ticket_change();
+
+-- Marks up to max_rows pending changes as claimed and returns them, oldest first. With claimant_id only that
+-- user's changes are claimed. Rows locked by a concurrent claim are skipped, so every change is handed out
+-- once; a claim left unfinished for ten minutes (e.g. the request died) is handed out again.
+create or replace function public.claim_ticket_changes(claimant_id uuid, max_rows integer)
+returns setof public.ticket_changes
+language sql
+security definer
+set search_path = public
+as $$
+  update ticket_changes
+  set claimed_at = now()
+  where id in (
+    select id
+    from ticket_changes
+    where processed_at is null
+      and (claimed_at is null or claimed_at < now() - interval '10 minutes')
+      and (claimant_id is null or actor_id = claimant_id)
+    order by id
+    limit max_rows
+    for update skip locked
+  )
+  returning *;
+$$;
+
+revoke execute on function public.claim_ticket_changes(uuid, integer) from public, anon, authenticated;
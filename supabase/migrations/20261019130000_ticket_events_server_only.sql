@@ -0,0 +1,40 @@
+-- The ticket history is written on the server only. User changes are recorded by lib/ticketChanges.ts from
+-- the ticket_changes queue, so a browser client can no longer add, edit or remove history entries.
+
+revoke insert, update, delete on public.ticket_events from anon, authenticated;
+
+-- Links and unlinks are queued as well, so both tickets' histories record them. old_row holds the removed
+-- link, new_row the new one.
+alter table public.ticket_changes drop constraint if exists ticket_changes_event_check;
+alter table public.ticket_changes add constraint ticket_changes_event_check
+  check (event in ('ticket_created', 'ticket_updated', 'status_changed', 'comment_added', 'linked', 'unlinked'));
+
+create or replace function public.queue_ticket_link_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Writes made with the service role have no user and do their own follow-up
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into ticket_changes (ticket_id, event, actor_id, new_row)
+    values (new.source_ticket_id, 'linked', auth.uid(), to_jsonb(new));
+  elsif exists (select 1 from tickets where id = old.source_ticket_id)
+    and exists (select 1 from tickets where id = old.target_ticket_id) then
+    -- Links removed along with a deleted ticket have no history left to write to
+    insert into ticket_changes (ticket_id, event, actor_id, old_row)
+    values (old.source_ticket_id, 'unlinked', auth.uid(), to_jsonb(old));
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists ticket_links_queue_change on public.ticket_links;
+create trigger ticket_links_queue_change
+  after insert or delete on public.ticket_links
+  for each row execute function public.queue_ticket_link_change();
@@ -0,0 +1,70 @@
+-- Merges a duplicate ticket into the ticket that survives (lib/ticketMerge.ts), all in one transaction: the
+-- duplicate's comments and attachments move to the target, its description is kept as a comment on the target,
+-- it is closed with a link to the target, both histories record the merge and the duplicate's requester is
+-- notified. A failure anywhere leaves both tickets untouched. Attachments keep their storage paths.
+
+create or replace function public.merge_tickets(
+  source_ticket_id bigint,
+  target_ticket_id bigint,
+  closed_status_id bigint,
+  actor_id uuid,
+  merge_note text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  source_ticket tickets%rowtype;
+  target_ticket tickets%rowtype;
+  old_status_name text;
+  closed_status_name text;
+begin
+  -- Locked in id order so two merges of the same pair cannot deadlock
+  perform 1 from tickets where id in (source_ticket_id, target_ticket_id) order by id for update;
+  select * into source_ticket from tickets where id = source_ticket_id;
+  select * into target_ticket from tickets where id = target_ticket_id;
+  if source_ticket.id is null or target_ticket.id is null then
+    raise exception 'Ticket #% not found', case when source_ticket.id is null then source_ticket_id else target_ticket_id end;
+  end if;
+  -- Checked again under the lock: another merge may have committed since the caller looked
+  if source_ticket.merged_into_ticket_id is not null or target_ticket.merged_into_ticket_id is not null then
+    raise exception 'Ticket #% was already merged', case when source_ticket.merged_into_ticket_id is not null then source_ticket_id else target_ticket_id end;
+  end if;
+
+  select name into old_status_name from ticket_statuses where id = source_ticket.status_id;
+  select name into closed_status_name from ticket_statuses where id = closed_status_id;
+
+  update ticket_comments set ticket_id = target_ticket_id where ticket_id = source_ticket_id;
+  update ticket_attachments set ticket_id = target_ticket_id where ticket_id = source_ticket_id;
+
+  insert into ticket_comments (ticket_id, user_id, comment_text, is_internal_note)
+  values (target_ticket_id, actor_id, merge_note, false);
+
+  update tickets
+  set status_id = closed_status_id, merged_into_ticket_id = target_ticket_id, updated_at = now()
+  where id = source_ticket_id;
+  update tickets set updated_at = now() where id = target_ticket_id;
+
+  insert into ticket_events (ticket_id, actor_id, event_type, field, old_value, new_value, metadata)
+  values
+    (source_ticket_id, actor_id, 'merged', null, null, '#' || target_ticket_id, jsonb_build_object('merged_into_ticket_id', target_ticket_id)),
+    (target_ticket_id, actor_id, 'merged', null, '#' || source_ticket_id, null, jsonb_build_object('merged_ticket_id', source_ticket_id));
+  if source_ticket.status_id is distinct from closed_status_id then
+    insert into ticket_events (ticket_id, actor_id, event_type, field, old_value, new_value, metadata)
+    values (source_ticket_id, actor_id, 'field_changed', 'status', old_status_name, closed_status_name, '{}'::jsonb);
+  end if;
+
+  insert into notifications (user_id, ticket_id, message, type, is_read)
+  values (
+    source_ticket.requester_id,
+    target_ticket_id,
+    format('Your ticket #%s "%s" was merged into ticket #%s. Follow the conversation there.', source_ticket_id, source_ticket.subject, target_ticket_id),
+    'ticket_merged',
+    false
+  );
+end;
+$$;
+
+revoke execute on function public.merge_tickets(bigint, bigint, bigint, uuid, text) from public, anon, authenticated;
@@ -0,0 +1,99 @@
+-- Full-text ticket search (lib/ticketSearch.ts). The subject weighs more than the description; comments are
+-- indexed on their own so a match can be shown with the comment it came from.
+
+alter table public.tickets
+  add column if not exists search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(subject, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) stored;
+
+alter table public.ticket_comments
+  add column if not exists search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(comment_text, '')), 'C')
+  ) stored;
+
+create index if not exists tickets_search_vector_idx on public.tickets using gin (search_vector);
+create index if not exists ticket_comments_search_vector_idx on public.ticket_comments using gin (search_vector);
+
+-- Ranked matches, one row per ticket with its best match: the ticket itself or one of its comments.
+-- search_query takes web search syntax ("quoted phrases", or, -word). The visibility rule of
+-- lib/ticketVisibility.ts is applied before max_results: requester_filter limits to a customer's tickets,
+-- agent_filter with the agent's teams to what that agent may see. Null filters leave the tickets unfiltered.
+create or replace function public.search_tickets(
+  search_query text,
+  include_internal_notes boolean,
+  requester_filter uuid,
+  agent_filter uuid,
+  agent_team_ids bigint[],
+  agent_led_team_ids bigint[],
+  max_results integer
+)
+returns table (
+  ticket_id bigint,
+  rank real,
+  subject_highlight text,
+  snippet text,
+  matched_in text,
+  requester_id uuid,
+  assignee_id uuid,
+  team_id bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  with search as (
+    select websearch_to_tsquery('english', search_query) as query
+  ),
+  visible as (
+    select t.*
+    from tickets t
+    where (requester_filter is null or t.requester_id = requester_filter)
+      and (
+        agent_filter is null
+        or t.assignee_id = agent_filter
+        or (t.assignee_id is null and (t.team_id is null or t.team_id = any (coalesce(agent_team_ids, '{}'))))
+        or t.team_id = any (coalesce(agent_led_team_ids, '{}'))
+      )
+  ),
+  matches as (
+    select
+      t.id as ticket_id,
+      ts_rank(t.search_vector, s.query) as rank,
+      case when to_tsvector('english', coalesce(t.subject, '')) @@ s.query then 'subject' else 'description' end as matched_in,
+      t.description as matched_text
+    from visible t, search s
+    where t.search_vector @@ s.query
+    union all
+    select c.ticket_id, ts_rank(c.search_vector, s.query), 'comment', c.comment_text
+    from ticket_comments c
+    join visible t on t.id = c.ticket_id
+    cross join search s
+    where c.search_vector @@ s.query
+      and (include_internal_notes or not c.is_internal_note)
+  ),
+  best as (
+    select distinct on (m.ticket_id) m.*
+    from matches m
+    order by m.ticket_id, m.rank desc
+  ),
+  ranked as (
+    select * from best order by rank desc limit max_results
+  )
+  select
+    b.ticket_id,
+    b.rank,
+    ts_headline('english', t.subject, s.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline('english', coalesce(b.matched_text, ''), s.query, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=1, MinWords=10, MaxWords=30'),
+    b.matched_in,
+    t.requester_id,
+    t.assignee_id,
+    t.team_id
+  from ranked b
+  join tickets t on t.id = b.ticket_id
+  cross join search s
+  order by b.rank desc;
+$$;
+
+-- Only the server calls it, with filters derived from the caller's role (app/api/tickets/search)
+revoke execute on function public.search_tickets(text, boolean, uuid, uuid, bigint[], bigint[], integer) from public, anon, authenticated;
@@ -0,0 +1,4 @@
+-- Ticket history is read through the server (app/api/tickets/events), which leaves automation and escalation
+-- activity, escalation reasons included, out of customers' timelines. Reading the table directly would bypass that.
+
+revoke select on public.ticket_events from anon, authenticated;